@@ -1,47 +1,1064 @@
-import { useEffect, useMemo, useState } from "react";
-import { Link, Route, Routes, useParams } from "react-router-dom";
-
-type Movie = {
-  id: string;
-  title: string;
-  year: number;
-  source: "api" | "local";
-};
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+import {
+  Link,
+  Route,
+  Routes,
+  useNavigate,
+  useParams,
+} from "react-router-dom";
+
+import {
+  apiUrl,
+  ApiError,
+  callApi,
+  callApiWithEtag,
+  setTokenSource,
+} from "./api/client";
+import type {
+  CastMember,
+  ImportReport,
+  Movie,
+  MovieListDetail,
+  MovieListSummary,
+  MoviePage,
+  MovieRating,
+  MovieWithStats,
+  Recommendation,
+  Review,
+  ReviewStats,
+  ReviewsPage,
+  Operations,
+  SearchHit,
+  Session,
+  User,
+} from "./api/schema";
+
+// ?format= of POST /movies/import and GET /movies/export
+type BulkFormat = ImportReport["format"];
+type DuplicatePolicy = ImportReport["onDuplicate"];
+
+// ?sort= values accepted by GET /movies
+type SortField = NonNullable<MoviePage["meta"]["sort"]>;
+
+type PaginationMeta = Pick<
+  MoviePage["meta"],
+  "totalItems" | "totalPages" | "hasNextPage" | "hasPrevPage"
+>;
+
+type ReviewSort = ReviewsPage["sort"];
+
+// GET /movies/export filters (all but the format)
+type ExportQuery = Omit<Operations["exportMovies"]["query"], "format">;
+
+const SESSION_STORAGE_KEY = "movies.session";
+
+/**
+ * The stored session, unless it has expired.
+ */
+function readSession(): Session | null {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session = raw ? (JSON.parse(raw) as Session) : null;
+    if (session && Date.parse(session.expiresAt) > Date.now()) return session;
+  } catch {
+    // unreadable: treat as signed out
+  }
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  return null;
+}
+
+// API calls are made as the signed-in user
+setTokenSource(() => readSession()?.token ?? null);
+
+/**
+ * Sign in, or create an account and sign it in.
+ */
+function authenticate(
+  mode: "login" | "register",
+  username: string,
+  password: string
+) {
+  return callApi(mode, {
+    body: { username, password },
+    errorMessage: mode === "login" ? "Sign in failed" : "Registration failed",
+  });
+}
+
+/**
+ * The signed-in user (null when signed out), shared by every page.
+ */
+const AuthContext = createContext<{
+  user: User | null;
+  signIn: (session: Session) => void;
+  signOut: () => void;
+}>({ user: null, signIn: () => {}, signOut: () => {} });
+
+function useAuth() {
+  return useContext(AuthContext);
+}
+
+/**
+ * Sign-in / registration form in a Bootstrap modal.
+ */
+function LoginModal(props: { onClose: () => void }) {
+  const { onClose } = props;
+  const { signIn } = useAuth();
+
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  async function submit() {
+    if (!username.trim() || !password) {
+      setFormError("Username and password are required.");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      signIn(await authenticate(mode, username.trim(), password));
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setFormError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="modal-backdrop fade show" />
+      <div
+        className="modal fade show"
+        style={{ display: "block" }}
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="modal-dialog modal-dialog-centered" role="document">
+          <form
+            className="modal-content"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <div className="modal-header">
+              <h5 className="modal-title">
+                {mode === "login" ? "Sign in" : "Create an account"}
+              </h5>
+              <button
+                type="button"
+                className="btn-close"
+                aria-label="Close"
+                onClick={onClose}
+                disabled={submitting}
+              />
+            </div>
+
+            <div className="modal-body">
+              {formError && (
+                <div className="alert alert-danger">{formError}</div>
+              )}
+
+              <div className="mb-3">
+                <label className="form-label" htmlFor="login-username">
+                  Username
+                </label>
+                <input
+                  id="login-username"
+                  className="form-control"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  autoComplete="username"
+                  autoFocus
+                  disabled={submitting}
+                />
+              </div>
+
+              <div className="mb-2">
+                <label className="form-label" htmlFor="login-password">
+                  Password
+                </label>
+                <input
+                  id="login-password"
+                  type="password"
+                  className="form-control"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={
+                    mode === "login" ? "current-password" : "new-password"
+                  }
+                  disabled={submitting}
+                />
+                {mode === "register" && (
+                  <div className="form-text">
+                    At least 8 characters. New accounts can browse; an
+                    editor can let you add and edit movies.
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="modal-footer justify-content-between">
+              <button
+                type="button"
+                className="btn btn-link px-0"
+                onClick={() => {
+                  setMode(mode === "login" ? "register" : "login");
+                  setFormError(null);
+                }}
+                disabled={submitting}
+              >
+                {mode === "login"
+                  ? "No account? Register"
+                  : "Have an account? Sign in"}
+              </button>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={submitting}
+              >
+                {submitting
+                  ? "Please wait..."
+                  : mode === "login"
+                    ? "Sign in"
+                    : "Register"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Navbar corner: who is signed in, or a button to sign in.
+ */
+function AccountMenu() {
+  const { user, signOut } = useAuth();
+  const [showLogin, setShowLogin] = useState(false);
+
+  if (!user) {
+    return (
+      <>
+        <button
+          className="btn btn-sm btn-outline-light"
+          onClick={() => setShowLogin(true)}
+        >
+          Sign in
+        </button>
+        {showLogin && <LoginModal onClose={() => setShowLogin(false)} />}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Link to="/lists" className="btn btn-sm btn-outline-light">
+        My lists
+      </Link>
+      <span className="navbar-text small text-white">
+        {user.username}{" "}
+        <span className="badge bg-secondary">{user.role}</span>
+      </span>
+      <button className="btn btn-sm btn-outline-light" onClick={signOut}>
+        Sign out
+      </button>
+    </>
+  );
+}
+
+/**
+ * The signed-in user's lists; with movieId, each says whether it holds
+ * that movie.
+ */
+async function fetchLists(movieId?: string) {
+  const data = await callApi("listLists", {
+    query: { movieId },
+    errorMessage: "Failed to load your lists",
+  });
+  return data.items;
+}
+
+function fetchList(listId: string) {
+  return callApi("getList", {
+    params: { listId },
+    errorMessage: "Failed to load the list",
+  });
+}
+
+/**
+ * Create a list (name given) or rename one (listId and name given).
+ */
+function saveList(name: string, listId?: string) {
+  const errorMessage = "Failed to save the list";
+  return listId
+    ? callApi("renameList", { params: { listId }, body: { name }, errorMessage })
+    : callApi("createList", { body: { name }, errorMessage });
+}
+
+async function deleteList(listId: string) {
+  await callApi("deleteList", {
+    params: { listId },
+    errorMessage: "Failed to delete the list",
+  });
+}
 
-type MoviesPaginatedResponse = {
-  page: number;
-  pageSize: number;
-  items: Movie[];
-  meta?: unknown;
+/**
+ * Put a movie on a list, or take it off.
+ */
+async function setListItem(listId: string, movieId: string, on: boolean) {
+  await callApi(on ? "addListItem" : "removeListItem", {
+    params: { listId, movieId },
+    errorMessage: "Failed to update the list",
+  });
+}
+
+/**
+ * The user's rating of a movie; null when they haven't rated it.
+ */
+async function fetchRating(movieId: string) {
+  try {
+    return await callApi("getRating", {
+      params: { id: movieId },
+      errorMessage: "Failed to load your rating",
+    });
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Save a rating, or forget it when `values` is null.
+ */
+async function saveRating(
+  movieId: string,
+  values: Pick<MovieRating, "stars" | "watchedAt"> | null
+) {
+  const params = { id: movieId };
+  const errorMessage = "Failed to save your rating";
+  if (values) return callApi("setRating", { params, body: values, errorMessage });
+
+  await callApi("deleteRating", { params, errorMessage });
+  return null;
+}
+
+function fetchReviews(movieId: string, page: number, sort: ReviewSort) {
+  return callApi("listReviews", {
+    params: { id: movieId },
+    query: { page, sort },
+    errorMessage: "Failed to load reviews",
+  });
+}
+
+/**
+ * Review a movie, or reply to a review of it (parentId given).
+ */
+function postReview(
+  movieId: string,
+  values: { text: string; stars?: number; parentId?: string }
+) {
+  return callApi("createReview", {
+    params: { id: movieId },
+    body: values,
+    errorMessage: "Failed to post the review",
+  });
+}
+
+/**
+ * Change your own review; stars: null removes them.
+ */
+async function updateReview(
+  reviewId: string,
+  values: { text?: string; stars?: number | null }
+) {
+  await callApi("updateReview", {
+    params: { reviewId },
+    body: values,
+    errorMessage: "Failed to save the review",
+  });
+}
+
+async function deleteReview(reviewId: string) {
+  await callApi("deleteReview", {
+    params: { reviewId },
+    errorMessage: "Failed to delete the review",
+  });
+}
+
+/**
+ * Hide a review (moderators), or show it again.
+ */
+async function moderateReview(reviewId: string, hidden: boolean) {
+  await callApi("moderateReview", {
+    params: { reviewId },
+    body: { hidden },
+    errorMessage: "Failed to moderate the review",
+  });
+}
+
+async function voteHelpful(reviewId: string, on: boolean) {
+  await callApi(on ? "markReviewHelpful" : "unmarkReviewHelpful", {
+    params: { reviewId },
+    errorMessage: "Failed to save your vote",
+  });
+}
+
+/**
+ * "third_party" -> "Third Party"
+ */
+function providerLabel(name: string) {
+  return name
+    .split(/[_-]/)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/**
+ * Render text with the given [start, end) ranges wrapped in <mark>.
+ */
+function Highlighted(props: { text: string; ranges: [number, number][] }) {
+  const { text, ranges } = props;
+  const parts: ReactNode[] = [];
+  let pos = 0;
+
+  ranges.forEach(([start, end], i) => {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(<mark key={i}>{text.slice(start, end)}</mark>);
+    pos = end;
+  });
+  if (pos < text.length) parts.push(text.slice(pos));
+
+  return <>{parts}</>;
+}
+
+type MovieFormValues = Omit<Movie, "id" | "source" | "createdAt">;
+
+/**
+ * "Name as Character" per line <-> CastMember[]
+ */
+function castToText(cast: CastMember[] | undefined) {
+  return (cast ?? [])
+    .map((c) => (c.character ? `${c.name} as ${c.character}` : c.name))
+    .join("\n");
+}
+
+function textToCast(text: string): CastMember[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, character] = line.split(/\s+as\s+/);
+      return character ? { name, character } : { name };
+    });
+}
+
+/**
+ * Turn "412 Precondition Failed" (the movie changed since its ETag was
+ * read) into a message an editor can act on.
+ */
+function explainConflict(err: unknown): never {
+  if (err instanceof ApiError && err.status === 412) {
+    throw new Error(
+      "Someone else changed this movie since you opened it. " +
+        "Reload it to see their changes, then try again."
+    );
+  }
+  throw err;
+}
+
+/**
+ * PUT a local movie and return the saved version with its new ETag.
+ * With etag, only if nobody changed the movie since it was read.
+ */
+function updateMovie(
+  id: string,
+  values: MovieFormValues,
+  etag: string | null = null
+) {
+  return callApiWithEtag("replaceMovie", {
+    params: { id },
+    body: values,
+    ifMatch: etag ?? undefined,
+    errorMessage: "Update failed",
+  }).catch(explainConflict);
+}
+
+/**
+ * Copy a provider movie into the local library; resolves to the new
+ * local movie.
+ */
+function importMovie(id: string) {
+  return callApi("importProviderMovie", {
+    params: { tpId: id },
+    errorMessage: "Failed to import movie",
+  });
+}
+
+// Content-Type sent for each upload format
+const BULK_CONTENT_TYPES: Record<BulkFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
 };
 
+/**
+ * "movies.csv" -> "csv"; .ndjson and .jsonl are NDJSON, anything else JSON.
+ */
+function bulkFormatOf(fileName: string): BulkFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv") return "csv";
+  if (ext === "ndjson" || ext === "jsonl") return "ndjson";
+  return "json";
+}
+
+/**
+ * Upload a CSV/JSON/NDJSON file of movies into the local library.
+ * With onDuplicate "fail", a clash rejects with the report in
+ * ApiError.problem.report.
+ */
+function importMovies(
+  file: File,
+  options: { dryRun: boolean; onDuplicate: DuplicatePolicy }
+) {
+  const format = bulkFormatOf(file.name);
+  return callApi("importMovies", {
+    query: { format, ...options },
+    body: file,
+    contentType: BULK_CONTENT_TYPES[format],
+    errorMessage: "Import failed",
+  });
+}
+
+/**
+ * DELETE a local movie.
+ */
+/**
+ * DELETE a local movie. With etag, only if nobody changed the movie since
+ * it was read.
+ */
+async function deleteMovie(id: string, etag: string | null = null) {
+  await callApi("deleteMovie", {
+    params: { id },
+    ifMatch: etag ?? undefined,
+    errorMessage: "Delete failed",
+  }).catch(explainConflict);
+}
+
+/**
+ * Title/year form in a Bootstrap modal, shared by "add" and "edit".
+ * Validation mirrors the server (title required, year 1888–2100);
+ * errors thrown by onSubmit are shown inside the modal.
+ */
+function MovieFormModal(props: {
+  heading: string;
+  submitLabel: string;
+  busyLabel: string;
+  initial?: MovieFormValues;
+  onSubmit: (values: MovieFormValues) => Promise<void>;
+  onClose: () => void;
+}) {
+  const { heading, submitLabel, busyLabel, initial, onSubmit, onClose } =
+    props;
+
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [year, setYear] = useState<string>(
+    initial ? String(initial.year) : ""
+  );
+
+  // Optional details
+  const [overview, setOverview] = useState(initial?.overview ?? "");
+  const [genres, setGenres] = useState(initial?.genres?.join(", ") ?? "");
+  const [runtime, setRuntime] = useState(
+    initial?.runtime ? String(initial.runtime) : ""
+  );
+  const [posterUrl, setPosterUrl] = useState(initial?.posterUrl ?? "");
+  const [language, setLanguage] = useState(initial?.originalLanguage ?? "");
+  const [cast, setCast] = useState(castToText(initial?.cast));
+
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const detailFields = [
+    "overview",
+    "genres",
+    "runtime",
+    "posterUrl",
+    "originalLanguage",
+    "cast",
+  ];
+  const hasDetailErrors = detailFields.some((f) => fieldErrors[f]);
+
+  // Bootstrap classes + message for one input, from the server's field errors
+  function inputClass(field: string) {
+    return `form-control${fieldErrors[field] ? " is-invalid" : ""}`;
+  }
+
+  function feedback(field: string) {
+    return fieldErrors[field] ? (
+      <div className="invalid-feedback">{fieldErrors[field]}</div>
+    ) : null;
+  }
+
+  async function submit() {
+    setFormError(null);
+    setFieldErrors({});
+
+    const trimmed = title.trim();
+    const yearNum = Number(year);
+
+    if (!trimmed) {
+      setFormError("Title is required.");
+      return;
+    }
+    if (!Number.isFinite(yearNum) || yearNum < 1888 || yearNum > 2100) {
+      setFormError("Year must be a valid number (1888–2100).");
+      return;
+    }
+
+    const runtimeNum = Number(runtime);
+    if (runtime.trim() && (!Number.isFinite(runtimeNum) || runtimeNum <= 0)) {
+      setFormError("Runtime must be a positive number of minutes.");
+      return;
+    }
+    if (posterUrl.trim() && !/^https?:\/\//.test(posterUrl.trim())) {
+      setFormError("Poster URL must start with http:// or https://.");
+      return;
+    }
+
+    // Empty optional fields are left out (PUT clears them)
+    const values: MovieFormValues = { title: trimmed, year: yearNum };
+    const genreList = genres
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean);
+    const castList = textToCast(cast);
+
+    if (overview.trim()) values.overview = overview.trim();
+    if (genreList.length) values.genres = genreList;
+    if (runtime.trim()) values.runtime = runtimeNum;
+    if (posterUrl.trim()) values.posterUrl = posterUrl.trim();
+    if (language.trim()) values.originalLanguage = language.trim();
+    if (castList.length) values.cast = castList;
+
+    try {
+      setSubmitting(true);
+      await onSubmit(values);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError) setFieldErrors(err.fieldErrors);
+      setFormError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="modal-backdrop fade show" />
+      <div
+        className="modal fade show"
+        style={{ display: "block" }}
+        role="dialog"
+        aria-modal="true"
+      >
+        <div className="modal-dialog modal-dialog-centered" role="document">
+          <div className="modal-content">
+            <div className="modal-header">
+              <h5 className="modal-title">{heading}</h5>
+              <button
+                type="button"
+                className="btn-close"
+                aria-label="Close"
+                onClick={onClose}
+                disabled={submitting}
+              />
+            </div>
+
+            <div className="modal-body">
+              {formError && (
+                <div className="alert alert-danger">{formError}</div>
+              )}
+
+              <div className="mb-3">
+                <label className="form-label">Title</label>
+                <input
+                  className={inputClass("title")}
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g. My New Movie"
+                  autoFocus
+                  disabled={submitting}
+                />
+                {feedback("title")}
+              </div>
+
+              <div className="mb-2">
+                <label className="form-label">Year</label>
+                <input
+                  className={inputClass("year")}
+                  value={year}
+                  onChange={(e) => setYear(e.target.value)}
+                  placeholder="e.g. 2024"
+                  disabled={submitting}
+                  inputMode="numeric"
+                />
+                {feedback("year")}
+                <div className="form-text">Valid range: 1888–2100</div>
+              </div>
+
+              <details
+                className="mt-3"
+                open={hasDetailErrors || undefined}
+              >
+                <summary className="mb-2">More details (optional)</summary>
+
+                <div className="mb-3">
+                  <label className="form-label">Overview</label>
+                  <textarea
+                    className={inputClass("overview")}
+                    rows={3}
+                    value={overview}
+                    onChange={(e) => setOverview(e.target.value)}
+                    disabled={submitting}
+                  />
+                  {feedback("overview")}
+                </div>
+
+                <div className="row g-3 mb-3">
+                  <div className="col-12 col-md-8">
+                    <label className="form-label">Genres</label>
+                    <input
+                      className={inputClass("genres")}
+                      value={genres}
+                      onChange={(e) => setGenres(e.target.value)}
+                      placeholder="e.g. Drama, Action"
+                      disabled={submitting}
+                    />
+                    {feedback("genres")}
+                  </div>
+                  <div className="col-6 col-md-4">
+                    <label className="form-label">Runtime (min)</label>
+                    <input
+                      className={inputClass("runtime")}
+                      value={runtime}
+                      onChange={(e) => setRuntime(e.target.value)}
+                      inputMode="numeric"
+                      disabled={submitting}
+                    />
+                    {feedback("runtime")}
+                  </div>
+                </div>
+
+                <div className="row g-3 mb-3">
+                  <div className="col-12 col-md-8">
+                    <label className="form-label">Poster URL</label>
+                    <input
+                      className={inputClass("posterUrl")}
+                      value={posterUrl}
+                      onChange={(e) => setPosterUrl(e.target.value)}
+                      placeholder="https://..."
+                      disabled={submitting}
+                    />
+                    {feedback("posterUrl")}
+                  </div>
+                  <div className="col-6 col-md-4">
+                    <label className="form-label">Language</label>
+                    <input
+                      className={inputClass("originalLanguage")}
+                      value={language}
+                      onChange={(e) => setLanguage(e.target.value)}
+                      placeholder="e.g. en"
+                      disabled={submitting}
+                    />
+                    {feedback("originalLanguage")}
+                  </div>
+                </div>
+
+                <div className="mb-2">
+                  <label className="form-label">Cast</label>
+                  <textarea
+                    className={inputClass("cast")}
+                    rows={3}
+                    value={cast}
+                    onChange={(e) => setCast(e.target.value)}
+                    placeholder={"One per line, e.g.\nAl Pacino as Vincent Hanna"}
+                    disabled={submitting}
+                  />
+                  {feedback("cast")}
+                </div>
+              </details>
+            </div>
+
+            <div className="modal-footer">
+              <button
+                className="btn btn-outline-secondary"
+                onClick={onClose}
+                disabled={submitting}
+              >
+                Cancel
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={submit}
+                disabled={submitting}
+              >
+                {submitting ? busyLabel : submitLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Import a file of movies into the local library (with an optional
+ * preview; editors only), and export the local movies matching the
+ * list's filters. exportQuery holds those filters.
+ */
+function LibraryTransferCard(props: {
+  exportQuery: ExportQuery;
+  onImported: () => Promise<void>;
+}) {
+  const { exportQuery, onImported } = props;
+  const { user } = useAuth();
+  const canImport = user?.role === "editor";
+
+  const [file, setFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [onDuplicate, setOnDuplicate] = useState<DuplicatePolicy>("skip");
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  async function runImport() {
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      setImportError(null);
+      setReport(null);
+
+      const result = await importMovies(file, { dryRun, onDuplicate });
+      setReport(result);
+
+      if (!result.dryRun && result.summary.create + result.summary.overwrite) {
+        await onImported();
+      }
+    } catch (err) {
+      console.error(err);
+      if (err instanceof ApiError && err.problem.report) {
+        setReport(err.problem.report);
+      }
+      setImportError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  // rows that need the user's attention
+  const problemRows = (report?.rows ?? []).filter(
+    (r) => r.action === "invalid" || r.action === "conflict"
+  );
+
+  function describeRow(r: ImportReport["rows"][number]) {
+    if (r.errors) {
+      return r.errors.map((e) => `${e.field}: ${e.message}`).join("; ");
+    }
+    const what = `“${r.title}” (${r.year})`;
+    if (r.duplicateOf && "row" in r.duplicateOf) {
+      return `${what} repeats row ${r.duplicateOf.row}`;
+    }
+    return `${what} is already in your library`;
+  }
+
+  return (
+    <div className="card shadow-sm mb-4">
+      <div className="card-body">
+        <div className="row g-3 align-items-end">
+          {canImport && (
+            <>
+              <div className="col-12 col-md-4">
+                <label className="form-label" htmlFor="import-file">
+                  Import movies (CSV, JSON or NDJSON)
+                </label>
+                <input
+                  id="import-file"
+                  type="file"
+                  className="form-control"
+                  accept=".csv,.json,.ndjson,.jsonl"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null);
+                    setReport(null);
+                    setImportError(null);
+                  }}
+                />
+              </div>
+
+              <div className="col-6 col-md-2">
+                <label className="form-label" htmlFor="import-duplicates">
+                  Duplicates
+                </label>
+                <select
+                  id="import-duplicates"
+                  className="form-select"
+                  value={onDuplicate}
+                  onChange={(e) =>
+                    setOnDuplicate(e.target.value as DuplicatePolicy)
+                  }
+                >
+                  <option value="skip">Skip</option>
+                  <option value="overwrite">Overwrite</option>
+                  <option value="fail">Fail</option>
+                </select>
+              </div>
+
+              <div className="col-6 col-md-3">
+                <div className="form-check mb-2">
+                  <input
+                    id="import-dry-run"
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                  />
+                  <label htmlFor="import-dry-run" className="form-check-label">
+                    Preview only
+                  </label>
+                </div>
+                <button
+                  className="btn btn-outline-primary"
+                  onClick={runImport}
+                  disabled={!file || importing}
+                >
+                  {importing ? "Importing..." : dryRun ? "Preview" : "Import"}
+                </button>
+              </div>
+            </>
+          )}
+
+          <div className="col-12 col-md-3 ms-auto text-md-end">
+            <div className="form-label">Export local movies</div>
+            <div className="btn-group" role="group">
+              {(["csv", "json", "ndjson"] as const).map((format) => (
+                <a
+                  key={format}
+                  className="btn btn-outline-secondary"
+                  href={apiUrl("exportMovies", {
+                    query: { ...exportQuery, format },
+                  })}
+                  download
+                >
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {importError && (
+          <div className="alert alert-danger mt-3 mb-0" role="alert">
+            {importError}
+          </div>
+        )}
+
+        {report && (
+          <div className="mt-3 small">
+            <div>
+              {report.dryRun && <strong>Preview, nothing saved: </strong>}
+              {report.summary.rows} rows — {report.summary.create} new,{" "}
+              {report.summary.overwrite} overwritten, {report.summary.skip}{" "}
+              skipped, {report.summary.invalid} invalid
+              {report.summary.conflict > 0 &&
+                `, ${report.summary.conflict} duplicates`}
+            </div>
+            {problemRows.length > 0 && (
+              <ul className="mb-0 mt-1">
+                {problemRows.map((r) => (
+                  <li key={r.row}>
+                    Row {r.row}: {describeRow(r)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function MoviesListPage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const canEdit = user?.role === "editor";
   const [movies, setMovies] = useState<Movie[]>([]);
   const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState<PaginationMeta | null>(null);
 
   const [pageSize, setPageSize] = useState(12);
-  const [source, setSource] = useState<"all" | "local" | "third_party">("all");
+  const [source, setSource] = useState("all");
+  // show each film once, with links to its other copies (source=all)
+  const [collapse, setCollapse] = useState(false);
+  const [providers, setProviders] = useState<string[]>(["third_party"]);
 
   // Search: input vs applied
   const [searchText, setSearchText] = useState("");
   const [appliedSearch, setAppliedSearch] = useState("");
 
+  // Type-ahead suggestions for the search box (-1 = none highlighted)
+  const [suggestions, setSuggestions] = useState<SearchHit[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+
+  // Sort ("" = default order) and year range: input vs applied
+  const [sort, setSort] = useState<SortField | "">("");
+  const [order, setOrder] = useState<"asc" | "desc">("asc");
+  const [yearFromText, setYearFromText] = useState("");
+  const [yearToText, setYearToText] = useState("");
+  const [yearRange, setYearRange] = useState({ from: "", to: "" });
+
   // Global UI state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Providers that failed on the last load (the list is partial)
+  const [warnings, setWarnings] = useState<string[]>([]);
 
-  // Modal state
+  // Modal state (editing === null means "create"). An edit starts from
+  // the movie's current version and ETag, so saving can't overwrite
+  // someone else's changes.
   const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<{
+    movie: Movie;
+    etag: string | null;
+  } | null>(null);
 
-  // Create form state
-  const [newTitle, setNewTitle] = useState("");
-  const [newYear, setNewYear] = useState<string>("");
-
-  const [creating, setCreating] = useState(false);
-  const [createError, setCreateError] = useState<string | null>(null);
+  // Bumped to load the list again with the current filters
+  const [reloads, setReloads] = useState(0);
+  // Movies others have added since the list was loaded
+  const [newMovies, setNewMovies] = useState(0);
 
   // Recommendations
-  const [recs, setRecs] = useState<Movie[]>([]);
+  const [recs, setRecs] = useState<Recommendation[]>([]);
   const [recsLoading, setRecsLoading] = useState(false);
   const [recsError, setRecsError] = useState<string | null>(null);
 
@@ -50,35 +1067,50 @@ function MoviesListPage() {
     [appliedSearch]
   );
 
+  // The list's filters as GET /movies/export understands them
+  const exportQuery = useMemo<ExportQuery>(
+    () => ({
+      search: normalizedAppliedSearch || undefined,
+      ...(sort && sort !== "source" && { sort, order }),
+      yearFrom: yearRange.from ? Number(yearRange.from) : undefined,
+      yearTo: yearRange.to ? Number(yearRange.to) : undefined,
+    }),
+    [normalizedAppliedSearch, sort, order, yearRange]
+  );
+
   async function loadMovies() {
     try {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams({
-        page: String(page),
-        pageSize: String(pageSize),
-        source,
+      const data = await callApi("listMovies", {
+        query: {
+          page,
+          pageSize,
+          source,
+          search: normalizedAppliedSearch || undefined,
+          ...(sort && { sort, order }),
+          yearFrom: yearRange.from ? Number(yearRange.from) : undefined,
+          yearTo: yearRange.to ? Number(yearRange.to) : undefined,
+          collapse: collapse && source === "all" ? true : undefined,
+        },
+        errorMessage: "Failed to load movies",
       });
 
-      if (normalizedAppliedSearch) {
-        params.set("search", normalizedAppliedSearch);
-      }
-
-      const res = await fetch(`/movies?${params.toString()}`);
-      if (!res.ok) throw new Error(`Failed to load movies (${res.status})`);
-
-      const data = (await res.json()) as MoviesPaginatedResponse;
-      const items = data.items;
-
-      if (!Array.isArray(items)) {
-        throw new Error("Unexpected response shape from /movies");
-      }
-
-      setMovies(items);
+      setMovies(data.items);
+      setPagination({
+        totalItems: data.meta.totalItems,
+        totalPages: data.meta.totalPages,
+        hasNextPage: data.meta.hasNextPage,
+        hasPrevPage: data.meta.hasPrevPage,
+      });
+      setWarnings(data.meta.degraded ? data.meta.warnings ?? [] : []);
+      setNewMovies(0);
     } catch (err) {
       console.error(err);
       setMovies([]);
+      setPagination(null);
+      setWarnings([]);
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
       setLoading(false);
@@ -96,26 +1128,170 @@ function MoviesListPage() {
       ignore = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, pageSize, source, normalizedAppliedSearch]);
+  }, [
+    page,
+    pageSize,
+    source,
+    normalizedAppliedSearch,
+    sort,
+    order,
+    yearRange,
+    collapse,
+    reloads,
+  ]);
+
+  // Registered providers become extra options in the Source select
+  useEffect(() => {
+    callApi("listSources")
+      .then((data) => setProviders(data.items.map((p) => p.name)))
+      .catch((err) => console.error(err));
+  }, []);
+
+  // Live updates: changed and deleted movies are patched into the page;
+  // movies others add are only counted, since where they belong depends
+  // on the filters (the toast reloads). EventSource reconnects by itself
+  // and resumes where it left off.
+  useEffect(() => {
+    const events = new EventSource(apiUrl("streamMovieEvents", {}));
+
+    events.addEventListener("created", (e) => {
+      const { movie } = JSON.parse(e.data) as { movie: Movie };
+      if (movie.createdBy?.id !== user?.id) setNewMovies((n) => n + 1);
+    });
+    events.addEventListener("updated", (e) => {
+      const { movie } = JSON.parse(e.data) as { movie: Movie };
+      setMovies((list) =>
+        list.map((m) => (m.id === movie.id ? { ...m, ...movie } : m))
+      );
+    });
+    events.addEventListener("deleted", (e) => {
+      const { id } = JSON.parse(e.data) as { id: string };
+      setMovies((list) => list.filter((m) => m.id !== id));
+    });
+    // too much changed to patch (or missed): load the page again
+    events.addEventListener("reset", () => setReloads((n) => n + 1));
+
+    return () => events.close();
+  }, [user?.id]);
 
   function applySearch() {
     setAppliedSearch(searchText);
     setPage(1);
+    setShowSuggestions(false);
   }
 
   function clearSearch() {
     setSearchText("");
     setAppliedSearch("");
     setPage(1);
+    setShowSuggestions(false);
+  }
+
+  // Fetch suggestions shortly after typing stops
+  useEffect(() => {
+    const q = searchText.trim();
+    if (q.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      callApi("searchMovies", {
+        query: { q, limit: 8 },
+        signal: controller.signal,
+      })
+        .then((data) => {
+          setSuggestions(data.items);
+          setActiveSuggestion(-1);
+        })
+        .catch((err) => {
+          if (err.name !== "AbortError") console.error(err);
+        });
+    }, 200);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchText]);
+
+  function openSuggestion(hit: SearchHit) {
+    setShowSuggestions(false);
+    navigate(`/movies/${hit.movie.id}`);
+  }
+
+  function onSearchKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    const open = showSuggestions && suggestions.length > 0;
+
+    if (e.key === "ArrowDown" && open) {
+      e.preventDefault();
+      setActiveSuggestion((i) => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp" && open) {
+      e.preventDefault();
+      setActiveSuggestion((i) => Math.max(i - 1, -1));
+    } else if (e.key === "Enter") {
+      if (open && activeSuggestion >= 0) {
+        openSuggestion(suggestions[activeSuggestion]);
+      } else {
+        applySearch();
+      }
+    } else if (e.key === "Escape") {
+      if (open) setShowSuggestions(false);
+      else clearSearch();
+    }
+  }
+
+  // Both bounds are optional; a filled-in one must be a sensible year
+  const yearRangeError = useMemo(() => {
+    const from = yearFromText.trim();
+    const to = yearToText.trim();
+    const valid = (y: string) =>
+      !y || (/^\d{4}$/.test(y) && +y >= 1888 && +y <= 2100);
+
+    if (!valid(from) || !valid(to)) return "Years must be 1888–2100.";
+    if (from && to && +from > +to) return "“From” must not be after “to”.";
+    return null;
+  }, [yearFromText, yearToText]);
+
+  function applyYearRange() {
+    if (yearRangeError) return;
+
+    const from = yearFromText.trim();
+    const to = yearToText.trim();
+    if (from === yearRange.from && to === yearRange.to) return;
+
+    setYearRange({ from, to });
+    setPage(1);
+  }
+
+  function clearYearRange() {
+    setYearFromText("");
+    setYearToText("");
+    setYearRange({ from: "", to: "" });
+    setPage(1);
   }
 
   function openModal() {
-    setCreateError(null);
-    setNewTitle("");
-    setNewYear("");
+    setEditing(null);
     setShowModal(true);
   }
 
+  async function openEditModal(movie: Movie) {
+    try {
+      setError(null);
+      const { data, etag } = await callApiWithEtag("getMovie", {
+        params: { id: movie.id },
+        errorMessage: "Failed to load movie",
+      });
+      setEditing({ movie: data, etag });
+      setShowModal(true);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
   function closeModal() {
     setShowModal(false);
   }
@@ -124,47 +1300,49 @@ function MoviesListPage() {
     return s === "local" ? "bg-success" : "bg-secondary";
   }
 
-  async function createLocalMovie() {
-    setCreateError(null);
+  async function createLocalMovie(values: MovieFormValues) {
+    await callApi("createMovie", {
+      body: values,
+      errorMessage: "Create failed",
+    });
 
-    const title = newTitle.trim();
-    const yearNum = Number(newYear);
+    setPage(1);
+    setSource("all");
+    setAppliedSearch("");
+    setSearchText("");
+    setSort("");
+    clearYearRange();
 
-    if (!title) {
-      setCreateError("Title is required.");
-      return;
-    }
-    if (!Number.isFinite(yearNum) || yearNum < 1888 || yearNum > 2100) {
-      setCreateError("Year must be a valid number (1888–2100).");
-      return;
-    }
+    // one load, once the filters above are applied
+    closeModal();
+    setReloads((n) => n + 1);
+  }
 
-    try {
-      setCreating(true);
+  async function saveLocalMovie(values: MovieFormValues) {
+    if (!editing) return;
 
-      const res = await fetch("/movies", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, year: yearNum }),
-      });
+    await updateMovie(editing.movie.id, values, editing.etag);
 
-      if (!res.ok) {
-        const msg = await res.json().catch(() => ({}));
-        throw new Error(msg.error ?? `Create failed (${res.status})`);
-      }
+    closeModal();
+    setReloads((n) => n + 1);
+  }
 
-      setPage(1);
-      setSource("all");
-      setAppliedSearch("");
-      setSearchText("");
+  async function removeLocalMovie(movie: Movie) {
+    try {
+      setError(null);
+      // the movie as it is now, so the delete fails rather than remove a
+      // version changed while the question is open
+      const { data, etag } = await callApiWithEtag("getMovie", {
+        params: { id: movie.id },
+        errorMessage: "Failed to load movie",
+      });
+      if (!window.confirm(`Delete "${data.title}"?`)) return;
 
-      closeModal();
-      await loadMovies();
+      await deleteMovie(movie.id, etag);
+      setReloads((n) => n + 1);
     } catch (err) {
       console.error(err);
-      setCreateError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setCreating(false);
+      setError(err instanceof Error ? err.message : "Unknown error");
     }
   }
 
@@ -173,12 +1351,10 @@ function MoviesListPage() {
       setRecsLoading(true);
       setRecsError(null);
 
-      const res = await fetch("/movies/recommendations");
-      if (!res.ok)
-        throw new Error(`Failed to load recommendations (${res.status})`);
-
-      const data = (await res.json()) as { items: Movie[] };
-      setRecs(Array.isArray(data.items) ? data.items : []);
+      const data = await callApi("getRecommendations", {
+        errorMessage: "Failed to load recommendations",
+      });
+      setRecs(data.items);
     } catch (err) {
       console.error(err);
       setRecs([]);
@@ -200,12 +1376,12 @@ function MoviesListPage() {
             🎬 Movies
           </Link>
           <div className="d-flex align-items-center gap-2">
-            <button className="btn btn-sm btn-warning" onClick={openModal}>
-              + Add Local Movie
-            </button>
-            <span className="navbar-text small text-white-50">
-              React UI ↔ Express API
-            </span>
+            {canEdit && (
+              <button className="btn btn-sm btn-warning" onClick={openModal}>
+                + Add Local Movie
+              </button>
+            )}
+            <AccountMenu />
           </div>
         </div>
       </nav>
@@ -218,7 +1394,7 @@ function MoviesListPage() {
               <div>
                 <div className="fw-semibold">Recommendations</div>
                 <div className="text-muted small">
-                  Fetch 3 recommended movies.
+                  3 movies like the ones in your library.
                 </div>
               </div>
               <button
@@ -238,11 +1414,12 @@ function MoviesListPage() {
 
             {!recsLoading && recs.length > 0 && (
               <div className="row g-3 mt-1">
-                {recs.map((m) => (
+                {recs.map(({ movie: m, reason }) => (
                   <div className="col-12 col-md-4" key={m.id}>
                     <div className="border rounded p-3 bg-white h-100">
                       <div className="fw-semibold">{m.title}</div>
                       <div className="text-muted small">{m.year}</div>
+                      <div className="small mt-1">{reason}</div>
                       <div className="mt-2">
                         <Link
                           to={`/movies/${m.id}`}
@@ -259,6 +1436,12 @@ function MoviesListPage() {
           </div>
         </div>
 
+        {/* Import / export */}
+        <LibraryTransferCard
+          exportQuery={exportQuery}
+          onImported={loadMovies}
+        />
+
         {/* Controls Card */}
         <div className="card shadow-sm mb-4">
           <div className="card-body">
@@ -269,16 +1452,37 @@ function MoviesListPage() {
                   className="form-select"
                   value={source}
                   onChange={(e) => {
-                    setSource(
-                      e.target.value as "all" | "local" | "third_party"
-                    );
+                    setSource(e.target.value);
                     setPage(1);
                   }}
                 >
                   <option value="all">All</option>
                   <option value="local">Local</option>
-                  <option value="third_party">Third Party</option>
+                  {providers.map((name) => (
+                    <option key={name} value={name}>
+                      {providerLabel(name)}
+                    </option>
+                  ))}
                 </select>
+                <div className="form-check mt-2">
+                  <input
+                    id="collapse-duplicates"
+                    type="checkbox"
+                    className="form-check-input"
+                    checked={collapse}
+                    disabled={source !== "all"}
+                    onChange={(e) => {
+                      setCollapse(e.target.checked);
+                      setPage(1);
+                    }}
+                  />
+                  <label
+                    htmlFor="collapse-duplicates"
+                    className="form-check-label small"
+                  >
+                    Merge duplicates
+                  </label>
+                </div>
               </div>
 
               <div className="col-12 col-md-3">
@@ -298,17 +1502,22 @@ function MoviesListPage() {
               </div>
 
               <div className="col-12 col-md-6">
-                <label className="form-label">Search title</label>
-                <div className="input-group">
+                <label className="form-label">Search</label>
+                <div className="input-group position-relative">
                   <input
                     className="form-control"
-                    placeholder="e.g. the, star, life..."
+                    placeholder="Title, cast or genre..."
+                    role="combobox"
+                    aria-expanded={showSuggestions && suggestions.length > 0}
+                    aria-autocomplete="list"
                     value={searchText}
-                    onChange={(e) => setSearchText(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") applySearch();
-                      if (e.key === "Escape") clearSearch();
+                    onChange={(e) => {
+                      setSearchText(e.target.value);
+                      setShowSuggestions(true);
                     }}
+                    onFocus={() => setShowSuggestions(true)}
+                    onBlur={() => setShowSuggestions(false)}
+                    onKeyDown={onSearchKeyDown}
                   />
                   <button className="btn btn-primary" onClick={applySearch}>
                     Search
@@ -320,9 +1529,149 @@ function MoviesListPage() {
                   >
                     Clear
                   </button>
+
+                  {showSuggestions && suggestions.length > 0 && (
+                    <ul
+                      className="dropdown-menu show w-100 shadow-sm"
+                      style={{ top: "100%", left: 0 }}
+                      role="listbox"
+                    >
+                      {suggestions.map((hit, i) => {
+                        const title = hit.highlights.find(
+                          (h) => h.field === "title"
+                        );
+                        const other = hit.highlights.find(
+                          (h) => h.field !== "title"
+                        );
+
+                        return (
+                          <li key={hit.movie.id} role="option">
+                            <button
+                              type="button"
+                              className={`dropdown-item d-flex justify-content-between gap-2 ${
+                                i === activeSuggestion ? "active" : ""
+                              }`}
+                              // keep focus in the input so blur doesn't close us first
+                              onMouseDown={(e) => e.preventDefault()}
+                              onClick={() => openSuggestion(hit)}
+                            >
+                              <span className="text-truncate">
+                                <Highlighted
+                                  text={hit.movie.title}
+                                  ranges={title?.ranges ?? []}
+                                />{" "}
+                                <span className="opacity-75">
+                                  ({hit.movie.year})
+                                </span>
+                                {other && (
+                                  <span className="d-block small opacity-75">
+                                    <Highlighted
+                                      text={other.text}
+                                      ranges={other.ranges}
+                                    />
+                                  </span>
+                                )}
+                              </span>
+                              <span
+                                className={`badge align-self-start ${sourceBadgeClass(
+                                  hit.movie.source
+                                )}`}
+                              >
+                                {hit.movie.source}
+                              </span>
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
                 </div>
                 <div className="form-text">
-                  Press <kbd>Enter</kbd> to search, <kbd>Esc</kbd> to clear.
+                  Press <kbd>Enter</kbd> to search, <kbd>Esc</kbd> to clear,{" "}
+                  <kbd>↓</kbd> to pick a suggestion.
+                </div>
+              </div>
+
+              <div className="col-12 col-md-3">
+                <label className="form-label">Sort by</label>
+                <select
+                  className="form-select"
+                  value={sort}
+                  onChange={(e) => {
+                    setSort(e.target.value as SortField | "");
+                    setPage(1);
+                  }}
+                >
+                  <option value="">Default order</option>
+                  <option value="title">Title</option>
+                  <option value="year">Year</option>
+                  <option value="createdAt">Date added</option>
+                  <option value="source">Source</option>
+                </select>
+              </div>
+
+              <div className="col-12 col-md-3">
+                <label className="form-label">Order</label>
+                <select
+                  className="form-select"
+                  value={order}
+                  disabled={!sort}
+                  onChange={(e) => {
+                    setOrder(e.target.value as "asc" | "desc");
+                    setPage(1);
+                  }}
+                >
+                  <option value="asc">Ascending</option>
+                  <option value="desc">Descending</option>
+                </select>
+              </div>
+
+              <div className="col-12 col-md-6">
+                <label className="form-label">Year range</label>
+                <div className="input-group has-validation">
+                  <input
+                    className={`form-control ${yearRangeError ? "is-invalid" : ""}`}
+                    inputMode="numeric"
+                    placeholder="From"
+                    aria-label="Year from"
+                    value={yearFromText}
+                    onChange={(e) => setYearFromText(e.target.value)}
+                    onBlur={applyYearRange}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") applyYearRange();
+                    }}
+                  />
+                  <span className="input-group-text">to</span>
+                  <input
+                    className={`form-control ${yearRangeError ? "is-invalid" : ""}`}
+                    inputMode="numeric"
+                    placeholder="To"
+                    aria-label="Year to"
+                    value={yearToText}
+                    onChange={(e) => setYearToText(e.target.value)}
+                    onBlur={applyYearRange}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") applyYearRange();
+                    }}
+                  />
+                  <button
+                    className="btn btn-outline-secondary"
+                    onClick={clearYearRange}
+                    disabled={
+                      !yearFromText &&
+                      !yearToText &&
+                      !yearRange.from &&
+                      !yearRange.to
+                    }
+                  >
+                    Clear
+                  </button>
+                  {yearRangeError && (
+                    <div className="invalid-feedback">{yearRangeError}</div>
+                  )}
+                </div>
+                <div className="form-text">
+                  Either end can be left empty.
                 </div>
               </div>
             </div>
@@ -343,6 +1692,16 @@ function MoviesListPage() {
 
               <div className="small text-muted">
                 Page <strong>{page}</strong>
+                {pagination?.totalPages ? (
+                  <>
+                    {" "}
+                    of <strong>{pagination.totalPages}</strong>
+                  </>
+                ) : null}
+                {pagination?.totalItems !== null &&
+                pagination?.totalItems !== undefined ? (
+                  <> ({pagination.totalItems} total)</>
+                ) : null}
               </div>
             </div>
           </div>
@@ -354,6 +1713,18 @@ function MoviesListPage() {
           </div>
         )}
 
+        {warnings.length > 0 && (
+          <div className="alert alert-warning" role="status">
+            <strong>Some sources are unavailable.</strong> Showing what we
+            could load; results may be incomplete.
+            <ul className="mb-0 mt-1 small">
+              {warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="card shadow-sm">
           <div className="card-header bg-white d-flex justify-content-between align-items-center">
             <span className="fw-semibold">Movies</span>
@@ -393,10 +1764,46 @@ function MoviesListPage() {
                       <div className="text-muted small">
                         {m.year} • ID: {m.id}
                       </div>
+                      {m.origins && m.origins.length > 1 && (
+                        <div className="small">
+                          <span className="text-muted">Also in: </span>
+                          {m.origins
+                            .filter((o) => o.id !== m.id)
+                            .map((o) => (
+                              <Link
+                                key={o.id}
+                                to={`/movies/${o.id}`}
+                                className="me-2"
+                              >
+                                {o.source === "local"
+                                  ? "My library"
+                                  : providerLabel(o.source)}
+                              </Link>
+                            ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="d-flex align-items-center gap-2">
+                      {canEdit && m.source === "local" && (
+                        <>
+                          <button
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => openEditModal(m)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            className="btn btn-sm btn-outline-danger"
+                            onClick={() => removeLocalMovie(m)}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                      <span className={`badge ${sourceBadgeClass(m.source)}`}>
+                        {m.source}
+                      </span>
                     </div>
-                    <span className={`badge ${sourceBadgeClass(m.source)}`}>
-                      {m.source}
-                    </span>
                   </li>
                 ))}
               </ul>
@@ -405,128 +1812,918 @@ function MoviesListPage() {
 
           <div className="card-footer bg-white d-flex justify-content-between align-items-center">
             <button
-              className="btn btn-outline-dark"
-              disabled={page === 1 || loading}
-              onClick={() => setPage((p) => p - 1)}
+              className="btn btn-outline-dark"
+              disabled={page === 1 || loading}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              ◀ Prev
+            </button>
+
+            <span className="text-muted small">
+              Tip: changing filters resets to page 1
+            </span>
+
+            <button
+              className="btn btn-dark"
+              disabled={loading || pagination?.hasNextPage === false}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Next ▶
+            </button>
+          </div>
+        </div>
+
+        <div className="text-center text-muted small mt-4">
+          Built with React + Express (TypeScript)
+        </div>
+      </div>
+
+      {/* Movies added by others since the list was loaded */}
+      {newMovies > 0 && (
+        <div className="toast-container position-fixed bottom-0 end-0 p-3">
+          <div className="toast show" role="status" aria-live="polite">
+            <div className="toast-body d-flex align-items-center gap-2">
+              <span className="me-auto">
+                {newMovies} new movie{newMovies === 1 ? "" : "s"}
+              </span>
+              <button
+                className="btn btn-sm btn-dark"
+                onClick={() => setReloads((n) => n + 1)}
+              >
+                Show
+              </button>
+              <button
+                type="button"
+                className="btn-close"
+                aria-label="Dismiss"
+                onClick={() => setNewMovies(0)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Modal */}
+      {showModal && (
+        <MovieFormModal
+          heading={editing ? "Edit Local Movie" : "Add Local Movie"}
+          submitLabel={editing ? "Save" : "Create"}
+          busyLabel={editing ? "Saving..." : "Creating..."}
+          initial={editing?.movie}
+          onSubmit={editing ? saveLocalMovie : createLocalMovie}
+          onClose={closeModal}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * 1–5 stars; clickable when onChange is given.
+ */
+function Stars(props: { value?: number; onChange?: (stars: number) => void }) {
+  const { value = 0, onChange } = props;
+
+  if (!onChange) {
+    return (
+      <span className="text-warning" title={`${value} of 5 stars`}>
+        {"★".repeat(value)}
+        <span className="text-muted">{"☆".repeat(5 - value)}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span role="radiogroup" aria-label="Stars">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          role="radio"
+          aria-checked={n === value}
+          aria-label={`${n} star${n > 1 ? "s" : ""}`}
+          className="btn btn-link p-0 me-1 text-warning text-decoration-none fs-5"
+          onClick={() => onChange(n)}
+        >
+          {n <= value ? "★" : "☆"}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+/**
+ * The signed-in user's lists and rating for one movie (detail page).
+ */
+function MovieListsPanel(props: { movieId: string }) {
+  const { movieId } = props;
+  const { user } = useAuth();
+
+  const [lists, setLists] = useState<MovieListSummary[]>([]);
+  const [stars, setStars] = useState<number | undefined>();
+  const [watchedAt, setWatchedAt] = useState("");
+  const [rated, setRated] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [panelError, setPanelError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  function showRating(rating: MovieRating | null) {
+    setStars(rating?.stars);
+    setWatchedAt(rating?.watchedAt ?? "");
+    setRated(rating !== null);
+  }
+
+  useEffect(() => {
+    if (!user) return;
+
+    setPanelError(null);
+    setSaved(false);
+    Promise.all([fetchLists(movieId), fetchRating(movieId)])
+      .then(([items, rating]) => {
+        setLists(items);
+        showRating(rating);
+      })
+      .catch((err) => {
+        console.error(err);
+        setPanelError(err instanceof Error ? err.message : "Unknown error");
+      });
+  }, [movieId, user]);
+
+  if (!user) {
+    return (
+      <div className="text-muted small mt-3">
+        Sign in to add this movie to your lists and rate it.
+      </div>
+    );
+  }
+
+  async function run(task: () => Promise<void>) {
+    try {
+      setBusy(true);
+      setPanelError(null);
+      setSaved(false);
+      await task();
+    } catch (err) {
+      console.error(err);
+      setPanelError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleList(list: MovieListSummary) {
+    return run(async () => {
+      await setListItem(list.id, movieId, !list.hasMovie);
+      setLists(await fetchLists(movieId));
+    });
+  }
+
+  function submitRating() {
+    return run(async () => {
+      showRating(
+        await saveRating(movieId, {
+          stars,
+          watchedAt: watchedAt || undefined,
+        })
+      );
+      setSaved(true);
+    });
+  }
+
+  function clearRating() {
+    return run(async () => {
+      showRating(await saveRating(movieId, null));
+    });
+  }
+
+  return (
+    <div className="border-top mt-3 pt-3">
+      <div className="fw-semibold mb-2">Your lists</div>
+      <div className="d-flex flex-wrap gap-2">
+        {lists.map((list) => (
+          <button
+            key={list.id}
+            className={`btn btn-sm ${
+              list.hasMovie ? "btn-success" : "btn-outline-secondary"
+            }`}
+            onClick={() => toggleList(list)}
+            disabled={busy}
+            aria-pressed={list.hasMovie}
+          >
+            {list.hasMovie ? "✓ " : "+ "}
+            {list.name}
+          </button>
+        ))}
+        <Link to="/lists" className="btn btn-sm btn-link">
+          Manage lists
+        </Link>
+      </div>
+
+      <div className="fw-semibold mt-3 mb-1">Your rating</div>
+      <div className="d-flex flex-wrap align-items-center gap-3">
+        <Stars value={stars} onChange={setStars} />
+        <label className="small d-flex align-items-center gap-2">
+          Watched on
+          <input
+            type="date"
+            className="form-control form-control-sm"
+            value={watchedAt}
+            max={new Date().toISOString().slice(0, 10)}
+            onChange={(e) => setWatchedAt(e.target.value)}
+          />
+        </label>
+        <button
+          className="btn btn-sm btn-primary"
+          onClick={submitRating}
+          disabled={busy || (!stars && !watchedAt)}
+        >
+          Save
+        </button>
+        {rated && (
+          <button
+            className="btn btn-sm btn-outline-secondary"
+            onClick={clearRating}
+            disabled={busy}
+          >
+            Remove rating
+          </button>
+        )}
+        {saved && <span className="small text-success">Saved</span>}
+      </div>
+
+      {panelError && (
+        <div className="alert alert-danger mt-3 mb-0">{panelError}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Text box (and stars for a top-level review) to write or edit a review.
+ */
+function ReviewForm(props: {
+  initialText?: string;
+  initialStars?: number;
+  withStars: boolean;
+  submitLabel: string;
+  onSubmit: (text: string, stars: number | undefined) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const { withStars, submitLabel, onSubmit, onCancel } = props;
+  const [text, setText] = useState(props.initialText ?? "");
+  const [stars, setStars] = useState(props.initialStars);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  async function handleSubmit() {
+    try {
+      setSaving(true);
+      setFormError(null);
+      await onSubmit(text.trim(), stars);
+    } catch (err) {
+      console.error(err);
+      setFormError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form
+      className="mt-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+    >
+      {withStars && (
+        <div className="d-flex align-items-center gap-2 mb-1">
+          <Stars value={stars} onChange={setStars} />
+          {stars !== undefined && (
+            <button
+              type="button"
+              className="btn btn-sm btn-link p-0"
+              onClick={() => setStars(undefined)}
             >
-              ◀ Prev
+              No stars
             </button>
+          )}
+        </div>
+      )}
+      <textarea
+        className="form-control form-control-sm"
+        rows={3}
+        maxLength={5000}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="d-flex gap-2 mt-2">
+        <button
+          type="submit"
+          className="btn btn-sm btn-primary"
+          disabled={saving || !text.trim()}
+        >
+          {saving ? "Saving..." : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-secondary"
+            onClick={onCancel}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {formError && (
+        <div className="alert alert-danger mt-2 mb-0 py-2 small">
+          {formError}
+        </div>
+      )}
+    </form>
+  );
+}
 
-            <span className="text-muted small">
-              Tip: changing filters resets to page 1
+/**
+ * One review with its replies. Authors can edit and delete it, other
+ * signed-in users reply and vote, moderators hide it.
+ */
+function ReviewItem(props: {
+  review: Review;
+  onChanged: () => Promise<void>;
+}) {
+  const { review, onChanged } = props;
+  const { user } = useAuth();
+  const isAuthor = user?.id === review.author.id;
+  const canModerate = user?.role === "moderator" || user?.role === "editor";
+
+  const [mode, setMode] = useState<"view" | "edit" | "reply">("view");
+  const [busy, setBusy] = useState(false);
+  const [itemError, setItemError] = useState<string | null>(null);
+
+  async function run(task: () => Promise<void>) {
+    try {
+      setBusy(true);
+      setItemError(null);
+      await task();
+      await onChanged();
+    } catch (err) {
+      console.error(err);
+      setItemError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function remove() {
+    if (!window.confirm("Delete this review and its replies?")) return;
+    return run(() => deleteReview(review.id));
+  }
+
+  return (
+    <li className={review.parentId ? "mt-3" : "list-group-item py-3"}>
+      <div className={review.hidden ? "opacity-50" : undefined}>
+        <div className="d-flex flex-wrap align-items-center gap-2 small">
+          <span className="fw-semibold">{review.author.username}</span>
+          {review.stars !== undefined && <Stars value={review.stars} />}
+          <span className="text-muted">
+            {new Date(review.createdAt).toLocaleDateString()}
+            {review.updatedAt !== review.createdAt && " (edited)"}
+          </span>
+          {review.hidden && (
+            <span
+              className="badge text-bg-secondary"
+              title={review.moderation?.reason}
+            >
+              Hidden
+              {review.moderation && ` by ${review.moderation.by.username}`}
             </span>
+          )}
+        </div>
 
+        {mode === "edit" ? (
+          <ReviewForm
+            initialText={review.text}
+            initialStars={review.stars}
+            withStars={review.parentId === null}
+            submitLabel="Save"
+            onSubmit={(text, stars) =>
+              run(async () => {
+                await updateReview(review.id, {
+                  text,
+                  ...(review.parentId === null && { stars: stars ?? null }),
+                });
+                setMode("view");
+              })
+            }
+            onCancel={() => setMode("view")}
+          />
+        ) : (
+          <p className="mb-1 mt-1" style={{ whiteSpace: "pre-wrap" }}>
+            {review.text}
+          </p>
+        )}
+      </div>
+
+      <div className="d-flex flex-wrap align-items-center gap-3 small">
+        {user && !isAuthor ? (
+          <button
+            className={`btn btn-sm ${
+              review.votedHelpful ? "btn-success" : "btn-outline-secondary"
+            }`}
+            onClick={() =>
+              run(() => voteHelpful(review.id, !review.votedHelpful))
+            }
+            disabled={busy}
+            aria-pressed={review.votedHelpful}
+          >
+            👍 Helpful ({review.helpfulCount})
+          </button>
+        ) : (
+          <span className="text-muted">
+            {review.helpfulCount} found this helpful
+          </span>
+        )}
+        {user && mode === "view" && (
+          <button
+            className="btn btn-sm btn-link p-0"
+            onClick={() => setMode("reply")}
+          >
+            Reply
+          </button>
+        )}
+        {isAuthor && mode === "view" && (
+          <>
             <button
-              className="btn btn-dark"
-              disabled={loading}
-              onClick={() => setPage((p) => p + 1)}
+              className="btn btn-sm btn-link p-0"
+              onClick={() => setMode("edit")}
             >
-              Next ▶
+              Edit
             </button>
-          </div>
-        </div>
+            <button
+              className="btn btn-sm btn-link p-0 text-danger"
+              onClick={remove}
+              disabled={busy}
+            >
+              Delete
+            </button>
+          </>
+        )}
+        {canModerate && (
+          <button
+            className="btn btn-sm btn-link p-0 text-warning"
+            onClick={() => run(() => moderateReview(review.id, !review.hidden))}
+            disabled={busy}
+          >
+            {review.hidden ? "Unhide" : "Hide"}
+          </button>
+        )}
+      </div>
 
-        <div className="text-center text-muted small mt-4">
-          Built with React + Express (TypeScript)
+      {itemError && (
+        <div className="alert alert-danger mt-2 mb-0 py-2 small">
+          {itemError}
         </div>
+      )}
+
+      {mode === "reply" && (
+        <ReviewForm
+          withStars={false}
+          submitLabel="Reply"
+          onSubmit={(text) =>
+            run(async () => {
+              await postReview(review.movieId, { text, parentId: review.id });
+              setMode("view");
+            })
+          }
+          onCancel={() => setMode("view")}
+        />
+      )}
+
+      {review.replies && review.replies.length > 0 && (
+        <ul className="list-unstyled ms-4 ps-3 border-start">
+          {review.replies.map((reply) => (
+            <ReviewItem key={reply.id} review={reply} onChanged={onChanged} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Reviews of a movie (detail page): a page of threads, sorted by newest
+ * or most helpful, and a form for the user's own review.
+ */
+function ReviewsSection(props: {
+  movieId: string;
+  onStats: (stats: ReviewStats) => void;
+}) {
+  const { movieId, onStats } = props;
+  const { user } = useAuth();
+
+  const [data, setData] = useState<ReviewsPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const [loading, setLoading] = useState(false);
+  const [sectionError, setSectionError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSectionError(null);
+      const reviews = await fetchReviews(movieId, page, sort);
+      setData(reviews);
+      onStats(reviews.stats);
+    } catch (err) {
+      console.error(err);
+      setSectionError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [movieId, page, sort, onStats]);
+
+  useEffect(() => {
+    load();
+  }, [load, user]);
+
+  // the signed-in user's own review, when it's on this page
+  const ownReview = data?.items.find((r) => r.author.id === user?.id);
+
+  return (
+    <div className="card shadow-sm mt-4">
+      <div className="card-header bg-white d-flex flex-wrap justify-content-between align-items-center gap-2">
+        <span className="fw-semibold">
+          Reviews
+          {data && data.stats.averageRating !== null && (
+            <span className="ms-2 fw-normal">
+              <Stars value={Math.round(data.stats.averageRating)} />{" "}
+              {data.stats.averageRating.toFixed(1)} from{" "}
+              {data.stats.ratings} rating{data.stats.ratings === 1 ? "" : "s"}
+            </span>
+          )}
+        </span>
+        <select
+          className="form-select form-select-sm w-auto"
+          value={sort}
+          onChange={(e) => {
+            setSort(e.target.value as ReviewSort);
+            setPage(1);
+          }}
+          aria-label="Sort reviews"
+        >
+          <option value="newest">Newest first</option>
+          <option value="helpful">Most helpful first</option>
+        </select>
       </div>
 
-      {/* Modal */}
-      {showModal && (
-        <>
-          <div className="modal-backdrop fade show" />
-          <div
-            className="modal fade show"
-            style={{ display: "block" }}
-            role="dialog"
-            aria-modal="true"
+      <div className="card-body">
+        {!user ? (
+          <div className="text-muted small">Sign in to write a review.</div>
+        ) : (
+          !ownReview && (
+            <>
+              <div className="fw-semibold small">Your review</div>
+              <ReviewForm
+                key={movieId}
+                withStars
+                submitLabel="Post review"
+                onSubmit={async (text, stars) => {
+                  await postReview(movieId, { text, stars });
+                  setSort("newest");
+                  setPage(1);
+                  await load();
+                }}
+              />
+            </>
+          )
+        )}
+
+        {sectionError && (
+          <div className="alert alert-danger mt-3 mb-0">{sectionError}</div>
+        )}
+      </div>
+
+      {data && data.items.length > 0 ? (
+        <ul className="list-group list-group-flush">
+          {data.items.map((review) => (
+            <ReviewItem key={review.id} review={review} onChanged={load} />
+          ))}
+        </ul>
+      ) : (
+        !loading && (
+          <div className="card-body pt-0 text-muted small">
+            No reviews yet.
+          </div>
+        )
+      )}
+
+      {data && (data.meta.hasPrevPage || data.meta.hasNextPage) && (
+        <div className="card-footer bg-white d-flex justify-content-between align-items-center">
+          <button
+            className="btn btn-sm btn-outline-dark"
+            disabled={!data.meta.hasPrevPage || loading}
+            onClick={() => setPage((p) => p - 1)}
           >
-            <div className="modal-dialog modal-dialog-centered" role="document">
-              <div className="modal-content">
-                <div className="modal-header">
-                  <h5 className="modal-title">Add Local Movie</h5>
-                  <button
-                    type="button"
-                    className="btn-close"
-                    aria-label="Close"
-                    onClick={closeModal}
-                    disabled={creating}
-                  />
-                </div>
+            ◀ Prev
+          </button>
+          <span className="text-muted small">
+            Page {data.page} of {data.meta.totalPages}
+          </span>
+          <button
+            className="btn btn-sm btn-dark"
+            disabled={!data.meta.hasNextPage || loading}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Next ▶
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
 
-                <div className="modal-body">
-                  {createError && (
-                    <div className="alert alert-danger">{createError}</div>
-                  )}
+/**
+ * /lists and /lists/:listId: the signed-in user's lists, one of them
+ * open with its movies.
+ */
+function MyListsPage() {
+  const { listId = "watchlist" } = useParams<{ listId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [lists, setLists] = useState<MovieListSummary[]>([]);
+  const [list, setList] = useState<MovieListDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
 
-                  <div className="mb-3">
-                    <label className="form-label">Title</label>
-                    <input
-                      className="form-control"
-                      value={newTitle}
-                      onChange={(e) => setNewTitle(e.target.value)}
-                      placeholder="e.g. My New Movie"
-                      autoFocus
-                      disabled={creating}
-                    />
-                  </div>
+  async function load() {
+    try {
+      setLoading(true);
+      setError(null);
+      const [items, detail] = await Promise.all([
+        fetchLists(),
+        fetchList(listId),
+      ]);
+      setLists(items);
+      setList(detail);
+    } catch (err) {
+      console.error(err);
+      setList(null);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (user) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listId, user]);
+
+  async function run(task: () => Promise<void>) {
+    try {
+      setError(null);
+      await task();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
+  function createNewList() {
+    const name = newName.trim();
+    if (!name) return;
+
+    return run(async () => {
+      const created = await saveList(name);
+      setNewName("");
+      navigate(`/lists/${created.id}`);
+      setLists(await fetchLists());
+    });
+  }
+
+  function renameCurrent() {
+    if (!list) return;
+    const name = window.prompt("New name for the list", list.name)?.trim();
+    if (!name || name === list.name) return;
+
+    return run(async () => {
+      await saveList(name, list.id);
+      await load();
+    });
+  }
+
+  function deleteCurrent() {
+    if (!list || !window.confirm(`Delete the list "${list.name}"?`)) return;
+
+    return run(async () => {
+      await deleteList(list.id);
+      navigate("/lists");
+    });
+  }
+
+  function removeItem(movieId: string) {
+    if (!list) return;
+
+    return run(async () => {
+      await setListItem(list.id, movieId, false);
+      await load();
+    });
+  }
+
+  return (
+    <div className="min-vh-100 bg-light">
+      <nav className="navbar navbar-dark bg-dark">
+        <div className="container">
+          <Link
+            to="/"
+            className="navbar-brand fw-semibold text-decoration-none"
+          >
+            🎬 Movies
+          </Link>
+          <div className="d-flex align-items-center gap-2">
+            <AccountMenu />
+          </div>
+        </div>
+      </nav>
+
+      <div className="container py-4">
+        <div className="mb-3">
+          <Link to="/" className="btn btn-outline-dark">
+            ← Back to list
+          </Link>
+        </div>
 
-                  <div className="mb-2">
-                    <label className="form-label">Year</label>
+        {!user ? (
+          <div className="alert alert-info">Sign in to see your lists.</div>
+        ) : (
+          <div className="row g-4">
+            <div className="col-12 col-md-4">
+              <div className="card shadow-sm">
+                <div className="list-group list-group-flush">
+                  {lists.map((l) => (
+                    <Link
+                      key={l.id}
+                      to={`/lists/${l.id}`}
+                      className={`list-group-item list-group-item-action d-flex justify-content-between ${
+                        l.id === listId ? "active" : ""
+                      }`}
+                    >
+                      {l.name}
+                      <span className="badge bg-secondary">{l.count}</span>
+                    </Link>
+                  ))}
+                </div>
+                <div className="card-body">
+                  <div className="input-group input-group-sm">
                     <input
                       className="form-control"
-                      value={newYear}
-                      onChange={(e) => setNewYear(e.target.value)}
-                      placeholder="e.g. 2024"
-                      disabled={creating}
-                      inputMode="numeric"
+                      placeholder="New list name"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && createNewList()}
                     />
-                    <div className="form-text">Valid range: 1888–2100</div>
+                    <button
+                      className="btn btn-outline-primary"
+                      onClick={createNewList}
+                      disabled={!newName.trim()}
+                    >
+                      Create
+                    </button>
                   </div>
                 </div>
+              </div>
+            </div>
 
-                <div className="modal-footer">
-                  <button
-                    className="btn btn-outline-secondary"
-                    onClick={closeModal}
-                    disabled={creating}
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    className="btn btn-primary"
-                    onClick={createLocalMovie}
-                    disabled={creating}
-                  >
-                    {creating ? "Creating..." : "Create"}
-                  </button>
+            <div className="col-12 col-md-8">
+              {error && <div className="alert alert-danger">{error}</div>}
+
+              {loading && !list && <div className="text-muted">Loading...</div>}
+
+              {list && (
+                <div className="card shadow-sm">
+                  <div className="card-header bg-white d-flex justify-content-between align-items-center">
+                    <span className="fw-semibold">{list.name}</span>
+                    {list.kind === "custom" && (
+                      <div className="d-flex gap-2">
+                        <button
+                          className="btn btn-sm btn-outline-secondary"
+                          onClick={renameCurrent}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          className="btn btn-sm btn-outline-danger"
+                          onClick={deleteCurrent}
+                        >
+                          Delete list
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {list.items.length === 0 ? (
+                    <div className="card-body text-muted">
+                      Nothing here yet. Add movies from their detail page.
+                    </div>
+                  ) : (
+                    <ul className="list-group list-group-flush">
+                      {list.items.map(({ movieId, movie, rating }) => (
+                        <li
+                          key={movieId}
+                          className="list-group-item d-flex justify-content-between align-items-center"
+                        >
+                          <div>
+                            {movie ? (
+                              <Link
+                                to={`/movies/${movieId}`}
+                                className="fw-semibold text-decoration-none"
+                              >
+                                {movie.title}
+                              </Link>
+                            ) : (
+                              <span className="text-muted">
+                                {movieId} (unavailable)
+                              </span>
+                            )}
+                            {movie && (
+                              <span className="text-muted small ms-2">
+                                {movie.year}
+                              </span>
+                            )}
+                            {rating && (
+                              <div className="small">
+                                {rating.stars && <Stars value={rating.stars} />}
+                                {rating.watchedAt && (
+                                  <span className="text-muted ms-2">
+                                    watched {rating.watchedAt}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                          <button
+                            className="btn btn-sm btn-outline-secondary"
+                            onClick={() => removeItem(movieId)}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
-              </div>
+              )}
             </div>
           </div>
-        </>
-      )}
+        )}
+      </div>
     </div>
   );
 }
 
 function MovieDetailPage() {
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const canEdit = user?.role === "editor";
 
-  const [movie, setMovie] = useState<Movie | null>(null);
+  const [movie, setMovie] = useState<MovieWithStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // The ETag of the movie as last loaded (or saved): an edit or delete
+  // fails rather than overwrite a change made meanwhile. The edit form
+  // loads the movie again when opened.
+  const [etag, setEtag] = useState<string | null>(null);
+  const [showEdit, setShowEdit] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  // "Add to my library" (existingId: the film is already there)
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<{
+    message: string;
+    existingId?: string;
+  } | null>(null);
+
+  // "More like this"
+  const [similar, setSimilar] = useState<Recommendation[]>([]);
+  const [similarError, setSimilarError] = useState<string | null>(null);
+
   async function loadMovie(movieId: string) {
     try {
       setLoading(true);
       setError(null);
 
-      const res = await fetch(`/movies/${movieId}`);
-      if (!res.ok) throw new Error(`Failed to load movie (${res.status})`);
-
-      const data = (await res.json()) as Movie;
+      const { data, etag } = await callApiWithEtag("getMovie", {
+        params: { id: movieId },
+        errorMessage: "Failed to load movie",
+      });
       setMovie(data);
+      setEtag(etag);
     } catch (err) {
       console.error(err);
       setMovie(null);
@@ -536,11 +2733,102 @@ function MovieDetailPage() {
     }
   }
 
+  async function loadSimilar(movieId: string) {
+    try {
+      setSimilarError(null);
+
+      const data = await callApi("getRecommendations", {
+        query: { seedId: movieId, count: 4 },
+        errorMessage: "Failed to load similar movies",
+      });
+      setSimilar(data.items);
+    } catch (err) {
+      console.error(err);
+      setSimilar([]);
+      setSimilarError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
   useEffect(() => {
     if (!id) return;
+    setImportError(null);
     loadMovie(id);
+    loadSimilar(id);
   }, [id]);
 
+  // keep the detail list's average in step with the reviews below it
+  const showStats = useCallback((reviewStats: ReviewStats) => {
+    setMovie((m) => (m ? { ...m, reviewStats } : m));
+  }, []);
+
+  async function addToLibrary() {
+    if (!movie) return;
+
+    try {
+      setImporting(true);
+      setImportError(null);
+      const imported = await importMovie(movie.id);
+      navigate(`/movies/${imported.id}`);
+    } catch (err) {
+      console.error(err);
+      setImportError({
+        message: err instanceof Error ? err.message : "Unknown error",
+        existingId:
+          err instanceof ApiError ? err.problem.existingId : undefined,
+      });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function openEdit() {
+    if (!movie) return;
+
+    try {
+      setError(null);
+      const { data, etag } = await callApiWithEtag("getMovie", {
+        params: { id: movie.id },
+        errorMessage: "Failed to load movie",
+      });
+      setMovie(data);
+      setEtag(etag);
+      setShowEdit(true);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
+  async function saveMovie(values: MovieFormValues) {
+    if (!movie) return;
+
+    const { data: saved, etag: savedEtag } = await updateMovie(
+      movie.id,
+      values,
+      etag
+    );
+    setMovie({ ...saved, reviewStats: movie.reviewStats });
+    setEtag(savedEtag);
+    setShowEdit(false);
+  }
+
+  async function removeMovie() {
+    if (!movie) return;
+    if (!window.confirm(`Delete "${movie.title}"?`)) return;
+
+    try {
+      setDeleting(true);
+      setError(null);
+      await deleteMovie(movie.id, etag);
+      navigate("/");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setDeleting(false);
+    }
+  }
+
   return (
     <div className="min-vh-100 bg-light">
       <nav className="navbar navbar-dark bg-dark">
@@ -551,6 +2839,9 @@ function MovieDetailPage() {
           >
             🎬 Movies
           </Link>
+          <div className="d-flex align-items-center gap-2">
+            <AccountMenu />
+          </div>
         </div>
       </nav>
 
@@ -597,38 +2888,279 @@ function MovieDetailPage() {
                   <span className="text-uppercase">{movie.source}</span>
                 </div>
 
-                <dl className="row mb-0">
-                  <dt className="col-sm-3">ID</dt>
-                  <dd className="col-sm-9">{movie.id}</dd>
-
-                  <dt className="col-sm-3">Title</dt>
-                  <dd className="col-sm-9">{movie.title}</dd>
+                <div className="row g-4">
+                  {movie.posterUrl && (
+                    <div className="col-12 col-md-3">
+                      <img
+                        src={movie.posterUrl}
+                        alt={`${movie.title} poster`}
+                        className="img-fluid rounded shadow-sm"
+                      />
+                    </div>
+                  )}
 
-                  <dt className="col-sm-3">Year</dt>
-                  <dd className="col-sm-9">{movie.year}</dd>
+                  <div className="col">
+                    {movie.overview && <p>{movie.overview}</p>}
+
+                    <dl className="row mb-0">
+                      <dt className="col-sm-3">ID</dt>
+                      <dd className="col-sm-9">{movie.id}</dd>
+
+                      <dt className="col-sm-3">Title</dt>
+                      <dd className="col-sm-9">{movie.title}</dd>
+
+                      <dt className="col-sm-3">Year</dt>
+                      <dd className="col-sm-9">{movie.year}</dd>
+
+                      <dt className="col-sm-3">Source</dt>
+                      <dd className="col-sm-9">{movie.source}</dd>
+
+                      {movie.importedFrom && (
+                        <>
+                          <dt className="col-sm-3">Imported from</dt>
+                          <dd className="col-sm-9">
+                            {providerLabel(movie.importedFrom.source)} (
+                            {movie.importedFrom.id}) on{" "}
+                            {new Date(
+                              movie.importedFrom.importedAt
+                            ).toLocaleDateString()}
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.createdBy && (
+                        <>
+                          <dt className="col-sm-3">Added by</dt>
+                          <dd className="col-sm-9">
+                            {movie.createdBy.username}
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.genres && movie.genres.length > 0 && (
+                        <>
+                          <dt className="col-sm-3">Genres</dt>
+                          <dd className="col-sm-9">
+                            {movie.genres.map((g) => (
+                              <span
+                                key={g}
+                                className="badge text-bg-light border me-1"
+                              >
+                                {g}
+                              </span>
+                            ))}
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.runtime !== undefined && (
+                        <>
+                          <dt className="col-sm-3">Runtime</dt>
+                          <dd className="col-sm-9">{movie.runtime} min</dd>
+                        </>
+                      )}
+
+                      {movie.originalLanguage && (
+                        <>
+                          <dt className="col-sm-3">Language</dt>
+                          <dd className="col-sm-9 text-uppercase">
+                            {movie.originalLanguage}
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.voteAverage !== undefined && (
+                        <>
+                          <dt className="col-sm-3">Rating</dt>
+                          <dd className="col-sm-9">
+                            {movie.voteAverage.toFixed(1)} / 10
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.reviewStats?.averageRating != null && (
+                        <>
+                          <dt className="col-sm-3">Reviewers</dt>
+                          <dd className="col-sm-9">
+                            {movie.reviewStats.averageRating.toFixed(1)} / 5
+                            <span className="text-muted">
+                              {" "}
+                              ({movie.reviewStats.ratings} rating
+                              {movie.reviewStats.ratings === 1 ? "" : "s"})
+                            </span>
+                          </dd>
+                        </>
+                      )}
+
+                      {movie.cast && movie.cast.length > 0 && (
+                        <>
+                          <dt className="col-sm-3">Cast</dt>
+                          <dd className="col-sm-9">
+                            <ul className="list-unstyled mb-0">
+                              {movie.cast.map((c, i) => (
+                                <li key={`${c.name}-${i}`}>
+                                  {c.name}
+                                  {c.character && (
+                                    <span className="text-muted">
+                                      {" "}
+                                      as {c.character}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          </dd>
+                        </>
+                      )}
+                    </dl>
+                  </div>
+                </div>
 
-                  <dt className="col-sm-3">Source</dt>
-                  <dd className="col-sm-9">{movie.source}</dd>
-                </dl>
+                {canEdit && movie.source === "local" && (
+                  <div className="d-flex gap-2 mt-3">
+                    <button
+                      className="btn btn-outline-secondary"
+                      onClick={openEdit}
+                      disabled={deleting}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-outline-danger"
+                      onClick={removeMovie}
+                      disabled={deleting}
+                    >
+                      {deleting ? "Deleting..." : "Delete"}
+                    </button>
+                  </div>
+                )}
+
+                {canEdit && movie.source === "api" && (
+                  <div className="mt-3">
+                    <button
+                      className="btn btn-primary"
+                      onClick={addToLibrary}
+                      disabled={importing}
+                    >
+                      {importing ? "Adding..." : "Add to my library"}
+                    </button>
+
+                    {importError && (
+                      <div className="alert alert-warning mt-3 mb-0">
+                        {importError.message}
+                        {importError.existingId && (
+                          <>
+                            {" "}
+                            <Link to={`/movies/${importError.existingId}`}>
+                              Open it
+                            </Link>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
 
-                <div className="alert alert-info mt-3 mb-0">
-                  Note: The third-party API only provides limited fields. The
-                  middleware normalizes all movies to a consistent shape.
-                </div>
+                <MovieListsPanel movieId={movie.id} />
               </>
             )}
           </div>
         </div>
+
+        {movie && <ReviewsSection movieId={movie.id} onStats={showStats} />}
+
+        {movie && (similar.length > 0 || similarError) && (
+          <div className="card shadow-sm mt-4">
+            <div className="card-header bg-white fw-semibold">
+              More like this
+            </div>
+            <div className="card-body">
+              {similarError ? (
+                <div className="text-muted small">{similarError}</div>
+              ) : (
+                <div className="row g-3">
+                  {similar.map(({ movie: m, reason }) => (
+                    <div className="col-12 col-md-6 col-lg-3" key={m.id}>
+                      <div className="border rounded p-3 bg-white h-100">
+                        <Link
+                          to={`/movies/${m.id}`}
+                          className="fw-semibold text-decoration-none"
+                        >
+                          {m.title}
+                        </Link>
+                        <div className="text-muted small">{m.year}</div>
+                        <div className="small mt-1">{reason}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
+
+      {showEdit && movie && (
+        <MovieFormModal
+          heading="Edit Local Movie"
+          submitLabel="Save"
+          busyLabel="Saving..."
+          initial={movie}
+          onSubmit={saveMovie}
+          onClose={() => setShowEdit(false)}
+        />
+      )}
     </div>
   );
 }
 
 export default function App() {
+  const [session, setSession] = useState<Session | null>(readSession);
+
+  // Drop a stored session the server no longer accepts (expired, or the
+  // account is gone); pick up role changes made since sign-in
+  useEffect(() => {
+    const stored = readSession();
+    if (!stored) return;
+
+    callApi("getCurrentUser")
+      .then(({ user }) => {
+        const refreshed = { ...stored, user };
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(refreshed));
+        setSession(refreshed);
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && err.status === 401) {
+          localStorage.removeItem(SESSION_STORAGE_KEY);
+          setSession(null);
+        } else {
+          console.error(err);
+        }
+      });
+  }, []);
+
+  const auth = useMemo(
+    () => ({
+      user: session?.user ?? null,
+      signIn(next: Session) {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+        setSession(next);
+      },
+      signOut() {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+        setSession(null);
+      },
+    }),
+    [session]
+  );
+
   return (
-    <Routes>
-      <Route path="/" element={<MoviesListPage />} />
-      <Route path="/movies/:id" element={<MovieDetailPage />} />
-    </Routes>
+    <AuthContext.Provider value={auth}>
+      <Routes>
+        <Route path="/" element={<MoviesListPage />} />
+        <Route path="/movies/:id" element={<MovieDetailPage />} />
+        <Route path="/lists/:listId?" element={<MyListsPage />} />
+      </Routes>
+    </AuthContext.Provider>
   );
 }
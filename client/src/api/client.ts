@@ -0,0 +1,193 @@
+// client/src/api/client.ts
+// Typed calls to the API: callApi("getMovie", { params: { id } }) checks
+// the params, query and body against the API's OpenAPI document (see
+// schema.ts, generated from it) and resolves to the documented response.
+
+import {
+  OPERATIONS,
+  type ImportReport,
+  type OperationId,
+  type Operations,
+  type Problem,
+} from "./schema";
+
+/**
+ * RFC 7807 problem+json body returned by the API on errors, with the
+ * members some errors add.
+ */
+export type ProblemDetails = Partial<Problem> & {
+  // POST /movies/import/:tpId conflict: the copy already in the library
+  existingId?: string;
+  // POST /movies/import?onDuplicate=fail conflict: the rows that clashed
+  report?: ImportReport;
+};
+
+/**
+ * Error for a non-2xx API response.
+ * fieldErrors maps a top-level field name ("title", "year", ...) to its
+ * message, so forms can highlight the right input.
+ */
+export class ApiError extends Error {
+  status: number;
+  fieldErrors: Record<string, string>;
+  problem: ProblemDetails;
+
+  constructor(
+    status: number,
+    message: string,
+    fieldErrors = {},
+    problem: ProblemDetails = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.problem = problem;
+  }
+}
+
+/**
+ * Build an ApiError from a failed response, using the problem+json
+ * detail when the server sent one.
+ */
+async function toApiError(res: Response, fallback: string) {
+  const problem = (await res.json().catch(() => ({}))) as ProblemDetails;
+  const fieldErrors: Record<string, string> = {};
+
+  // "body.cast.0.name" -> "cast"; keep the first message per field
+  for (const e of problem.errors ?? []) {
+    const field = e.field.split(".")[1] ?? e.field;
+    fieldErrors[field] ??= e.message;
+  }
+
+  const message = problem.detail ?? `${fallback} (${res.status})`;
+  const fields = Object.values(fieldErrors);
+
+  return new ApiError(
+    res.status,
+    fields.length ? `${message}: ${fields.join("; ")}` : message,
+    fieldErrors,
+    problem
+  );
+}
+
+// Where the signed-in user's token comes from (none until set)
+let readToken: () => string | null = () => null;
+
+/**
+ * Send the token `source` returns (if any) with every call.
+ */
+export function setTokenSource(source: () => string | null) {
+  readToken = source;
+}
+
+/**
+ * `name` as an option: left out when the operation has none, optional
+ * when all its members are.
+ */
+type Option<Name extends string, T> = [T] extends [undefined]
+  ? { [K in Name]?: undefined }
+  : object extends T
+    ? { [K in Name]?: T }
+    : { [K in Name]: T };
+
+export type CallOptions<Id extends OperationId> = Option<
+  "params",
+  Operations[Id]["params"]
+> &
+  Option<"query", Operations[Id]["query"]> &
+  Option<"body", Operations[Id]["body"]> & {
+    // Content-Type of an upload (a Blob or string body)
+    contentType?: string;
+    // writes: only if the resource still has this ETag (412 otherwise)
+    ifMatch?: string;
+    signal?: AbortSignal;
+    // error message when the server gives no detail
+    errorMessage?: string;
+  };
+
+type CallArgs<Id extends OperationId> =
+  object extends CallOptions<Id>
+    ? [options?: CallOptions<Id>]
+    : [options: CallOptions<Id>];
+
+type UrlOptions<Id extends OperationId> = {
+  params?: Operations[Id]["params"];
+  query?: Operations[Id]["query"];
+};
+
+/**
+ * URL of an operation, e.g. for a download link.
+ */
+export function apiUrl<Id extends OperationId>(
+  operationId: Id,
+  options: UrlOptions<Id>
+) {
+  const params = (options.params ?? {}) as Record<string, string | number>;
+  const path = OPERATIONS[operationId].path.replace(/\{(\w+)\}/g, (_, name) =>
+    encodeURIComponent(String(params[name]))
+  );
+
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined && value !== "") query.set(name, String(value));
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Call an operation. Rejects with an ApiError on a non-2xx answer.
+ */
+export async function callApi<Id extends OperationId>(
+  operationId: Id,
+  ...args: CallArgs<Id>
+): Promise<Operations[Id]["response"]> {
+  return (await callApiWithEtag(operationId, ...args)).data;
+}
+
+/**
+ * Call an operation and also return the ETag of the answer (null when
+ * it has none), to send back as `ifMatch` with a later write.
+ */
+export async function callApiWithEtag<Id extends OperationId>(
+  operationId: Id,
+  ...[options = {} as CallOptions<Id>]: CallArgs<Id>
+): Promise<{ data: Operations[Id]["response"]; etag: string | null }> {
+  const { method, path } = OPERATIONS[operationId];
+  const { body, contentType, ifMatch, signal, errorMessage } = options;
+
+  const headers: Record<string, string> = {};
+  const token = readToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (ifMatch) headers["If-Match"] = ifMatch;
+
+  let payload: BodyInit | undefined;
+  if (body instanceof Blob || typeof body === "string") {
+    payload = body;
+    if (contentType) headers["Content-Type"] = contentType;
+  } else if (body !== undefined) {
+    payload = JSON.stringify(body);
+    headers["Content-Type"] = "application/json";
+  }
+
+  const res = await fetch(apiUrl(operationId, options as UrlOptions<Id>), {
+    method,
+    headers,
+    body: payload,
+    signal,
+  });
+  if (!res.ok) {
+    throw await toApiError(res, errorMessage ?? `${method} ${path} failed`);
+  }
+
+  const etag = res.headers.get("ETag");
+  if (res.status === 204) {
+    return { data: undefined as Operations[Id]["response"], etag };
+  }
+  const type = res.headers.get("Content-Type") ?? "";
+  const data = /^application\/([\w.-]+\+)?json/.test(type)
+    ? await res.json()
+    : await res.text();
+  return { data, etag };
+}
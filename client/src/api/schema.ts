@@ -0,0 +1,878 @@
+// client/src/api/schema.ts
+// Generated from the API's OpenAPI document by `npm run openapi:client`
+// (in server/). Don't edit by hand: change the server's schemas and run
+// it again; `npm run check:contract` fails while this file is stale.
+
+export type CastMember = {
+  name: string;
+  character?: string;
+};
+
+export type ImportReport = {
+  format: "csv" | "json" | "ndjson";
+  dryRun: boolean;
+  onDuplicate: "skip" | "overwrite" | "fail";
+  summary: {
+    rows: number;
+    create: number;
+    overwrite: number;
+    skip: number;
+    invalid: number;
+    conflict: number;
+  };
+  rows: {
+    row: number;
+    action: "create" | "overwrite" | "skip" | "invalid" | "conflict";
+    title?: string;
+    year?: number;
+    id?: string;
+    duplicateOf?: {
+      id: string;
+    } | {
+      row: number;
+    };
+    errors?: {
+      field: string;
+      message: string;
+    }[];
+  }[];
+};
+
+export type Movie = {
+  id: string;
+  title: string;
+  year: number;
+  source: "api" | "local";
+  createdAt?: string;
+  updatedAt?: string;
+  overview?: string;
+  genres?: string[];
+  runtime?: number;
+  posterUrl?: string;
+  originalLanguage?: string;
+  cast?: CastMember[];
+  voteAverage?: number;
+  importedFrom?: {
+    source: string;
+    id: string;
+    importedAt: string;
+  };
+  createdBy?: UserRef;
+  origins?: MovieOrigin[];
+};
+
+export type MovieListDetail = {
+  id: string;
+  kind: "watchlist" | "favourites" | "custom";
+  name: string;
+  count: number;
+  updatedAt: string | null;
+  hasMovie?: boolean;
+  items: {
+    movieId: string;
+    addedAt: string;
+    movie: Movie | null;
+    rating: MovieRating | null;
+  }[];
+};
+
+export type MovieListSummary = {
+  id: string;
+  kind: "watchlist" | "favourites" | "custom";
+  name: string;
+  count: number;
+  updatedAt: string | null;
+  hasMovie?: boolean;
+};
+
+export type MovieOrigin = {
+  source: string;
+  id: string;
+};
+
+export type MoviePage = {
+  page: number;
+  pageSize: number;
+  items: Movie[];
+  meta: {
+    source: string;
+    search: string;
+    sort: "title" | "year" | "createdAt" | "source" | null;
+    order: "asc" | "desc";
+    year: number | null;
+    yearFrom: number | null;
+    yearTo: number | null;
+    collapse: boolean;
+    localCount?: number;
+    totalItems: number | null;
+    totalPages: number | null;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+    degraded?: boolean;
+    warnings?: string[];
+  };
+};
+
+export type MovieRating = {
+  userId: string;
+  movieId: string;
+  stars?: number;
+  watchedAt?: string;
+  updatedAt: string;
+};
+
+export type MovieWithStats = {
+  id: string;
+  title: string;
+  year: number;
+  source: "api" | "local";
+  createdAt?: string;
+  updatedAt?: string;
+  overview?: string;
+  genres?: string[];
+  runtime?: number;
+  posterUrl?: string;
+  originalLanguage?: string;
+  cast?: CastMember[];
+  voteAverage?: number;
+  importedFrom?: {
+    source: string;
+    id: string;
+    importedAt: string;
+  };
+  createdBy?: UserRef;
+  origins?: MovieOrigin[];
+  reviewStats: ReviewStats;
+};
+
+export type Problem = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: {
+    field: string;
+    message: string;
+  }[];
+  [key: string]: unknown;
+};
+
+export type ReadinessChecks = {
+  store: {
+    status: "ok" | "failed";
+    detail?: string;
+  };
+  upstreams: {
+    status: "ok" | "failed";
+    detail?: string;
+    provider: string;
+    checkedAt: string;
+  }[];
+};
+
+export type Recommendation = {
+  movie: Movie;
+  score: number;
+  because: {
+    id: string;
+    title: string;
+    year: number;
+  } | null;
+  reason: string;
+};
+
+export type Recommendations = {
+  items: Recommendation[];
+  meta: {
+    count: number;
+    seedId: string | null;
+    source: string;
+    degraded: boolean;
+    warnings?: string[];
+  };
+};
+
+export type Review = {
+  id: string;
+  movieId: string;
+  parentId: string | null;
+  author: UserRef;
+  text: string;
+  stars?: number;
+  hidden: boolean;
+  moderation?: {
+    by: UserRef;
+    at: string;
+    reason?: string;
+  };
+  helpfulCount: number;
+  votedHelpful: boolean;
+  createdAt: string;
+  updatedAt: string;
+  replies?: Review[];
+};
+
+export type ReviewsPage = {
+  page: number;
+  pageSize: number;
+  sort: "newest" | "helpful";
+  items: Review[];
+  stats: ReviewStats;
+  meta: {
+    totalItems: number | null;
+    totalPages: number | null;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+};
+
+export type ReviewStats = {
+  reviews: number;
+  ratings: number;
+  averageRating: number | null;
+};
+
+export type SearchHit = {
+  movie: Movie;
+  score: number;
+  highlights: {
+    field: "title" | "cast" | "genres";
+    text: string;
+    ranges: [number, number][];
+  }[];
+};
+
+export type SearchResults = {
+  items: SearchHit[];
+  meta: {
+    q: string;
+    source: string;
+    total: number;
+  };
+};
+
+export type Session = {
+  user: User;
+  token: string;
+  expiresAt: string;
+};
+
+export type StoreHealth = {
+  status: "ok" | "degraded";
+  detail?: string;
+};
+
+export type SyncStatus = {
+  provider: string;
+  running: boolean;
+  nextRunAt: string | null;
+  mirror: {
+    size: number;
+    complete: boolean;
+    lastSyncedAt: string | null;
+  };
+  progress: {
+    nextPage: number;
+    lastPage: number | null;
+    run: {
+      startedAt: string;
+      finishedAt: string | null;
+      status: "running" | "completed" | "failed" | "stopped";
+      pages: number;
+      fetched: number;
+      added: number;
+      updated: number;
+      unchanged: number;
+      removed: number;
+      error?: string;
+    };
+  } | null;
+  lastRun: {
+    startedAt: string;
+    finishedAt: string | null;
+    status: "running" | "completed" | "failed" | "stopped";
+    pages: number;
+    fetched: number;
+    added: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+    error?: string;
+  } | null;
+};
+
+export type User = {
+  id: string;
+  username: string;
+  role: "viewer" | "moderator" | "editor";
+  createdAt: string;
+};
+
+export type UserRef = {
+  id: string;
+  username: string;
+};
+
+/**
+ * Request and response types of every operation, by operationId.
+ */
+export type Operations = {
+  listMovies: {
+    params: undefined;
+    query: {
+      page?: number;
+      pageSize?: number;
+      source?: string;
+      search?: string;
+      sort?: "title" | "year" | "createdAt" | "source";
+      order?: "asc" | "desc";
+      year?: number;
+      yearFrom?: number;
+      yearTo?: number;
+      collapse?: boolean;
+    };
+    body: undefined;
+    response: MoviePage;
+  };
+  createMovie: {
+    params: undefined;
+    query: undefined;
+    body: {
+      title: string;
+      year: number;
+      overview?: string;
+      genres?: string[];
+      runtime?: number;
+      posterUrl?: string;
+      originalLanguage?: string;
+      cast?: (string | {
+        name: string;
+        character?: string;
+      })[];
+      voteAverage?: number;
+    };
+    response: Movie;
+  };
+  searchMovies: {
+    params: undefined;
+    query: {
+      q: string;
+      limit?: number;
+      source?: string;
+    };
+    body: undefined;
+    response: SearchResults;
+  };
+  listSources: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: {
+        name: string;
+        idPrefix: string;
+      }[];
+    };
+  };
+  streamMovieEvents: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: string;
+  };
+  getRecommendations: {
+    params: undefined;
+    query: {
+      count?: number;
+      seedId?: string;
+      source?: string;
+    };
+    body: undefined;
+    response: Recommendations;
+  };
+  getRandomMovies: {
+    params: {
+      count: number;
+    };
+    query: {
+      source?: string;
+    };
+    body: undefined;
+    response: Movie[];
+  };
+  getMovie: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: MovieWithStats;
+  };
+  replaceMovie: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: {
+      title: string;
+      year: number;
+      overview?: string;
+      genres?: string[];
+      runtime?: number;
+      posterUrl?: string;
+      originalLanguage?: string;
+      cast?: (string | {
+        name: string;
+        character?: string;
+      })[];
+      voteAverage?: number;
+    };
+    response: Movie;
+  };
+  updateMovie: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: {
+      title?: string;
+      year?: number;
+      overview?: string | null;
+      genres?: string[] | null;
+      runtime?: number | null;
+      posterUrl?: string | null;
+      originalLanguage?: string | null;
+      cast?: (string | {
+        name: string;
+        character?: string;
+      })[] | null;
+      voteAverage?: number | null;
+    };
+    response: Movie;
+  };
+  deleteMovie: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: void;
+  };
+  importProviderMovie: {
+    params: {
+      tpId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: Movie;
+  };
+  importMovies: {
+    params: undefined;
+    query: {
+      format?: "csv" | "json" | "ndjson";
+      dryRun?: boolean;
+      onDuplicate?: "skip" | "overwrite" | "fail";
+    };
+    body: unknown;
+    response: ImportReport;
+  };
+  exportMovies: {
+    params: undefined;
+    query: {
+      format?: "csv" | "json" | "ndjson";
+      search?: string;
+      sort?: "title" | "year" | "createdAt" | "source";
+      order?: "asc" | "desc";
+      year?: number;
+      yearFrom?: number;
+      yearTo?: number;
+    };
+    body: undefined;
+    response: string;
+  };
+  getRating: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: MovieRating;
+  };
+  setRating: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: {
+      stars?: number;
+      watchedAt?: string;
+    };
+    response: MovieRating;
+  };
+  deleteRating: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: void;
+  };
+  listReviews: {
+    params: {
+      id: string;
+    };
+    query: {
+      page?: number;
+      pageSize?: number;
+      sort?: "newest" | "helpful";
+    };
+    body: undefined;
+    response: ReviewsPage;
+  };
+  createReview: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: {
+      text: string;
+      stars?: number;
+      parentId?: string;
+    };
+    response: Review;
+  };
+  updateReview: {
+    params: {
+      reviewId: string;
+    };
+    query: undefined;
+    body: {
+      text?: string;
+      stars?: number | null;
+    };
+    response: Review;
+  };
+  deleteReview: {
+    params: {
+      reviewId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: void;
+  };
+  moderateReview: {
+    params: {
+      reviewId: string;
+    };
+    query: undefined;
+    body: {
+      hidden: boolean;
+      reason?: string;
+    };
+    response: Review;
+  };
+  markReviewHelpful: {
+    params: {
+      reviewId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: Review;
+  };
+  unmarkReviewHelpful: {
+    params: {
+      reviewId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: Review;
+  };
+  register: {
+    params: undefined;
+    query: undefined;
+    body: {
+      username: string;
+      password: string;
+    };
+    response: Session;
+  };
+  login: {
+    params: undefined;
+    query: undefined;
+    body: {
+      username: string;
+      password: string;
+    };
+    response: Session;
+  };
+  getCurrentUser: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      user: User;
+    };
+  };
+  listUsers: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: User[];
+    };
+  };
+  updateUser: {
+    params: {
+      id: string;
+    };
+    query: undefined;
+    body: {
+      role: "viewer" | "moderator" | "editor";
+    };
+    response: User;
+  };
+  listLists: {
+    params: undefined;
+    query: {
+      movieId?: string;
+    };
+    body: undefined;
+    response: {
+      items: MovieListSummary[];
+    };
+  };
+  createList: {
+    params: undefined;
+    query: undefined;
+    body: {
+      name: string;
+    };
+    response: MovieListSummary;
+  };
+  getList: {
+    params: {
+      listId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: MovieListDetail;
+  };
+  renameList: {
+    params: {
+      listId: string;
+    };
+    query: undefined;
+    body: {
+      name: string;
+    };
+    response: MovieListSummary;
+  };
+  deleteList: {
+    params: {
+      listId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: void;
+  };
+  addListItem: {
+    params: {
+      listId: string;
+      movieId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: MovieListSummary;
+  };
+  removeListItem: {
+    params: {
+      listId: string;
+      movieId: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: void;
+  };
+  listSnapshots: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: {
+        name: string;
+        createdAt: string;
+        sizeBytes: number;
+      }[];
+    };
+  };
+  restoreSnapshot: {
+    params: {
+      name: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: {
+      restored: string;
+      store: StoreHealth;
+    };
+  };
+  getCacheStats: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: {
+        provider: string;
+        size: number;
+        maxEntries: number;
+        ttlMs: number;
+        hits: number;
+        misses: number;
+        evictions: number;
+        expirations: number;
+      }[];
+    };
+  };
+  getUpstreams: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: {
+        provider: string;
+        name: string;
+        state: "closed" | "open" | "half_open";
+        consecutiveFailures: number;
+        openedAt: string | null;
+        lastError: string | null;
+      }[];
+    };
+  };
+  listSyncs: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      items: SyncStatus[];
+    };
+  };
+  getSync: {
+    params: {
+      provider: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: SyncStatus;
+  };
+  startSync: {
+    params: {
+      provider: string;
+    };
+    query: undefined;
+    body: undefined;
+    response: SyncStatus;
+  };
+  getHealth: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      status: "ok" | "degraded";
+      store: StoreHealth;
+    };
+  };
+  getLiveness: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      status: "ok";
+      uptimeSeconds: number;
+    };
+  };
+  getReadiness: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: {
+      status: "ready" | "degraded";
+      checks: ReadinessChecks;
+    };
+  };
+  getMetrics: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: string;
+  };
+  getOpenApiDocument: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: string;
+  };
+  getDocs: {
+    params: undefined;
+    query: undefined;
+    body: undefined;
+    response: string;
+  };
+};
+
+export type OperationId = keyof Operations;
+
+/**
+ * Method and path (with {param} placeholders) of every operation.
+ */
+export const OPERATIONS = {
+  listMovies: { method: "GET", path: "/movies" },
+  createMovie: { method: "POST", path: "/movies" },
+  searchMovies: { method: "GET", path: "/movies/search" },
+  listSources: { method: "GET", path: "/movies/sources" },
+  streamMovieEvents: { method: "GET", path: "/movies/events" },
+  getRecommendations: { method: "GET", path: "/movies/recommendations" },
+  getRandomMovies: { method: "GET", path: "/movies/random/{count}" },
+  getMovie: { method: "GET", path: "/movies/{id}" },
+  replaceMovie: { method: "PUT", path: "/movies/{id}" },
+  updateMovie: { method: "PATCH", path: "/movies/{id}" },
+  deleteMovie: { method: "DELETE", path: "/movies/{id}" },
+  importProviderMovie: { method: "POST", path: "/movies/import/{tpId}" },
+  importMovies: { method: "POST", path: "/movies/import" },
+  exportMovies: { method: "GET", path: "/movies/export" },
+  getRating: { method: "GET", path: "/movies/{id}/rating" },
+  setRating: { method: "PUT", path: "/movies/{id}/rating" },
+  deleteRating: { method: "DELETE", path: "/movies/{id}/rating" },
+  listReviews: { method: "GET", path: "/movies/{id}/reviews" },
+  createReview: { method: "POST", path: "/movies/{id}/reviews" },
+  updateReview: { method: "PATCH", path: "/reviews/{reviewId}" },
+  deleteReview: { method: "DELETE", path: "/reviews/{reviewId}" },
+  moderateReview: { method: "PUT", path: "/reviews/{reviewId}/moderation" },
+  markReviewHelpful: { method: "PUT", path: "/reviews/{reviewId}/helpful" },
+  unmarkReviewHelpful: { method: "DELETE", path: "/reviews/{reviewId}/helpful" },
+  register: { method: "POST", path: "/auth/register" },
+  login: { method: "POST", path: "/auth/login" },
+  getCurrentUser: { method: "GET", path: "/auth/me" },
+  listUsers: { method: "GET", path: "/auth/users" },
+  updateUser: { method: "PATCH", path: "/auth/users/{id}" },
+  listLists: { method: "GET", path: "/me/lists" },
+  createList: { method: "POST", path: "/me/lists" },
+  getList: { method: "GET", path: "/me/lists/{listId}" },
+  renameList: { method: "PATCH", path: "/me/lists/{listId}" },
+  deleteList: { method: "DELETE", path: "/me/lists/{listId}" },
+  addListItem: { method: "PUT", path: "/me/lists/{listId}/items/{movieId}" },
+  removeListItem: { method: "DELETE", path: "/me/lists/{listId}/items/{movieId}" },
+  listSnapshots: { method: "GET", path: "/admin/snapshots" },
+  restoreSnapshot: { method: "POST", path: "/admin/snapshots/{name}/restore" },
+  getCacheStats: { method: "GET", path: "/admin/cache" },
+  getUpstreams: { method: "GET", path: "/admin/upstreams" },
+  listSyncs: { method: "GET", path: "/admin/sync" },
+  getSync: { method: "GET", path: "/admin/sync/{provider}" },
+  startSync: { method: "POST", path: "/admin/sync/{provider}" },
+  getHealth: { method: "GET", path: "/health" },
+  getLiveness: { method: "GET", path: "/health/live" },
+  getReadiness: { method: "GET", path: "/health/ready" },
+  getMetrics: { method: "GET", path: "/metrics" },
+  getOpenApiDocument: { method: "GET", path: "/openapi.json" },
+  getDocs: { method: "GET", path: "/docs" },
+} as const satisfies Record<OperationId, { method: string; path: string }>;
@@ -6,6 +6,11 @@ export default defineConfig({
   server: {
     proxy: {
       "/movies": "http://localhost:4000",
+      "/auth": "http://localhost:4000",
+      "/me": "http://localhost:4000",
+      "/reviews": "http://localhost:4000",
+      "/openapi.json": "http://localhost:4000",
+      "/docs": "http://localhost:4000",
     },
   },
 });
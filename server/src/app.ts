@@ -0,0 +1,76 @@
+// server/src/app.ts
+// The Express app: middleware, routers and error handling. index.ts
+// prepares the services and listens; the contract check builds the same
+// app against throwaway data.
+import express, { type Router } from "express";
+import cors from "cors";
+import moviesRouter from "./routes/movies";
+import movieEventsRouter from "./routes/movieEvents";
+import bulkRouter from "./routes/bulk";
+import adminRouter from "./routes/admin";
+import authRouter from "./routes/auth";
+import meRouter from "./routes/me";
+import ratingsRouter from "./routes/ratings";
+import reviewsRouter from "./routes/reviews";
+import docsRouter from "./routes/docs";
+import healthRouter from "./routes/health";
+import metricsRouter from "./routes/metrics";
+import { getConfig } from "./config";
+import { authenticate } from "./http/auth";
+import { notFoundHandler, problemHandler } from "./http/problem";
+import { requestLog } from "./http/requestLog";
+
+/**
+ * Routers by mount path ("" for those that name full paths), in mount
+ * order. The first ones read their request bodies themselves: bulk
+ * uploads are streamed, before the JSON body parser would buffer them.
+ */
+export const STREAMING_ROUTERS: [string, Router][] = [["/movies", bulkRouter]];
+
+export const ROUTERS: [string, Router][] = [
+  ["/auth", authRouter],
+  ["/me", meRouter],
+  ["/movies", ratingsRouter],
+  ["", reviewsRouter],
+  ["/movies", movieEventsRouter],
+  ["/movies", moviesRouter],
+  ["/admin", adminRouter],
+  ["", docsRouter],
+  ["", healthRouter],
+  ["", metricsRouter],
+];
+
+export function createApp() {
+  const app = express();
+
+  /**
+   * Middleware
+   */
+  // first, so everything after it is logged under the request's id
+  app.use(requestLog);
+  // browser origins allowed to call the API (corsOrigins / CORS_ORIGINS)
+  app.use(
+    cors({
+      origin: getConfig().corsOrigins,
+      exposedHeaders: ["X-Request-Id", "ETag", "Last-Modified"],
+    })
+  );
+  app.use(authenticate);
+
+  for (const [path, router] of STREAMING_ROUTERS) app.use(path || "/", router);
+
+  app.use(express.json());
+
+  /**
+   * Routes
+   */
+  for (const [path, router] of ROUTERS) app.use(path || "/", router);
+
+  /**
+   * Errors (RFC 7807 problem+json)
+   */
+  app.use(notFoundHandler);
+  app.use(problemHandler);
+
+  return app;
+}
@@ -0,0 +1,329 @@
+// server/src/config.ts
+// The server's settings as one typed object. Each setting comes from the
+// first of: an environment variable, CONFIG_FILE, config/<profile>.json,
+// the profile's defaults, the built-in defaults. Read with getConfig().
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { LOG_LEVELS } from "./services/observability/logger";
+import { UPSTREAM_MODES } from "./services/providers/jsonFakeryFixtures";
+
+// The server package (server/), whether running from src/ or dist/.
+// Relative paths in the settings are resolved against it, not against
+// the directory the server was started from.
+export const SERVER_ROOT = path.resolve(__dirname, "..");
+
+export const PROFILES = ["development", "production", "test"] as const;
+export type Profile = (typeof PROFILES)[number];
+
+/**
+ * The configuration was missing, unreadable or invalid. `problems` says
+ * which setting (and where it came from) is wrong, one per line.
+ */
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    const lines = problems.map((problem) => `  - ${problem}`);
+    super(`Invalid configuration:\n${lines.join("\n")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+const count = z.coerce.number().int().nonnegative();
+const ms = z.coerce.number().int().nonnegative();
+
+// comma-separated in the environment, a list in config files
+const origins = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    (Array.isArray(value) ? value : value.split(","))
+      .map((origin) => origin.trim())
+      .filter(Boolean)
+  );
+
+const configSchema = z
+  .strictObject({
+    profile: z.enum(PROFILES),
+    port: z.coerce.number().int().min(0).max(65535).default(4000),
+    // local movies, accounts, lists, caches and mirrors
+    dataDir: z.string().min(1).default("data"),
+    // browser origins allowed to call the API (default: Vite dev server)
+    corsOrigins: origins.default(["http://localhost:5173"]),
+    // how long SIGTERM waits for requests and writes before giving up
+    shutdownTimeoutMs: ms.default(10000),
+    // lowest level of the JSON logs written
+    logLevel: z.enum(LOG_LEVELS).default("info"),
+
+    store: z
+      .strictObject({
+        backend: z.enum(["json", "sqlite"]).default("json"),
+        // default: <dataDir>/movies.db
+        sqlitePath: z.string().min(1).optional(),
+        // JSON backend: snapshots kept before writes
+        backupLimit: count.default(20),
+      })
+      .prefault({}),
+
+    auth: z
+      .strictObject({
+        // signs session tokens; random (sessions end on restart) if unset
+        secret: z.string().min(1).optional(),
+        sessionTtlMs: ms.default(12 * 60 * 60 * 1000),
+        // default: <dataDir>/users.json
+        usersPath: z.string().min(1).optional(),
+        // an editor account created at startup if it doesn't exist (sign
+        // ups are always viewers, so this is how the first editor is made)
+        adminUsername: z.string().min(3).optional(),
+        adminPassword: z.string().min(8).optional(),
+      })
+      .prefault({}),
+
+    // provider caches: 5000 movies per provider, kept for a day
+    cache: z
+      .strictObject({
+        maxEntries: count.default(5000),
+        ttlMs: ms.default(24 * 60 * 60 * 1000),
+      })
+      .prefault({}),
+
+    thirdParty: z
+      .strictObject({
+        baseUrl: z.url().default("https://jsonfakery.com/movies"),
+        mode: z.enum(UPSTREAM_MODES).default("live"),
+        fixturesDir: z.string().min(1).default("fixtures/third_party"),
+        fixtureSeed: z.coerce.number().int().default(1),
+      })
+      .prefault({}),
+
+    // 5s per attempt, 2 retries, circuit opens after 5 failed requests in
+    // a row and lets a trial through after 30s
+    upstream: z
+      .strictObject({
+        timeoutMs: ms.default(5000),
+        retries: count.default(2),
+        breakerThreshold: count.default(5),
+        breakerResetMs: ms.default(30000),
+      })
+      .prefault({}),
+
+    // a full crawl every 6 hours, one page a second (0: only on demand)
+    sync: z
+      .strictObject({
+        intervalMs: ms.default(6 * 60 * 60 * 1000),
+        pageDelayMs: ms.default(1000),
+      })
+      .prefault({}),
+
+    // limits of one bulk upload
+    bulk: z
+      .strictObject({
+        maxUploadBytes: count.default(20 * 1024 * 1024),
+        maxUploadRows: count.default(10000),
+      })
+      .prefault({}),
+  })
+  .superRefine((config, ctx) => {
+    if (config.profile === "production" && !config.auth.secret) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["auth", "secret"],
+        message: "is required in production (sessions must survive restarts)",
+      });
+    }
+    if (!config.auth.adminUsername !== !config.auth.adminPassword) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["auth", "adminPassword"],
+        message: "adminUsername and adminPassword are set together",
+      });
+    }
+  });
+
+type ParsedConfig = z.output<typeof configSchema>;
+
+export type Config = ParsedConfig & {
+  store: { sqlitePath: string };
+  auth: { usersPath: string };
+};
+
+// Settings that an environment variable overrides, by path
+const ENV_VARS: Record<string, string> = {
+  port: "PORT",
+  dataDir: "DATA_DIR",
+  corsOrigins: "CORS_ORIGINS",
+  shutdownTimeoutMs: "SHUTDOWN_TIMEOUT_MS",
+  logLevel: "LOG_LEVEL",
+  "store.backend": "MOVIE_STORE",
+  "store.sqlitePath": "MOVIES_DB_PATH",
+  "store.backupLimit": "MOVIE_BACKUP_LIMIT",
+  "auth.secret": "AUTH_SECRET",
+  "auth.sessionTtlMs": "AUTH_SESSION_TTL_MS",
+  "auth.usersPath": "USERS_PATH",
+  "auth.adminUsername": "ADMIN_USERNAME",
+  "auth.adminPassword": "ADMIN_PASSWORD",
+  "cache.maxEntries": "PROVIDER_CACHE_MAX",
+  "cache.ttlMs": "PROVIDER_CACHE_TTL_MS",
+  "thirdParty.baseUrl": "THIRD_PARTY_BASE_URL",
+  "thirdParty.mode": "THIRD_PARTY_MODE",
+  "thirdParty.fixturesDir": "THIRD_PARTY_FIXTURES_DIR",
+  "thirdParty.fixtureSeed": "THIRD_PARTY_FIXTURE_SEED",
+  "upstream.timeoutMs": "UPSTREAM_TIMEOUT_MS",
+  "upstream.retries": "UPSTREAM_RETRIES",
+  "upstream.breakerThreshold": "UPSTREAM_BREAKER_THRESHOLD",
+  "upstream.breakerResetMs": "UPSTREAM_BREAKER_RESET_MS",
+  "sync.intervalMs": "SYNC_INTERVAL_MS",
+  "sync.pageDelayMs": "SYNC_PAGE_DELAY_MS",
+  "bulk.maxUploadBytes": "BULK_MAX_UPLOAD_BYTES",
+  "bulk.maxUploadRows": "BULK_MAX_UPLOAD_ROWS",
+};
+
+type Settings = { [key: string]: unknown };
+
+// What each profile changes from the built-in defaults
+const PROFILE_DEFAULTS: Record<Profile, Settings> = {
+  development: {},
+  production: {},
+  // no background crawls, failures show up at once, only problems logged
+  test: {
+    logLevel: "warn",
+    sync: { intervalMs: 0, pageDelayMs: 0 },
+    upstream: { retries: 0 },
+  },
+};
+
+function isSettings(value: unknown): value is Settings {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * `override` on top of `base`, merging nested sections.
+ */
+function merge(base: Settings, override: Settings): Settings {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isSettings(value) && isSettings(merged[key])
+        ? merge(merged[key] as Settings, value)
+        : value;
+  }
+  return merged;
+}
+
+/**
+ * The settings in a JSON config file (none when an optional one is
+ * missing).
+ */
+function readConfigFile(filePath: string, required: boolean): Settings {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf-8");
+  } catch (err) {
+    if (!required && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw new ConfigError([`${filePath}: ${(err as Error).message}`]);
+  }
+
+  let settings: unknown;
+  try {
+    settings = JSON.parse(raw);
+  } catch (err) {
+    throw new ConfigError([`${filePath}: ${(err as Error).message}`]);
+  }
+  if (!isSettings(settings)) {
+    throw new ConfigError([`${filePath}: must contain a JSON object`]);
+  }
+  return settings;
+}
+
+/**
+ * The settings set in `env` (empty variables count as unset).
+ */
+function fromEnv(env: NodeJS.ProcessEnv): Settings {
+  let settings: Settings = {};
+  for (const [key, name] of Object.entries(ENV_VARS)) {
+    const value = env[name];
+    if (value === undefined || value === "") continue;
+
+    const nested = key
+      .split(".")
+      .reduceRight<unknown>((inner, part) => ({ [part]: inner }), value);
+    settings = merge(settings, nested as Settings);
+  }
+  return settings;
+}
+
+/**
+ * Read and check the configuration of the profile named by NODE_ENV
+ * (default development). Throws a ConfigError listing every problem.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const profile = env.NODE_ENV || "development";
+  if (!PROFILES.includes(profile as Profile)) {
+    throw new ConfigError([
+      `NODE_ENV "${profile}" is not a profile (use ${PROFILES.join(", ")})`,
+    ]);
+  }
+
+  let settings = merge({ profile }, PROFILE_DEFAULTS[profile as Profile]);
+  settings = merge(
+    settings,
+    readConfigFile(path.join(SERVER_ROOT, "config", `${profile}.json`), false)
+  );
+  if (env.CONFIG_FILE) {
+    settings = merge(
+      settings,
+      readConfigFile(path.resolve(SERVER_ROOT, env.CONFIG_FILE), true)
+    );
+  }
+  settings = merge(settings, fromEnv(env));
+
+  const result = configSchema.safeParse(settings);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map((issue) => {
+        const key = issue.path.join(".");
+        const source = ENV_VARS[key] ? ` (${ENV_VARS[key]})` : "";
+        return `${key || "config"}${source}: ${issue.message}`;
+      })
+    );
+  }
+
+  const config = result.data;
+  const resolve = (p: string) => path.resolve(SERVER_ROOT, p);
+  const dataDir = resolve(config.dataDir);
+
+  return {
+    ...config,
+    dataDir,
+    store: {
+      ...config.store,
+      sqlitePath: resolve(
+        config.store.sqlitePath ?? path.join(dataDir, "movies.db")
+      ),
+    },
+    auth: {
+      ...config.auth,
+      usersPath: resolve(
+        config.auth.usersPath ?? path.join(dataDir, "users.json")
+      ),
+    },
+    thirdParty: {
+      ...config.thirdParty,
+      fixturesDir: resolve(config.thirdParty.fixturesDir),
+    },
+  };
+}
+
+let config: Config | null = null;
+
+/**
+ * The configuration, loaded on first use.
+ */
+export function getConfig(): Config {
+  config ??= loadConfig();
+  return config;
+}
@@ -0,0 +1,70 @@
+// server/src/http/auth.ts
+// Who is making a request, and whether they may. `authenticate` reads the
+// "Authorization: Bearer <token>" header for every request; routes that
+// change data add requireRole(...).
+
+import type { RequestHandler, Response } from "express";
+import { toUserRef, userForToken } from "../services/auth";
+import { ROLES, type PublicUser, type Role, type UserRef } from "../types/user";
+import { sendProblem } from "./problem";
+
+declare global {
+  namespace Express {
+    interface Locals {
+      // the signed-in user, set by authenticate
+      user?: PublicUser;
+    }
+  }
+}
+
+/**
+ * Set res.locals.user from a valid session token. Requests without one
+ * (or with an expired one) carry on anonymously; requireRole decides.
+ */
+export const authenticate: RequestHandler = (req, res, next) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  const user = match ? userForToken(match[1]) : null;
+  if (user) res.locals.user = user;
+  next();
+};
+
+/**
+ * Only let through users with at least `role` (viewer < moderator < editor):
+ * 401 when not signed in, 403 when the role is too low.
+ * Typed loosely so it can come before validate() in a route.
+ */
+export function requireRole(
+  role: Role
+): RequestHandler<Record<string, string>, unknown, unknown, unknown> {
+  return (req, res, next) => {
+    const { user } = res.locals;
+
+    if (!user) {
+      const sentToken = req.get("authorization") !== undefined;
+      res.set("WWW-Authenticate", 'Bearer realm="movies"');
+      return sendProblem(
+        res,
+        401,
+        sentToken
+          ? "Your session has expired; sign in again"
+          : "Sign in to do this"
+      );
+    }
+
+    if (ROLES.indexOf(user.role) < ROLES.indexOf(role)) {
+      return sendProblem(res, 403, `Only ${role}s can do this`);
+    }
+
+    next();
+  };
+}
+
+/**
+ * The signed-in user as recorded on what they create. Only call behind
+ * requireRole.
+ */
+export function currentUserRef(res: Response): UserRef {
+  const { user } = res.locals;
+  if (!user) throw new Error("No signed-in user (missing requireRole?)");
+  return toUserRef(user);
+}
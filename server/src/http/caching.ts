@@ -0,0 +1,105 @@
+// server/src/http/caching.ts
+// HTTP caching of movie responses: entity tags, Cache-Control policies,
+// conditional GETs (304) and If-Match.
+
+import { createHash } from "crypto";
+import type { Request, Response } from "express";
+
+// How long clients and shared caches may reuse provider data without
+// asking again. It only changes upstream, and our own copy is cached
+// anyway.
+const PROVIDER_MAX_AGE_SECONDS = 60;
+
+export const CACHE_CONTROL = {
+  // local movies can change at any time: keep them, but revalidate
+  local: "no-cache",
+  provider: `public, max-age=${PROVIDER_MAX_AGE_SECONDS}`,
+};
+
+/**
+ * Short digest of a JSON value (same value, same digest).
+ */
+export function digest(value: unknown): string {
+  return createHash("sha1").update(JSON.stringify(value)).digest("base64url");
+}
+
+/**
+ * Strong ETag: the representation is byte-for-byte `body`.
+ */
+export function strongEtag(body: unknown): string {
+  return `"${digest(body)}"`;
+}
+
+/**
+ * Strong ETag of `resource` shown with `extras` derived from elsewhere
+ * (counts, say): a digest of each, so a change to either makes a new
+ * tag. ifMatchAllows() only compares the resource's half.
+ */
+export function strongEtagWith(resource: unknown, extras: unknown): string {
+  return `"${digest(resource)}.${digest(extras)}"`;
+}
+
+/**
+ * Weak ETag: responses built from the same `sources` are equivalent.
+ */
+export function weakEtag(sources: unknown): string {
+  return `W/"${digest(sources)}"`;
+}
+
+/**
+ * Set the validators and cache policy of a response. lastModified is an
+ * ISO timestamp.
+ */
+export function setCaching(
+  res: Response,
+  options: { etag: string; cacheControl: string; lastModified?: string }
+): void {
+  res.set("ETag", options.etag);
+  res.set("Cache-Control", options.cacheControl);
+  if (options.lastModified) {
+    res.set("Last-Modified", new Date(options.lastModified).toUTCString());
+  }
+}
+
+/**
+ * Whether the client's copy is current, given the validators set on
+ * `res`: If-None-Match names its ETag (weak comparison), or, without
+ * If-None-Match, If-Modified-Since is no earlier than Last-Modified.
+ * Unlike req.fresh, the request's "Cache-Control: no-cache" doesn't make
+ * it stale: fetch() adds that to every request with If-None-Match.
+ */
+export function isFresh(
+  req: Pick<Request, "get">,
+  res: Response
+): boolean {
+  const etag = res.get("ETag");
+  const ifNoneMatch = req.get("If-None-Match");
+  if (ifNoneMatch !== undefined) {
+    if (!etag) return false;
+    if (ifNoneMatch.trim() === "*") return true;
+
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+
+  const lastModified = res.get("Last-Modified");
+  const ifModifiedSince = req.get("If-Modified-Since");
+  if (!lastModified || !ifModifiedSince) return false;
+  // an unparsable date compares false
+  return Date.parse(lastModified) <= Date.parse(ifModifiedSince);
+}
+
+/**
+ * Whether an If-Match list of ETags names `resource` as it is now, by a
+ * strongEtag() of it or a strongEtagWith() of it and any extras (strong
+ * comparison, so weak tags never match). "*" is left to the caller: it
+ * matches anything that exists.
+ */
+export function ifMatchAllows(ifMatch: string, resource: unknown): boolean {
+  const current = digest(resource);
+  return ifMatch
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => !tag.startsWith("W/"))
+    .some((tag) => tag.replace(/^"|"$/g, "").split(".")[0] === current);
+}
@@ -0,0 +1,21 @@
+// server/src/http/pagination.ts
+// The pagination fields of paged list responses ({ page, pageSize,
+// items, meta }).
+
+/**
+ * Pagination fields shared by paged responses (GET /movies, reviews).
+ * totalItems/totalPages are null when the upstream doesn't report a total.
+ */
+export function paginationMeta(
+  page: number,
+  pageSize: number,
+  totalItems: number | null,
+  hasNextPage: boolean
+) {
+  return {
+    totalItems,
+    totalPages: totalItems === null ? null : Math.ceil(totalItems / pageSize),
+    hasNextPage,
+    hasPrevPage: page > 1,
+  };
+}
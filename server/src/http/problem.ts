@@ -0,0 +1,173 @@
+// server/src/http/problem.ts
+// RFC 7807 "problem details" error responses (application/problem+json).
+
+import type { ErrorRequestHandler, RequestHandler, Response } from "express";
+import { logger } from "../services/observability";
+import {
+  DuplicateReviewError,
+  MovieChangedError,
+  StoreUnavailableError,
+} from "../services/repositories/errors";
+import {
+  CircuitOpenError,
+  UpstreamError,
+} from "../services/upstream/errors";
+
+/**
+ * One invalid field, e.g. { field: "body.year", message: "..." }.
+ * field is "<params|query|body>.<path>".
+ */
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+/**
+ * RFC 7807 body. `errors` is our extension member for per-field details.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors?: FieldError[];
+};
+
+// Default titles, so callers usually only need status + detail
+const TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+};
+
+/**
+ * An error that should reach the client as a problem+json response.
+ * Throw it from a handler (or pass it to next) and problemHandler renders it.
+ */
+export class HttpProblem extends Error {
+  status: number;
+  title: string;
+  errors?: FieldError[];
+
+  constructor(
+    status: number,
+    detail: string,
+    options: { title?: string; errors?: FieldError[] } = {}
+  ) {
+    super(detail);
+    this.name = "HttpProblem";
+    this.status = status;
+    this.title = options.title ?? TITLES[status] ?? "Error";
+    this.errors = options.errors;
+  }
+}
+
+/**
+ * Write a problem+json response. `extensions` are extra members for the
+ * client (e.g. the id of a conflicting movie).
+ */
+export function sendProblem(
+  res: Response,
+  status: number,
+  detail: string,
+  options: {
+    title?: string;
+    errors?: FieldError[];
+    extensions?: Record<string, unknown>;
+  } = {}
+) {
+  const problem: ProblemDetails = {
+    type: "about:blank",
+    title: options.title ?? TITLES[status] ?? "Error",
+    status,
+    detail,
+    instance: res.req.originalUrl,
+    ...options.extensions,
+  };
+  if (options.errors) problem.errors = options.errors;
+
+  // validators set before the failure describe a body that isn't sent
+  res.removeHeader("ETag");
+  res.removeHeader("Last-Modified");
+  res.removeHeader("Cache-Control");
+
+  return res.status(status).type("application/problem+json").json(problem);
+}
+
+/**
+ * Status for errors we know how to explain, or null for anything else.
+ * Unavailable store / open circuit: 503. Upstream failed: 502. A
+ * conditional write that found the movie changed: 412. A second review
+ * of a movie: 409.
+ */
+function knownErrorStatus(err: unknown): number | null {
+  if (err instanceof MovieChangedError) return 412;
+  if (err instanceof DuplicateReviewError) return 409;
+  if (err instanceof StoreUnavailableError) return 503;
+  if (err instanceof CircuitOpenError) return 503;
+  if (err instanceof UpstreamError) return 502;
+  return null;
+}
+
+/**
+ * Respond to an unexpected error caught in a route.
+ * Known errors (see knownErrorStatus) keep their own message;
+ * anything else is a 500 with the route's generic message. Either way
+ * the error is logged: the client only sees the message.
+ */
+export function sendFailure(res: Response, err: unknown, detail: string) {
+  const status = knownErrorStatus(err);
+  if (status !== null) {
+    logger.warn(detail, { status, error: (err as Error).message });
+    return sendProblem(res, status, (err as Error).message);
+  }
+  logger.error(detail, { status: 500, err });
+  return sendProblem(res, 500, detail);
+}
+
+/**
+ * Fallback for requests no route matched.
+ */
+export const notFoundHandler: RequestHandler = (req, res) => {
+  sendProblem(res, 404, `No route for ${req.method} ${req.path}`);
+};
+
+/**
+ * Last error middleware: turns anything thrown into problem+json.
+ * Unknown errors become a 500 without leaking internals.
+ */
+export const problemHandler: ErrorRequestHandler = (err, _req, res, next) => {
+  if (res.headersSent) return next(err);
+
+  if (err instanceof HttpProblem) {
+    return sendProblem(res, err.status, err.message, {
+      title: err.title,
+      errors: err.errors,
+    });
+  }
+
+  const status = knownErrorStatus(err);
+  if (status !== null) {
+    logger.warn("Request failed", { status, error: err.message });
+    return sendProblem(res, status, err.message);
+  }
+
+  // express.json() parse failures carry status 400 / type "entity.parse.failed"
+  if (err?.type === "entity.parse.failed") {
+    return sendProblem(res, 400, "Request body is not valid JSON");
+  }
+
+  logger.error("Unexpected server error", { status: 500, err });
+  return sendProblem(res, 500, "Unexpected server error");
+};
@@ -0,0 +1,87 @@
+// server/src/http/requestLog.ts
+// Gives every request a correlation id (the client's X-Request-Id, or a
+// new one), echoes it back, and when the response is done logs one line
+// and records its duration for GET /metrics.
+
+import type { RequestHandler } from "express";
+import { OPERATIONS } from "../openapi/operations";
+import {
+  defineHistogram,
+  logger,
+  newRequestId,
+  runWithContext,
+} from "../services/observability";
+
+const requestDuration = defineHistogram({
+  name: "http_request_duration_seconds",
+  help: "Duration of HTTP requests, by route template and status",
+});
+
+// Ids we accept from clients; anything else is replaced
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+// Probes and scrapes are logged at debug level, so they don't drown the
+// rest
+const QUIET_PATHS = ["/health", "/health/live", "/health/ready", "/metrics"];
+
+// Documented paths as patterns, fewest parameters first, so /movies/search
+// wins over /movies/{id}
+const ROUTES = OPERATIONS.map((op) => ({
+  method: op.method.toUpperCase(),
+  path: op.path,
+  params: (op.path.match(/\{/g) ?? []).length,
+  pattern: new RegExp(`^${op.path.replace(/\{\w+\}/g, "[^/]+")}$`),
+})).sort((a, b) => a.params - b.params);
+
+/**
+ * The documented path a request matched, e.g. "/movies/{id}" (a metric
+ * label can't be the raw path: every id would be a new series).
+ */
+function routeOf(method: string, path: string) {
+  const wanted = method === "HEAD" ? "GET" : method;
+  const route = ROUTES.find(
+    (r) => r.method === wanted && r.pattern.test(path)
+  );
+  return route?.path ?? "unmatched";
+}
+
+export const requestLog: RequestHandler = (req, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId =
+    incoming && REQUEST_ID.test(incoming) ? incoming : newRequestId();
+  res.set("X-Request-Id", requestId);
+
+  // routers rewrite req.path as they go; this is the full one
+  const { path } = req;
+  const startedAt = performance.now();
+
+  runWithContext({ requestId }, () => {
+    res.on("finish", () => {
+      const durationMs = performance.now() - startedAt;
+      const route = routeOf(req.method, path);
+      const status = res.statusCode;
+
+      requestDuration.observe(
+        { method: req.method, route, status: String(status) },
+        durationMs / 1000
+      );
+
+      let level: "debug" | "info" | "error" = "info";
+      if (status >= 500) level = "error";
+      else if (QUIET_PATHS.includes(path)) level = "debug";
+
+      // "finish" may fire outside the request's context: name it here
+      logger[level]("Request", {
+        requestId,
+        method: req.method,
+        path: req.originalUrl,
+        route,
+        status,
+        durationMs: Math.round(durationMs * 10) / 10,
+        userId: res.locals.user?.id,
+      });
+    });
+
+    next();
+  });
+};
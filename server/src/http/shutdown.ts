@@ -0,0 +1,43 @@
+// server/src/http/shutdown.ts
+// Stopping the HTTP server without cutting requests off: it stops taking
+// connections, lets the requests in flight finish, and closes keep-alive
+// connections instead of waiting for their clients to hang up.
+
+import type { Server, ServerResponse } from "http";
+
+/**
+ * Prepare `server` for a graceful stop; call the returned function to
+ * stop it. Resolves once every request has finished and every
+ * connection is closed.
+ */
+export function createServerDrain(server: Server): () => Promise<void> {
+  let draining = false;
+
+  // responses being written right now
+  const inFlight = new Set<ServerResponse>();
+
+  /**
+   * Close the response's connection once it's sent, rather than keeping
+   * it open for the client's next request.
+   */
+  function lastOnConnection(res: ServerResponse) {
+    if (!res.headersSent) res.setHeader("Connection", "close");
+    else res.once("finish", () => res.socket?.end());
+  }
+
+  // ahead of the app, so handlers that answer at once see it too
+  server.prependListener("request", (_req, res) => {
+    inFlight.add(res);
+    res.once("close", () => inFlight.delete(res));
+    if (draining) lastOnConnection(res);
+  });
+
+  return () => {
+    draining = true;
+    return new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+      server.closeIdleConnections();
+      inFlight.forEach(lastOnConnection);
+    });
+  };
+}
@@ -0,0 +1,98 @@
+// server/src/http/validate.ts
+// Declarative request validation: attach zod schemas to a route and
+// handlers receive already-parsed, typed params/query/body.
+
+import type { RequestHandler } from "express";
+import type { z } from "zod";
+import { HttpProblem, type FieldError } from "./problem";
+
+type RequestSchemas<
+  P extends z.ZodType,
+  Q extends z.ZodType,
+  B extends z.ZodType,
+> = {
+  params?: P;
+  query?: Q;
+  body?: B;
+};
+
+/**
+ * One FieldError per problem in `error`; fields are "<prefix>.<path>".
+ * Unexpected keys are reported one by one.
+ */
+export function fieldErrors(error: z.ZodError, prefix: string): FieldError[] {
+  const errors: FieldError[] = [];
+
+  for (const issue of error.issues) {
+    const path = issue.path.map(String).join(".");
+    const field = path ? `${prefix}.${path}` : prefix;
+
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        errors.push({ field: `${field}.${key}`, message: "Unknown field" });
+      }
+      continue;
+    }
+
+    errors.push({ field, message: issue.message });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the request against the given schemas.
+ * On success the parsed values replace req.params / req.query / req.body
+ * (so defaults and coercions apply). On failure every invalid field is
+ * reported in one 400 problem+json response.
+ */
+export function validate<
+  P extends z.ZodType = z.ZodType<Record<string, string>>,
+  Q extends z.ZodType = z.ZodType<Record<string, unknown>>,
+  B extends z.ZodType = z.ZodType<unknown>,
+>(
+  schemas: RequestSchemas<P, Q, B>
+): RequestHandler<z.output<P>, unknown, z.output<B>, z.output<Q>> {
+  return (req, _res, next) => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<"params" | "query" | "body", unknown>> = {};
+
+    for (const part of ["params", "query", "body"] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      // Express leaves req.body undefined when nothing was sent
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        parsed[part] = result.data;
+        continue;
+      }
+
+      errors.push(...fieldErrors(result.error, part));
+    }
+
+    if (errors.length) {
+      return next(
+        new HttpProblem(400, "The request has invalid fields", {
+          title: "Validation failed",
+          errors,
+        })
+      );
+    }
+
+    if ("params" in parsed) req.params = parsed.params as z.output<P>;
+    if ("body" in parsed) req.body = parsed.body as z.output<B>;
+
+    // req.query is a getter in Express 5, so shadow it on the instance
+    if ("query" in parsed) {
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+
+    next();
+  };
+}
@@ -1,28 +1,98 @@
-import express from "express";
-import cors from "cors";
-import moviesRouter from "./routes/movies";
+import { createApp } from "./app";
+import { ConfigError, getConfig, type Config } from "./config";
+import { createServerDrain } from "./http/shutdown";
+import { configureLogger, logger } from "./services/observability";
+import {
+  closeProviders,
+  initProviders,
+  registerDefaultProviders,
+} from "./services/providers";
+import { startSyncs, stopSyncs } from "./services/mirror";
+import { closeAuth, initAuth } from "./services/auth";
+import { closeLists, initLists } from "./services/lists";
+import { closeStore, initStore } from "./services/store";
+import { closeMovieEvents } from "./services/events";
 
-const app = express();
-const PORT = 4000;
+/**
+ * Settings (env, config files) first: a bad one stops the server before
+ * anything reads or writes data
+ */
+let config: Config;
+try {
+  config = getConfig();
+} catch (err) {
+  if (err instanceof ConfigError) {
+    logger.error("Invalid configuration", { problems: err.problems });
+  } else {
+    logger.error("Could not read configuration", { err });
+  }
+  process.exit(1);
+}
+configureLogger({ level: config.logLevel });
+logger.info("Configuration loaded", {
+  profile: config.profile,
+  dataDir: config.dataDir,
+});
 
 /**
- * Middleware
+ * Movie providers (third-party catalogues)
  */
-app.use(cors());
-app.use(express.json());
+registerDefaultProviders();
+
+const app = createApp();
 
 /**
- * Routes
+ * Graceful shutdown: stop taking connections and let in-flight requests
+ * finish (event streams are ended rather than waited for), stop the
+ * syncs (they save their position), then let pending writes finish and
+ * close the stores. Gives up after shutdownTimeoutMs.
  */
-app.use("/movies", moviesRouter);
+let shuttingDown = false;
 
-app.get("/health", (_req, res) => {
-  res.json({ status: "ok" });
-});
+async function shutdown(drainServer: () => Promise<void>, signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info("Shutting down", { signal });
+
+  setTimeout(() => {
+    logger.error("Shutdown timed out; exiting anyway", {
+      timeoutMs: config.shutdownTimeoutMs,
+    });
+    process.exit(1);
+  }, config.shutdownTimeoutMs).unref();
+
+  try {
+    const drained = drainServer();
+    closeMovieEvents();
+    await drained;
+    await stopSyncs();
+    await Promise.all([closeProviders(), closeAuth(), closeLists()]);
+    await closeStore();
+    logger.info("Shut down cleanly");
+    process.exit(0);
+  } catch (err) {
+    logger.error("Shutdown failed", { err });
+    process.exit(1);
+  }
+}
 
 /**
- * Start server
+ * Start server (once the local movie store, provider caches, user
+ * accounts and lists are ready), then the catalogue syncs
  */
-app.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-});
+Promise.all([initStore(), initProviders(), initAuth(), initLists()])
+  .then(() => {
+    const server = app.listen(config.port, () => {
+      logger.info("Server running", { url: `http://localhost:${config.port}` });
+      startSyncs();
+    });
+
+    const drainServer = createServerDrain(server);
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+      process.on(signal, () => shutdown(drainServer, signal));
+    }
+  })
+  .catch((err) => {
+    logger.error("Could not start", { err });
+    process.exit(1);
+  });
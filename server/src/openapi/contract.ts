@@ -0,0 +1,586 @@
+// server/src/openapi/contract.ts
+// The contract check: runs every operation against a live app and
+// compares what comes back with the document (see
+// scripts/checkContract.ts, which sets up the app and its data).
+
+import { promises as fs } from "fs";
+import type { Express, Router } from "express";
+import { buildOpenApiDocument, responsesOf } from "./document";
+import { OPERATIONS, type Operation } from "./operations";
+import { CLIENT_TYPES_PATH, generateClientTypes } from "./typescript";
+import { z } from "zod";
+import {
+  listSummarySchema,
+  movieSchema,
+  problemSchema,
+  reviewSchema,
+  sessionSchema,
+  snapshotsSchema,
+} from "../schemas/responses";
+
+type CallOptions = {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean>;
+  body?: unknown;
+  // sent as is, with this Content-Type
+  upload?: { type: string; text: string };
+  token?: string;
+  // e.g. If-None-Match
+  headers?: Record<string, string>;
+};
+
+const failures: string[] = [];
+const exercised = new Set<string>();
+
+function fail(message: string) {
+  failures.push(message);
+  console.error(`✗ ${message}`);
+}
+
+/**
+ * "METHOD /path" of every route the app has, paths in OpenAPI form.
+ */
+function appRoutes(
+  app: Express,
+  routers: [string, Router][]
+): Set<string> {
+  type Layer = Router["stack"][number];
+  const routes = new Set<string>();
+
+  const collect = (prefix: string, stack: Layer[]) => {
+    for (const layer of stack) {
+      if (!layer.route) continue;
+      const route = `${prefix}${layer.route.path}`
+        .replace(/\/$/, "")
+        .replace(/:(\w+)/g, "{$1}");
+      for (const handler of layer.route.stack as Layer[]) {
+        routes.add(`${handler.method.toUpperCase()} ${route || "/"}`);
+      }
+    }
+  };
+
+  for (const [prefix, router] of routers) collect(prefix, router.stack);
+  // routes defined on the app itself, if any
+  collect("", (app as unknown as { router: Router }).router.stack);
+
+  return routes;
+}
+
+/**
+ * Compare the route table with the document.
+ */
+function checkRoutes(app: Express, routers: [string, Router][]) {
+  const routes = appRoutes(app, routers);
+  const documented = new Set(
+    OPERATIONS.map((op) => `${op.method.toUpperCase()} ${op.path}`)
+  );
+
+  for (const route of routes) {
+    if (!documented.has(route)) fail(`${route} isn't documented`);
+  }
+  for (const route of documented) {
+    if (!routes.has(route)) fail(`${route} is documented but has no route`);
+  }
+}
+
+async function checkClientTypes() {
+  const expected = generateClientTypes(buildOpenApiDocument());
+  const actual = await fs.readFile(CLIENT_TYPES_PATH, "utf8").catch(() => "");
+  if (actual !== expected) {
+    fail(`${CLIENT_TYPES_PATH} is stale: run npm run openapi:client`);
+  }
+}
+
+/**
+ * Make a request the way the client would, and check the answer
+ * against the operation. Returns the status, headers and parsed JSON body
+ * (parse it with the operation's schema to use it).
+ */
+async function call(
+  baseUrl: string,
+  operationId: string,
+  options: CallOptions = {}
+): Promise<{ status: number; headers: Headers; body: unknown }> {
+  const op = OPERATIONS.find((o) => o.operationId === operationId);
+  if (!op) throw new Error(`Unknown operation ${operationId}`);
+  exercised.add(operationId);
+
+  const url = new URL(
+    op.path.replace(/\{(\w+)\}/g, (_, name) =>
+      encodeURIComponent(String(options.params?.[name]))
+    ),
+    baseUrl
+  );
+  for (const [name, value] of Object.entries(options.query ?? {})) {
+    url.searchParams.set(name, String(value));
+  }
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  let body: string | undefined;
+  if (options.upload) {
+    headers["Content-Type"] = options.upload.type;
+    body = options.upload.text;
+  } else if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(options.body);
+  }
+
+  const res = await fetch(url, {
+    method: op.method.toUpperCase(),
+    headers,
+    body,
+  });
+  const type = res.headers.get("content-type") ?? "";
+  // an event stream doesn't end: hang up once it has started
+  const text = type.startsWith("text/event-stream")
+    ? await res.body?.cancel().then(() => "")
+    : await res.text();
+  const isJson = /^application\/([\w.-]+\+)?json/.test(type);
+  const json = isJson && text ? JSON.parse(text) : undefined;
+
+  checkResponse(op, res.status, type, json);
+  return { status: res.status, headers: res.headers, body: json };
+}
+
+function checkResponse(
+  op: Operation,
+  status: number,
+  type: string,
+  body: unknown
+) {
+  const name = `${op.operationId} (${op.method.toUpperCase()} ${op.path})`;
+  const spec = responsesOf(op)[status];
+
+  if (status >= 400) {
+    if (!spec && status < 500) fail(`${name}: undocumented status ${status}`);
+    if (!type.startsWith("application/problem+json")) {
+      fail(`${name}: ${status} isn't problem+json`);
+    } else if (!problemSchema.safeParse(body).success) {
+      fail(`${name}: ${status} isn't a valid problem`);
+    }
+    if (status >= 500 && !spec) console.warn(`! ${name}: ${status}`, body);
+    return;
+  }
+
+  if (!spec) return fail(`${name}: undocumented status ${status}`);
+
+  if (spec.schema) {
+    const result = spec.schema.safeParse(body);
+    if (!result.success) {
+      fail(
+        `${name}: ${status} body doesn't match its schema:\n` +
+          result.error.issues
+            .map((i) => `    ${i.path.join(".")}: ${i.message}`)
+            .join("\n")
+      );
+    }
+  } else if (spec.contentTypes) {
+    if (!spec.contentTypes.some((t) => type.startsWith(t))) {
+      fail(`${name}: ${status} has undocumented Content-Type ${type}`);
+    }
+  }
+}
+
+// Username and password of an account
+type Credentials = { username: string; password: string };
+
+/**
+ * Every operation, the happy path and its documented failures.
+ * `editorLogin` signs in to an editor account the server already has.
+ */
+async function runScenario(baseUrl: string, editorLogin: Credentials) {
+  const api = (operationId: string, options?: CallOptions) =>
+    call(baseUrl, operationId, options);
+  // the whole response, for when its headers matter
+  const expectResponse = async (
+    want: number,
+    operationId: string,
+    options?: CallOptions
+  ) => {
+    const result = await api(operationId, options);
+    if (result.status !== want) {
+      fail(`${operationId}: expected ${want}, got ${result.status}`);
+    }
+    return result;
+  };
+  const expect = async (
+    want: number,
+    operationId: string,
+    options?: CallOptions
+  ) => (await expectResponse(want, operationId, options)).body;
+
+  // ---- service ----
+  await expect(200, "getHealth");
+  await expect(200, "getLiveness");
+  await expect(200, "getReadiness");
+  await expect(200, "getMetrics");
+  await expect(200, "getOpenApiDocument");
+  await expect(200, "getDocs");
+
+  // ---- accounts: editors come from the configuration, sign-ups are
+  // viewers ----
+  const editor = sessionSchema.parse(
+    await expect(200, "login", { body: editorLogin })
+  );
+  const viewer = sessionSchema.parse(
+    await expect(201, "register", {
+      body: { username: "viewer", password: "contract-check" },
+    })
+  );
+  if (viewer.user.role !== "viewer") {
+    fail("register: new accounts must be viewers");
+  }
+  await expect(409, "register", {
+    body: { username: "viewer", password: "contract-check" },
+  });
+  await expect(400, "register", { body: {} });
+  await expect(200, "login", {
+    body: { username: "viewer", password: "contract-check" },
+  });
+  await expect(401, "login", {
+    body: { username: "viewer", password: "wrong-password" },
+  });
+  const admin = editor.token;
+  const user = viewer.token;
+
+  await expect(200, "getCurrentUser", { token: user });
+  await expect(401, "getCurrentUser");
+  await expect(200, "listUsers", { token: admin });
+  await expect(403, "listUsers", { token: user });
+  await expect(200, "updateUser", {
+    token: admin,
+    params: { id: viewer.user.id },
+    body: { role: "viewer" },
+  });
+  await expect(409, "updateUser", {
+    token: admin,
+    params: { id: editor.user.id },
+    body: { role: "viewer" },
+  });
+  await expect(404, "updateUser", {
+    token: admin,
+    params: { id: "user_missing" },
+    body: { role: "viewer" },
+  });
+
+  // ---- movies ----
+  const movie = movieSchema.parse(
+    await expect(201, "createMovie", {
+      token: admin,
+      body: {
+        title: "Contract Check",
+        year: 2001,
+        genres: ["Drama"],
+        cast: ["Actor 1"],
+      },
+    })
+  );
+  await expect(400, "createMovie", { token: admin, body: { year: 2001 } });
+  await expect(401, "createMovie", { body: { title: "x", year: 2001 } });
+  const id = movie.id;
+
+  const localPage = await expectResponse(200, "listMovies", {
+    query: { source: "local" },
+  });
+  await expect(304, "listMovies", {
+    query: { source: "local" },
+    headers: { "If-None-Match": localPage.headers.get("ETag") ?? "" },
+  });
+  await expect(200, "listMovies", { query: { pageSize: 5, collapse: true } });
+  await expect(400, "listMovies", { query: { page: 0 } });
+  await expect(200, "searchMovies", { query: { q: "contrct" } });
+  await expect(200, "listSources");
+  await expect(200, "streamMovieEvents");
+  await expect(200, "getRecommendations");
+  await expect(200, "getRecommendations", { query: { seedId: id } });
+  await expect(404, "getRecommendations", {
+    query: { seedId: "local_missing" },
+  });
+  await expect(200, "getRandomMovies", { params: { count: 2 } });
+  const read = await expectResponse(200, "getMovie", { params: { id } });
+  const etag = read.headers.get("ETag") ?? "";
+  await expect(304, "getMovie", {
+    params: { id },
+    headers: { "If-None-Match": etag },
+  });
+  await expect(200, "getMovie", { params: { id: "tp_1" } });
+  await expect(404, "getMovie", { params: { id: "local_missing" } });
+
+  const replaced = await expectResponse(200, "replaceMovie", {
+    token: admin,
+    params: { id },
+    body: { title: "Contract Check", year: 2002 },
+    headers: { "If-Match": etag },
+  });
+  // the ETag it had before the replace no longer matches
+  await expect(412, "updateMovie", {
+    token: admin,
+    params: { id },
+    body: { overview: "Stale." },
+    headers: { "If-Match": etag },
+  });
+  await expect(200, "updateMovie", {
+    token: admin,
+    params: { id },
+    body: { overview: "Checked." },
+    headers: { "If-Match": replaced.headers.get("ETag") ?? "" },
+  });
+  await expect(409, "updateMovie", {
+    token: admin,
+    params: { id: "tp_1" },
+    body: { overview: "Nope." },
+  });
+  await expect(404, "replaceMovie", {
+    token: admin,
+    params: { id: "local_missing" },
+    body: { title: "Missing", year: 2002 },
+  });
+
+  await expect(201, "importProviderMovie", {
+    token: admin,
+    params: { tpId: "tp_2" },
+  });
+  await expect(409, "importProviderMovie", {
+    token: admin,
+    params: { tpId: "tp_2" },
+  });
+  await expect(404, "importProviderMovie", {
+    token: admin,
+    params: { tpId: "tp_9999" },
+  });
+
+  // ---- bulk ----
+  await expect(200, "exportMovies", { query: { format: "csv" } });
+  await expect(200, "exportMovies", { query: { format: "ndjson" } });
+  await expect(200, "importMovies", {
+    token: admin,
+    query: { dryRun: true },
+    upload: { type: "text/csv", text: "title,year\nBulk Row,1999\n" },
+  });
+  await expect(200, "importMovies", {
+    token: admin,
+    upload: {
+      type: "application/json",
+      text: JSON.stringify([{ title: "Bulk Row", year: 1999 }]),
+    },
+  });
+  await expect(409, "importMovies", {
+    token: admin,
+    query: { onDuplicate: "fail" },
+    upload: {
+      type: "application/x-ndjson",
+      text: `${JSON.stringify({ title: "Bulk Row", year: 1999 })}\n`,
+    },
+  });
+  await expect(415, "importMovies", {
+    token: admin,
+    upload: { type: "text/plain", text: "Bulk Row" },
+  });
+
+  // ---- ratings ----
+  await expect(404, "getRating", { token: user, params: { id } });
+  await expect(200, "setRating", {
+    token: user,
+    params: { id },
+    body: { stars: 4 },
+  });
+  await expect(404, "setRating", {
+    token: user,
+    params: { id: "local_missing" },
+    body: { stars: 4 },
+  });
+  await expect(200, "getRating", { token: user, params: { id } });
+  await expect(204, "deleteRating", { token: user, params: { id } });
+  await expect(404, "deleteRating", { token: user, params: { id } });
+
+  // ---- reviews ----
+  const review = reviewSchema.parse(
+    await expect(201, "createReview", {
+      token: user,
+      params: { id },
+      body: { text: "Holds up.", stars: 4 },
+    })
+  );
+  await expect(409, "createReview", {
+    token: user,
+    params: { id },
+    body: { text: "Again." },
+  });
+  await expect(404, "createReview", {
+    token: user,
+    params: { id: "local_missing" },
+    body: { text: "Nothing here." },
+  });
+  await expect(201, "createReview", {
+    token: admin,
+    params: { id },
+    body: { text: "Agreed.", parentId: review.id },
+  });
+  const reviewId = { reviewId: review.id };
+  const missing = { reviewId: "review_missing" };
+
+  await expect(200, "updateReview", {
+    token: user,
+    params: reviewId,
+    body: { text: "Still holds up." },
+  });
+  await expect(403, "updateReview", {
+    token: admin,
+    params: reviewId,
+    body: { text: "Not mine." },
+  });
+  await expect(404, "updateReview", {
+    token: user,
+    params: missing,
+    body: { text: "Gone." },
+  });
+  await expect(200, "markReviewHelpful", { token: admin, params: reviewId });
+  await expect(409, "markReviewHelpful", { token: user, params: reviewId });
+  await expect(404, "markReviewHelpful", { token: admin, params: missing });
+  await expect(200, "unmarkReviewHelpful", { token: admin, params: reviewId });
+  await expect(404, "unmarkReviewHelpful", { token: admin, params: missing });
+  await expect(200, "moderateReview", {
+    token: admin,
+    params: reviewId,
+    body: { hidden: true, reason: "Checking moderation" },
+  });
+  await expect(403, "moderateReview", {
+    token: user,
+    params: reviewId,
+    body: { hidden: false },
+  });
+  await expect(404, "moderateReview", {
+    token: admin,
+    params: missing,
+    body: { hidden: false },
+  });
+  await expect(200, "listReviews", { params: { id } });
+  await expect(200, "listReviews", {
+    token: admin,
+    params: { id },
+    query: { sort: "helpful" },
+  });
+  await expect(403, "deleteReview", { token: admin, params: reviewId });
+  await expect(204, "deleteReview", { token: user, params: reviewId });
+  await expect(404, "deleteReview", { token: user, params: reviewId });
+
+  // ---- lists ----
+  const lists = z.object({ items: z.array(listSummarySchema) }).parse(
+    await expect(200, "listLists", { token: user, query: { movieId: id } })
+  );
+  const list = listSummarySchema.parse(
+    await expect(201, "createList", {
+      token: user,
+      body: { name: "To check" },
+    })
+  );
+  await expect(409, "createList", { token: user, body: { name: "To check" } });
+  const listId = { listId: list.id };
+  const item = { ...listId, movieId: id };
+
+  await expect(201, "addListItem", { token: user, params: item });
+  await expect(200, "addListItem", { token: user, params: item });
+  await expect(404, "addListItem", {
+    token: user,
+    params: { ...listId, movieId: "local_missing" },
+  });
+  await expect(200, "getList", { token: user, params: listId });
+  await expect(404, "getList", {
+    token: user,
+    params: { listId: "list_missing" },
+  });
+  await expect(200, "renameList", {
+    token: user,
+    params: listId,
+    body: { name: "Checked" },
+  });
+  await expect(409, "renameList", {
+    token: user,
+    params: { listId: lists.items[0].id },
+    body: { name: "Renamed" },
+  });
+  await expect(404, "renameList", {
+    token: user,
+    params: { listId: "list_missing" },
+    body: { name: "Missing" },
+  });
+  await expect(204, "removeListItem", { token: user, params: item });
+  await expect(404, "removeListItem", { token: user, params: item });
+  await expect(409, "deleteList", {
+    token: user,
+    params: { listId: lists.items[0].id },
+  });
+  await expect(204, "deleteList", { token: user, params: listId });
+  await expect(404, "deleteList", { token: user, params: listId });
+
+  // ---- admin ----
+  const snapshots = await api("listSnapshots", { token: admin });
+  const [snapshot] =
+    snapshots.status === 200 ? snapshotsSchema.parse(snapshots.body).items : [];
+  if (snapshot) {
+    await expect(200, "restoreSnapshot", {
+      token: admin,
+      params: { name: snapshot.name },
+    });
+  }
+  const restore = await api("restoreSnapshot", {
+    token: admin,
+    params: { name: "movies-missing.json" },
+  });
+  if (restore.status !== 404 && restore.status !== 501) {
+    fail(`restoreSnapshot: expected 404 or 501, got ${restore.status}`);
+  }
+  await expect(403, "listSnapshots", { token: user });
+  await expect(200, "getCacheStats", { token: admin });
+  await expect(200, "getUpstreams", { token: admin });
+  await expect(200, "listSyncs", { token: admin });
+  await expect(200, "getSync", {
+    token: admin,
+    params: { provider: "third_party" },
+  });
+  await expect(404, "getSync", { token: admin, params: { provider: "none" } });
+  await expect(202, "startSync", {
+    token: admin,
+    params: { provider: "third_party" },
+  });
+  const again = await api("startSync", {
+    token: admin,
+    params: { provider: "third_party" },
+  });
+  if (again.status !== 202 && again.status !== 409) {
+    fail(`startSync: expected 202 or 409, got ${again.status}`);
+  }
+  await expect(404, "startSync", {
+    token: admin,
+    params: { provider: "none" },
+  });
+
+  // ---- cleaning up ----
+  await expect(204, "deleteMovie", { token: admin, params: { id } });
+  await expect(404, "deleteMovie", { token: admin, params: { id } });
+  await expect(409, "deleteMovie", { token: admin, params: { id: "tp_1" } });
+}
+
+/**
+ * Run the whole check against `app`, already listening at `baseUrl`.
+ * `routers` is its mount table (see app.ts); `editor` signs in to one of
+ * its editor accounts. Returns the failures.
+ */
+export async function checkContract(
+  app: Express,
+  routers: [string, Router][],
+  baseUrl: string,
+  editor: Credentials
+): Promise<string[]> {
+  await checkClientTypes();
+  checkRoutes(app, routers);
+  await runScenario(baseUrl, editor);
+
+  for (const op of OPERATIONS) {
+    if (!exercised.has(op.operationId)) {
+      fail(`${op.operationId} isn't exercised by the check`);
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,255 @@
+// server/src/openapi/document.ts
+// The OpenAPI 3.1 document of the API, built from the operation list and
+// the zod schemas the routes already validate with. Schemas with a
+// `.meta({ id })` become named components.
+
+import { z } from "zod";
+import { problemSchema } from "../schemas/responses";
+import { OPERATIONS, type Operation, type ResponseSpec } from "./operations";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+};
+
+const COMPONENT_PREFIX = "#/components/schemas/";
+
+/**
+ * z.stringbool() is a string on the wire, but query strings are text
+ * anyway: document it as the boolean it stands for.
+ */
+function booleanStrings(ctx: {
+  zodSchema: z.core.$ZodType;
+  jsonSchema: JsonSchema;
+}) {
+  const schema = ctx.zodSchema;
+  if (
+    schema instanceof z.core.$ZodPipe &&
+    schema._zod.def.out._zod.def.type === "boolean"
+  ) {
+    for (const key of Object.keys(ctx.jsonSchema)) delete ctx.jsonSchema[key];
+    ctx.jsonSchema.type = "boolean";
+  }
+}
+
+/**
+ * Point $defs references at the components instead.
+ */
+function rewriteRefs(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(rewriteRefs);
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) =>
+      key === "$ref" && typeof inner === "string"
+        ? [key, inner.replace("#/$defs/", COMPONENT_PREFIX)]
+        : [key, rewriteRefs(inner)]
+    )
+  );
+}
+
+/**
+ * JSON Schema of `schema`, its named parts moved into `components`.
+ * Requests are described as sent (io "input": defaults make fields
+ * optional), responses as received.
+ */
+export function toJsonSchema(
+  schema: z.ZodType,
+  io: "input" | "output",
+  components: Record<string, JsonSchema>
+): JsonSchema {
+  const {
+    $schema: _schema,
+    $defs,
+    ...json
+  } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+    override: booleanStrings,
+  }) as JsonSchema;
+
+  for (const [id, def] of Object.entries(($defs ?? {}) as JsonSchema)) {
+    components[id] = rewriteRefs(def) as JsonSchema;
+  }
+  return rewriteRefs(json) as JsonSchema;
+}
+
+/**
+ * Parameters of one location (path or query), from its object schema.
+ */
+function parameters(
+  schema: z.ZodType | undefined,
+  location: "path" | "query",
+  components: Record<string, JsonSchema>
+) {
+  if (!schema) return [];
+
+  const json = toJsonSchema(schema, "input", components);
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (json.required ?? []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...rest } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || required.includes(name),
+      ...(description !== undefined && { description }),
+      schema: rest,
+    };
+  });
+}
+
+/**
+ * The responses of an operation, with those its middleware adds: 400
+ * from validation, 401/403 from requireRole, and any unexpected error.
+ */
+export function responsesOf(op: Operation): Record<string, ResponseSpec> {
+  const validated = Boolean(op.params || op.query || op.body || op.uploadTypes);
+  return {
+    ...(validated && { 400: { description: "Invalid request" } }),
+    ...(op.role && { 401: { description: "Not signed in" } }),
+    ...(op.role &&
+      op.role !== "viewer" && {
+        403: { description: `Needs the ${op.role} role` },
+      }),
+    ...op.responses,
+  };
+}
+
+function responseObject(
+  status: number,
+  spec: ResponseSpec,
+  components: Record<string, JsonSchema>
+) {
+  if (spec.schema) {
+    return {
+      description: spec.description,
+      content: {
+        "application/json": {
+          schema: toJsonSchema(spec.schema, "output", components),
+        },
+      },
+    };
+  }
+  if (spec.contentTypes) {
+    return {
+      description: spec.description,
+      content: Object.fromEntries(
+        spec.contentTypes.map((type) => [type, { schema: {} }])
+      ),
+    };
+  }
+  if (status >= 400) {
+    return {
+      description: spec.description,
+      content: {
+        "application/problem+json": {
+          schema: { $ref: `${COMPONENT_PREFIX}Problem` },
+        },
+      },
+    };
+  }
+  return { description: spec.description };
+}
+
+function operationObject(
+  op: Operation,
+  components: Record<string, JsonSchema>
+): JsonSchema {
+  const params = [
+    ...parameters(op.params, "path", components),
+    ...parameters(op.query, "query", components),
+  ];
+
+  let requestBody: JsonSchema | undefined;
+  if (op.body) {
+    requestBody = {
+      required: true,
+      content: {
+        "application/json": {
+          schema: toJsonSchema(op.body, "input", components),
+        },
+      },
+    };
+  } else if (op.uploadTypes) {
+    requestBody = {
+      required: true,
+      content: Object.fromEntries(
+        op.uploadTypes.map((type) => [type, { schema: {} }])
+      ),
+    };
+  }
+
+  const responses: JsonSchema = Object.fromEntries(
+    Object.entries(responsesOf(op)).map(([status, spec]) => [
+      status,
+      responseObject(Number(status), spec, components),
+    ])
+  );
+  responses.default = responseObject(
+    500,
+    { description: "Unexpected error" },
+    components
+  );
+
+  return {
+    operationId: op.operationId,
+    tags: [op.tag],
+    summary: op.summary,
+    ...(op.description && { description: op.description }),
+    ...(op.role && {
+      security: [{ bearerAuth: [] }],
+      "x-required-role": op.role,
+    }),
+    ...(params.length && { parameters: params }),
+    ...(requestBody && { requestBody }),
+    responses,
+  };
+}
+
+/**
+ * Build the document. Cheap enough to do once at startup.
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const components: Record<string, JsonSchema> = {};
+  toJsonSchema(problemSchema, "output", components);
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const op of OPERATIONS) {
+    paths[op.path] ??= {};
+    paths[op.path][op.method] = operationObject(op, components);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Movies API",
+      version: "1.0.0",
+      description:
+        "Local movie library merged with third-party catalogues. Errors " +
+        "are RFC 7807 problem+json. Sign in with POST /auth/login and " +
+        "send the token as `Authorization: Bearer <token>`.",
+    },
+    tags: [...new Set(OPERATIONS.map((op) => op.tag))].map((name) => ({
+      name,
+    })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(components).sort(([a], [b]) => a.localeCompare(b))
+      ),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+    },
+  };
+}
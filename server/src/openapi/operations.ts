@@ -0,0 +1,827 @@
+// server/src/openapi/operations.ts
+// Every operation of the API: its path, who may call it, the request
+// schemas the route validates with and the responses it sends. The
+// OpenAPI document, the generated client and the contract check are all
+// built from this list.
+
+import { z } from "zod";
+import type { Role } from "../types/user";
+import { snapshotNameParams, syncProviderParams } from "../schemas/admin";
+import {
+  credentialsBody,
+  updateUserBody,
+  userIdParams,
+} from "../schemas/auth";
+import {
+  listBody,
+  listItemParams,
+  listParams,
+  listsQuery,
+  ratingBody,
+} from "../schemas/lists";
+import {
+  bulkExportQuery,
+  bulkImportQuery,
+  createMovieBody,
+  listMoviesQuery,
+  movieIdParams,
+  patchMovieBody,
+  providerMovieParams,
+  providerQuery,
+  randomCountParams,
+  recommendationsQuery,
+  replaceMovieBody,
+  searchMoviesQuery,
+} from "../schemas/movies";
+import {
+  createReviewBody,
+  moderationBody,
+  reviewParams,
+  reviewsQuery,
+  updateReviewBody,
+} from "../schemas/reviews";
+import {
+  cacheStatsSchema,
+  healthSchema,
+  livenessSchema,
+  readinessSchema,
+  importReportSchema,
+  listDetailSchema,
+  listSummarySchema,
+  moviePageSchema,
+  movieSchema,
+  movieWithStatsSchema,
+  ratingSchema,
+  recommendationsSchema,
+  restoreResultSchema,
+  reviewSchema,
+  reviewsPageSchema,
+  searchResultsSchema,
+  sessionSchema,
+  snapshotsSchema,
+  sourcesSchema,
+  syncStatusSchema,
+  upstreamsSchema,
+  userSchema,
+} from "../schemas/responses";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/**
+ * One response of an operation. Successful responses have a JSON body
+ * (schema), a body of another type (contentTypes) or none; error
+ * statuses are problem+json.
+ */
+export type ResponseSpec = {
+  description: string;
+  schema?: z.ZodType;
+  contentTypes?: string[];
+};
+
+export type Operation = {
+  // name of the generated client function
+  operationId: string;
+  method: HttpMethod;
+  // OpenAPI form, e.g. "/movies/{id}"
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // the role a signed-in user needs (adds 401, and 403 above viewer)
+  role?: Role;
+  // what validate() checks
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // request body types read as a stream instead of JSON
+  uploadTypes?: string[];
+  responses: Record<number, ResponseSpec>;
+};
+
+/**
+ * Error responses: status -> when it happens.
+ */
+function errors(
+  described: Record<number, string>
+): Record<number, ResponseSpec> {
+  return Object.fromEntries(
+    Object.entries(described).map(([status, description]) => [
+      status,
+      { description },
+    ])
+  );
+}
+
+const noContent: ResponseSpec = { description: "Done; no body" };
+
+const notModified: ResponseSpec = {
+  description:
+    "Not modified: the client's copy (If-None-Match / If-Modified-Since) " +
+    "is current",
+};
+
+const IF_MATCH =
+  "With If-Match, only if the movie still has that ETag " +
+  "(as GET /movies/{id} gives it; new reviews don't count).";
+
+const BULK_TYPES = ["text/csv", "application/json", "application/x-ndjson"];
+
+export const OPERATIONS: Operation[] = [
+  // ---- movies ----
+  {
+    operationId: "listMovies",
+    method: "get",
+    path: "/movies",
+    tag: "Movies",
+    summary: "Paginated list of local and provider movies",
+    description:
+      "source=all merges the local movies and every provider's catalogue. " +
+      "If a provider is down, meta.degraded and meta.warnings say so. " +
+      "Sends a weak ETag from the local store version and the upstream page.",
+    query: listMoviesQuery,
+    responses: {
+      200: { description: "One page of movies", schema: moviePageSchema },
+      304: notModified,
+    },
+  },
+  {
+    operationId: "searchMovies",
+    method: "get",
+    path: "/movies/search",
+    tag: "Movies",
+    summary: "Ranked, typo-tolerant search with highlights",
+    query: searchMoviesQuery,
+    responses: {
+      200: { description: "Best matches first", schema: searchResultsSchema },
+    },
+  },
+  {
+    operationId: "listSources",
+    method: "get",
+    path: "/movies/sources",
+    tag: "Movies",
+    summary: "Registered providers (valid ?source= values)",
+    responses: { 200: { description: "Providers", schema: sourcesSchema } },
+  },
+  {
+    operationId: "streamMovieEvents",
+    method: "get",
+    path: "/movies/events",
+    tag: "Movies",
+    summary: "Live changes to local movies (Server-Sent Events)",
+    description:
+      'Events "created" and "updated" carry { movie, at }, "deleted" ' +
+      '{ id, at }, and "reset" { at }: reload everything. A ": ping" ' +
+      "comment is sent every 15s. Reconnecting with Last-Event-ID sends " +
+      "the events missed since, or a reset when they're no longer kept " +
+      "(or the server has restarted).",
+    responses: {
+      200: {
+        description: "The event stream",
+        contentTypes: ["text/event-stream"],
+      },
+    },
+  },
+  {
+    operationId: "getRecommendations",
+    method: "get",
+    path: "/movies/recommendations",
+    tag: "Movies",
+    summary: "Movies like the library, or like one seed movie",
+    query: recommendationsQuery,
+    responses: {
+      200: {
+        description: "Recommendations, best first",
+        schema: recommendationsSchema,
+      },
+      ...errors({ 404: "Seed movie not found" }),
+    },
+  },
+  {
+    operationId: "getRandomMovies",
+    method: "get",
+    path: "/movies/random/{count}",
+    tag: "Movies",
+    summary: "Random movies from a provider",
+    params: randomCountParams,
+    query: providerQuery,
+    responses: {
+      200: { description: "Random movies", schema: z.array(movieSchema) },
+    },
+  },
+  {
+    operationId: "getMovie",
+    method: "get",
+    path: "/movies/{id}",
+    tag: "Movies",
+    summary: "One movie, local or a provider's, with its review stats",
+    description:
+      "Sends a strong ETag, and Last-Modified for local movies (counting " +
+      "changes to their reviews). Local movies must be revalidated; " +
+      "provider movies may be reused briefly.",
+    params: movieIdParams,
+    responses: {
+      200: { description: "The movie", schema: movieWithStatsSchema },
+      304: notModified,
+      ...errors({ 404: "Movie not found" }),
+    },
+  },
+  {
+    operationId: "createMovie",
+    method: "post",
+    path: "/movies",
+    tag: "Movies",
+    summary: "Add a local movie",
+    role: "editor",
+    body: createMovieBody,
+    responses: {
+      201: { description: "The new movie", schema: movieSchema },
+    },
+  },
+  {
+    operationId: "importProviderMovie",
+    method: "post",
+    path: "/movies/import/{tpId}",
+    tag: "Movies",
+    summary: "Copy a provider movie into the library",
+    role: "editor",
+    params: providerMovieParams,
+    responses: {
+      201: { description: "The new local movie", schema: movieSchema },
+      ...errors({
+        404: "Provider movie not found",
+        409: "Already in the library (existingId names it)",
+      }),
+    },
+  },
+  {
+    operationId: "replaceMovie",
+    method: "put",
+    path: "/movies/{id}",
+    tag: "Movies",
+    summary: "Replace a local movie",
+    description: IF_MATCH,
+    role: "editor",
+    params: movieIdParams,
+    body: replaceMovieBody,
+    responses: {
+      200: { description: "The movie", schema: movieSchema },
+      ...errors({
+        404: "Movie not found",
+        409: "Third-party movies are read-only",
+        412: "The movie changed since the If-Match ETag",
+      }),
+    },
+  },
+  {
+    operationId: "updateMovie",
+    method: "patch",
+    path: "/movies/{id}",
+    tag: "Movies",
+    summary: "Change some fields of a local movie (null removes one)",
+    description: IF_MATCH,
+    role: "editor",
+    params: movieIdParams,
+    body: patchMovieBody,
+    responses: {
+      200: { description: "The movie", schema: movieSchema },
+      ...errors({
+        404: "Movie not found",
+        409: "Third-party movies are read-only",
+        412: "The movie changed since the If-Match ETag",
+      }),
+    },
+  },
+  {
+    operationId: "deleteMovie",
+    method: "delete",
+    path: "/movies/{id}",
+    tag: "Movies",
+    summary: "Delete a local movie",
+    description: IF_MATCH,
+    role: "editor",
+    params: movieIdParams,
+    responses: {
+      204: noContent,
+      ...errors({
+        404: "Movie not found",
+        409: "Third-party movies are read-only",
+        412: "The movie changed since the If-Match ETag",
+      }),
+    },
+  },
+
+  // ---- bulk ----
+  {
+    operationId: "importMovies",
+    method: "post",
+    path: "/movies/import",
+    tag: "Bulk",
+    summary: "Add many local movies from a CSV, JSON or NDJSON upload",
+    role: "editor",
+    query: bulkImportQuery,
+    uploadTypes: BULK_TYPES,
+    responses: {
+      200: {
+        description: "What happened to each row",
+        schema: importReportSchema,
+      },
+      ...errors({
+        409: "Duplicates with onDuplicate=fail (report has the rows)",
+        413: "Upload too large",
+        415: "Unknown upload format",
+      }),
+    },
+  },
+  {
+    operationId: "exportMovies",
+    method: "get",
+    path: "/movies/export",
+    tag: "Bulk",
+    summary: "Download the local library",
+    query: bulkExportQuery,
+    responses: {
+      200: {
+        description: "The movies, as an attachment",
+        contentTypes: BULK_TYPES,
+      },
+    },
+  },
+
+  // ---- ratings ----
+  {
+    operationId: "getRating",
+    method: "get",
+    path: "/movies/{id}/rating",
+    tag: "Ratings",
+    summary: "Your rating of a movie",
+    role: "viewer",
+    params: movieIdParams,
+    responses: {
+      200: { description: "The rating", schema: ratingSchema },
+      ...errors({ 404: "Not rated" }),
+    },
+  },
+  {
+    operationId: "setRating",
+    method: "put",
+    path: "/movies/{id}/rating",
+    tag: "Ratings",
+    summary: "Rate a movie (replaces an earlier rating)",
+    role: "viewer",
+    params: movieIdParams,
+    body: ratingBody,
+    responses: {
+      200: { description: "The rating", schema: ratingSchema },
+      ...errors({ 404: "Movie not found" }),
+    },
+  },
+  {
+    operationId: "deleteRating",
+    method: "delete",
+    path: "/movies/{id}/rating",
+    tag: "Ratings",
+    summary: "Forget your rating",
+    role: "viewer",
+    params: movieIdParams,
+    responses: { 204: noContent, ...errors({ 404: "Not rated" }) },
+  },
+
+  // ---- reviews ----
+  {
+    operationId: "listReviews",
+    method: "get",
+    path: "/movies/{id}/reviews",
+    tag: "Reviews",
+    summary: "A page of a movie's reviews, replies nested",
+    params: movieIdParams,
+    query: reviewsQuery,
+    responses: {
+      200: { description: "Reviews and stats", schema: reviewsPageSchema },
+    },
+  },
+  {
+    operationId: "createReview",
+    method: "post",
+    path: "/movies/{id}/reviews",
+    tag: "Reviews",
+    summary: "Review a movie, or reply to a review (parentId)",
+    role: "viewer",
+    params: movieIdParams,
+    body: createReviewBody,
+    responses: {
+      201: { description: "The new review", schema: reviewSchema },
+      ...errors({
+        404: "Movie or review to reply to not found",
+        409: "You already reviewed this movie",
+      }),
+    },
+  },
+  {
+    operationId: "updateReview",
+    method: "patch",
+    path: "/reviews/{reviewId}",
+    tag: "Reviews",
+    summary: "Edit your review",
+    role: "viewer",
+    params: reviewParams,
+    body: updateReviewBody,
+    responses: {
+      200: { description: "The review", schema: reviewSchema },
+      ...errors({ 403: "Not the author", 404: "Review not found" }),
+    },
+  },
+  {
+    operationId: "deleteReview",
+    method: "delete",
+    path: "/reviews/{reviewId}",
+    tag: "Reviews",
+    summary: "Delete your review and its replies",
+    role: "viewer",
+    params: reviewParams,
+    responses: {
+      204: noContent,
+      ...errors({ 403: "Not the author", 404: "Review not found" }),
+    },
+  },
+  {
+    operationId: "moderateReview",
+    method: "put",
+    path: "/reviews/{reviewId}/moderation",
+    tag: "Reviews",
+    summary: "Hide a review or show it again",
+    role: "moderator",
+    params: reviewParams,
+    body: moderationBody,
+    responses: {
+      200: { description: "The review", schema: reviewSchema },
+      ...errors({ 404: "Review not found" }),
+    },
+  },
+  {
+    operationId: "markReviewHelpful",
+    method: "put",
+    path: "/reviews/{reviewId}/helpful",
+    tag: "Reviews",
+    summary: "Mark a review as helpful",
+    role: "viewer",
+    params: reviewParams,
+    responses: {
+      200: { description: "The review", schema: reviewSchema },
+      ...errors({ 404: "Review not found", 409: "Your own review" }),
+    },
+  },
+  {
+    operationId: "unmarkReviewHelpful",
+    method: "delete",
+    path: "/reviews/{reviewId}/helpful",
+    tag: "Reviews",
+    summary: "Take back a helpful vote",
+    role: "viewer",
+    params: reviewParams,
+    responses: {
+      200: { description: "The review", schema: reviewSchema },
+      ...errors({ 404: "Review not found", 409: "Your own review" }),
+    },
+  },
+
+  // ---- accounts ----
+  {
+    operationId: "register",
+    method: "post",
+    path: "/auth/register",
+    tag: "Accounts",
+    summary: "Create an account and sign in",
+    body: credentialsBody,
+    responses: {
+      201: { description: "The session", schema: sessionSchema },
+      ...errors({ 409: "Username taken" }),
+    },
+  },
+  {
+    operationId: "login",
+    method: "post",
+    path: "/auth/login",
+    tag: "Accounts",
+    summary: "Sign in",
+    body: credentialsBody,
+    responses: {
+      200: { description: "The session", schema: sessionSchema },
+      ...errors({ 401: "Wrong username or password" }),
+    },
+  },
+  {
+    operationId: "getCurrentUser",
+    method: "get",
+    path: "/auth/me",
+    tag: "Accounts",
+    summary: "The signed-in user",
+    role: "viewer",
+    responses: {
+      200: {
+        description: "The user",
+        schema: z.strictObject({ user: userSchema }),
+      },
+    },
+  },
+  {
+    operationId: "listUsers",
+    method: "get",
+    path: "/auth/users",
+    tag: "Accounts",
+    summary: "Every account",
+    role: "editor",
+    responses: {
+      200: {
+        description: "The accounts",
+        schema: z.strictObject({ items: z.array(userSchema) }),
+      },
+    },
+  },
+  {
+    operationId: "updateUser",
+    method: "patch",
+    path: "/auth/users/{id}",
+    tag: "Accounts",
+    summary: "Change an account's role",
+    role: "editor",
+    params: userIdParams,
+    body: updateUserBody,
+    responses: {
+      200: { description: "The user", schema: userSchema },
+      ...errors({ 404: "User not found", 409: "The last editor" }),
+    },
+  },
+
+  // ---- lists ----
+  {
+    operationId: "listLists",
+    method: "get",
+    path: "/me/lists",
+    tag: "Lists",
+    summary: "Your lists, without their items",
+    role: "viewer",
+    query: listsQuery,
+    responses: {
+      200: {
+        description: "Watchlist and favourites first",
+        schema: z.strictObject({ items: z.array(listSummarySchema) }),
+      },
+    },
+  },
+  {
+    operationId: "createList",
+    method: "post",
+    path: "/me/lists",
+    tag: "Lists",
+    summary: "Create a named list",
+    role: "viewer",
+    body: listBody,
+    responses: {
+      201: { description: "The list", schema: listSummarySchema },
+      ...errors({ 409: "Name taken, or too many lists" }),
+    },
+  },
+  {
+    operationId: "getList",
+    method: "get",
+    path: "/me/lists/{listId}",
+    tag: "Lists",
+    summary: "One list with its movies and your ratings",
+    role: "viewer",
+    params: listParams,
+    responses: {
+      200: { description: "The list", schema: listDetailSchema },
+      ...errors({ 404: "List not found" }),
+    },
+  },
+  {
+    operationId: "renameList",
+    method: "patch",
+    path: "/me/lists/{listId}",
+    tag: "Lists",
+    summary: "Rename a named list",
+    role: "viewer",
+    params: listParams,
+    body: listBody,
+    responses: {
+      200: { description: "The list", schema: listSummarySchema },
+      ...errors({
+        404: "List not found",
+        409: "Name taken, or a built-in list",
+      }),
+    },
+  },
+  {
+    operationId: "deleteList",
+    method: "delete",
+    path: "/me/lists/{listId}",
+    tag: "Lists",
+    summary: "Delete a named list",
+    role: "viewer",
+    params: listParams,
+    responses: {
+      204: noContent,
+      ...errors({ 404: "List not found", 409: "A built-in list" }),
+    },
+  },
+  {
+    operationId: "addListItem",
+    method: "put",
+    path: "/me/lists/{listId}/items/{movieId}",
+    tag: "Lists",
+    summary: "Put a movie on a list",
+    role: "viewer",
+    params: listItemParams,
+    responses: {
+      200: { description: "Already on the list", schema: listSummarySchema },
+      201: { description: "Added", schema: listSummarySchema },
+      ...errors({
+        404: "List or movie not found",
+        409: "The list is full",
+      }),
+    },
+  },
+  {
+    operationId: "removeListItem",
+    method: "delete",
+    path: "/me/lists/{listId}/items/{movieId}",
+    tag: "Lists",
+    summary: "Take a movie off a list",
+    role: "viewer",
+    params: listItemParams,
+    responses: {
+      204: noContent,
+      ...errors({ 404: "List not found, or the movie isn't on it" }),
+    },
+  },
+
+  // ---- admin ----
+  {
+    operationId: "listSnapshots",
+    method: "get",
+    path: "/admin/snapshots",
+    tag: "Admin",
+    summary: "Snapshots of the local store, newest first",
+    role: "editor",
+    responses: {
+      200: { description: "Snapshots", schema: snapshotsSchema },
+      ...errors({ 501: "The store backend keeps no snapshots" }),
+    },
+  },
+  {
+    operationId: "restoreSnapshot",
+    method: "post",
+    path: "/admin/snapshots/{name}/restore",
+    tag: "Admin",
+    summary: "Replace the local store with a snapshot",
+    role: "editor",
+    params: snapshotNameParams,
+    responses: {
+      200: { description: "Restored", schema: restoreResultSchema },
+      ...errors({
+        404: "Snapshot not found",
+        422: "Snapshot unreadable",
+        501: "The store backend keeps no snapshots",
+      }),
+    },
+  },
+  {
+    operationId: "getCacheStats",
+    method: "get",
+    path: "/admin/cache",
+    tag: "Admin",
+    summary: "Provider cache counters",
+    role: "editor",
+    responses: {
+      200: { description: "One entry per cache", schema: cacheStatsSchema },
+    },
+  },
+  {
+    operationId: "getUpstreams",
+    method: "get",
+    path: "/admin/upstreams",
+    tag: "Admin",
+    summary: "Circuit breaker state of each upstream",
+    role: "editor",
+    responses: {
+      200: { description: "One entry per upstream", schema: upstreamsSchema },
+    },
+  },
+  {
+    operationId: "listSyncs",
+    method: "get",
+    path: "/admin/sync",
+    tag: "Admin",
+    summary: "Catalogue sync status of every provider",
+    role: "editor",
+    responses: {
+      200: {
+        description: "One entry per sync",
+        schema: z.strictObject({ items: z.array(syncStatusSchema) }),
+      },
+    },
+  },
+  {
+    operationId: "getSync",
+    method: "get",
+    path: "/admin/sync/{provider}",
+    tag: "Admin",
+    summary: "Catalogue sync status of one provider",
+    role: "editor",
+    params: syncProviderParams,
+    responses: {
+      200: { description: "The status", schema: syncStatusSchema },
+      ...errors({ 404: "No sync for that provider" }),
+    },
+  },
+  {
+    operationId: "startSync",
+    method: "post",
+    path: "/admin/sync/{provider}",
+    tag: "Admin",
+    summary: "Start a catalogue sync now",
+    role: "editor",
+    params: syncProviderParams,
+    responses: {
+      202: { description: "Started", schema: syncStatusSchema },
+      ...errors({
+        404: "No sync for that provider",
+        409: "A sync is already running",
+      }),
+    },
+  },
+
+  // ---- service ----
+  {
+    operationId: "getHealth",
+    method: "get",
+    path: "/health",
+    tag: "Service",
+    summary: "Whether the local store can be used",
+    description:
+      '"degraded" when the local store can\'t be used (e.g. movies.json was ' +
+      "corrupt and has been quarantined). See also /health/live and " +
+      "/health/ready.",
+    responses: { 200: { description: "Health", schema: healthSchema } },
+  },
+  {
+    operationId: "getLiveness",
+    method: "get",
+    path: "/health/live",
+    tag: "Service",
+    summary: "Whether the process is up",
+    responses: { 200: { description: "Alive", schema: livenessSchema } },
+  },
+  {
+    operationId: "getReadiness",
+    method: "get",
+    path: "/health/ready",
+    tag: "Service",
+    summary: "Whether the store can be read and the upstreams answer",
+    description:
+      "503 when the local store can't be read. An upstream that doesn't " +
+      'answer makes the status "degraded" but keeps the instance ready. ' +
+      "Upstream checks are reused for 10 seconds.",
+    responses: {
+      200: { description: "Ready (or degraded)", schema: readinessSchema },
+      ...errors({ 503: "Not ready (checks says why)" }),
+    },
+  },
+  {
+    operationId: "getMetrics",
+    method: "get",
+    path: "/metrics",
+    tag: "Service",
+    summary: "Prometheus metrics",
+    description:
+      "Request and upstream latency histograms, upstream errors, provider " +
+      "cache hits and circuit state, in the Prometheus text format.",
+    responses: {
+      200: { description: "Metrics", contentTypes: ["text/plain"] },
+    },
+  },
+  {
+    operationId: "getOpenApiDocument",
+    method: "get",
+    path: "/openapi.json",
+    tag: "Service",
+    summary: "This document",
+    responses: {
+      200: {
+        description: "OpenAPI 3.1 document",
+        contentTypes: ["application/json"],
+      },
+    },
+  },
+  {
+    operationId: "getDocs",
+    method: "get",
+    path: "/docs",
+    tag: "Service",
+    summary: "Interactive API documentation",
+    responses: {
+      200: { description: "HTML page", contentTypes: ["text/html"] },
+    },
+  },
+];
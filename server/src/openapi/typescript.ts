@@ -0,0 +1,213 @@
+// server/src/openapi/typescript.ts
+// Writes the OpenAPI document out as TypeScript for the client: a type
+// per component, the request/response types of every operation and a
+// table of their methods and paths.
+
+import path from "path";
+import type { JsonSchema, OpenApiDocument } from "./document";
+
+// Where the generated module lives in the client
+export const CLIENT_TYPES_PATH = path.join(
+  __dirname,
+  "../../../client/src/api/schema.ts"
+);
+
+const COMPONENT_PREFIX = "#/components/schemas/";
+
+const HEADER = `// client/src/api/schema.ts
+// Generated from the API's OpenAPI document by \`npm run openapi:client\`
+// (in server/). Don't edit by hand: change the server's schemas and run
+// it again; \`npm run check:contract\` fails while this file is stale.
+`;
+
+function propertyKey(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function indentLines(text: string, indent: string) {
+  return text.replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * A union or intersection needs parentheses before `[]`.
+ */
+function arrayOf(item: string) {
+  const bare = !/[|&]/.test(item) || item.startsWith("{");
+  return bare ? `${item}[]` : `(${item})[]`;
+}
+
+function union(types: string[]) {
+  const unique = [...new Set(types)];
+  return unique.length ? unique.join(" | ") : "never";
+}
+
+function objectType(schema: JsonSchema): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const extra = schema.additionalProperties;
+
+  const lines = Object.entries(properties).map(([name, property]) => {
+    const doc =
+      typeof property.description === "string"
+        ? `/** ${property.description} */\n`
+        : "";
+    const optional = required.has(name) ? "" : "?";
+    return `${doc}${propertyKey(name)}${optional}: ${typeOf(property)};`;
+  });
+
+  if (extra === true || (typeof extra === "object" && extra !== null)) {
+    // a record, or an object that may have more members than documented
+    const values = extra === true ? "unknown" : typeOf(extra as JsonSchema);
+    if (!lines.length) return `Record<string, ${values}>`;
+    lines.push(`[key: string]: unknown;`);
+  } else if (!lines.length) {
+    return `Record<string, ${extra === false ? "never" : "unknown"}>`;
+  }
+
+  const body = lines.map((line) => indentLines(line, "  ")).join("\n  ");
+  return `{\n  ${body}\n}`;
+}
+
+/**
+ * The TypeScript type of a JSON Schema (the subset zod produces).
+ */
+export function typeOf(schema: JsonSchema): string {
+  if (typeof schema.$ref === "string") {
+    return schema.$ref.replace(COMPONENT_PREFIX, "");
+  }
+  if ("const" in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value) => JSON.stringify(value)));
+  }
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const members = (schema.anyOf ?? schema.oneOf) as JsonSchema[];
+    return union(members.map(typeOf));
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[]).map(typeOf).join(" & ");
+  }
+  if (Array.isArray(schema.type)) {
+    return union(
+      (schema.type as string[]).map((type) => typeOf({ ...schema, type }))
+    );
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      if (Array.isArray(schema.prefixItems)) {
+        const items = (schema.prefixItems as JsonSchema[]).map(typeOf);
+        return `[${items.join(", ")}]`;
+      }
+      return arrayOf(
+        schema.items ? typeOf(schema.items as JsonSchema) : "unknown"
+      );
+    case "object":
+      return objectType(schema);
+    default:
+      return "unknown";
+  }
+}
+
+type Parameter = {
+  name: string;
+  in: string;
+  required: boolean;
+  schema: JsonSchema;
+};
+
+/**
+ * Object type of the parameters in one location, or `undefined`.
+ */
+function parametersType(parameters: Parameter[], location: string) {
+  const here = parameters.filter((p) => p.in === location);
+  if (!here.length) return "undefined";
+
+  return objectType({
+    type: "object",
+    properties: Object.fromEntries(here.map((p) => [p.name, p.schema])),
+    required: here.filter((p) => p.required).map((p) => p.name),
+    additionalProperties: false,
+  });
+}
+
+type Content = Record<string, { schema: JsonSchema }>;
+
+function bodyType(requestBody: { content: Content } | undefined) {
+  if (!requestBody) return "undefined";
+  const json = requestBody.content["application/json"];
+  return json ? typeOf(json.schema) : "Blob | string";
+}
+
+function responseType(responses: Record<string, { content?: Content }>) {
+  const types = Object.entries(responses)
+    .filter(([status]) => status.startsWith("2"))
+    .map(([, response]) => {
+      if (!response.content) return "void";
+      const json = response.content["application/json"];
+      return json && Object.keys(json.schema).length
+        ? typeOf(json.schema)
+        : "string";
+    });
+  return union(types);
+}
+
+/**
+ * The generated client module.
+ */
+export function generateClientTypes(document: OpenApiDocument): string {
+  const out: string[] = [HEADER];
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    out.push(`export type ${name} = ${typeOf(schema)};\n`);
+  }
+
+  const operations: string[] = [];
+  const table: string[] = [];
+
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, op] of Object.entries(methods)) {
+      const id = op.operationId as string;
+      const parameters = (op.parameters ?? []) as Parameter[];
+      const requestBody = op.requestBody as { content: Content } | undefined;
+      const responses = op.responses as Record<string, { content?: Content }>;
+      const members = [
+        `params: ${parametersType(parameters, "path")};`,
+        `query: ${parametersType(parameters, "query")};`,
+        `body: ${bodyType(requestBody)};`,
+        `response: ${responseType(responses)};`,
+      ].map((member) => indentLines(member, "    "));
+      operations.push(`${id}: {\n    ${members.join("\n    ")}\n  };`);
+      table.push(
+        `${id}: { method: "${method.toUpperCase()}", path: "${path}" },`
+      );
+    }
+  }
+
+  out.push(`/**
+ * Request and response types of every operation, by operationId.
+ */
+export type Operations = {
+  ${operations.join("\n  ")}
+};
+
+export type OperationId = keyof Operations;
+
+/**
+ * Method and path (with {param} placeholders) of every operation.
+ */
+export const OPERATIONS = {
+  ${table.join("\n  ")}
+} as const satisfies Record<OperationId, { method: string; path: string }>;
+`);
+
+  return out.join("\n");
+}
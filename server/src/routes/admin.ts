@@ -0,0 +1,139 @@
+// server/src/routes/admin.ts
+// Maintenance endpoints for operators (store snapshots, provider caches,
+// upstream health, catalogue syncs). Editors only.
+import { Router } from "express";
+import { getMovieRepository } from "../services/store";
+import { listProviders } from "../services/providers";
+import { getSync, listSyncs } from "../services/mirror";
+import {
+  InvalidSnapshotError,
+  SnapshotNotFoundError,
+} from "../services/repositories/errors";
+import { requireRole } from "../http/auth";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import { snapshotNameParams, syncProviderParams } from "../schemas/admin";
+
+const router = Router();
+
+router.use(requireRole("editor"));
+
+/**
+ * GET /admin/snapshots
+ * Snapshots of the local store, newest first
+ */
+router.get("/snapshots", async (_req, res) => {
+  const store = getMovieRepository();
+  if (!store.listSnapshots) {
+    return sendProblem(res, 501, "This store backend doesn't keep snapshots");
+  }
+
+  try {
+    const items = await store.listSnapshots();
+    return res.json({ items });
+  } catch (err) {
+    return sendFailure(res, err, "Failed to list snapshots");
+  }
+});
+
+/**
+ * POST /admin/snapshots/:name/restore
+ * Replace the local store with a snapshot (also clears a degraded store)
+ */
+router.post(
+  "/snapshots/:name/restore",
+  validate({ params: snapshotNameParams }),
+  async (req, res) => {
+    const store = getMovieRepository();
+    if (!store.restoreSnapshot) {
+      return sendProblem(res, 501, "This store backend doesn't keep snapshots");
+    }
+
+    try {
+      await store.restoreSnapshot(req.params.name);
+
+      const health = await store.health();
+      return res.json({ restored: req.params.name, store: health });
+    } catch (err) {
+      if (err instanceof SnapshotNotFoundError) {
+        return sendProblem(res, 404, err.message);
+      }
+      if (err instanceof InvalidSnapshotError) {
+        return sendProblem(res, 422, err.message);
+      }
+      return sendFailure(res, err, "Failed to restore snapshot");
+    }
+  }
+);
+
+/**
+ * GET /admin/cache
+ * Hit/miss/eviction counters of each provider's movie cache
+ */
+router.get("/cache", (_req, res) => {
+  const items = listProviders()
+    .filter((p) => p.cacheStats)
+    .map((p) => ({ provider: p.name, ...p.cacheStats!() }));
+
+  return res.json({ items });
+});
+
+/**
+ * GET /admin/upstreams
+ * Circuit breaker state of each provider's upstream
+ */
+router.get("/upstreams", (_req, res) => {
+  const items = listProviders()
+    .filter((p) => p.upstreamStatus)
+    .map((p) => ({ provider: p.name, ...p.upstreamStatus!() }));
+
+  return res.json({ items });
+});
+
+/**
+ * GET /admin/sync
+ * Mirror and last run of each provider's catalogue sync
+ */
+router.get("/sync", (_req, res) => {
+  const items = listSyncs().map((s) => s.status());
+  return res.json({ items });
+});
+
+/**
+ * GET /admin/sync/:provider
+ */
+router.get(
+  "/sync/:provider",
+  validate({ params: syncProviderParams }),
+  (req, res) => {
+    const sync = getSync(req.params.provider);
+    if (!sync) {
+      return sendProblem(res, 404, `No sync for "${req.params.provider}"`);
+    }
+
+    return res.json(sync.status());
+  }
+);
+
+/**
+ * POST /admin/sync/:provider
+ * Start a sync now (resuming an unfinished one); 409 if one is running
+ */
+router.post(
+  "/sync/:provider",
+  validate({ params: syncProviderParams }),
+  (req, res) => {
+    const sync = getSync(req.params.provider);
+    if (!sync) {
+      return sendProblem(res, 404, `No sync for "${req.params.provider}"`);
+    }
+
+    if (!sync.trigger()) {
+      return sendProblem(res, 409, "A sync of this provider is running");
+    }
+
+    return res.status(202).json(sync.status());
+  }
+);
+
+export default router;
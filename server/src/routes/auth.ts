@@ -0,0 +1,105 @@
+// server/src/routes/auth.ts
+// Accounts: register, sign in, who am I, and role management by editors.
+import { Router } from "express";
+import {
+  LastEditorError,
+  listUsers,
+  login,
+  register,
+  setUserRole,
+  UsernameTakenError,
+} from "../services/auth";
+import { requireRole } from "../http/auth";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import {
+  credentialsBody,
+  updateUserBody,
+  userIdParams,
+} from "../schemas/auth";
+
+const router = Router();
+
+/**
+ * POST /auth/register
+ * Create an account (a viewer; the first account is an editor) and sign
+ * it in. Answers { user, token, expiresAt }.
+ */
+router.post(
+  "/register",
+  validate({ body: credentialsBody }),
+  async (req, res) => {
+    const { username, password } = req.body;
+
+    try {
+      const session = await register(username, password);
+      return res.status(201).json(session);
+    } catch (err) {
+      if (err instanceof UsernameTakenError) {
+        return sendProblem(res, 409, "That username is taken");
+      }
+      return sendFailure(res, err, "Failed to register");
+    }
+  }
+);
+
+/**
+ * POST /auth/login
+ * Sign in. Answers { user, token, expiresAt }; send the token back as
+ * "Authorization: Bearer <token>".
+ */
+router.post("/login", validate({ body: credentialsBody }), async (req, res) => {
+  const { username, password } = req.body;
+
+  try {
+    const session = await login(username, password);
+    if (!session) {
+      return sendProblem(res, 401, "Wrong username or password");
+    }
+    return res.json(session);
+  } catch (err) {
+    return sendFailure(res, err, "Failed to sign in");
+  }
+});
+
+/**
+ * GET /auth/me
+ * The signed-in user
+ */
+router.get("/me", requireRole("viewer"), (_req, res) => {
+  res.json({ user: res.locals.user });
+});
+
+/**
+ * GET /auth/users
+ * Every account (editors only)
+ */
+router.get("/users", requireRole("editor"), (_req, res) => {
+  res.json({ items: listUsers() });
+});
+
+/**
+ * PATCH /auth/users/:id
+ * Change an account's role (editors only). 409 rather than demote the
+ * last editor.
+ */
+router.patch(
+  "/users/:id",
+  requireRole("editor"),
+  validate({ params: userIdParams, body: updateUserBody }),
+  async (req, res) => {
+    try {
+      const user = await setUserRole(req.params.id, req.body.role);
+      if (!user) return sendProblem(res, 404, "User not found");
+
+      return res.json(user);
+    } catch (err) {
+      if (err instanceof LastEditorError) {
+        return sendProblem(res, 409, err.message);
+      }
+      return sendFailure(res, err, "Failed to update user");
+    }
+  }
+);
+
+export default router;
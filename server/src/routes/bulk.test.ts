@@ -0,0 +1,60 @@
+// server/src/routes/bulk.test.ts
+// POST /movies/import run several times at once: duplicates are found
+// inside the write, so each film is stored once however the uploads
+// interleave.
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { importReportSchema, moviePageSchema } from "../schemas/responses";
+import { signIn, startTestApi, type TestApi } from "../testing/api";
+
+const PARALLEL_IMPORTS = 5;
+
+const CSV = [
+  "title,year",
+  "Alien,1979",
+  "Heat,1995",
+  "Ran,1985",
+  "Brazil,1985",
+].join("\n");
+
+let api: TestApi;
+let token: string;
+
+before(async () => {
+  api = await startTestApi({ LOG_LEVEL: "error" });
+  token = await signIn(api);
+});
+
+after(async () => {
+  await api.close();
+});
+
+test("parallel imports of one upload store each film once", async () => {
+  const reports = await Promise.all(
+    Array.from({ length: PARALLEL_IMPORTS }, async () => {
+      const res = await fetch(`${api.url}/movies/import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/csv",
+          Authorization: `Bearer ${token}`,
+        },
+        body: CSV,
+      });
+      assert.equal(res.status, 200);
+      return importReportSchema.parse(await res.json());
+    })
+  );
+
+  const res = await fetch(`${api.url}/movies?source=local&pageSize=50`);
+  const page = moviePageSchema.parse(await res.json());
+
+  assert.deepEqual(
+    page.items.map((m) => m.title).sort(),
+    ["Alien", "Brazil", "Heat", "Ran"]
+  );
+  assert.equal(
+    reports.reduce((created, r) => created + r.summary.create, 0),
+    4
+  );
+});
@@ -0,0 +1,267 @@
+// server/src/routes/bulk.ts
+// Bulk import and export of the local library. Uploads are read as a
+// stream, so this router is mounted before the JSON body parser.
+import { Router, type Request, type Response } from "express";
+import {
+  createBulkWriter,
+  decodeUpload,
+  planImport,
+  readImportRows,
+  readRows,
+  UploadFormatError,
+  UploadTooLargeError,
+  type BulkFormat,
+  type CheckedRow,
+  type DuplicatePolicy,
+  type ImportPlan,
+  type ImportRow,
+} from "../services/bulk";
+import { getConfig } from "../config";
+import { listLocalMovies } from "../services/localMovies";
+import { logger } from "../services/observability";
+import { getMovieRepository } from "../services/store";
+import type { MovieRepository } from "../types/repository";
+import type { UserRef } from "../types/user";
+import { currentUserRef, requireRole } from "../http/auth";
+import { sendFailure, sendProblem } from "../http/problem";
+import { fieldErrors, validate } from "../http/validate";
+import {
+  bulkExportQuery,
+  bulkImportQuery,
+  bulkMovieRow,
+} from "../schemas/movies";
+
+const router = Router();
+
+// Movies read from the store per step of an export
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * The upload format named by the Content-Type, if any.
+ */
+function formatOfUpload(req: Pick<Request, "is">): BulkFormat | null {
+  if (req.is("text/csv")) return "csv";
+  if (req.is(["application/x-ndjson", "application/ndjson"])) return "ndjson";
+  if (req.is("application/json")) return "json";
+  return null;
+}
+
+/**
+ * Validate one uploaded movie. Exported fields that describe the stored
+ * movie (source, createdAt, updatedAt, createdBy) are dropped; id only
+ * finds what to overwrite. New movies are recorded as created by
+ * `uploader`.
+ */
+function checkRow(value: unknown, uploader: UserRef): CheckedRow {
+  const result = bulkMovieRow.safeParse(value);
+  if (!result.success) return { errors: fieldErrors(result.error, "row") };
+
+  const {
+    id,
+    source: _source,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    createdBy: _createdBy,
+    ...input
+  } = result.data;
+  return { id, input: { ...input, createdBy: uploader } };
+}
+
+/**
+ * Plan the import inside the write (see MovieRepository.bulkWrite), so
+ * movies that other writes add meanwhile count as duplicates. Nothing
+ * is written if any row is a conflict. Created movies' ids are filled
+ * into their rows of the report.
+ */
+async function writeImport(
+  repo: MovieRepository,
+  rows: ImportRow[],
+  onDuplicate: DuplicatePolicy
+): Promise<ImportPlan> {
+  let plan = null as ImportPlan | null;
+  const { created } = await repo.bulkWrite((library) => {
+    plan = planImport(rows, { library, onDuplicate });
+    return plan.summary.conflict > 0
+      ? { create: [], replace: [] }
+      : plan.changes;
+  });
+  if (!plan) throw new Error("Import was not planned");
+
+  // created movies come back in the order of the "create" rows
+  const createRows = plan.rows.filter((r) => r.action === "create");
+  created.forEach((movie, i) => {
+    createRows[i].id = movie.id;
+  });
+
+  return plan;
+}
+
+/**
+ * Write a chunk of a streamed response, waiting while the client is
+ * slower than we are. Fails if the response is closed first.
+ */
+async function send(res: Response, text: string) {
+  if (res.destroyed) throw new Error("Client went away");
+  if (!text || res.write(text)) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const settle = (err?: Error) => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", settle);
+      if (err) reject(err);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error("Client went away"));
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+    res.on("error", settle);
+  });
+}
+
+/**
+ * POST /movies/import
+ * Add many local movies from a CSV, JSON array or NDJSON upload
+ *
+ * Query:
+ * - format: csv | json | ndjson (default: from the Content-Type)
+ * - dryRun: true to only report what would happen (default false)
+ * - onDuplicate: skip | overwrite | fail (default skip)
+ *
+ * Editors only. Answers with a report per row. Invalid rows are left out; the rest is
+ * written in one go. With onDuplicate=fail, any duplicate makes it a 409
+ * and nothing is written.
+ */
+router.post(
+  "/import",
+  requireRole("editor"),
+  validate({ query: bulkImportQuery }),
+  async (req, res) => {
+    const { dryRun, onDuplicate } = req.query;
+    const format = req.query.format ?? formatOfUpload(req);
+
+    if (!format) {
+      req.resume();
+      return sendProblem(
+        res,
+        415,
+        "Send text/csv, application/json or application/x-ndjson, " +
+          "or set ?format="
+      );
+    }
+
+    // limits of one upload (20 MB and 10000 rows by default)
+    const { maxUploadBytes, maxUploadRows } = getConfig().bulk;
+
+    try {
+      const repo = getMovieRepository();
+      const rows = await readImportRows(
+        readRows(format, decodeUpload(req, maxUploadBytes)),
+        {
+          maxRows: maxUploadRows,
+          check: (value) => checkRow(value, currentUserRef(res)),
+        }
+      );
+      const plan = dryRun
+        ? await repo.lookup((library) =>
+            planImport(rows, { library, onDuplicate })
+          )
+        : await writeImport(repo, rows, onDuplicate);
+
+      const report = {
+        format,
+        dryRun,
+        onDuplicate,
+        summary: plan.summary,
+        rows: plan.rows,
+      };
+
+      if (!dryRun && plan.summary.conflict > 0) {
+        return sendProblem(
+          res,
+          409,
+          `${plan.summary.conflict} row(s) are duplicates; nothing was imported`,
+          { extensions: { report } }
+        );
+      }
+
+      return res.json(report);
+    } catch (err) {
+      if (err instanceof UploadFormatError) {
+        req.resume();
+        return sendProblem(res, 400, err.message);
+      }
+      if (err instanceof UploadTooLargeError) {
+        req.resume();
+        return sendProblem(res, 413, err.message);
+      }
+      return sendFailure(res, err, "Failed to import movies");
+    }
+  }
+);
+
+/**
+ * GET /movies/export
+ * Download the local library, streamed
+ *
+ * Query:
+ * - format: csv | json | ndjson (default json)
+ * - search, year, yearFrom, yearTo, sort, order: as for GET /movies
+ */
+router.get(
+  "/export",
+  validate({ query: bulkExportQuery }),
+  async (req, res) => {
+    const { format, search, sort, order, year, yearFrom, yearTo } = req.query;
+    const query = {
+      search,
+      year,
+      yearFrom,
+      yearTo,
+      sort: sort ? { field: sort, order } : undefined,
+    };
+    const batch = (offset: number) =>
+      listLocalMovies({ ...query, offset, limit: EXPORT_BATCH_SIZE });
+    const writer = createBulkWriter(format);
+
+    let page;
+    try {
+      // the first batch is read before anything is sent, so a store that
+      // can't be read is still a proper error response
+      page = await batch(0);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to export movies");
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    // attachment() guesses a type from the file name: set ours after it
+    res.attachment(`movies-${date}.${format}`);
+    res.type(writer.contentType);
+
+    try {
+      await send(res, writer.start());
+
+      let offset = 0;
+      while (page.items.length && !res.destroyed) {
+        for (const movie of page.items) {
+          await send(res, writer.movie(movie, offset === 0));
+          offset += 1;
+        }
+        if (offset >= page.total) break;
+
+        page = await batch(offset);
+      }
+
+      await send(res, writer.end());
+      res.end();
+    } catch (err) {
+      // headers are gone: all we can do is cut the download short
+      if (res.destroyed) return;
+      logger.error("Export failed", { err });
+      res.destroy(err instanceof Error ? err : undefined);
+    }
+  }
+);
+
+export default router;
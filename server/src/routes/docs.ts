@@ -0,0 +1,55 @@
+// server/src/routes/docs.ts
+// The API's own description: the OpenAPI document, and Swagger UI on top
+// of it for trying requests out in a browser.
+import express, { Router } from "express";
+import { buildOpenApiDocument } from "../openapi/document";
+
+const router = Router();
+
+// Swagger UI's scripts and styles, served by us (no CDN, so the docs work
+// offline); the package has no type declarations
+const { getAbsoluteFSPath } = require("swagger-ui-dist") as {
+  getAbsoluteFSPath(): string;
+};
+const SWAGGER_UI = "docs/assets";
+
+const document = buildOpenApiDocument();
+
+/**
+ * GET /openapi.json
+ * OpenAPI 3.1 document of every route
+ */
+router.get("/openapi.json", (_req, res) => {
+  res.json(document);
+});
+
+/**
+ * GET /docs
+ * Interactive documentation (Swagger UI, from /docs/assets)
+ */
+router.get("/docs", (_req, res) => {
+  res.type("html").send(`<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${document.info.title}</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({
+        url: "openapi.json",
+        dom_id: "#docs",
+        persistAuthorization: true,
+      });
+    </script>
+  </body>
+</html>
+`);
+});
+
+router.use("/docs/assets", express.static(getAbsoluteFSPath()));
+
+export default router;
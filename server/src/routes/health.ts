@@ -0,0 +1,110 @@
+// server/src/routes/health.ts
+// Health checks for orchestrators and load balancers. Liveness only says
+// the process answers; readiness checks that the local store can be read
+// and that each provider's upstream answers.
+import { Router } from "express";
+import type { z } from "zod";
+import { listProviders } from "../services/providers";
+import { getMovieRepository } from "../services/store";
+import { sendProblem } from "../http/problem";
+import type { readinessChecksSchema } from "../schemas/responses";
+
+type ReadinessChecks = z.output<typeof readinessChecksSchema>;
+type UpstreamCheck = ReadinessChecks["upstreams"][number];
+
+const router = Router();
+
+// Upstream checks are reused for 10s, so frequent probes (one per
+// instance, every few seconds) don't turn into upstream traffic
+const UPSTREAM_CHECK_TTL_MS = 10_000;
+
+const upstreamChecks = new Map<
+  string,
+  { expiresAt: number; check: Promise<UpstreamCheck> }
+>();
+
+/**
+ * Whether the provider's upstream answers, from a recent check if any.
+ */
+function checkUpstream(provider: string, ping: () => Promise<void>) {
+  const cached = upstreamChecks.get(provider);
+  if (cached && cached.expiresAt > Date.now()) return cached.check;
+
+  const check = ping().then(
+    (): UpstreamCheck => ({
+      provider,
+      status: "ok",
+      checkedAt: new Date().toISOString(),
+    }),
+    (err): UpstreamCheck => ({
+      provider,
+      status: "failed",
+      detail: err instanceof Error ? err.message : String(err),
+      checkedAt: new Date().toISOString(),
+    })
+  );
+  upstreamChecks.set(provider, {
+    expiresAt: Date.now() + UPSTREAM_CHECK_TTL_MS,
+    check,
+  });
+  return check;
+}
+
+/**
+ * GET /health
+ * Whether the local store can be used
+ */
+router.get("/health", async (_req, res) => {
+  const store = await getMovieRepository().health();
+  res.json({ status: store.status, store });
+});
+
+/**
+ * GET /health/live
+ * The process is up and handling requests
+ */
+router.get("/health/live", (_req, res) => {
+  res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+});
+
+/**
+ * GET /health/ready
+ * Ready when the local store can be read (503 otherwise). An upstream
+ * that doesn't answer only makes it "degraded": the library and mirrors
+ * still work, and every instance shares the upstream, so taking them all
+ * out of rotation wouldn't help.
+ */
+router.get("/health/ready", async (_req, res) => {
+  const [store, upstreams] = await Promise.all([
+    getMovieRepository()
+      .health()
+      .catch((err) => ({
+        status: "degraded" as const,
+        detail: err instanceof Error ? err.message : String(err),
+      })),
+    Promise.all(
+      listProviders()
+        .filter((p) => p.ping)
+        .map((p) => checkUpstream(p.name, p.ping!))
+    ),
+  ]);
+
+  const checks: ReadinessChecks = {
+    store:
+      store.status === "ok"
+        ? { status: "ok" }
+        : { status: "failed", detail: store.detail },
+    upstreams,
+  };
+
+  if (checks.store.status === "failed") {
+    return sendProblem(res, 503, "The local store can't be read", {
+      extensions: { checks },
+    });
+  }
+
+  const degraded = upstreams.some((u) => u.status === "failed");
+  return res.json({ status: degraded ? "degraded" : "ready", checks });
+});
+
+export default router;
@@ -0,0 +1,217 @@
+// server/src/routes/me.ts
+// The signed-in user's own movie lists: watchlist, favourites and custom
+// named lists, holding local or provider movie ids.
+import { Router, type Response } from "express";
+import type { MovieList } from "../types/lists";
+import {
+  BuiltInListError,
+  getListStore,
+  getRatingStore,
+  ListLimitError,
+  ListNameTakenError,
+} from "../services/lists";
+import { findMovie } from "../services/movieLookup";
+import { currentUserRef, requireRole } from "../http/auth";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import {
+  listBody,
+  listItemParams,
+  listParams,
+  listsQuery,
+} from "../schemas/lists";
+
+const router = Router();
+
+router.use(requireRole("viewer"));
+
+/**
+ * A list without its items. With `movieId`, whether it holds that movie.
+ */
+function summarize(list: MovieList, movieId?: string) {
+  const { userId: _userId, items, ...rest } = list;
+  return {
+    ...rest,
+    count: items.length,
+    ...(movieId && { hasMovie: items.some((i) => i.movieId === movieId) }),
+  };
+}
+
+/**
+ * Answer for the errors a list change can throw.
+ */
+function sendListFailure(res: Response, err: unknown, detail: string) {
+  if (
+    err instanceof ListNameTakenError ||
+    err instanceof BuiltInListError ||
+    err instanceof ListLimitError
+  ) {
+    return sendProblem(res, 409, err.message);
+  }
+  return sendFailure(res, err, detail);
+}
+
+/**
+ * GET /me/lists
+ * The user's lists (watchlist and favourites first), without items
+ *
+ * Query:
+ * - movieId: adds hasMovie to each list
+ */
+router.get("/lists", validate({ query: listsQuery }), (req, res) => {
+  const { id: userId } = currentUserRef(res);
+  const { movieId } = req.query;
+
+  const items = getListStore()
+    .listsOf(userId)
+    .map((list) => summarize(list, movieId));
+  res.json({ items });
+});
+
+/**
+ * POST /me/lists
+ * Create a custom list: { name }
+ */
+router.post("/lists", validate({ body: listBody }), async (req, res) => {
+  const { id: userId } = currentUserRef(res);
+
+  try {
+    const list = await getListStore().create(userId, req.body.name);
+    return res.status(201).json(summarize(list));
+  } catch (err) {
+    return sendListFailure(res, err, "Failed to create list");
+  }
+});
+
+/**
+ * GET /me/lists/:listId
+ * One list with its movies (oldest first) and the user's rating of each.
+ * movie is null when it no longer exists or its provider is unreachable.
+ */
+router.get(
+  "/lists/:listId",
+  validate({ params: listParams }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+
+    const list = getListStore().get(userId, req.params.listId);
+    if (!list) return sendProblem(res, 404, "List not found");
+
+    const ratings = getRatingStore().ofUser(userId);
+    const items = await Promise.all(
+      list.items.map(async (item) => ({
+        ...item,
+        movie: await findMovie(item.movieId).catch(() => null),
+        rating: ratings.get(item.movieId) ?? null,
+      }))
+    );
+
+    return res.json({ ...summarize(list), items });
+  }
+);
+
+/**
+ * PATCH /me/lists/:listId
+ * Rename a custom list: { name }
+ */
+router.patch(
+  "/lists/:listId",
+  validate({ params: listParams, body: listBody }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+
+    try {
+      const list = await getListStore().rename(
+        userId,
+        req.params.listId,
+        req.body.name
+      );
+      if (!list) return sendProblem(res, 404, "List not found");
+
+      return res.json(summarize(list));
+    } catch (err) {
+      return sendListFailure(res, err, "Failed to rename list");
+    }
+  }
+);
+
+/**
+ * DELETE /me/lists/:listId
+ * Delete a custom list
+ */
+router.delete(
+  "/lists/:listId",
+  validate({ params: listParams }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+
+    try {
+      const deleted = await getListStore().remove(userId, req.params.listId);
+      if (!deleted) return sendProblem(res, 404, "List not found");
+
+      return res.status(204).send();
+    } catch (err) {
+      return sendListFailure(res, err, "Failed to delete list");
+    }
+  }
+);
+
+/**
+ * PUT /me/lists/:listId/items/:movieId
+ * Add a movie (local or provider) to a list: 201 when added, 200 when it
+ * was already there. 404 for an unknown list or movie.
+ */
+router.put(
+  "/lists/:listId/items/:movieId",
+  validate({ params: listItemParams }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+    const { listId, movieId } = req.params;
+
+    try {
+      const lists = getListStore();
+      if (!lists.get(userId, listId)) {
+        return sendProblem(res, 404, "List not found");
+      }
+      if (!(await findMovie(movieId))) {
+        return sendProblem(res, 404, "Movie not found");
+      }
+
+      const result = await lists.addItem(userId, listId, movieId);
+      if (!result) return sendProblem(res, 404, "List not found");
+
+      return res
+        .status(result.added ? 201 : 200)
+        .json(summarize(result.list, movieId));
+    } catch (err) {
+      return sendListFailure(res, err, "Failed to add to list");
+    }
+  }
+);
+
+/**
+ * DELETE /me/lists/:listId/items/:movieId
+ * Take a movie off a list
+ */
+router.delete(
+  "/lists/:listId/items/:movieId",
+  validate({ params: listItemParams }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+    const { listId, movieId } = req.params;
+
+    try {
+      const result = await getListStore().removeItem(userId, listId, movieId);
+      if (!result) return sendProblem(res, 404, "List not found");
+      if (!result.removed) {
+        return sendProblem(res, 404, "Movie is not in this list");
+      }
+
+      return res.status(204).send();
+    } catch (err) {
+      return sendListFailure(res, err, "Failed to remove from list");
+    }
+  }
+);
+
+export default router;
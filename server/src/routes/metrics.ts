@@ -0,0 +1,99 @@
+// server/src/routes/metrics.ts
+// Prometheus scrape endpoint. Request and upstream metrics are recorded
+// where they happen (http/requestLog, upstream/client); provider caches,
+// circuits and the process are read here at every scrape.
+import { Router } from "express";
+import { defineCollected, renderMetrics } from "../services/observability";
+import { listProviders } from "../services/providers";
+import { getMovieEvents } from "../services/events";
+import type { MovieProvider } from "../types/provider";
+
+const router = Router();
+
+/**
+ * One sample per provider that `source` has stats for.
+ */
+function perProvider<T>(
+  source: (provider: MovieProvider) => T | undefined,
+  value: (stats: T) => number
+) {
+  return () =>
+    listProviders().flatMap((p) => {
+      const stats = source(p);
+      return stats === undefined
+        ? []
+        : [{ labels: { provider: p.name }, value: value(stats) }];
+    });
+}
+
+defineCollected({
+  name: "provider_cache_hits_total",
+  help: "Provider movie cache lookups that found the movie",
+  type: "counter",
+  collect: perProvider((p) => p.cacheStats?.(), (s) => s.hits),
+});
+
+defineCollected({
+  name: "provider_cache_misses_total",
+  help: "Provider movie cache lookups that didn't",
+  type: "counter",
+  collect: perProvider((p) => p.cacheStats?.(), (s) => s.misses),
+});
+
+defineCollected({
+  name: "provider_cache_hit_ratio",
+  help: "Share of provider cache lookups that hit, since start",
+  type: "gauge",
+  collect: perProvider(
+    (p) => p.cacheStats?.(),
+    (s) => (s.hits + s.misses ? s.hits / (s.hits + s.misses) : 0)
+  ),
+});
+
+defineCollected({
+  name: "provider_cache_entries",
+  help: "Movies in each provider cache",
+  type: "gauge",
+  collect: perProvider((p) => p.cacheStats?.(), (s) => s.size),
+});
+
+defineCollected({
+  name: "upstream_circuit_open",
+  help: "1 while an upstream's circuit breaker refuses calls",
+  type: "gauge",
+  collect: perProvider(
+    (p) => p.upstreamStatus?.(),
+    (s) => (s.state === "closed" ? 0 : 1)
+  ),
+});
+
+defineCollected({
+  name: "movie_event_subscribers",
+  help: "Clients connected to GET /movies/events",
+  type: "gauge",
+  collect: () => [{ labels: {}, value: getMovieEvents().subscriberCount() }],
+});
+
+defineCollected({
+  name: "process_uptime_seconds",
+  help: "Time since the server process started",
+  type: "gauge",
+  collect: () => [{ labels: {}, value: process.uptime() }],
+});
+
+defineCollected({
+  name: "process_resident_memory_bytes",
+  help: "Resident memory of the server process",
+  type: "gauge",
+  collect: () => [{ labels: {}, value: process.memoryUsage().rss }],
+});
+
+/**
+ * GET /metrics
+ * Every metric in the Prometheus text format
+ */
+router.get("/metrics", (_req, res) => {
+  res.type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics());
+});
+
+export default router;
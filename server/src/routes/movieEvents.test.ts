@@ -0,0 +1,65 @@
+// server/src/routes/movieEvents.test.ts
+// GET /movies/events opens with the current event id, so a client that
+// drops before its first event gets what it missed when it reconnects.
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { signIn, startTestApi, type TestApi } from "../testing/api";
+
+let api: TestApi;
+let token: string;
+
+/**
+ * Read the event stream until it has sent something matching `until`,
+ * then hang up. Resolves to everything read.
+ */
+async function readEvents(
+  headers: Record<string, string>,
+  until: RegExp
+): Promise<string> {
+  const res = await fetch(`${api.url}/movies/events`, { headers });
+  assert.equal(res.status, 200);
+  if (!res.body) throw new Error("No event stream");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (!until.test(text)) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel();
+  return text;
+}
+
+before(async () => {
+  api = await startTestApi({ LOG_LEVEL: "error" });
+  token = await signIn(api);
+});
+
+after(async () => {
+  await api.close();
+});
+
+test("a reconnect before the first event gets what it missed", async () => {
+  const opening = await readEvents({}, /\n\n/);
+  const id = opening.match(/^retry: \d+\nid: (\S+)\n\n/)?.[1];
+  assert.ok(id, `no id in ${JSON.stringify(opening)}`);
+
+  // created while the client is away
+  await fetch(`${api.url}/movies`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ title: "Missed", year: 2010 }),
+  });
+
+  const resumed = await readEvents(
+    { "Last-Event-ID": id },
+    /event: created\ndata: .*\n\n/
+  );
+  assert.match(resumed, /event: created\ndata: .*"title":"Missed"/);
+});
@@ -0,0 +1,69 @@
+// server/src/routes/movieEvents.ts
+// Live updates of the local library as Server-Sent Events. Mounted ahead
+// of the movies router, so /movies/events isn't taken for a movie id.
+import { Router, type Response } from "express";
+import { getMovieEvents, type MovieEvent } from "../services/events";
+
+const router = Router();
+
+// Comment lines sent while nothing happens, so proxies and load balancers
+// don't close an idle stream (most give up after 30-60s)
+const HEARTBEAT_MS = 15_000;
+
+// How long browsers wait before reconnecting a dropped stream
+const RETRY_MS = 3_000;
+
+/**
+ * Write one event: its id (the client's Last-Event-ID when it
+ * reconnects), its type, and the rest as JSON.
+ */
+function writeEvent(res: Response, { eventId, type, ...data }: MovieEvent) {
+  res.write(`id: ${eventId}\nevent: ${type}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * GET /movies/events
+ * Stream of changes to local movies: "created" and "updated" carry the
+ * movie, "deleted" its id, and "reset" says to reload everything (a
+ * snapshot was restored, or the Last-Event-ID sent on reconnecting is no
+ * longer known). Events missed since Last-Event-ID are sent first. The
+ * stream opens with the current event id, so a client that reconnects
+ * before its first event still gets what it missed.
+ */
+router.get("/events", (req, res) => {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    // nginx would otherwise buffer the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const subscription = getMovieEvents().subscribe(
+    { event: (event) => writeEvent(res, event), close: () => res.end() },
+    req.get("Last-Event-ID")
+  );
+  // shutting down: the stream was closed straight away
+  if (res.writableEnded) return;
+
+  res.write(`retry: ${RETRY_MS}\nid: ${subscription.resumeFrom}\n\n`);
+
+  if (subscription.missed === null) {
+    writeEvent(res, {
+      type: "reset",
+      eventId: subscription.resumeFrom,
+      at: new Date().toISOString(),
+    });
+  } else {
+    for (const event of subscription.missed) writeEvent(res, event);
+  }
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    subscription.unsubscribe();
+  });
+});
+
+export default router;
@@ -0,0 +1,169 @@
+// server/src/routes/movies.test.ts
+// GET /movies against the fake upstream: with source=all, an upstream
+// that is down degrades the list to the local movies instead of failing.
+// GET /movies/:id: a new review makes a cached copy stale (by ETag and by
+// Last-Modified), but not the ETag an editor sends with If-Match.
+
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, test } from "node:test";
+import { movieSchema, moviePageSchema } from "../schemas/responses";
+import { createFakeUpstream } from "../scripts/fakeUpstream";
+import {
+  listen,
+  signIn,
+  startTestApi,
+  type Listening,
+  type TestApi,
+} from "../testing/api";
+
+let upstream: Listening;
+let api: TestApi;
+let token: string;
+let localId: string;
+
+function setFaults(faults: { failureRate: number }) {
+  return fetch(`${upstream.url}/__faults`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(faults),
+  });
+}
+
+async function createMovie(title: string): Promise<string> {
+  const res = await fetch(`${api.url}/movies`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ title, year: 2001 }),
+  });
+  return movieSchema.parse(await res.json()).id;
+}
+
+async function postReview(movieId: string) {
+  const res = await fetch(`${api.url}/movies/${movieId}/reviews`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ text: "Better than expected.", stars: 4 }),
+  });
+  assert.equal(res.status, 201);
+}
+
+async function listMovies(query: string) {
+  const res = await fetch(`${api.url}/movies?${query}`);
+  return { status: res.status, body: await res.json() };
+}
+
+async function listMoviePage(query: string) {
+  const { status, body } = await listMovies(query);
+  assert.equal(status, 200);
+  return moviePageSchema.parse(body);
+}
+
+before(async () => {
+  upstream = await listen(createFakeUpstream());
+  api = await startTestApi({
+    THIRD_PARTY_BASE_URL: `${upstream.url}/movies`,
+    THIRD_PARTY_MODE: "live",
+    LOG_LEVEL: "error",
+  });
+  token = await signIn(api);
+
+  localId = await createMovie("Local One");
+});
+
+after(async () => {
+  await api.close();
+  upstream.close();
+});
+
+test("source=all merges local and provider movies", async () => {
+  const page = await listMoviePage("source=all&pageSize=30");
+
+  assert.equal(page.meta.degraded, false);
+  assert.ok(page.items.some((m) => m.source === "local"));
+  assert.ok(page.items.some((m) => m.source === "api"));
+});
+
+test("source=all degrades to local movies while the upstream is down", async () => {
+  await setFaults({ failureRate: 1 });
+  try {
+    const page = await listMoviePage("source=all&pageSize=30");
+
+    assert.equal(page.meta.degraded, true);
+    assert.match(page.meta.warnings?.join(" ") ?? "", /third_party/);
+    assert.deepEqual(page.items.map((m) => m.title), ["Local One"]);
+
+    // a provider on its own has nothing to fall back on
+    const provider = await listMovies("source=third_party");
+    assert.equal(provider.status, 502);
+  } finally {
+    await setFaults({ failureRate: 0 });
+  }
+});
+
+test("a review makes the cached copy of a local movie stale", async () => {
+  const url = `${api.url}/movies/${localId}`;
+  const first = await fetch(url);
+  const etag = first.headers.get("ETag") ?? "";
+  const cached = await fetch(url, { headers: { "If-None-Match": etag } });
+  assert.equal(cached.status, 304);
+
+  await postReview(localId);
+
+  const stale = await fetch(url, { headers: { "If-None-Match": etag } });
+  assert.equal(stale.status, 200);
+  assert.notEqual(stale.headers.get("ETag"), etag);
+});
+
+test("a review moves Last-Modified of a local movie", async () => {
+  const id = await createMovie("Dated");
+  const url = `${api.url}/movies/${id}`;
+  const first = await fetch(url);
+  const since = first.headers.get("Last-Modified") ?? "";
+  assert.ok(since);
+  const cached = await fetch(url, { headers: { "If-Modified-Since": since } });
+  assert.equal(cached.status, 304);
+
+  // Last-Modified has whole seconds
+  await sleep(1000);
+  await postReview(id);
+
+  const stale = await fetch(url, { headers: { "If-Modified-Since": since } });
+  assert.equal(stale.status, 200);
+  assert.ok(
+    Date.parse(stale.headers.get("Last-Modified") ?? "") > Date.parse(since)
+  );
+});
+
+test("a review doesn't fail an edit with If-Match", async () => {
+  const id = await createMovie("Contested");
+  const url = `${api.url}/movies/${id}`;
+  const etag = (await fetch(url)).headers.get("ETag") ?? "";
+
+  await postReview(id);
+
+  const res = await fetch(url, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      "If-Match": etag,
+    },
+    body: JSON.stringify({ title: "Contested", year: 2003 }),
+  });
+  assert.equal(res.status, 200);
+  assert.equal(movieSchema.parse(await res.json()).year, 2003);
+
+  // but an edit made since does
+  const again = await fetch(url, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${token}`, "If-Match": etag },
+  });
+  assert.equal(again.status, 412);
+});
@@ -1,50 +1,216 @@
 // server/src/routes/movies.ts
 import { Router } from "express";
+import type { Movie } from "../types/movie";
+import type { LocalMoviePage, WriteCondition } from "../types/repository";
 import {
-  fetchThirdPartyMoviesPage,
-  fetchThirdPartyRandom,
-  getCachedThirdPartyMovie,
-} from "../services/thirdParty";
+  fetchMergedRange,
+  fetchProviderRange,
+  findProviderForId,
+  getDefaultProvider,
+  getProvider,
+  listProviders,
+  type ProviderRange,
+} from "../services/providers";
 import {
-  createLocalMovie,
-  findLocalMovieById,
-  readLocalMovies,
+  getMovieRepository,
+  getReviewRepository,
+  type LocalMovieInput,
 } from "../services/store";
+import {
+  ensureStoreReadable,
+  listLocalMovies,
+} from "../services/localMovies";
+import { findMovie } from "../services/movieLookup";
+import { matchesFilters, sortMovies } from "../services/movieQuery";
+import { logger } from "../services/observability";
+import { MovieChangedError } from "../services/repositories/errors";
+import {
+  duplicateKey,
+  isShadowed,
+  withOrigins,
+} from "../services/duplicates";
+import { recommend } from "../services/recommendations";
+import { getSearchIndex } from "../services/search";
+import { currentUserRef, requireRole } from "../http/auth";
+import {
+  CACHE_CONTROL,
+  digest,
+  ifMatchAllows,
+  isFresh,
+  setCaching,
+  strongEtagWith,
+  weakEtag,
+} from "../http/caching";
+import { paginationMeta } from "../http/pagination";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import {
+  createMovieBody,
+  listMoviesQuery,
+  movieIdParams,
+  patchMovieBody,
+  providerMovieParams,
+  providerQuery,
+  randomCountParams,
+  recommendationsQuery,
+  replaceMovieBody,
+  searchMoviesQuery,
+} from "../schemas/movies";
 
+// Anyone may read; every route that changes the library needs an editor
 const router = Router();
 
+// Without a seed, compare to the newest movies of the library (at most)
+const MAX_LIBRARY_SEEDS = 50;
+
+// Candidates taken from a provider that isn't mirrored yet
+const LIVE_CANDIDATES = 100;
+
+/**
+ * Movies GET /movies/recommendations may pick from: the whole catalogue
+ * of a mirrored provider, the first upstream movies of a live one, or
+ * the library for source=local (the only case that reads all of it).
+ * Providers that fail are left out and named in `warnings`.
+ */
+async function recommendationCandidates(source: string) {
+  if (source === "local") {
+    return { candidates: await getMovieRepository().all(), warnings: [] };
+  }
+
+  const providers =
+    source === "all" ? listProviders() : [getProvider(source)!];
+  const candidates: Movie[] = [];
+  const warnings: string[] = [];
+
+  for (const provider of providers) {
+    try {
+      const catalogue =
+        provider.catalogue?.() ??
+        (await fetchProviderRange(provider, 0, LIVE_CANDIDATES)).items;
+      candidates.push(...catalogue);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      logger.warn("Provider skipped", { provider: provider.name, reason });
+      warnings.push(`${provider.name}: ${reason}`);
+    }
+  }
+
+  return { candidates, warnings };
+}
+
 /**
  * GET /movies/recommendations
- * Returns 3 recommended movies.
- * Simple approach: use third-party random(3).
+ * Movies like the ones in our library (or like one given movie), each
+ * with the movie it resembles and why. Movies we already have are left
+ * out.
+ *
+ * Query:
+ * - count (default 3, max 20)
+ * - seedId: recommend movies like this one instead of the library
+ * - source: all | local | <provider name> (default all); local needs seedId
  */
-router.get("/recommendations", async (_req, res) => {
-  try {
-    const items = await fetchThirdPartyRandom(3);
-    return res.json({ items });
-  } catch {
-    return res.status(500).json({ error: "Failed to fetch recommendations" });
+router.get(
+  "/recommendations",
+  validate({ query: recommendationsQuery }),
+  async (req, res) => {
+    const { count, seedId, source } = req.query;
+
+    try {
+      const repo = getMovieRepository();
+
+      let seeds: Movie[];
+      if (seedId) {
+        const seed =
+          (await repo.findById(seedId)) ??
+          (await findProviderForId(seedId)?.getById(seedId)) ??
+          null;
+        if (!seed) return sendProblem(res, 404, "Seed movie not found");
+        seeds = [seed];
+      } else {
+        const newest = await repo.list({
+          sort: { field: "createdAt", order: "desc" },
+          offset: 0,
+          limit: MAX_LIBRARY_SEEDS,
+        });
+        seeds = newest.items;
+      }
+
+      const { candidates, warnings } = await recommendationCandidates(source);
+
+      // provider copies of films in the library count as owned
+      const owned = await repo.lookup(
+        (library) =>
+          new Set(
+            candidates
+              .filter(
+                (m) =>
+                  m.source !== "local" &&
+                  library.findDuplicate(duplicateKey(m))
+              )
+              .map((m) => m.id)
+          )
+      );
+      const items = recommend({
+        seeds,
+        candidates,
+        count,
+        seedKind: seedId ? "like" : "have",
+        exclude: (m) => owned.has(m.id),
+      });
+
+      const degraded = warnings.length > 0;
+      return res.json({
+        items,
+        meta: {
+          count,
+          seedId: seedId ?? null,
+          source,
+          degraded,
+          ...(degraded && { warnings }),
+        },
+      });
+    } catch (err) {
+      return sendFailure(res, err, "Failed to fetch recommendations");
+    }
   }
+);
+
+/**
+ * GET /movies/sources
+ * The registered providers (each name is a valid ?source= value)
+ */
+router.get("/sources", (_req, res) => {
+  const items = listProviders().map((p) => ({
+    name: p.name,
+    idPrefix: p.idPrefix,
+  }));
+  return res.json({ items });
 });
 
 /**
  * GET /movies/random/:count
- * Fetch random movies from third-party API
+ * Fetch random movies from a provider
+ *
+ * Query:
+ * - source: provider name (default: first registered provider)
  */
-router.get("/random/:count", async (req, res) => {
-  const count = Number(req.params.count);
+router.get(
+  "/random/:count",
+  validate({ params: randomCountParams, query: providerQuery }),
+  async (req, res) => {
+    const { count } = req.params;
+    const { source } = req.query;
 
-  if (Number.isNaN(count) || count <= 0) {
-    return res.status(400).json({ error: "Invalid count" });
-  }
+    const provider = source ? getProvider(source)! : getDefaultProvider();
 
-  try {
-    const movies = await fetchThirdPartyRandom(count);
-    return res.json(movies);
-  } catch {
-    return res.status(500).json({ error: "Failed to fetch random movies" });
+    try {
+      const movies = await provider.random(count);
+      return res.json(movies);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to fetch random movies");
+    }
   }
-});
+);
 
 /**
  * GET /movies
@@ -52,73 +218,203 @@ router.get("/random/:count", async (req, res) => {
  *
  * Query:
  * - page (default 1)
- * - pageSize (default 12)
- * - source: all | local | third_party (default all)
- * - search: string (optional, filters by title contains search)
+ * - pageSize (default 12, max 50)
+ * - source: all | local | <provider name> (default all)
+ * - search: string (optional, fuzzy match on title, cast and genres)
+ * - year, yearFrom, yearTo: exact year / inclusive range (optional)
+ * - sort: title | year | createdAt | source, order: asc | desc (default asc)
+ * - collapse: true to show each film once (source=all only)
+ *
+ * source=all is one merged, offset-based list: all matching local movies
+ * first, then each provider's catalogue in registration order. A page may
+ * span a boundary without skipping or repeating anything. sort=source
+ * only swaps the two halves (asc puts "api" before "local"); other sorts
+ * apply within each half.
+ *
+ * With collapse=true, provider copies of a film that is also local (or in
+ * an earlier provider) are left out, and every item lists its `origins`.
+ * Like the filters, this is exact for mirrored providers and per upstream
+ * window otherwise.
+ *
+ * If a provider is down, source=all still answers with whatever it could
+ * get (at least the local movies) and sets meta.degraded / meta.warnings.
+ *
+ * The weak ETag comes from the local store version and the upstream
+ * page, so source=local can answer 304 without running the query.
  */
-router.get("/", async (req, res) => {
+router.get("/", validate({ query: listMoviesQuery }), async (req, res) => {
   try {
-    const page = Math.max(1, Number(req.query.page ?? 1));
-    const pageSize = Math.min(
-      50,
-      Math.max(1, Number(req.query.pageSize ?? 12))
-    );
+    // before anything is read (see withVersion)
+    const storeVersion = getMovieRepository().version();
+
+    const { page, pageSize, source, search, sort, order } = req.query;
+    const { year, yearFrom, yearTo, collapse } = req.query;
+    const provider = getProvider(source);
+    const index = getSearchIndex();
+
+    // collapsing only applies when several sources are merged
+    const collapsing = collapse && source === "all";
 
-    const source = String(req.query.source ?? "all");
-    const searchRaw = String(req.query.search ?? "").trim();
-    const search = searchRaw.toLowerCase();
+    const yearFilters = { year, yearFrom, yearTo };
+    const filters = { search, ...yearFilters };
+    const sortBy = sort ? { field: sort, order } : undefined;
 
-    const localMovies = await readLocalMovies();
+    // Provider results are filtered and sorted by the registry (a whole
+    // mirrored catalogue, or one live window); best match first when
+    // searching without a sort. Local ones by listLocalMovies.
+    let relevance: Map<string, number> | null = null;
+    const refine = (movies: Movie[]) => {
+      // every provider movie we've fetched is in the index
+      relevance ??= new Map(
+        search
+          ? index.search(search).map((hit) => [hit.movie.id, hit.score])
+          : []
+      );
+      const scoreOf = (m: Movie) => (search ? relevance!.get(m.id) ?? 0 : 1);
 
-    const matchesSearch = (title: string) => {
-      if (!search) return true;
-      return title.toLowerCase().includes(search);
+      const matches = movies.filter(
+        (m) =>
+          scoreOf(m) > 0 &&
+          matchesFilters(m, yearFilters) &&
+          !(collapsing && isShadowed(m, index.duplicatesOf(m)))
+      );
+      if (search && !sortBy) matches.sort((a, b) => scoreOf(b) - scoreOf(a));
+
+      return sortMovies(matches, sortBy);
+    };
+
+    // Echoed back so the client can show what's applied
+    const applied = {
+      search,
+      sort: sort ?? null,
+      order,
+      year: year ?? null,
+      yearFrom: yearFrom ?? null,
+      yearTo: yearTo ?? null,
+      collapse: collapsing,
     };
 
-    const filteredLocal = localMovies.filter((m) => matchesSearch(m.title));
     const start = (page - 1) * pageSize;
 
     // ---- source=local ----
     if (source === "local") {
-      const items = filteredLocal.slice(start, start + pageSize);
+      setCaching(res, {
+        etag: weakEtag({ local: storeVersion }),
+        cacheControl: CACHE_CONTROL.local,
+      });
+      if (isFresh(req, res)) return res.status(304).end();
+
+      const local = await listLocalMovies({
+        ...filters,
+        sort: sortBy,
+        offset: start,
+        limit: pageSize,
+      });
+
       return res.json({
         page,
         pageSize,
-        items,
+        items: local.items,
         meta: {
           source: "local",
-          search: searchRaw,
-          localCount: filteredLocal.length,
+          ...applied,
+          localCount: local.total,
+          ...paginationMeta(
+            page,
+            pageSize,
+            local.total,
+            start + pageSize < local.total
+          ),
         },
       });
     }
 
-    // ---- source=third_party ----
-    if (source === "third_party") {
-      const apiMovies = await fetchThirdPartyMoviesPage(page);
-      const filteredApi = apiMovies.filter((m) => matchesSearch(m.title));
-      const items = filteredApi.slice(0, pageSize);
+    // ---- source=<provider> ----
+    // Filters and sort are exact once the provider's catalogue is
+    // mirrored. Until then they're best-effort over the upstream window
+    // for this page, so a page can hold fewer than pageSize matches.
+    if (provider) {
+      const api = await fetchProviderRange(provider, start, pageSize, refine);
+
+      setCaching(res, {
+        etag: weakEtag({ api }),
+        cacheControl: CACHE_CONTROL.provider,
+      });
+      if (isFresh(req, res)) return res.status(304).end();
 
       return res.json({
         page,
         pageSize,
-        items,
-        meta: { source: "third_party", search: searchRaw },
+        items: api.items,
+        meta: {
+          source: provider.name,
+          ...applied,
+          ...paginationMeta(page, pageSize, api.total, api.hasMore),
+        },
       });
     }
 
     // ---- source=all ----
-    const localSlice = filteredLocal.slice(start, start + pageSize);
-    const remaining = pageSize - localSlice.length;
-
-    let apiSlice: any[] = [];
-    if (remaining > 0) {
-      const apiMovies = await fetchThirdPartyMoviesPage(page);
-      const filteredApi = apiMovies.filter((m) => matchesSearch(m.title));
-      apiSlice = filteredApi.slice(0, remaining);
+    const providers = listProviders();
+    const localQuery = { ...filters, sort: sortBy };
+
+    // sort=source&order=asc puts the providers ("api") before local
+    const providersFirst = sort === "source" && order === "asc";
+
+    let local: LocalMoviePage;
+    let api: ProviderRange;
+    let hasNextPage: boolean;
+
+    if (providersFirst) {
+      api = await fetchMergedRange(providers, start, pageSize, refine);
+
+      // Local movies start where the provider catalogues end. If that's
+      // unknown (no total upstream) they can't be reached; just count them.
+      local =
+        api.total === null
+          ? await listLocalMovies({ ...localQuery, offset: 0, limit: 0 })
+          : await listLocalMovies({
+              ...localQuery,
+              offset: Math.max(0, start - api.total),
+              limit: pageSize - api.span,
+            });
+
+      hasNextPage =
+        api.hasMore ||
+        (api.total !== null && start + pageSize < api.total + local.total);
+    } else {
+      local = await listLocalMovies({
+        ...localQuery,
+        offset: start,
+        limit: pageSize,
+      });
+      const remaining = pageSize - local.items.length;
+
+      // Offset into the provider catalogues once local results run out
+      const apiOffset = Math.max(0, start - local.total);
+      api = await fetchMergedRange(providers, apiOffset, remaining, refine);
+
+      hasNextPage = start + pageSize < local.total || api.hasMore;
     }
 
-    const items = [...localSlice, ...apiSlice];
+    const merged = providersFirst
+      ? [...api.items, ...local.items]
+      : [...local.items, ...api.items];
+    const items = collapsing
+      ? merged.map((m) => withOrigins(m, index.duplicatesOf(m)))
+      : merged;
+
+    // A provider we couldn't reach makes the total unknown
+    const warnings = api.warnings ?? [];
+    const degraded = warnings.length > 0;
+    const totalItems =
+      api.total === null || degraded ? null : local.total + api.total;
+
+    setCaching(res, {
+      etag: weakEtag({ local: storeVersion, api }),
+      cacheControl: CACHE_CONTROL.local,
+    });
+    if (isFresh(req, res)) return res.status(304).end();
 
     return res.json({
       page,
@@ -126,54 +422,325 @@ router.get("/", async (req, res) => {
       items,
       meta: {
         source: "all",
-        search: searchRaw,
-        localCount: filteredLocal.length,
+        ...applied,
+        localCount: local.total,
+        ...paginationMeta(page, pageSize, totalItems, hasNextPage),
+        degraded,
+        ...(degraded && { warnings }),
       },
     });
-  } catch {
-    return res.status(500).json({ error: "Failed to load movies" });
+  } catch (err) {
+    return sendFailure(res, err, "Failed to load movies");
   }
 });
 
 /**
- * POST /movies
- * Create a new local movie
+ * GET /movies/search
+ * Ranked, typo-tolerant search over local movies and every cached
+ * provider movie. Each hit says where it matched (for highlighting).
+ *
+ * Query:
+ * - q: the search text
+ * - limit (default 10, max 50)
+ * - source: all | local | <provider name> (default all)
  */
-router.post("/", async (req, res) => {
-  const { title, year } = req.body;
+router.get(
+  "/search",
+  validate({ query: searchMoviesQuery }),
+  async (req, res) => {
+    const { q, limit, source } = req.query;
+    const provider = getProvider(source);
 
-  if (!title || typeof year !== "number") {
-    return res.status(400).json({ error: "title and year are required" });
+    const inSource = (m: Movie) => {
+      if (source === "local") return m.source === "local";
+      if (provider) return m.id.startsWith(provider.idPrefix);
+      return true;
+    };
+
+    try {
+      await ensureStoreReadable();
+      const hits = getSearchIndex().search(q, { filter: inSource });
+
+      return res.json({
+        items: hits.slice(0, limit),
+        meta: { q, source, total: hits.length },
+      });
+    } catch (err) {
+      return sendFailure(res, err, "Search failed");
+    }
   }
+);
 
-  try {
-    const movie = await createLocalMovie({ title, year });
-    return res.status(201).json(movie);
-  } catch {
-    return res.status(500).json({ error: "Failed to create movie" });
+/**
+ * POST /movies
+ * Create a new local movie (editors), recording who added it
+ */
+router.post(
+  "/",
+  requireRole("editor"),
+  validate({ body: createMovieBody }),
+  async (req, res) => {
+    try {
+      const movie = await getMovieRepository().create({
+        ...req.body,
+        createdBy: currentUserRef(res),
+      });
+      return res.status(201).json(movie);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to create movie");
+    }
   }
-});
+);
+
+/**
+ * POST /movies/import/:tpId
+ * Copy a provider movie into the local library, noting where it came
+ * from (importedFrom). 409 if the film is already in the library.
+ */
+router.post(
+  "/import/:tpId",
+  requireRole("editor"),
+  validate({ params: providerMovieParams }),
+  async (req, res) => {
+    const { tpId } = req.params;
+
+    try {
+      const provider = findProviderForId(tpId);
+      const movie = provider ? await provider.getById(tpId) : null;
+      if (!provider || !movie) {
+        return sendProblem(res, 404, "Provider movie not found");
+      }
+
+      const { id: _id, source: _source, createdAt: _createdAt, ...input } =
+        movie;
+      const key = duplicateKey(movie);
+
+      // imported before (maybe renamed since), or the same film; checked
+      // in the same write as the create, so concurrent imports of one
+      // film store it once
+      let existing = null as Movie | null;
+      const { created } = await getMovieRepository().bulkWrite((library) => {
+        existing = library.findImport(movie.id) ?? library.findDuplicate(key);
+        if (existing) return { create: [], replace: [] };
+        return {
+          create: [
+            {
+              ...input,
+              importedFrom: {
+                source: provider.name,
+                id: movie.id,
+                importedAt: new Date().toISOString(),
+              },
+              createdBy: currentUserRef(res),
+            },
+          ],
+          replace: [],
+        };
+      });
+
+      const [imported] = created;
+      if (!imported) {
+        return sendProblem(
+          res,
+          409,
+          `“${movie.title}” (${movie.year}) is already in the library`,
+          { extensions: { existingId: existing?.id } }
+        );
+      }
+
+      return res.status(201).json(imported);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to import movie");
+    }
+  }
+);
+
+/**
+ * A movie as GET /movies/:id returns it, with its review stats.
+ */
+async function withReviewStats(movie: Movie) {
+  const reviewStats = await getReviewRepository().stats(movie.id);
+  return { ...movie, reviewStats };
+}
+
+/**
+ * ETag of a movie as GET /movies/:id returns it. If-Match only checks
+ * the movie's half, so a review posted since the editor read the movie
+ * doesn't fail their write.
+ */
+function movieEtag({
+  reviewStats,
+  ...movie
+}: Awaited<ReturnType<typeof withReviewStats>>): string {
+  return strongEtagWith(movie, reviewStats);
+}
+
+/**
+ * Last-Modified of a local movie: its own last change, or a later change
+ * to its reviews (one posted, edited or hidden).
+ */
+async function lastModified(movie: Movie): Promise<string | undefined> {
+  const own = movie.updatedAt ?? movie.createdAt;
+  const reviews = await getReviewRepository().lastChanged(movie.id);
+  return reviews && (!own || reviews > own) ? reviews : own;
+}
 
 /**
  * GET /movies/:id
  * Return a single movie.
  * - local first
- * - then third-party cache (if this movie appeared in list/random earlier)
+ * - then the provider that owns the id prefix
+ * With reviewStats: the number of reviews and their average rating.
+ *
+ * Strong ETag of the body (see movieEtag); local movies also get
+ * Last-Modified, which counts changes to their reviews.
  */
-router.get("/:id", async (req, res) => {
+router.get("/:id", validate({ params: movieIdParams }), async (req, res) => {
   const { id } = req.params;
 
   try {
-    const localMovie = await findLocalMovieById(id);
-    if (localMovie) return res.json(localMovie);
+    const movie = await findMovie(id);
+    if (!movie) return sendProblem(res, 404, "Movie not found");
 
-    const cached = getCachedThirdPartyMovie(id);
-    if (cached) return res.json(cached);
+    const body = await withReviewStats(movie);
+    const local = movie.source === "local";
+    setCaching(res, {
+      etag: movieEtag(body),
+      cacheControl: local ? CACHE_CONTROL.local : CACHE_CONTROL.provider,
+      lastModified: local ? await lastModified(movie) : undefined,
+    });
+    if (isFresh(req, res)) return res.status(304).end();
 
-    return res.status(404).json({ error: "Movie not found" });
-  } catch {
-    return res.status(500).json({ error: "Failed to fetch movie" });
+    return res.json(body);
+  } catch (err) {
+    return sendFailure(res, err, "Failed to fetch movie");
   }
 });
 
+/**
+ * Only local movies can be changed. Provider ids are rejected
+ * with 409 so the client can tell "read-only" apart from "missing".
+ */
+function isThirdPartyId(id: string) {
+  return findProviderForId(id) !== null;
+}
+
+/**
+ * The If-Match check of a write to local movie `id`. The header must
+ * name the movie's current ETag (as GET /movies/:id gives it, whatever
+ * its review stats were), or this throws MovieChangedError (412); the
+ * returned condition makes the repository check again as it writes, so
+ * an edit that lands in between isn't overwritten either. Nothing to
+ * check without If-Match, with "*" or when the movie is missing (the
+ * write's 404).
+ */
+async function ifMatchCondition(
+  ifMatch: string | undefined,
+  id: string
+): Promise<WriteCondition | undefined> {
+  if (ifMatch === undefined || ifMatch.trim() === "*") return undefined;
+
+  const current = await getMovieRepository().findById(id);
+  if (!current) return undefined;
+
+  if (!ifMatchAllows(ifMatch, current)) throw new MovieChangedError(id);
+
+  const seen = digest(current);
+  return { precondition: (existing) => digest(existing) === seen };
+}
+
+/**
+ * PUT /movies/:id
+ * Replace a local movie (title and year are both required).
+ * With If-Match, only if the movie is unchanged (412 otherwise).
+ */
+router.put(
+  "/:id",
+  requireRole("editor"),
+  validate({ params: movieIdParams, body: replaceMovieBody }),
+  async (req, res) => {
+    const { id } = req.params;
+
+    if (isThirdPartyId(id)) {
+      return sendProblem(res, 409, "Third-party movies are read-only");
+    }
+
+    try {
+      const condition = await ifMatchCondition(req.get("If-Match"), id);
+      const movie = await getMovieRepository().replace(
+        id,
+        req.body,
+        condition
+      );
+      if (!movie) return sendProblem(res, 404, "Movie not found");
+
+      res.set("ETag", movieEtag(await withReviewStats(movie)));
+      return res.json(movie);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to update movie");
+    }
+  }
+);
+
+/**
+ * PATCH /movies/:id
+ * Partially update a local movie (any of title, year and the detail fields).
+ * A detail field set to null is removed. If-Match as for PUT.
+ */
+router.patch(
+  "/:id",
+  requireRole("editor"),
+  validate({ params: movieIdParams, body: patchMovieBody }),
+  async (req, res) => {
+    const { id } = req.params;
+
+    if (isThirdPartyId(id)) {
+      return sendProblem(res, 409, "Third-party movies are read-only");
+    }
+
+    // null -> undefined, which drops the field when the file is written
+    const changes = Object.fromEntries(
+      Object.entries(req.body).map(([key, value]) => [key, value ?? undefined])
+    ) as Partial<LocalMovieInput>;
+
+    try {
+      const condition = await ifMatchCondition(req.get("If-Match"), id);
+      const movie = await getMovieRepository().update(id, changes, condition);
+      if (!movie) return sendProblem(res, 404, "Movie not found");
+
+      res.set("ETag", movieEtag(await withReviewStats(movie)));
+      return res.json(movie);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to update movie");
+    }
+  }
+);
+
+/**
+ * DELETE /movies/:id
+ * Delete a local movie. If-Match as for PUT.
+ */
+router.delete(
+  "/:id",
+  requireRole("editor"),
+  validate({ params: movieIdParams }),
+  async (req, res) => {
+    const { id } = req.params;
+
+    if (isThirdPartyId(id)) {
+      return sendProblem(res, 409, "Third-party movies are read-only");
+    }
+
+    try {
+      const condition = await ifMatchCondition(req.get("If-Match"), id);
+      const deleted = await getMovieRepository().delete(id, condition);
+      if (!deleted) return sendProblem(res, 404, "Movie not found");
+
+      return res.status(204).end();
+    } catch (err) {
+      return sendFailure(res, err, "Failed to delete movie");
+    }
+  }
+);
+
 export default router;
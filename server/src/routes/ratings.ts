@@ -0,0 +1,83 @@
+// server/src/routes/ratings.ts
+// The signed-in user's rating of a movie (1–5 stars and/or the date they
+// watched it). Any movie id, local or a provider's, can be rated.
+import { Router } from "express";
+import { getRatingStore } from "../services/lists";
+import { findMovie } from "../services/movieLookup";
+import { currentUserRef, requireRole } from "../http/auth";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import { movieIdParams } from "../schemas/movies";
+import { ratingBody } from "../schemas/lists";
+
+const router = Router();
+
+/**
+ * GET /movies/:id/rating
+ * The user's rating; 404 when they haven't rated the movie
+ */
+router.get(
+  "/:id/rating",
+  requireRole("viewer"),
+  validate({ params: movieIdParams }),
+  (req, res) => {
+    const { id: userId } = currentUserRef(res);
+
+    const rating = getRatingStore().get(userId, req.params.id);
+    if (!rating) return sendProblem(res, 404, "You haven't rated this movie");
+
+    return res.json(rating);
+  }
+);
+
+/**
+ * PUT /movies/:id/rating
+ * Rate a movie: { stars?: 1–5, watchedAt?: "YYYY-MM-DD" }, at least one.
+ * Replaces an earlier rating.
+ */
+router.put(
+  "/:id/rating",
+  requireRole("viewer"),
+  validate({ params: movieIdParams, body: ratingBody }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+    const { id } = req.params;
+
+    try {
+      if (!(await findMovie(id))) {
+        return sendProblem(res, 404, "Movie not found");
+      }
+
+      const rating = await getRatingStore().set(userId, id, req.body);
+      return res.json(rating);
+    } catch (err) {
+      return sendFailure(res, err, "Failed to save rating");
+    }
+  }
+);
+
+/**
+ * DELETE /movies/:id/rating
+ * Forget the user's rating
+ */
+router.delete(
+  "/:id/rating",
+  requireRole("viewer"),
+  validate({ params: movieIdParams }),
+  async (req, res) => {
+    const { id: userId } = currentUserRef(res);
+
+    try {
+      const deleted = await getRatingStore().remove(userId, req.params.id);
+      if (!deleted) {
+        return sendProblem(res, 404, "You haven't rated this movie");
+      }
+
+      return res.status(204).send();
+    } catch (err) {
+      return sendFailure(res, err, "Failed to delete rating");
+    }
+  }
+);
+
+export default router;
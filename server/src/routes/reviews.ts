@@ -0,0 +1,344 @@
+// server/src/routes/reviews.ts
+// Threaded reviews of any movie, local or a provider's. Authors edit and
+// delete their own; moderators hide reviews (and the replies below them)
+// from everyone else.
+import { Router, type Response } from "express";
+import type { Review } from "../types/review";
+import { findMovie } from "../services/movieLookup";
+import { getReviewRepository } from "../services/store";
+import { ROLES } from "../types/user";
+import { currentUserRef, requireRole } from "../http/auth";
+import { paginationMeta } from "../http/pagination";
+import { sendFailure, sendProblem } from "../http/problem";
+import { validate } from "../http/validate";
+import { movieIdParams } from "../schemas/movies";
+import type { ReviewResponse } from "../schemas/responses";
+import {
+  createReviewBody,
+  moderationBody,
+  reviewParams,
+  reviewsQuery,
+  updateReviewBody,
+} from "../schemas/reviews";
+
+const router = Router();
+
+/**
+ * Whether the signed-in user (if any) moderates reviews.
+ */
+function isModerator(res: Response) {
+  const { user } = res.locals;
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf("moderator");
+}
+
+/**
+ * A review as the API shows it: vote count instead of voter ids, and
+ * moderation details for moderators only.
+ */
+function present(review: Review, res: Response): ReviewResponse {
+  const { helpfulBy, moderation, threadId: _threadId, ...rest } = review;
+  const userId = res.locals.user?.id;
+  return {
+    ...rest,
+    ...(moderation && isModerator(res) && { moderation }),
+    helpfulCount: helpfulBy.length,
+    votedHelpful: userId !== undefined && helpfulBy.includes(userId),
+  };
+}
+
+type PresentedReview = ReviewResponse & {
+  replies: PresentedReview[];
+};
+
+/**
+ * Nest each thread's replies under what they reply to. Without
+ * `includeHidden`, hidden replies are left out with everything below them.
+ */
+function nestThreads(
+  threads: Review[],
+  replies: Review[],
+  includeHidden: boolean,
+  res: Response
+): PresentedReview[] {
+  const children = new Map<string, Review[]>();
+  for (const reply of replies) {
+    const siblings = children.get(reply.parentId!) ?? [];
+    siblings.push(reply);
+    children.set(reply.parentId!, siblings);
+  }
+
+  const build = (review: Review): PresentedReview => ({
+    ...present(review, res),
+    replies: (children.get(review.id) ?? [])
+      .filter((r) => includeHidden || !r.hidden)
+      .map(build),
+  });
+
+  return threads.map(build);
+}
+
+/**
+ * The review with `id`, unless it's hidden from the user. Replies under
+ * a hidden review count as hidden too.
+ */
+async function visibleReview(id: string, res: Response) {
+  const reviews = getReviewRepository();
+  const review = await reviews.findById(id);
+  if (!review || isModerator(res)) return review;
+
+  for (let r: Review | null = review; r; ) {
+    if (r.hidden) return null;
+    r = r.parentId ? await reviews.findById(r.parentId) : null;
+  }
+  return review;
+}
+
+/**
+ * GET /movies/:id/reviews
+ * A page of the movie's reviews, each with its replies nested (oldest
+ * first), plus the average rating
+ *
+ * Query:
+ * - page (default 1)
+ * - pageSize (default 10, max 50)
+ * - sort: newest | helpful (default newest)
+ */
+router.get(
+  "/movies/:id/reviews",
+  validate({ params: movieIdParams, query: reviewsQuery }),
+  async (req, res) => {
+    const { id } = req.params;
+    const { page, pageSize, sort } = req.query;
+    const includeHidden = isModerator(res);
+
+    try {
+      const reviews = getReviewRepository();
+      const [threads, stats] = await Promise.all([
+        reviews.listThreads(id, {
+          sort,
+          offset: (page - 1) * pageSize,
+          limit: pageSize,
+          includeHidden,
+        }),
+        reviews.stats(id),
+      ]);
+
+      return res.json({
+        page,
+        pageSize,
+        sort,
+        items: nestThreads(threads.items, threads.replies, includeHidden, res),
+        stats,
+        meta: paginationMeta(
+          page,
+          pageSize,
+          threads.total,
+          page * pageSize < threads.total
+        ),
+      });
+    } catch (err) {
+      return sendFailure(res, err, "Failed to fetch reviews");
+    }
+  }
+);
+
+/**
+ * POST /movies/:id/reviews
+ * Review a movie: { text, stars?: 1–5 }, or reply to a review of it:
+ * { text, parentId }. One review per user and movie; replies are
+ * unlimited.
+ */
+router.post(
+  "/movies/:id/reviews",
+  requireRole("viewer"),
+  validate({ params: movieIdParams, body: createReviewBody }),
+  async (req, res) => {
+    const { id: movieId } = req.params;
+    const { text, stars, parentId } = req.body;
+    const author = currentUserRef(res);
+
+    try {
+      const reviews = getReviewRepository();
+
+      if (parentId) {
+        const parent = await visibleReview(parentId, res);
+        if (!parent || parent.movieId !== movieId) {
+          return sendProblem(res, 404, "Review to reply to not found");
+        }
+      } else {
+        if (!(await findMovie(movieId))) {
+          return sendProblem(res, 404, "Movie not found");
+        }
+      }
+
+      // a second review of the movie is a 409 (DuplicateReviewError)
+      const review = await reviews.create({
+        movieId,
+        parentId: parentId ?? null,
+        author,
+        text,
+        stars,
+      });
+      return res.status(201).json({ ...present(review, res), replies: [] });
+    } catch (err) {
+      return sendFailure(res, err, "Failed to save review");
+    }
+  }
+);
+
+/**
+ * PATCH /reviews/:reviewId
+ * Edit your own review: { text?, stars? } (stars: null removes them)
+ */
+router.patch(
+  "/reviews/:reviewId",
+  requireRole("viewer"),
+  validate({ params: reviewParams, body: updateReviewBody }),
+  async (req, res) => {
+    const { reviewId } = req.params;
+    const { text, stars } = req.body;
+
+    try {
+      const reviews = getReviewRepository();
+      const review = await reviews.findById(reviewId);
+      if (!review) return sendProblem(res, 404, "Review not found");
+
+      if (review.author.id !== currentUserRef(res).id) {
+        return sendProblem(res, 403, "Only the author can edit a review");
+      }
+      if (review.parentId !== null && typeof stars === "number") {
+        return sendProblem(res, 400, "Replies can't have stars");
+      }
+
+      const updated = await reviews.update(reviewId, {
+        ...(text !== undefined && { text }),
+        ...(stars !== undefined && { stars: stars ?? undefined }),
+      });
+      if (!updated) return sendProblem(res, 404, "Review not found");
+
+      return res.json(present(updated, res));
+    } catch (err) {
+      return sendFailure(res, err, "Failed to update review");
+    }
+  }
+);
+
+/**
+ * DELETE /reviews/:reviewId
+ * Delete your own review, with every reply to it
+ */
+router.delete(
+  "/reviews/:reviewId",
+  requireRole("viewer"),
+  validate({ params: reviewParams }),
+  async (req, res) => {
+    const { reviewId } = req.params;
+
+    try {
+      const reviews = getReviewRepository();
+      const review = await reviews.findById(reviewId);
+      if (!review) return sendProblem(res, 404, "Review not found");
+
+      if (review.author.id !== currentUserRef(res).id) {
+        return sendProblem(res, 403, "Only the author can delete a review");
+      }
+
+      await reviews.delete(reviewId);
+      return res.status(204).send();
+    } catch (err) {
+      return sendFailure(res, err, "Failed to delete review");
+    }
+  }
+);
+
+/**
+ * PUT /reviews/:reviewId/moderation
+ * Hide or show a review: { hidden, reason? }. Moderators only. A hidden
+ * review, and the replies below it, are only listed for moderators and
+ * don't count towards the average rating.
+ */
+router.put(
+  "/reviews/:reviewId/moderation",
+  requireRole("moderator"),
+  validate({ params: reviewParams, body: moderationBody }),
+  async (req, res) => {
+    const { reviewId } = req.params;
+    const { hidden, reason } = req.body;
+
+    try {
+      const moderation = hidden
+        ? {
+            by: currentUserRef(res),
+            at: new Date().toISOString(),
+            ...(reason && { reason }),
+          }
+        : null;
+
+      const review = await getReviewRepository().setHidden(
+        reviewId,
+        moderation
+      );
+      if (!review) return sendProblem(res, 404, "Review not found");
+
+      return res.json(present(review, res));
+    } catch (err) {
+      return sendFailure(res, err, "Failed to moderate review");
+    }
+  }
+);
+
+/**
+ * Mark a review as helpful (or take the vote back) for the signed-in
+ * user. Authors can't vote for their own reviews.
+ */
+async function voteHelpful(
+  reviewId: string,
+  helpful: boolean,
+  res: Response
+) {
+  const { id: userId } = currentUserRef(res);
+
+  try {
+    const review = await visibleReview(reviewId, res);
+    if (!review) return sendProblem(res, 404, "Review not found");
+
+    if (review.author.id === userId) {
+      return sendProblem(res, 409, "You can't vote for your own review");
+    }
+
+    const updated = await getReviewRepository().setHelpful(
+      reviewId,
+      userId,
+      helpful
+    );
+    if (!updated) return sendProblem(res, 404, "Review not found");
+
+    return res.json(present(updated, res));
+  } catch (err) {
+    return sendFailure(res, err, "Failed to save vote");
+  }
+}
+
+/**
+ * PUT /reviews/:reviewId/helpful
+ * Mark a review as helpful (voting twice counts once)
+ */
+router.put(
+  "/reviews/:reviewId/helpful",
+  requireRole("viewer"),
+  validate({ params: reviewParams }),
+  (req, res) => voteHelpful(req.params.reviewId, true, res)
+);
+
+/**
+ * DELETE /reviews/:reviewId/helpful
+ * Take back a helpful vote
+ */
+router.delete(
+  "/reviews/:reviewId/helpful",
+  requireRole("viewer"),
+  validate({ params: reviewParams }),
+  (req, res) => voteHelpful(req.params.reviewId, false, res)
+);
+
+export default router;
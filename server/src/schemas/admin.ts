@@ -0,0 +1,12 @@
+// server/src/schemas/admin.ts
+// Request schemas for the /admin routes.
+
+import { z } from "zod";
+
+export const snapshotNameParams = z.object({
+  name: z.string().trim().min(1, "name is required").max(200),
+});
+
+export const syncProviderParams = z.object({
+  provider: z.string().trim().min(1, "provider is required").max(100),
+});
@@ -0,0 +1,29 @@
+// server/src/schemas/auth.ts
+// Request schemas for the /auth routes.
+
+import { z } from "zod";
+import { ROLES } from "../types/user";
+
+export const credentialsBody = z.strictObject({
+  username: z
+    .string("username must be a string")
+    .trim()
+    .min(3, "username must be at least 3 characters")
+    .max(32, "username must be at most 32 characters")
+    .regex(
+      /^[A-Za-z0-9._-]+$/,
+      "username may only contain letters, digits, '.', '_' and '-'"
+    ),
+  password: z
+    .string("password must be a string")
+    .min(8, "password must be at least 8 characters")
+    .max(128, "password must be at most 128 characters"),
+});
+
+export const userIdParams = z.object({
+  id: z.string().trim().min(1, "id is required").max(100),
+});
+
+export const updateUserBody = z.strictObject({
+  role: z.enum(ROLES, `role must be one of: ${ROLES.join(", ")}`),
+});
@@ -0,0 +1,56 @@
+// server/src/schemas/lists.ts
+// Request schemas for personal lists (/me/lists) and ratings
+// (/movies/:id/rating).
+
+import { z } from "zod";
+
+const movieId = z.string().trim().min(1, "movieId is required").max(100);
+
+const listName = z
+  .string("name must be a string")
+  .trim()
+  .min(1, "name must not be empty")
+  .max(100, "name must be at most 100 characters");
+
+export const listsQuery = z.object({
+  // mark which lists hold this movie
+  movieId: movieId.optional(),
+});
+
+export const listParams = z.object({
+  listId: z.string().trim().min(1, "listId is required").max(100),
+});
+
+export const listItemParams = listParams.extend({ movieId });
+
+export const listBody = z.strictObject({ name: listName });
+
+/**
+ * "YYYY-MM-DD", a real date and not in the future.
+ */
+const watchedAt = z
+  .string("watchedAt must be a string")
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "watchedAt must be a date (YYYY-MM-DD)")
+  .refine(
+    (date) => !Number.isNaN(Date.parse(date)),
+    "watchedAt must be a real date"
+  )
+  .refine(
+    (date) => date <= new Date().toISOString().slice(0, 10),
+    "watchedAt must not be in the future"
+  );
+
+export const ratingBody = z
+  .strictObject({
+    stars: z
+      .number("stars must be a number")
+      .int("stars must be a whole number")
+      .min(1, "stars must be between 1 and 5")
+      .max(5, "stars must be between 1 and 5")
+      .optional(),
+    watchedAt: watchedAt.optional(),
+  })
+  .refine(
+    (body) => body.stars !== undefined || body.watchedAt !== undefined,
+    "Send stars, watchedAt or both"
+  );
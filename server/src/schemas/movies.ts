@@ -0,0 +1,284 @@
+// server/src/schemas/movies.ts
+// Request schemas for the /movies routes (params, query and body).
+// The year range matches what the client enforces.
+
+import { z } from "zod";
+import { BULK_FORMATS, DUPLICATE_POLICIES } from "../services/bulk";
+import { getProvider, listSourceNames } from "../services/providers";
+
+export const MIN_YEAR = 1888;
+export const MAX_YEAR = 2100;
+
+// ---- shared fields ----
+
+const title = z
+  .string("title must be a string")
+  .trim()
+  .min(1, "title must not be empty")
+  .max(300, "title must be at most 300 characters");
+
+const year = z
+  .number("year must be a number")
+  .int("year must be a whole number")
+  .min(MIN_YEAR, `year must be between ${MIN_YEAR} and ${MAX_YEAR}`)
+  .max(MAX_YEAR, `year must be between ${MIN_YEAR} and ${MAX_YEAR}`);
+
+// accept "Name" or { name, character? }
+const castMember = z.union(
+  [
+    z
+      .string()
+      .trim()
+      .min(1)
+      .transform((name) => ({ name })),
+    z.strictObject({
+      name: z.string().trim().min(1),
+      character: z.string().trim().min(1).optional(),
+    }),
+  ],
+  "cast entries must be a name or { name, character }"
+);
+
+const details = {
+  overview: z.string("overview must be a string").trim().max(5000),
+  genres: z
+    .array(z.string().trim().min(1).max(50), "genres must be a string array")
+    .max(20),
+  runtime: z
+    .number("runtime must be a number")
+    .int("runtime must be whole minutes")
+    .positive("runtime must be positive")
+    .max(1000),
+  posterUrl: z.url({
+    protocol: /^https?$/,
+    error: "posterUrl must be an http(s) URL",
+  }),
+  originalLanguage: z
+    .string("originalLanguage must be a string")
+    .trim()
+    .regex(/^[a-z]{2,3}$/i, "originalLanguage must be a language code"),
+  cast: z.array(castMember, "cast must be an array").max(100),
+  voteAverage: z
+    .number("voteAverage must be a number")
+    .min(0, "voteAverage must be between 0 and 10")
+    .max(10, "voteAverage must be between 0 and 10"),
+};
+
+// null is accepted on PATCH and means "remove this field"
+function clearable<T extends z.ZodType>(schema: T) {
+  return schema.nullable().optional();
+}
+
+/**
+ * ?source= must name something we can list.
+ */
+const source = z.string("source must be a string").superRefine((value, ctx) => {
+  if (!listSourceNames().includes(value)) {
+    ctx.addIssue({
+      code: "custom",
+      message: `source must be one of: ${listSourceNames().join(", ")}`,
+    });
+  }
+});
+
+// ---- params ----
+
+export const movieIdParams = z.object({
+  id: z.string().trim().min(1, "id is required").max(100),
+});
+
+// a provider movie id, e.g. tp_123
+export const providerMovieParams = z.object({
+  tpId: z.string().trim().min(1, "tpId is required").max(100),
+});
+
+export const randomCountParams = z.object({
+  count: z.coerce
+    .number("count must be a number")
+    .int("count must be a whole number")
+    .min(1, "count must be between 1 and 100")
+    .max(100, "count must be between 1 and 100"),
+});
+
+// ---- query ----
+
+// a year in the query string, e.g. ?yearFrom=1990
+function queryYear(name: string) {
+  return z.coerce
+    .number(`${name} must be a number`)
+    .int(`${name} must be a whole number`)
+    .min(MIN_YEAR, `${name} must be between ${MIN_YEAR} and ${MAX_YEAR}`)
+    .max(MAX_YEAR, `${name} must be between ${MIN_YEAR} and ${MAX_YEAR}`)
+    .optional();
+}
+
+export const SORT_FIELDS = ["title", "year", "createdAt", "source"] as const;
+
+const listMoviesShape = {
+  page: z.coerce
+    .number("page must be a number")
+    .int("page must be a whole number")
+    .min(1, "page must be 1 or more")
+    .default(1),
+  pageSize: z.coerce
+    .number("pageSize must be a number")
+    .int("pageSize must be a whole number")
+    .min(1, "pageSize must be between 1 and 50")
+    .max(50, "pageSize must be between 1 and 50")
+    .default(12),
+  source: source.default("all"),
+  search: z
+    .string("search must be a string")
+    .trim()
+    .max(200, "search must be at most 200 characters")
+    .default(""),
+  sort: z
+    .enum(SORT_FIELDS, `sort must be one of: ${SORT_FIELDS.join(", ")}`)
+    .optional(),
+  order: z.enum(["asc", "desc"], "order must be asc or desc").default("asc"),
+  year: queryYear("year"),
+  yearFrom: queryYear("yearFrom"),
+  yearTo: queryYear("yearTo"),
+  collapse: z.stringbool("collapse must be true or false").default(false),
+};
+
+function yearRangeInOrder(q: { yearFrom?: number; yearTo?: number }) {
+  return (
+    q.yearFrom === undefined || q.yearTo === undefined || q.yearFrom <= q.yearTo
+  );
+}
+
+const yearRangeIssue = {
+  message: "yearFrom must not be after yearTo",
+  path: ["yearTo"],
+};
+
+export const listMoviesQuery = z
+  .object(listMoviesShape)
+  .refine(yearRangeInOrder, yearRangeIssue);
+
+export const searchMoviesQuery = z.object({
+  q: z
+    .string("q must be a string")
+    .trim()
+    .min(1, "q must not be empty")
+    .max(200, "q must be at most 200 characters"),
+  limit: z.coerce
+    .number("limit must be a number")
+    .int("limit must be a whole number")
+    .min(1, "limit must be between 1 and 50")
+    .max(50, "limit must be between 1 and 50")
+    .default(10),
+  source: source.default("all"),
+});
+
+export const recommendationsQuery = z
+  .object({
+    count: z.coerce
+      .number("count must be a number")
+      .int("count must be a whole number")
+      .min(1, "count must be between 1 and 20")
+      .max(20, "count must be between 1 and 20")
+      .default(3),
+    seedId: z
+      .string("seedId must be a string")
+      .trim()
+      .min(1, "seedId must not be empty")
+      .max(100)
+      .optional(),
+    source: source.default("all"),
+  })
+  .refine((q) => q.source !== "local" || q.seedId !== undefined, {
+    // without a seed, local candidates would all be movies we already have
+    message: "source=local needs a seedId",
+    path: ["seedId"],
+  });
+
+const bulkFormat = z.enum(
+  BULK_FORMATS,
+  `format must be one of: ${BULK_FORMATS.join(", ")}`
+);
+
+export const bulkImportQuery = z.object({
+  // default: from the Content-Type
+  format: bulkFormat.optional(),
+  dryRun: z.stringbool("dryRun must be true or false").default(false),
+  onDuplicate: z
+    .enum(
+      DUPLICATE_POLICIES,
+      `onDuplicate must be one of: ${DUPLICATE_POLICIES.join(", ")}`
+    )
+    .default("skip"),
+});
+
+// the same filters and sort as listing local movies
+export const bulkExportQuery = z
+  .object({
+    format: bulkFormat.default("json"),
+    search: listMoviesShape.search,
+    sort: listMoviesShape.sort,
+    order: listMoviesShape.order,
+    year: queryYear("year"),
+    yearFrom: queryYear("yearFrom"),
+    yearTo: queryYear("yearTo"),
+  })
+  .refine(yearRangeInOrder, yearRangeIssue);
+
+export const providerQuery = z.object({
+  source: z
+    .string("source must be a string")
+    .refine((name) => getProvider(name) !== null, "Unknown source")
+    .optional(),
+});
+
+// ---- body ----
+
+export const createMovieBody = z.strictObject({
+  title,
+  year,
+  ...z.object(details).partial().shape,
+});
+
+/**
+ * One row of a bulk import: a movie as POST /movies takes it. Rows of
+ * an export are accepted too: their id is used to find the movie to
+ * overwrite, importedFrom is kept, and source, createdAt, updatedAt and
+ * createdBy are ignored.
+ */
+export const bulkMovieRow = z.strictObject({
+  ...createMovieBody.shape,
+  id: z.string("id must be a string").trim().min(1).max(100).optional(),
+  source: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  createdBy: z.unknown().optional(),
+  importedFrom: z
+    .strictObject({
+      source: z.string().min(1),
+      id: z.string().min(1),
+      importedAt: z.string().min(1),
+    })
+    .optional(),
+});
+
+// PUT replaces the whole movie, so it takes the same body as POST
+export const replaceMovieBody = createMovieBody;
+
+export const patchMovieBody = z
+  .strictObject({
+    title: title.optional(),
+    year: year.optional(),
+    overview: clearable(details.overview),
+    genres: clearable(details.genres),
+    runtime: clearable(details.runtime),
+    posterUrl: clearable(details.posterUrl),
+    originalLanguage: clearable(details.originalLanguage),
+    cast: clearable(details.cast),
+    voteAverage: clearable(details.voteAverage),
+  })
+  .refine((body) => Object.keys(body).length > 0, "Nothing to update");
+
+export type ListMoviesQuery = z.output<typeof listMoviesQuery>;
+export type CreateMovieBody = z.output<typeof createMovieBody>;
+export type PatchMovieBody = z.output<typeof patchMovieBody>;
+export type BulkMovieRow = z.output<typeof bulkMovieRow>;
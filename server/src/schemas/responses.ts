@@ -0,0 +1,456 @@
+// server/src/schemas/responses.ts
+// Response schemas of the API. They describe what the routes send, for
+// the OpenAPI document (see openapi/) and the contract check; each names
+// the server type it documents with `satisfies`, so the two can't drift
+// apart unnoticed.
+
+import { z } from "zod";
+import type { CastMember, Movie, MovieOrigin } from "../types/movie";
+import type { MovieRating } from "../types/lists";
+import type { ReviewStats } from "../types/review";
+import type { PublicUser, UserRef } from "../types/user";
+import { ROLES } from "../types/user";
+import { REVIEW_SORTS } from "../types/review";
+import type { StoreHealth, StoreSnapshot } from "../types/repository";
+import type { CacheStats } from "../services/cache/lruCache";
+import type { UpstreamStatus } from "../services/upstream/client";
+import type { SyncStatus } from "../services/mirror/catalogueSync";
+import type { SyncRunStats } from "../services/mirror/catalogueMirror";
+import type { SearchHit } from "../services/search/searchIndex";
+import type { Recommendation } from "../services/recommendations";
+import type { ImportRowReport } from "../services/bulk";
+
+// ---- shared ----
+
+// ISO 8601 timestamp
+const timestamp = z.string().meta({ format: "date-time" });
+
+export const userRefSchema = z
+  .strictObject({ id: z.string(), username: z.string() })
+  .meta({ id: "UserRef" }) satisfies z.ZodType<UserRef>;
+
+/**
+ * Pagination fields of paged lists (see http/pagination).
+ */
+const paginationShape = {
+  totalItems: z.number().int().nullable(),
+  totalPages: z.number().int().nullable(),
+  hasNextPage: z.boolean(),
+  hasPrevPage: z.boolean(),
+};
+
+/**
+ * RFC 7807 problem details. Some errors add members (e.g. existingId of
+ * a duplicate import, the report of a failed bulk import).
+ */
+export const problemSchema = z
+  .looseObject({
+    type: z.string(),
+    title: z.string(),
+    status: z.number().int(),
+    detail: z.string().optional(),
+    instance: z.string().optional(),
+    errors: z
+      .array(z.strictObject({ field: z.string(), message: z.string() }))
+      .optional(),
+  })
+  .meta({ id: "Problem" });
+
+// ---- movies ----
+
+const castMemberSchema = z
+  .strictObject({ name: z.string(), character: z.string().optional() })
+  .meta({ id: "CastMember" }) satisfies z.ZodType<CastMember>;
+
+const movieOriginSchema = z
+  .strictObject({ source: z.string(), id: z.string() })
+  .meta({ id: "MovieOrigin" }) satisfies z.ZodType<MovieOrigin>;
+
+export const movieSchema = z
+  .strictObject({
+    id: z.string(),
+    title: z.string(),
+    year: z.number().int(),
+    source: z.enum(["api", "local"]),
+    createdAt: timestamp.optional(),
+    updatedAt: timestamp.optional(),
+    overview: z.string().optional(),
+    genres: z.array(z.string()).optional(),
+    runtime: z.number().int().optional(),
+    posterUrl: z.string().optional(),
+    originalLanguage: z.string().optional(),
+    cast: z.array(castMemberSchema).optional(),
+    voteAverage: z.number().optional(),
+    importedFrom: z
+      .strictObject({ ...movieOriginSchema.shape, importedAt: timestamp })
+      .optional(),
+    createdBy: userRefSchema.optional(),
+    // every copy of the film, with ?collapse=true
+    origins: z.array(movieOriginSchema).optional(),
+  })
+  .meta({ id: "Movie" }) satisfies z.ZodType<Movie>;
+
+export const reviewStatsSchema = z
+  .strictObject({
+    reviews: z.number().int(),
+    ratings: z.number().int(),
+    averageRating: z.number().nullable(),
+  })
+  .meta({ id: "ReviewStats" }) satisfies z.ZodType<ReviewStats>;
+
+export const movieWithStatsSchema = z
+  .strictObject({ ...movieSchema.shape, reviewStats: reviewStatsSchema })
+  .meta({ id: "MovieWithStats" });
+
+export const moviePageSchema = z
+  .strictObject({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    items: z.array(movieSchema),
+    meta: z.strictObject({
+      source: z.string(),
+      search: z.string(),
+      sort: z.enum(["title", "year", "createdAt", "source"]).nullable(),
+      order: z.enum(["asc", "desc"]),
+      year: z.number().int().nullable(),
+      yearFrom: z.number().int().nullable(),
+      yearTo: z.number().int().nullable(),
+      collapse: z.boolean(),
+      // local movies matching the filters (source=all and local)
+      localCount: z.number().int().optional(),
+      ...paginationShape,
+      // source=all: a provider couldn't be reached
+      degraded: z.boolean().optional(),
+      warnings: z.array(z.string()).optional(),
+    }),
+  })
+  .meta({ id: "MoviePage" });
+
+export const searchResultsSchema = z
+  .strictObject({
+    items: z.array(
+      z
+        .strictObject({
+          movie: movieSchema,
+          score: z.number(),
+          highlights: z.array(
+            z.strictObject({
+              field: z.enum(["title", "cast", "genres"]),
+              text: z.string(),
+              ranges: z.array(z.tuple([z.number(), z.number()])),
+            })
+          ),
+        })
+        .meta({ id: "SearchHit" }) satisfies z.ZodType<SearchHit>
+    ),
+    meta: z.strictObject({
+      q: z.string(),
+      source: z.string(),
+      total: z.number().int(),
+    }),
+  })
+  .meta({ id: "SearchResults" });
+
+export const recommendationsSchema = z
+  .strictObject({
+    items: z.array(
+      z
+        .strictObject({
+          movie: movieSchema,
+          score: z.number(),
+          because: z
+            .strictObject({
+              id: z.string(),
+              title: z.string(),
+              year: z.number().int(),
+            })
+            .nullable(),
+          reason: z.string(),
+        })
+        .meta({ id: "Recommendation" }) satisfies z.ZodType<Recommendation>
+    ),
+    meta: z.strictObject({
+      count: z.number().int(),
+      seedId: z.string().nullable(),
+      source: z.string(),
+      degraded: z.boolean(),
+      warnings: z.array(z.string()).optional(),
+    }),
+  })
+  .meta({ id: "Recommendations" });
+
+export const sourcesSchema = z.strictObject({
+  items: z.array(z.strictObject({ name: z.string(), idPrefix: z.string() })),
+});
+
+const importActions = [
+  "create",
+  "overwrite",
+  "skip",
+  "invalid",
+  "conflict",
+] as const;
+
+export const importReportSchema = z
+  .strictObject({
+    format: z.enum(["csv", "json", "ndjson"]),
+    dryRun: z.boolean(),
+    onDuplicate: z.enum(["skip", "overwrite", "fail"]),
+    summary: z.strictObject({
+      rows: z.number().int(),
+      create: z.number().int(),
+      overwrite: z.number().int(),
+      skip: z.number().int(),
+      invalid: z.number().int(),
+      conflict: z.number().int(),
+    }),
+    rows: z.array(
+      z.strictObject({
+        row: z.number().int(),
+        action: z.enum(importActions),
+        title: z.string().optional(),
+        year: z.number().int().optional(),
+        id: z.string().optional(),
+        duplicateOf: z
+          .union([
+            z.strictObject({ id: z.string() }),
+            z.strictObject({ row: z.number().int() }),
+          ])
+          .optional(),
+        errors: z
+          .array(z.strictObject({ field: z.string(), message: z.string() }))
+          .optional(),
+      }) satisfies z.ZodType<ImportRowReport>
+    ),
+  })
+  .meta({ id: "ImportReport" });
+
+// ---- accounts ----
+
+export const userSchema = z
+  .strictObject({
+    id: z.string(),
+    username: z.string(),
+    role: z.enum(ROLES),
+    createdAt: timestamp,
+  })
+  .meta({ id: "User" }) satisfies z.ZodType<PublicUser>;
+
+export const sessionSchema = z
+  .strictObject({ user: userSchema, token: z.string(), expiresAt: timestamp })
+  .meta({ id: "Session" });
+
+// ---- lists and ratings ----
+
+export const ratingSchema = z
+  .strictObject({
+    userId: z.string(),
+    movieId: z.string(),
+    stars: z.number().int().optional(),
+    watchedAt: z.string().meta({ format: "date" }).optional(),
+    updatedAt: timestamp,
+  })
+  .meta({ id: "MovieRating" }) satisfies z.ZodType<MovieRating>;
+
+export const listSummarySchema = z
+  .strictObject({
+    id: z.string(),
+    kind: z.enum(["watchlist", "favourites", "custom"]),
+    name: z.string(),
+    count: z.number().int(),
+    updatedAt: timestamp.nullable(),
+    // with ?movieId=: whether the list holds that movie
+    hasMovie: z.boolean().optional(),
+  })
+  .meta({ id: "MovieListSummary" });
+
+export const listDetailSchema = z
+  .strictObject({
+    ...listSummarySchema.shape,
+    items: z.array(
+      z.strictObject({
+        movieId: z.string(),
+        addedAt: timestamp,
+        // null when the movie is gone or its provider is unreachable
+        movie: movieSchema.nullable(),
+        rating: ratingSchema.nullable(),
+      })
+    ),
+  })
+  .meta({ id: "MovieListDetail" });
+
+// ---- reviews ----
+
+/**
+ * A review as the API shows it, with its replies nested.
+ */
+export type ReviewResponse = {
+  id: string;
+  movieId: string;
+  parentId: string | null;
+  author: UserRef;
+  text: string;
+  stars?: number;
+  hidden: boolean;
+  moderation?: { by: UserRef; at: string; reason?: string };
+  helpfulCount: number;
+  votedHelpful: boolean;
+  createdAt: string;
+  updatedAt: string;
+  replies?: ReviewResponse[];
+};
+
+export const reviewSchema: z.ZodType<ReviewResponse> = z
+  .strictObject({
+    id: z.string(),
+    movieId: z.string(),
+    parentId: z.string().nullable(),
+    author: userRefSchema,
+    text: z.string(),
+    stars: z.number().int().optional(),
+    hidden: z.boolean(),
+    // moderators only
+    moderation: z
+      .strictObject({
+        by: userRefSchema,
+        at: timestamp,
+        reason: z.string().optional(),
+      })
+      .optional(),
+    helpfulCount: z.number().int(),
+    votedHelpful: z.boolean(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    // in lists and new reviews; not after an edit or vote
+    get replies() {
+      return z.array(reviewSchema).optional();
+    },
+  })
+  .meta({ id: "Review" });
+
+export const reviewsPageSchema = z
+  .strictObject({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    sort: z.enum(REVIEW_SORTS),
+    items: z.array(reviewSchema),
+    stats: reviewStatsSchema,
+    meta: z.strictObject(paginationShape),
+  })
+  .meta({ id: "ReviewsPage" });
+
+// ---- operations ----
+
+export const storeHealthSchema = z
+  .strictObject({
+    status: z.enum(["ok", "degraded"]),
+    detail: z.string().optional(),
+  })
+  .meta({ id: "StoreHealth" }) satisfies z.ZodType<StoreHealth>;
+
+export const healthSchema = z.strictObject({
+  status: z.enum(["ok", "degraded"]),
+  store: storeHealthSchema,
+});
+
+export const livenessSchema = z.strictObject({
+  status: z.literal("ok"),
+  uptimeSeconds: z.number(),
+});
+
+const checkSchema = z.strictObject({
+  status: z.enum(["ok", "failed"]),
+  detail: z.string().optional(),
+});
+
+export const readinessChecksSchema = z
+  .strictObject({
+    store: checkSchema,
+    upstreams: z.array(
+      checkSchema.extend({ provider: z.string(), checkedAt: timestamp })
+    ),
+  })
+  .meta({ id: "ReadinessChecks" });
+
+export const readinessSchema = z.strictObject({
+  // degraded: the store is fine but an upstream isn't answering
+  status: z.enum(["ready", "degraded"]),
+  checks: readinessChecksSchema,
+});
+
+export const snapshotsSchema = z.strictObject({
+  items: z.array(
+    z.strictObject({
+      name: z.string(),
+      createdAt: timestamp,
+      sizeBytes: z.number().int(),
+    }) satisfies z.ZodType<StoreSnapshot>
+  ),
+});
+
+export const restoreResultSchema = z.strictObject({
+  restored: z.string(),
+  store: storeHealthSchema,
+});
+
+export const cacheStatsSchema = z.strictObject({
+  items: z.array(
+    z.strictObject({
+      provider: z.string(),
+      size: z.number().int(),
+      maxEntries: z.number().int(),
+      ttlMs: z.number().int(),
+      hits: z.number().int(),
+      misses: z.number().int(),
+      evictions: z.number().int(),
+      expirations: z.number().int(),
+    }) satisfies z.ZodType<CacheStats & { provider: string }>
+  ),
+});
+
+export const upstreamsSchema = z.strictObject({
+  items: z.array(
+    z.strictObject({
+      provider: z.string(),
+      name: z.string(),
+      state: z.enum(["closed", "open", "half_open"]),
+      consecutiveFailures: z.number().int(),
+      openedAt: timestamp.nullable(),
+      lastError: z.string().nullable(),
+    }) satisfies z.ZodType<UpstreamStatus & { provider: string }>
+  ),
+});
+
+const syncRunSchema = z.strictObject({
+  startedAt: timestamp,
+  finishedAt: timestamp.nullable(),
+  status: z.enum(["running", "completed", "failed", "stopped"]),
+  pages: z.number().int(),
+  fetched: z.number().int(),
+  added: z.number().int(),
+  updated: z.number().int(),
+  unchanged: z.number().int(),
+  removed: z.number().int(),
+  error: z.string().optional(),
+}) satisfies z.ZodType<SyncRunStats>;
+
+export const syncStatusSchema = z
+  .strictObject({
+    provider: z.string(),
+    running: z.boolean(),
+    nextRunAt: timestamp.nullable(),
+    mirror: z.strictObject({
+      size: z.number().int(),
+      complete: z.boolean(),
+      lastSyncedAt: timestamp.nullable(),
+    }),
+    progress: z
+      .strictObject({
+        nextPage: z.number().int(),
+        lastPage: z.number().int().nullable(),
+        run: syncRunSchema,
+      })
+      .nullable(),
+    lastRun: syncRunSchema.nullable(),
+  })
+  .meta({ id: "SyncStatus" }) satisfies z.ZodType<SyncStatus>;
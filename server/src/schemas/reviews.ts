@@ -0,0 +1,70 @@
+// server/src/schemas/reviews.ts
+// Request schemas for reviews (/movies/:id/reviews and /reviews).
+
+import { z } from "zod";
+import { REVIEW_SORTS } from "../types/review";
+
+const text = z
+  .string("text must be a string")
+  .trim()
+  .min(1, "text must not be empty")
+  .max(5000, "text must be at most 5000 characters");
+
+const stars = z
+  .number("stars must be a number")
+  .int("stars must be a whole number")
+  .min(1, "stars must be between 1 and 5")
+  .max(5, "stars must be between 1 and 5");
+
+const reviewId = z.string().trim().min(1, "reviewId is required").max(100);
+
+export const reviewsQuery = z.object({
+  page: z.coerce
+    .number("page must be a number")
+    .int("page must be a whole number")
+    .min(1, "page must be 1 or more")
+    .default(1),
+  pageSize: z.coerce
+    .number("pageSize must be a number")
+    .int("pageSize must be a whole number")
+    .min(1, "pageSize must be between 1 and 50")
+    .max(50, "pageSize must be between 1 and 50")
+    .default(10),
+  sort: z
+    .enum(REVIEW_SORTS, `sort must be one of: ${REVIEW_SORTS.join(", ")}`)
+    .default("newest"),
+});
+
+export const reviewParams = z.object({ reviewId });
+
+// a reply (parentId) can't rate the movie
+export const createReviewBody = z
+  .strictObject({
+    text,
+    stars: stars.optional(),
+    parentId: reviewId.optional(),
+  })
+  .refine(
+    (body) => body.parentId === undefined || body.stars === undefined,
+    { message: "Replies can't have stars", path: ["stars"] }
+  );
+
+// stars: null removes them
+export const updateReviewBody = z
+  .strictObject({
+    text: text.optional(),
+    stars: stars.nullable().optional(),
+  })
+  .refine(
+    (body) => body.text !== undefined || body.stars !== undefined,
+    "Send text, stars or both"
+  );
+
+export const moderationBody = z.strictObject({
+  hidden: z.boolean("hidden must be true or false"),
+  reason: z
+    .string("reason must be a string")
+    .trim()
+    .max(500, "reason must be at most 500 characters")
+    .optional(),
+});
@@ -0,0 +1,44 @@
+// server/src/scripts/checkContract.test.ts
+// npm run check:contract as part of npm test: the API does what its
+// OpenAPI document says (see checkContract.ts for what that covers).
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import {
+  listen,
+  startTestApi,
+  TEST_EDITOR,
+  type Listening,
+  type TestApi,
+} from "../testing/api";
+import { createFakeUpstream } from "./fakeUpstream";
+
+let upstream: Listening;
+let api: TestApi;
+
+before(async () => {
+  upstream = await listen(createFakeUpstream());
+  api = await startTestApi({
+    LOG_LEVEL: "error",
+    THIRD_PARTY_BASE_URL: `${upstream.url}/movies`,
+    THIRD_PARTY_MODE: "live",
+  });
+});
+
+after(async () => {
+  await api.close();
+  upstream.close();
+});
+
+test("the API matches its OpenAPI document", async () => {
+  const { checkContract } = await import("../openapi/contract");
+
+  const failures = await checkContract(
+    api.app,
+    api.routers,
+    api.url,
+    TEST_EDITOR
+  );
+
+  assert.deepEqual(failures, []);
+});
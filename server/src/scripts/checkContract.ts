@@ -0,0 +1,54 @@
+// Checks that the API does what its OpenAPI document says.
+// Usage: npm run check:contract (MOVIE_STORE=sqlite to check that backend)
+//
+// Fails when:
+// - client/src/api/schema.ts is stale (npm run openapi:client fixes it)
+// - a route isn't documented, or a documented operation has no route
+// - a request answers with an undocumented status, or with a body that
+//   doesn't match its schema (errors must be problem+json)
+// - an operation isn't exercised by the scenario (openapi/contract.ts)
+//
+// The server runs in-process against throwaway data in a temp directory
+// (see testing/api.ts), with the fake upstream standing in for the
+// third-party API.
+
+import { listen, startTestApi, TEST_EDITOR } from "../testing/api";
+import { createFakeUpstream } from "./fakeUpstream";
+
+async function main() {
+  const upstream = await listen(createFakeUpstream());
+  const api = await startTestApi({
+    THIRD_PARTY_BASE_URL: `${upstream.url}/movies`,
+    THIRD_PARTY_MODE: "live",
+  });
+  const { checkContract } = await import("../openapi/contract");
+
+  let failures: string[];
+  try {
+    failures = await checkContract(
+      api.app,
+      api.routers,
+      api.url,
+      TEST_EDITOR
+    );
+  } finally {
+    await api.close();
+    upstream.close();
+  }
+
+  if (failures.length) {
+    console.error(`\n${failures.length} contract failure(s)`);
+    process.exitCode = 1;
+  } else {
+    console.log("Contract holds");
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error("Contract check failed:", err);
+    process.exitCode = 1;
+  })
+  // open handles (keep-alive sockets, the sqlite file) shouldn't keep
+  // the check from finishing
+  .finally(() => process.exit());
@@ -0,0 +1,32 @@
+// server/src/scripts/fakeUpstream.test.ts
+// Faults set on one fake upstream stay with it: others in the same
+// process keep answering.
+
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { listen, type Listening } from "../testing/api";
+import { createFakeUpstream } from "./fakeUpstream";
+
+let failing: Listening;
+let healthy: Listening;
+
+before(async () => {
+  failing = await listen(createFakeUpstream());
+  healthy = await listen(createFakeUpstream());
+});
+
+after(() => {
+  failing.close();
+  healthy.close();
+});
+
+test("faults only apply to the fake upstream they were set on", async () => {
+  await fetch(`${failing.url}/__faults`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ failureRate: 1 }),
+  });
+
+  assert.equal((await fetch(`${failing.url}/movies/1`)).status, 503);
+  assert.equal((await fetch(`${healthy.url}/movies/1`)).status, 200);
+});
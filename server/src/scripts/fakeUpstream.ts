@@ -0,0 +1,158 @@
+// Local stand-in for the jsonfakery movies API, with fault injection.
+// Usage: npm run upstream:fake
+// then start the server with THIRD_PARTY_BASE_URL=http://localhost:4010/movies
+// (the contract check runs it in-process through createFakeUpstream)
+//
+// Catalogue: 95 generated movies, or the recorded ones in
+// FAKE_UPSTREAM_FIXTURES (a THIRD_PARTY_FIXTURES_DIR, see README).
+// /random picks are seeded with FAKE_UPSTREAM_SEED (default 1), so a run
+// gets the same movies every time.
+//
+// Faults (env at startup, or POST /__faults { failureRate, latencyMs }):
+// - FAKE_UPSTREAM_FAILURE_RATE: 0..1, share of requests answered with a 503
+// - FAKE_UPSTREAM_LATENCY_MS: delay added before every response
+
+import express from "express";
+import {
+  createSeededRandom,
+  loadFixtureCatalogue,
+  pickRandom,
+  type RawMovie,
+  type UpstreamCatalogue,
+} from "../services/providers/jsonFakeryFixtures";
+import { logger } from "../services/observability";
+
+const PORT = Number(process.env.FAKE_UPSTREAM_PORT ?? 4010);
+const SEED = Number(process.env.FAKE_UPSTREAM_SEED ?? 1);
+const FIXTURES = process.env.FAKE_UPSTREAM_FIXTURES;
+const CATALOGUE_SIZE = 95;
+const PER_PAGE = 20;
+
+/**
+ * The faults a new fake API starts with, from the environment.
+ */
+function initialFaults() {
+  return {
+    failureRate: Number(process.env.FAKE_UPSTREAM_FAILURE_RATE ?? 0),
+    latencyMs: Number(process.env.FAKE_UPSTREAM_LATENCY_MS ?? 0),
+  };
+}
+
+/**
+ * Deterministic movie #n in the same shape jsonfakery returns.
+ */
+function fakeMovie(n: number): RawMovie {
+  return {
+    movie_id: n,
+    original_title: `Fake Movie ${n}`,
+    release_date: `Mon, 01/01/${1950 + (n % 70)}`,
+    overview: `Plot of fake movie ${n}.`,
+    original_language: "en",
+    vote_average: String((n % 10) + 0.5),
+    runtime: 80 + (n % 60),
+    genres: [["Drama", "Comedy", "Action"][n % 3]],
+    casts: [{ name: `Actor ${n}`, character: "Lead" }],
+  };
+}
+
+/**
+ * CATALOGUE_SIZE generated movies, PER_PAGE to a page.
+ */
+function generatedCatalogue(seed: number): UpstreamCatalogue {
+  const pool = Array.from({ length: CATALOGUE_SIZE }, (_, i) =>
+    fakeMovie(i + 1)
+  );
+  const rand = createSeededRandom(seed);
+
+  return {
+    page: (page) => ({
+      current_page: page,
+      data: pool.slice((page - 1) * PER_PAGE, page * PER_PAGE),
+      per_page: PER_PAGE,
+      total: CATALOGUE_SIZE,
+      last_page: Math.ceil(CATALOGUE_SIZE / PER_PAGE),
+    }),
+    random: (count) => pickRandom(pool, count, rand),
+    movie: (id) => pool[id - 1] ?? null,
+  };
+}
+
+/**
+ * The fake API serving `catalogue`, not yet listening. Each one has its
+ * own faults.
+ */
+export function createFakeUpstream(
+  catalogue: UpstreamCatalogue = generatedCatalogue(SEED)
+) {
+  const faults = initialFaults();
+  const app = express();
+  app.use(express.json());
+
+  /**
+   * POST /__faults
+   * Change the injected faults without restarting
+   */
+  app.post("/__faults", (req, res) => {
+    const { failureRate, latencyMs } = req.body ?? {};
+    if (typeof failureRate === "number") faults.failureRate = failureRate;
+    if (typeof latencyMs === "number") faults.latencyMs = latencyMs;
+    logger.debug("Fake upstream faults changed", faults);
+    return res.json(faults);
+  });
+
+  // Every /movies request: wait, then maybe fail
+  app.use("/movies", (_req, res, next) => {
+    setTimeout(() => {
+      if (Math.random() < faults.failureRate) {
+        return res.status(503).json({ message: "Injected failure" });
+      }
+      next();
+    }, faults.latencyMs);
+  });
+
+  /**
+   * GET /movies/paginated?page=N
+   * Laravel-style page, like the real API
+   */
+  app.get("/movies/paginated", (req, res) => {
+    const page = catalogue.page(Math.max(1, Number(req.query.page) || 1));
+    if (!page) return res.status(404).json({ message: "Not found" });
+    return res.json(page);
+  });
+
+  /**
+   * GET /movies/random/:count
+   */
+  app.get("/movies/random/:count", (req, res) => {
+    const count = Math.min(100, Number(req.params.count) || 1);
+    return res.json(catalogue.random(count));
+  });
+
+  /**
+   * GET /movies/:id
+   */
+  app.get("/movies/:id", (req, res) => {
+    const movie = catalogue.movie(Number(req.params.id));
+    if (!movie) return res.status(404).json({ message: "Not found" });
+    return res.json(movie);
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  (async () => {
+    const catalogue = FIXTURES
+      ? await loadFixtureCatalogue(FIXTURES, SEED)
+      : generatedCatalogue(SEED);
+    createFakeUpstream(catalogue).listen(PORT, () => {
+      console.log(
+        `Fake upstream on http://localhost:${PORT}/movies`,
+        initialFaults()
+      );
+    });
+  })().catch((err) => {
+    console.error("Fake upstream failed to start:", err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,21 @@
+// Regenerates the client's API types (client/src/api/schema.ts) from the
+// OpenAPI document.
+// Usage: npm run openapi:client
+
+import { promises as fs } from "fs";
+import { buildOpenApiDocument } from "../openapi/document";
+import {
+  CLIENT_TYPES_PATH,
+  generateClientTypes,
+} from "../openapi/typescript";
+
+async function main() {
+  const source = generateClientTypes(buildOpenApiDocument());
+  await fs.writeFile(CLIENT_TYPES_PATH, source);
+  console.log(`Wrote ${CLIENT_TYPES_PATH}`);
+}
+
+main().catch((err) => {
+  console.error("Generating the client failed:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,34 @@
+// One-shot import of data/movies.json into the SQLite database.
+// Usage: npm run import:sqlite
+// Safe to re-run: movies already in the database are skipped.
+
+import { createJsonFileRepository } from "../services/repositories/jsonFile";
+import { createSqliteRepository } from "../services/repositories/sqlite";
+import { storePaths } from "../services/store";
+
+async function main() {
+  const paths = storePaths();
+  const json = createJsonFileRepository(paths.moviesJson, paths.jsonOptions);
+  await json.init();
+
+  // refuse to import from a file we couldn't read
+  const health = await json.health();
+  if (health.status !== "ok") throw new Error(health.detail);
+
+  const movies = await json.all();
+
+  const sqlite = createSqliteRepository(paths.sqlite);
+  try {
+    const { imported, skipped } = await sqlite.importMovies(movies);
+    console.log(
+      `Imported ${imported} movie(s) into ${paths.sqlite} (${skipped} already present)`
+    );
+  } finally {
+    await sqlite.close();
+  }
+}
+
+main().catch((err) => {
+  console.error("Import failed:", err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,23 @@
+// server/src/services/auth/errors.ts
+// Errors of the user accounts that routes turn into responses.
+
+/**
+ * Registering a username someone already has.
+ */
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username "${username}" is taken`);
+    this.name = "UsernameTakenError";
+  }
+}
+
+/**
+ * A change that would leave nobody able to edit (e.g. demoting the last
+ * editor).
+ */
+export class LastEditorError extends Error {
+  constructor() {
+    super("At least one editor is needed");
+    this.name = "LastEditorError";
+  }
+}
@@ -0,0 +1,155 @@
+// server/src/services/auth/index.ts
+// Registration, login and session lookup. Call initAuth() at startup.
+
+import { randomBytes } from "crypto";
+import { getConfig } from "../../config";
+import type { PublicUser, Role, User, UserRef } from "../../types/user";
+import { logger } from "../observability";
+import { hashPassword, verifyPassword } from "./passwords";
+import {
+  createSessionTokens,
+  type Session,
+  type SessionTokens,
+} from "./sessionTokens";
+import { createUserStore, type UserStore } from "./userStore";
+
+export * from "./errors";
+export type { Session } from "./sessionTokens";
+
+let users: UserStore | null = null;
+let tokens: SessionTokens | null = null;
+
+// Compared against when the username is unknown, so a failed login takes
+// as long either way
+let decoyHash: Promise<string> | null = null;
+
+/**
+ * Load the users and set up session signing. Tokens are signed with
+ * auth.secret (AUTH_SECRET); without it a random secret is used, so every
+ * restart signs everyone out. The editor named by auth.adminUsername
+ * (ADMIN_USERNAME, ADMIN_PASSWORD) is created if it doesn't exist.
+ */
+export async function initAuth(): Promise<void> {
+  const { auth } = getConfig();
+  let secret = auth.secret;
+  if (!secret) {
+    logger.warn("AUTH_SECRET is not set; sessions end when the server stops");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  tokens = createSessionTokens({ secret, ttlMs: auth.sessionTtlMs });
+  users = createUserStore(auth.usersPath);
+  await users.init();
+
+  if (auth.adminUsername && auth.adminPassword) {
+    await ensureEditor(auth.adminUsername, auth.adminPassword);
+  }
+  if (!users.list().some((u) => u.role === "editor")) {
+    logger.warn(
+      "There is no editor; set ADMIN_USERNAME and ADMIN_PASSWORD to create one"
+    );
+  }
+}
+
+/**
+ * Create an editor account unless the username is taken. An existing
+ * account keeps its role and password.
+ */
+async function ensureEditor(username: string, password: string) {
+  if (getUsers().findByUsername(username)) return;
+
+  await getUsers().create({
+    username,
+    passwordHash: await hashPassword(password),
+    role: "editor",
+  });
+  logger.info("Created editor from ADMIN_USERNAME", { username });
+}
+
+/**
+ * Let pending saves of the users finish.
+ */
+export async function closeAuth(): Promise<void> {
+  await users?.close();
+}
+
+function getUsers(): UserStore {
+  if (!users) throw new Error("Auth not initialised (call initAuth)");
+  return users;
+}
+
+function getTokens(): SessionTokens {
+  if (!tokens) throw new Error("Auth not initialised (call initAuth)");
+  return tokens;
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+export function toUserRef(user: PublicUser): UserRef {
+  return { id: user.id, username: user.username };
+}
+
+/**
+ * Create an account and sign it in. New accounts are always viewers;
+ * editors promote them (the first editor comes from the configuration,
+ * see initAuth). Throws UsernameTakenError.
+ */
+export async function register(
+  username: string,
+  password: string
+): Promise<{ user: PublicUser } & Session> {
+  const user = await getUsers().create({
+    username,
+    passwordHash: await hashPassword(password),
+  });
+  return { user: toPublicUser(user), ...getTokens().issue(user.id) };
+}
+
+/**
+ * Sign in; null when the username or password is wrong.
+ */
+export async function login(
+  username: string,
+  password: string
+): Promise<({ user: PublicUser } & Session) | null> {
+  const user = getUsers().findByUsername(username);
+
+  if (!user) {
+    decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await decoyHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) return null;
+
+  return { user: toPublicUser(user), ...getTokens().issue(user.id) };
+}
+
+/**
+ * The user a session token belongs to, with their current role; null if
+ * the token is invalid or expired, or the account is gone.
+ */
+export function userForToken(token: string): PublicUser | null {
+  const claims = getTokens().verify(token);
+  const user = claims ? getUsers().findById(claims.sub) : null;
+  return user ? toPublicUser(user) : null;
+}
+
+export function listUsers(): PublicUser[] {
+  return getUsers().list().map(toPublicUser);
+}
+
+/**
+ * Change a user's role; null when there's no such user.
+ * Throws LastEditorError rather than demote the only editor.
+ */
+export async function setUserRole(
+  id: string,
+  role: Role
+): Promise<PublicUser | null> {
+  const user = await getUsers().setRole(id, role);
+  return user ? toPublicUser(user) : null;
+}
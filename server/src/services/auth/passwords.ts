@@ -0,0 +1,41 @@
+// server/src/services/auth/passwords.ts
+// Password hashing with scrypt (built into Node). Hashes are stored as
+// "scrypt:<salt>:<key>" (base64) so the parameters could change later.
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hash a password with a fresh random salt.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("base64")}:${key.toString("base64")}`;
+}
+
+/**
+ * Whether `password` matches a hash made by hashPassword. Compares in
+ * constant time; an unreadable hash never matches.
+ */
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  const [scheme, salt, expected] = hash.split(":");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+
+  const key = await deriveKey(password, Buffer.from(salt, "base64"));
+  const expectedKey = Buffer.from(expected, "base64");
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
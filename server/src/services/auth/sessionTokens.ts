@@ -0,0 +1,77 @@
+// server/src/services/auth/sessionTokens.ts
+// Signed session tokens: "<payload>.<signature>", both base64url, where the
+// payload is {sub: user id, exp: expiry in ms} and the signature is an
+// HMAC-SHA256 of it. Nothing is stored server-side; a token is good until
+// it expires or the secret changes.
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type SessionClaims = {
+  // user id
+  sub: string;
+  // expiry, ms since the epoch
+  exp: number;
+};
+
+export type Session = {
+  token: string;
+  // ISO timestamp
+  expiresAt: string;
+};
+
+export type SessionTokens = {
+  issue(userId: string): Session;
+
+  // claims of a valid, unexpired token; null for anything else
+  verify(token: string): SessionClaims | null;
+};
+
+export function createSessionTokens(options: {
+  secret: string;
+  ttlMs: number;
+}): SessionTokens {
+  const { secret, ttlMs } = options;
+
+  function sign(payload: string): string {
+    return createHmac("sha256", secret).update(payload).digest("base64url");
+  }
+
+  return {
+    issue(userId) {
+      const claims: SessionClaims = { sub: userId, exp: Date.now() + ttlMs };
+      const payload = Buffer.from(JSON.stringify(claims)).toString(
+        "base64url"
+      );
+      return {
+        token: `${payload}.${sign(payload)}`,
+        expiresAt: new Date(claims.exp).toISOString(),
+      };
+    },
+
+    verify(token) {
+      const [payload, signature, ...rest] = token.split(".");
+      if (!payload || !signature || rest.length) return null;
+
+      const expected = Buffer.from(sign(payload));
+      const actual = Buffer.from(signature);
+      if (
+        actual.length !== expected.length ||
+        !timingSafeEqual(actual, expected)
+      ) {
+        return null;
+      }
+
+      try {
+        const claims = JSON.parse(
+          Buffer.from(payload, "base64url").toString("utf-8")
+        ) as SessionClaims;
+        if (typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+          return null;
+        }
+        return claims.exp > Date.now() ? claims : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
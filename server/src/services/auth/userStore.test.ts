@@ -0,0 +1,42 @@
+// server/src/services/auth/userStore.test.ts
+// Accounts get the role they're created with, and are viewers otherwise,
+// the very first one included.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { createUserStore, type UserStore } from "./userStore";
+
+let dir: string;
+let users: UserStore;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "users-"));
+  users = createUserStore(path.join(dir, "users.json"));
+  await users.init();
+});
+
+after(async () => {
+  await users.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("the first account is a viewer", async () => {
+  const first = await users.create({ username: "first", passwordHash: "x" });
+  const second = await users.create({ username: "second", passwordHash: "x" });
+
+  assert.equal(first.role, "viewer");
+  assert.equal(second.role, "viewer");
+});
+
+test("an account created as an editor is one", async () => {
+  const admin = await users.create({
+    username: "admin",
+    passwordHash: "x",
+    role: "editor",
+  });
+
+  assert.equal(admin.role, "editor");
+});
@@ -0,0 +1,102 @@
+// server/src/services/auth/userStore.ts
+// User accounts, kept in one JSON file (data/users.json) and in memory.
+
+import { randomUUID } from "crypto";
+import type { Role, User } from "../../types/user";
+import { createJsonDocument } from "../repositories/jsonDocument";
+import { LastEditorError, UsernameTakenError } from "./errors";
+
+type UsersFile = { users: User[] };
+
+export type UserStore = {
+  // read the file (a missing file is no users)
+  init(): Promise<void>;
+
+  // let pending saves finish
+  close(): Promise<void>;
+
+  list(): User[];
+  findById(id: string): User | null;
+  findByUsername(username: string): User | null;
+
+  // without a role, the user is a viewer
+  create(input: {
+    username: string;
+    passwordHash: string;
+    role?: Role;
+  }): Promise<User>;
+
+  // null when there's no such user
+  setRole(id: string, role: Role): Promise<User | null>;
+};
+
+/**
+ * Usernames are compared case-insensitively.
+ */
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+function parseUsersFile(raw: unknown): UsersFile {
+  const file = raw as Partial<UsersFile> | null;
+  if (!Array.isArray(file?.users)) throw new Error("Not a users file");
+  return { users: file.users };
+}
+
+export function createUserStore(filePath: string): UserStore {
+  const doc = createJsonDocument<UsersFile>(filePath, {
+    empty: { users: [] },
+    parse: parseUsersFile,
+  });
+
+  function findByUsername(username: string) {
+    const wanted = normalizeUsername(username);
+    return doc.get().users.find((u) => u.username === wanted) ?? null;
+  }
+
+  return {
+    init: () => doc.init(),
+
+    close: () => doc.close(),
+
+    list: () => [...doc.get().users],
+
+    findById: (id) => doc.get().users.find((u) => u.id === id) ?? null,
+
+    findByUsername,
+
+    create(input) {
+      return doc.change(async ({ users }, save) => {
+        const username = normalizeUsername(input.username);
+        if (findByUsername(username)) throw new UsernameTakenError(username);
+
+        const user: User = {
+          id: `user_${randomUUID()}`,
+          username,
+          role: input.role ?? "viewer",
+          passwordHash: input.passwordHash,
+          createdAt: new Date().toISOString(),
+        };
+        await save({ users: [...users, user] });
+        return user;
+      });
+    },
+
+    setRole(id, role) {
+      return doc.change(async ({ users }, save) => {
+        const user = users.find((u) => u.id === id);
+        if (!user) return null;
+        if (user.role === role) return user;
+
+        const editors = users.filter((u) => u.role === "editor");
+        if (user.role === "editor" && editors.length === 1) {
+          throw new LastEditorError();
+        }
+
+        const updated = { ...user, role };
+        await save({ users: users.map((u) => (u.id === id ? updated : u)) });
+        return updated;
+      });
+    },
+  };
+}
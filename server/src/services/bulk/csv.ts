@@ -0,0 +1,167 @@
+// server/src/services/bulk/csv.ts
+// CSV for bulk import/export (RFC 4180: comma separated, double quotes
+// around fields with commas, quotes or line breaks). The first record
+// names the columns. List fields hold several values separated by "|";
+// cast entries are "Name" or "Name as Character", as in the client form.
+
+import type { CastMember, Movie } from "../../types/movie";
+import { UploadFormatError } from "./errors";
+
+/**
+ * Columns written on export, in order. Import accepts any subset (title
+ * and year are required per row), in any order.
+ */
+export const CSV_COLUMNS = [
+  "id",
+  "title",
+  "year",
+  "overview",
+  "genres",
+  "runtime",
+  "posterUrl",
+  "originalLanguage",
+  "cast",
+  "voteAverage",
+  "createdAt",
+] as const;
+
+const NUMBER_COLUMNS = new Set(["year", "runtime", "voteAverage"]);
+const LIST_SEPARATOR = "|";
+
+/**
+ * Records of a CSV stream, one array of fields each. Quoted fields may
+ * span chunks and lines; blank lines are skipped.
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // a quote inside a quoted field: the end, or the first half of ""
+  let quoteSeen = false;
+  let first = true;
+
+  for await (let chunk of chunks) {
+    if (first) {
+      chunk = chunk.replace(/^\uFEFF/, "");
+      first = false;
+    }
+
+    for (const c of chunk) {
+      if (inQuotes) {
+        if (quoteSeen) {
+          quoteSeen = false;
+          if (c === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // fall through: c is the character after the closing quote
+        } else if (c === '"') {
+          quoteSeen = true;
+          continue;
+        } else {
+          field += c;
+          continue;
+        }
+      }
+
+      if (c === '"' && field === "") {
+        inQuotes = true;
+      } else if (c === ",") {
+        record.push(field);
+        field = "";
+      } else if (c === "\n") {
+        record.push(field);
+        if (record.length > 1 || record[0] !== "") yield record;
+        record = [];
+        field = "";
+      } else if (c !== "\r") {
+        field += c;
+      }
+    }
+  }
+
+  if (inQuotes && !quoteSeen) {
+    throw new UploadFormatError("CSV ends inside a quoted field");
+  }
+  if (field !== "" || record.length) {
+    record.push(field);
+    yield record;
+  }
+}
+
+/**
+ * A CSV record as a movie-like object for validation: empty fields are
+ * left out, numbers and lists are converted. Values that don't convert
+ * are kept as text so validation can say what's wrong with them.
+ */
+export function csvRecordToObject(
+  columns: string[],
+  record: string[]
+): Record<string, unknown> {
+  const value: Record<string, unknown> = {};
+
+  columns.forEach((column, i) => {
+    const text = record[i]?.trim() ?? "";
+    if (text === "") return;
+
+    if (NUMBER_COLUMNS.has(column)) {
+      const n = Number(text);
+      value[column] = Number.isNaN(n) ? text : n;
+    } else if (column === "genres") {
+      value.genres = splitList(text);
+    } else if (column === "cast") {
+      value.cast = splitList(text).map(parseCastMember);
+    } else {
+      value[column] = text;
+    }
+  });
+
+  return value;
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(LIST_SEPARATOR)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseCastMember(text: string): CastMember {
+  const [name, character] = text.split(/\s+as\s+/);
+  return character ? { name, character } : { name };
+}
+
+/**
+ * Quote a field if it needs it.
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One CSV line (with line break) of the given fields.
+ */
+export function csvLine(fields: string[]): string {
+  return `${fields.map(csvField).join(",")}\r\n`;
+}
+
+/**
+ * A movie's fields in CSV_COLUMNS order.
+ */
+export function movieToCsvFields(movie: Movie): string[] {
+  return CSV_COLUMNS.map((column) => {
+    switch (column) {
+      case "genres":
+        return (movie.genres ?? []).join(LIST_SEPARATOR);
+      case "cast":
+        return (movie.cast ?? [])
+          .map((c) => (c.character ? `${c.name} as ${c.character}` : c.name))
+          .join(LIST_SEPARATOR);
+      default:
+        return String(movie[column] ?? "");
+    }
+  });
+}
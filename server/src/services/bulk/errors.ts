@@ -0,0 +1,23 @@
+// server/src/services/bulk/errors.ts
+// Errors that reject a whole upload (a bad row is reported, not thrown).
+
+/**
+ * The upload isn't valid CSV / JSON / NDJSON as a whole (e.g. a JSON
+ * upload that isn't an array, or an unterminated quote).
+ */
+export class UploadFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadFormatError";
+  }
+}
+
+/**
+ * The upload has more bytes or rows than we accept in one go.
+ */
+export class UploadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadTooLargeError";
+  }
+}
@@ -0,0 +1,154 @@
+// server/src/services/bulk/formats.ts
+// The upload/download formats of the local library: reading rows out of
+// a streamed upload, and writing movies out one at a time.
+
+import type { Movie } from "../../types/movie";
+import {
+  CSV_COLUMNS,
+  csvLine,
+  csvRecordToObject,
+  movieToCsvFields,
+  parseCsv,
+} from "./csv";
+import { UploadFormatError, UploadTooLargeError } from "./errors";
+import { splitJsonArray } from "./jsonArray";
+
+export const BULK_FORMATS = ["csv", "json", "ndjson"] as const;
+export type BulkFormat = (typeof BULK_FORMATS)[number];
+
+/**
+ * One row of an upload (1-based), or why it couldn't be read.
+ */
+export type UploadRow =
+  | { row: number; value: unknown }
+  | { row: number; error: string };
+
+/**
+ * Text of an upload, decoded as UTF-8 as it arrives.
+ * Throws UploadTooLargeError once more than `maxBytes` came in.
+ */
+export async function* decodeUpload(
+  chunks: AsyncIterable<Buffer>,
+  maxBytes: number
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8");
+  let bytes = 0;
+
+  for await (const chunk of chunks) {
+    bytes += chunk.length;
+    if (bytes > maxBytes) {
+      throw new UploadTooLargeError(
+        `Upload is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB`
+      );
+    }
+    yield decoder.decode(chunk, { stream: true });
+  }
+
+  yield decoder.decode();
+}
+
+/**
+ * Parse one JSON text into a row.
+ */
+function jsonRow(row: number, text: string): UploadRow {
+  try {
+    return { row, value: JSON.parse(text) };
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return { row, error: `Invalid JSON: ${reason}` };
+  }
+}
+
+/**
+ * Lines of a text stream (without line breaks).
+ */
+async function* lines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let rest = "";
+  for await (const chunk of chunks) {
+    const parts = (rest + chunk).split("\n");
+    rest = parts.pop()!;
+    yield* parts;
+  }
+  if (rest) yield rest;
+}
+
+/**
+ * Rows of an upload in `format`, read as the text arrives.
+ * Throws UploadFormatError when the upload as a whole is unreadable.
+ */
+export async function* readRows(
+  format: BulkFormat,
+  chunks: AsyncIterable<string>
+): AsyncGenerator<UploadRow> {
+  let row = 0;
+
+  switch (format) {
+    case "json":
+      for await (const text of splitJsonArray(chunks)) {
+        yield jsonRow(++row, text);
+      }
+      return;
+
+    case "ndjson":
+      for await (const line of lines(chunks)) {
+        if (line.trim()) yield jsonRow(++row, line);
+      }
+      return;
+
+    case "csv": {
+      let columns: string[] | null = null;
+      for await (const record of parseCsv(chunks)) {
+        if (!columns) {
+          columns = record.map((c) => c.trim());
+          if (!columns.includes("title") || !columns.includes("year")) {
+            throw new UploadFormatError(
+              "CSV header must name at least the title and year columns"
+            );
+          }
+          continue;
+        }
+        yield { row: ++row, value: csvRecordToObject(columns, record) };
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Writes movies out as one document, piece by piece.
+ */
+export type BulkWriter = {
+  contentType: string;
+  start(): string;
+  movie(movie: Movie, first: boolean): string;
+  end(): string;
+};
+
+export function createBulkWriter(format: BulkFormat): BulkWriter {
+  switch (format) {
+    case "csv":
+      return {
+        contentType: "text/csv; charset=utf-8",
+        start: () => csvLine([...CSV_COLUMNS]),
+        movie: (movie) => csvLine(movieToCsvFields(movie)),
+        end: () => "",
+      };
+
+    case "json":
+      return {
+        contentType: "application/json; charset=utf-8",
+        start: () => "[\n",
+        movie: (movie, first) =>
+          `${first ? "" : ",\n"}${JSON.stringify(movie)}`,
+        end: () => "\n]\n",
+      };
+
+    case "ndjson":
+      return {
+        contentType: "application/x-ndjson; charset=utf-8",
+        start: () => "",
+        movie: (movie) => `${JSON.stringify(movie)}\n`,
+        end: () => "",
+      };
+  }
+}
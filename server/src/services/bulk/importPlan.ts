@@ -0,0 +1,180 @@
+// server/src/services/bulk/importPlan.ts
+// Decides what a bulk import does with each row (create, overwrite,
+// skip, ...) without writing anything, so a dry run and a real import
+// report exactly the same thing.
+
+import type {
+  BulkWrite,
+  LibraryLookup,
+  LocalMovieInput,
+} from "../../types/repository";
+import { duplicateKey } from "../duplicates";
+import { UploadTooLargeError } from "./errors";
+import type { UploadRow } from "./formats";
+
+export const DUPLICATE_POLICIES = ["skip", "overwrite", "fail"] as const;
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+// conflict: a duplicate under the "fail" policy
+export type ImportAction =
+  | "create"
+  | "overwrite"
+  | "skip"
+  | "invalid"
+  | "conflict";
+
+export type RowError = { field: string; message: string };
+
+/**
+ * What happens to one row, and why.
+ */
+export type ImportRowReport = {
+  row: number;
+  action: ImportAction;
+  title?: string;
+  year?: number;
+  // the local movie created or overwritten
+  id?: string;
+  // what a duplicate matched: a local movie, or an earlier row
+  duplicateOf?: { id: string } | { row: number };
+  errors?: RowError[];
+};
+
+export type ImportSummary = { rows: number } & Record<ImportAction, number>;
+
+export type ImportPlan = {
+  rows: ImportRowReport[];
+  summary: ImportSummary;
+  // what to write; changes.create is in the order of the "create" rows
+  changes: BulkWrite;
+};
+
+/**
+ * A validated row: what to store, and the id it names (exports have one).
+ */
+export type CheckedRow =
+  | { id?: string; input: LocalMovieInput }
+  | { errors: RowError[] };
+
+/**
+ * One row of an upload, read and validated.
+ */
+export type ImportRow = { row: number } & CheckedRow;
+
+export type ReadImportOptions = {
+  // reject uploads with more rows than this
+  maxRows: number;
+  check(value: unknown): CheckedRow;
+};
+
+export type ImportPlanOptions = {
+  library: LibraryLookup;
+  onDuplicate: DuplicatePolicy;
+};
+
+/**
+ * Read and validate every row of an upload.
+ */
+export async function readImportRows(
+  rows: AsyncIterable<UploadRow>,
+  { maxRows, check }: ReadImportOptions
+): Promise<ImportRow[]> {
+  const checked: ImportRow[] = [];
+
+  for await (const uploadRow of rows) {
+    const { row } = uploadRow;
+    if (row > maxRows) {
+      throw new UploadTooLargeError(
+        `Upload has more than ${maxRows} rows; split it into smaller files`
+      );
+    }
+
+    if ("error" in uploadRow) {
+      checked.push({
+        row,
+        errors: [{ field: "row", message: uploadRow.error }],
+      });
+    } else {
+      checked.push({ row, ...check(uploadRow.value) });
+    }
+  }
+
+  return checked;
+}
+
+/**
+ * Plan the import of the rows into `library`. A row is a duplicate when
+ * it names a local movie's id or has the same title and year (see
+ * duplicateKey); within the upload, the first of several copies counts.
+ * Only looks movies up, so it can run inside the write (see
+ * MovieRepository.bulkWrite).
+ */
+export function planImport(
+  rows: ImportRow[],
+  { library, onDuplicate }: ImportPlanOptions
+): ImportPlan {
+  // first row of the upload with each key, and with each local movie
+  const uploaded = new Map<string, number>();
+  const matched = new Map<string, number>();
+
+  const reports: ImportRowReport[] = [];
+  const changes: BulkWrite = { create: [], replace: [] };
+
+  for (const checked of rows) {
+    const { row } = checked;
+    if ("errors" in checked) {
+      reports.push({ row, action: "invalid", errors: checked.errors });
+      continue;
+    }
+
+    const { input } = checked;
+    const report: ImportRowReport = {
+      row,
+      action: "create",
+      title: input.title,
+      year: input.year,
+    };
+    reports.push(report);
+
+    const key = duplicateKey(input);
+    const existing =
+      (checked.id !== undefined && library.findById(checked.id)) ||
+      library.findDuplicate(key);
+    const earlierRow =
+      uploaded.get(key) ?? (existing ? matched.get(existing.id) : undefined);
+
+    if (earlierRow !== undefined) {
+      report.action = onDuplicate === "fail" ? "conflict" : "skip";
+      report.duplicateOf = { row: earlierRow };
+      continue;
+    }
+    uploaded.set(key, row);
+
+    if (!existing) {
+      changes.create.push(input);
+      continue;
+    }
+
+    matched.set(existing.id, row);
+    report.duplicateOf = { id: existing.id };
+    if (onDuplicate === "overwrite") {
+      report.action = "overwrite";
+      report.id = existing.id;
+      changes.replace.push({ id: existing.id, input });
+    } else {
+      report.action = onDuplicate === "fail" ? "conflict" : "skip";
+    }
+  }
+
+  const summary: ImportSummary = {
+    rows: reports.length,
+    create: 0,
+    overwrite: 0,
+    skip: 0,
+    invalid: 0,
+    conflict: 0,
+  };
+  for (const report of reports) summary[report.action] += 1;
+
+  return { rows: reports, summary, changes };
+}
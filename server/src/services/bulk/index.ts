@@ -0,0 +1,6 @@
+// server/src/services/bulk/index.ts
+// Bulk import and export of the local library (CSV, JSON, NDJSON).
+
+export * from "./errors";
+export * from "./formats";
+export * from "./importPlan";
@@ -0,0 +1,77 @@
+// server/src/services/bulk/jsonArray.ts
+// Splits a streamed JSON array into the source text of its elements, so
+// a large upload is parsed one element at a time and a broken element
+// only fails its own row.
+
+import { UploadFormatError } from "./errors";
+
+const WHITESPACE = /\s/;
+
+/**
+ * Source text of each top-level element of a JSON array.
+ * Throws UploadFormatError when the stream isn't an array at all.
+ */
+export async function* splitJsonArray(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<string> {
+  let state: "before" | "inside" | "after" = "before";
+  let element = "";
+  // brackets opened inside the current element
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // after a comma another element must follow
+  let expectElement = false;
+
+  for await (const chunk of chunks) {
+    for (const c of chunk) {
+      if (state !== "inside") {
+        if (WHITESPACE.test(c) || c === "\uFEFF") continue;
+        if (state === "before" && c === "[") {
+          state = "inside";
+          continue;
+        }
+        throw new UploadFormatError(
+          state === "before"
+            ? "JSON upload must be an array of movies"
+            : "Unexpected data after the JSON array"
+        );
+      }
+
+      if (inString) {
+        element += c;
+        if (escaped) escaped = false;
+        else if (c === "\\") escaped = true;
+        else if (c === '"') inString = false;
+        continue;
+      }
+
+      if (depth === 0 && (c === "," || c === "]")) {
+        const text = element.trim();
+        element = "";
+
+        if (text) {
+          yield text;
+        } else if (c === "," || expectElement) {
+          throw new UploadFormatError("Empty element in the JSON array");
+        }
+
+        expectElement = c === ",";
+        if (c === "]") state = "after";
+        continue;
+      }
+
+      element += c;
+      if (c === '"') inString = true;
+      else if (c === "{" || c === "[") depth += 1;
+      else if (c === "}" || c === "]") depth -= 1;
+    }
+  }
+
+  if (state === "before") {
+    throw new UploadFormatError("JSON upload must be an array of movies");
+  }
+  if (state !== "after") {
+    throw new UploadFormatError("JSON array is not terminated");
+  }
+}
@@ -0,0 +1,41 @@
+// server/src/services/cache/lruCache.test.ts
+// Expired entries leave the cache (and onRemove hears of it) even when
+// nobody asks for them again.
+
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { test } from "node:test";
+import { createLruCache } from "./lruCache";
+
+test("purges expired entries nobody reads again", async () => {
+  const removed: string[] = [];
+  const cache = createLruCache<number>({
+    maxEntries: 10,
+    ttlMs: 20,
+    purgeIntervalMs: 10,
+    onRemove: (key) => removed.push(key),
+  });
+
+  cache.set("a", 1);
+  cache.set("b", 2);
+  await sleep(60);
+
+  assert.deepEqual(removed.sort(), ["a", "b"]);
+  assert.equal(cache.stats().size, 0);
+  assert.equal(cache.stats().expirations, 2);
+});
+
+test("values() skips expired entries not yet purged", async () => {
+  const cache = createLruCache<number>({
+    maxEntries: 10,
+    ttlMs: 20,
+    // too slow to matter here
+    purgeIntervalMs: 60_000,
+  });
+
+  cache.set("a", 1);
+  await sleep(30);
+  cache.set("b", 2);
+
+  assert.deepEqual(cache.values(), [2]);
+});
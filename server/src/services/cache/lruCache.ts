@@ -0,0 +1,230 @@
+// server/src/services/cache/lruCache.ts
+// Size-bounded LRU cache with per-entry TTL, optionally persisted to disk
+// so it survives restarts.
+
+import fs from "fs/promises";
+import path from "path";
+import { writeFileAtomic } from "../repositories/atomicFile";
+import { logger } from "../observability";
+
+export type CacheStats = {
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  // removed to make room (least recently used first)
+  evictions: number;
+  // removed because their TTL ran out
+  expirations: number;
+};
+
+export type LruCacheOptions<T = unknown> = {
+  maxEntries: number;
+  ttlMs: number;
+  // JSON file to load from / save to; omit for memory only
+  persistPath?: string;
+  // how long to wait after a change before saving (batches writes)
+  persistDelayMs?: number;
+  // how often expired entries are dropped even if nothing touches the
+  // cache (default: the TTL, at most a minute)
+  purgeIntervalMs?: number;
+  // told about every entry added (set or loaded) and every entry that
+  // leaves (deleted, evicted or expired), e.g. to keep an index in step
+  onSet?: (key: string, value: T) => void;
+  onRemove?: (key: string) => void;
+};
+
+export type LruCache<T> = {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): boolean;
+  // every live (unexpired) value, least recently used first
+  values(): T[];
+  stats(): CacheStats;
+  // read persisted entries (call once at startup)
+  load(): Promise<void>;
+  // write pending changes now (e.g. before shutdown)
+  flush(): Promise<void>;
+};
+
+type Entry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+// On-disk shape
+type PersistedCache<T> = {
+  entries: { key: string; value: T; expiresAt: number }[];
+};
+
+/**
+ * Create an LRU cache. A Map keeps insertion order, so re-inserting on
+ * every read keeps the least recently used entry first.
+ */
+export function createLruCache<T>(options: LruCacheOptions<T>): LruCache<T> {
+  const { maxEntries, ttlMs, persistPath, persistDelayMs = 1000 } = options;
+  const { purgeIntervalMs = Math.min(ttlMs, 60_000) } = options;
+  const { onSet, onRemove } = options;
+
+  const entries = new Map<string, Entry<T>>();
+  const counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+  let saveTimer: NodeJS.Timeout | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  function isExpired(entry: Entry<T>, now = Date.now()) {
+    return entry.expiresAt <= now;
+  }
+
+  /**
+   * Drop every expired entry, telling onRemove: an entry nobody reads
+   * again must still leave (and leave whatever onRemove keeps in step).
+   */
+  function purgeExpired(now = Date.now()) {
+    let purged = 0;
+    for (const [key, entry] of entries) {
+      if (!isExpired(entry, now)) continue;
+      entries.delete(key);
+      counters.expirations += 1;
+      onRemove?.(key);
+      purged += 1;
+    }
+    if (purged) scheduleSave();
+  }
+
+  // Expiry doesn't wait for the next read or write; the timer shouldn't
+  // keep the process alive
+  setInterval(purgeExpired, purgeIntervalMs).unref();
+
+  function evictOverflow() {
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+      counters.evictions += 1;
+      onRemove?.(oldest);
+    }
+  }
+
+  function scheduleSave() {
+    if (!persistPath || saveTimer) return;
+
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      void save();
+    }, persistDelayMs);
+
+    // a pending save shouldn't keep the process alive
+    saveTimer.unref();
+  }
+
+  /**
+   * Write live entries to disk. Saves run one after another.
+   */
+  function save(): Promise<void> {
+    if (!persistPath) return Promise.resolve();
+
+    saving = saving.then(async () => {
+      const now = Date.now();
+      const data: PersistedCache<T> = {
+        entries: [...entries]
+          .filter(([, e]) => !isExpired(e, now))
+          .map(([key, e]) => ({ key, value: e.value, expiresAt: e.expiresAt })),
+      };
+
+      try {
+        await fs.mkdir(path.dirname(persistPath), { recursive: true });
+        await writeFileAtomic(persistPath, JSON.stringify(data));
+      } catch (err) {
+        // losing the cache is harmless; don't take the request down with it
+        logger.error("Could not save cache", { path: persistPath, err });
+      }
+    });
+
+    return saving;
+  }
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+
+      if (!entry) {
+        counters.misses += 1;
+        return undefined;
+      }
+
+      if (isExpired(entry)) {
+        entries.delete(key);
+        counters.expirations += 1;
+        onRemove?.(key);
+        counters.misses += 1;
+        scheduleSave();
+        return undefined;
+      }
+
+      // mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      counters.hits += 1;
+
+      return entry.value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      onSet?.(key, value);
+      evictOverflow();
+      scheduleSave();
+    },
+
+    delete(key) {
+      const deleted = entries.delete(key);
+      if (deleted) {
+        onRemove?.(key);
+        scheduleSave();
+      }
+      return deleted;
+    },
+
+    values() {
+      // expired entries are left to the purge timer
+      const now = Date.now();
+      return [...entries.values()]
+        .filter((e) => !isExpired(e, now))
+        .map((e) => e.value);
+    },
+
+    stats() {
+      return { size: entries.size, maxEntries, ttlMs, ...counters };
+    },
+
+    async load() {
+      if (!persistPath) return;
+
+      let data: PersistedCache<T>;
+      try {
+        data = JSON.parse(await fs.readFile(persistPath, "utf-8"));
+      } catch {
+        // missing or unreadable: start empty
+        return;
+      }
+
+      const now = Date.now();
+      for (const { key, value, expiresAt } of data.entries ?? []) {
+        if (typeof key !== "string" || !(expiresAt > now)) continue;
+        entries.set(key, { value, expiresAt });
+        onSet?.(key, value);
+      }
+      evictOverflow();
+    },
+
+    async flush() {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      await save();
+    },
+  };
+}
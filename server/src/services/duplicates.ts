@@ -0,0 +1,57 @@
+// server/src/services/duplicates.ts
+// The same film can be both a local movie and a provider movie (or be in
+// two providers). Copies are recognised by folded title plus year; when
+// they're collapsed, the local copy wins, then providers in registration
+// order, and the kept movie links to every origin.
+
+import type { Movie, MovieOrigin } from "../types/movie";
+import { findProviderForId, listProviders } from "./providers/registry";
+import { tokenize } from "./search/text";
+
+/**
+ * Same for every copy of one film: "Amélie!" (2001) and "amelie" (2001)
+ * both give "amelie|2001".
+ */
+export function duplicateKey(movie: Pick<Movie, "title" | "year">): string {
+  return `${tokenize(movie.title).join(" ")}|${movie.year}`;
+}
+
+/**
+ * Where a movie comes from: "local" or its provider's name.
+ */
+export function originOf(movie: Movie): MovieOrigin {
+  const source =
+    movie.source === "local"
+      ? "local"
+      : findProviderForId(movie.id)?.name ?? movie.source;
+  return { source, id: movie.id };
+}
+
+// lower ranks are preferred: local, then providers in registration order
+function rank(movie: Movie): number {
+  if (movie.source === "local") return -1;
+  const provider = findProviderForId(movie.id);
+  return provider ? listProviders().indexOf(provider) : Infinity;
+}
+
+/**
+ * True when one of `copies` is preferred over `movie`, i.e. a collapsed
+ * list shows that copy instead.
+ */
+export function isShadowed(movie: Movie, copies: Movie[]): boolean {
+  const own = rank(movie);
+  return copies.some((copy) => rank(copy) < own);
+}
+
+/**
+ * `movie` with links to itself and each of its copies, preferred first.
+ */
+export function withOrigins(
+  movie: Movie,
+  copies: Movie[]
+): Movie & { origins: MovieOrigin[] } {
+  const origins = [movie, ...copies]
+    .sort((a, b) => rank(a) - rank(b))
+    .map(originOf);
+  return { ...movie, origins };
+}
@@ -0,0 +1,28 @@
+// server/src/services/events/index.ts
+// The one log of local movie changes, fed by the store and read by
+// GET /movies/events.
+
+import { createMovieEventLog, type MovieEventLog } from "./movieEvents";
+
+export * from "./movieEvents";
+export { withMovieEvents } from "./publishingRepository";
+
+// Events a reconnecting client can catch up on; further behind, it
+// reloads instead
+const HISTORY_SIZE = 1000;
+
+const movieEvents = createMovieEventLog(HISTORY_SIZE);
+
+/**
+ * The log of changes to local movies.
+ */
+export function getMovieEvents(): MovieEventLog {
+  return movieEvents;
+}
+
+/**
+ * End every event stream (at shutdown, so they don't hold it up).
+ */
+export function closeMovieEvents(): void {
+  movieEvents.close();
+}
@@ -0,0 +1,122 @@
+// server/src/services/events/movieEvents.ts
+// Changes to local movies as a stream of events (GET /movies/events).
+// Every event gets an id; the most recent ones are kept, so a client
+// that reconnects with the last id it saw gets what it missed.
+
+import { randomUUID } from "crypto";
+import type { Movie } from "../../types/movie";
+
+/**
+ * What changed. "reset" means "too much to say": reload everything (a
+ * snapshot was restored, or a client can't resume where it left off).
+ */
+export type MovieChange =
+  | { type: "created"; movie: Movie }
+  | { type: "updated"; movie: Movie }
+  | { type: "deleted"; id: string }
+  | { type: "reset" };
+
+/**
+ * A change with its id ("<instance>.<sequence>") and when it happened.
+ */
+export type MovieEvent = MovieChange & { eventId: string; at: string };
+
+export type MovieEventListener = {
+  event(event: MovieEvent): void;
+  // the log was closed (shutdown); nothing more will come
+  close(): void;
+};
+
+export type MovieEventSubscription = {
+  // events after the client's last id, or null if they're no longer
+  // known (it must reload; `resumeFrom` is where to go on from)
+  missed: MovieEvent[] | null;
+  resumeFrom: string;
+  unsubscribe(): void;
+};
+
+export type MovieEventLog = {
+  publish(change: MovieChange): MovieEvent;
+  // listen from now on, after replaying what came after lastEventId
+  subscribe(
+    listener: MovieEventListener,
+    lastEventId?: string
+  ): MovieEventSubscription;
+  subscriberCount(): number;
+  // tell every subscriber to go, and turn new ones away
+  close(): void;
+};
+
+/**
+ * Create an event log keeping the last `historySize` events.
+ */
+export function createMovieEventLog(historySize: number): MovieEventLog {
+  // new for every process: ids from before a restart can't be resumed
+  const instance = randomUUID().slice(0, 8);
+  let sequence = 0;
+  let closed = false;
+
+  // oldest first
+  const history: MovieEvent[] = [];
+  const listeners = new Set<MovieEventListener>();
+
+  /**
+   * The sequence number of one of our ids, or null if it isn't one.
+   */
+  function sequenceOf(eventId: string): number | null {
+    const [prefix, n] = eventId.split(".");
+    const parsed = Number(n);
+    return prefix === instance && Number.isInteger(parsed) ? parsed : null;
+  }
+
+  /**
+   * The events after `lastEventId`, or null when some of them have been
+   * dropped from the history (or the id isn't ours).
+   */
+  function after(lastEventId: string): MovieEvent[] | null {
+    const last = sequenceOf(lastEventId);
+    if (last === null || last > sequence) return null;
+
+    const oldestKept = sequence - history.length;
+    if (last < oldestKept) return null;
+    return history.slice(last - oldestKept);
+  }
+
+  return {
+    publish(change) {
+      sequence += 1;
+      const event: MovieEvent = {
+        ...change,
+        eventId: `${instance}.${sequence}`,
+        at: new Date().toISOString(),
+      };
+
+      history.push(event);
+      if (history.length > historySize) history.shift();
+
+      for (const listener of listeners) listener.event(event);
+      return event;
+    },
+
+    subscribe(listener, lastEventId) {
+      const resumeFrom = `${instance}.${sequence}`;
+      const missed = lastEventId === undefined ? [] : after(lastEventId);
+      const unsubscribe = () => {
+        listeners.delete(listener);
+      };
+
+      if (closed) listener.close();
+      else listeners.add(listener);
+
+      return { missed, resumeFrom, unsubscribe };
+    },
+
+    subscriberCount: () => listeners.size,
+
+    close() {
+      closed = true;
+      for (const listener of listeners) listener.close();
+      listeners.clear();
+    },
+  };
+}
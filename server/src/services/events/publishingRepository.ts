@@ -0,0 +1,60 @@
+// server/src/services/events/publishingRepository.ts
+// A MovieRepository that publishes every change it makes to local movies
+// (see movieEvents.ts). Failed writes publish nothing.
+
+import type { MovieRepository } from "../../types/repository";
+import type { MovieEventLog } from "./movieEvents";
+
+/**
+ * Wrap `repo` so its writes are published to `log`.
+ */
+export function withMovieEvents(
+  repo: MovieRepository,
+  log: MovieEventLog
+): MovieRepository {
+  return {
+    ...repo,
+
+    async create(input) {
+      const movie = await repo.create(input);
+      log.publish({ type: "created", movie });
+      return movie;
+    },
+
+    async replace(id, input, condition) {
+      const movie = await repo.replace(id, input, condition);
+      if (movie) log.publish({ type: "updated", movie });
+      return movie;
+    },
+
+    async update(id, changes, condition) {
+      const movie = await repo.update(id, changes, condition);
+      if (movie) log.publish({ type: "updated", movie });
+      return movie;
+    },
+
+    async bulkWrite(changes) {
+      const result = await repo.bulkWrite(changes);
+      for (const movie of result.created) {
+        log.publish({ type: "created", movie });
+      }
+      for (const movie of result.replaced) {
+        log.publish({ type: "updated", movie });
+      }
+      return result;
+    },
+
+    async delete(id, condition) {
+      const deleted = await repo.delete(id, condition);
+      if (deleted) log.publish({ type: "deleted", id });
+      return deleted;
+    },
+
+    restoreSnapshot:
+      repo.restoreSnapshot &&
+      (async (name) => {
+        await repo.restoreSnapshot!(name);
+        log.publish({ type: "reset" });
+      }),
+  };
+}
@@ -0,0 +1,32 @@
+// server/src/services/lists/errors.ts
+// Errors of the personal lists that routes turn into responses.
+
+/**
+ * Another of the user's lists already has the name.
+ */
+export class ListNameTakenError extends Error {
+  constructor(name: string) {
+    super(`You already have a list called "${name}"`);
+    this.name = "ListNameTakenError";
+  }
+}
+
+/**
+ * Renaming or deleting the watchlist or favourites.
+ */
+export class BuiltInListError extends Error {
+  constructor(action: string) {
+    super(`The watchlist and favourites can't be ${action}`);
+    this.name = "BuiltInListError";
+  }
+}
+
+/**
+ * A list, or the number of lists, is at its limit.
+ */
+export class ListLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ListLimitError";
+  }
+}
@@ -0,0 +1,43 @@
+// server/src/services/lists/index.ts
+// Personal lists and ratings. Call initLists() at startup.
+
+import path from "path";
+import { getConfig } from "../../config";
+import { createListStore, type ListStore } from "./listStore";
+import { createRatingStore, type RatingStore } from "./ratingStore";
+
+export * from "./errors";
+export type { ListStore } from "./listStore";
+export type { RatingInput, RatingStore } from "./ratingStore";
+
+const LIST_LIMITS = {
+  maxListsPerUser: 50,
+  maxItemsPerList: 1000,
+};
+
+let lists: ListStore | null = null;
+let ratings: RatingStore | null = null;
+
+export async function initLists(): Promise<void> {
+  const { dataDir } = getConfig();
+  lists = createListStore(path.join(dataDir, "lists.json"), LIST_LIMITS);
+  ratings = createRatingStore(path.join(dataDir, "ratings.json"));
+  await Promise.all([lists.init(), ratings.init()]);
+}
+
+/**
+ * Let pending saves of lists and ratings finish.
+ */
+export async function closeLists(): Promise<void> {
+  await Promise.all([lists?.close(), ratings?.close()]);
+}
+
+export function getListStore(): ListStore {
+  if (!lists) throw new Error("Lists not initialised (call initLists)");
+  return lists;
+}
+
+export function getRatingStore(): RatingStore {
+  if (!ratings) throw new Error("Lists not initialised (call initLists)");
+  return ratings;
+}
@@ -0,0 +1,241 @@
+// server/src/services/lists/listStore.ts
+// Every user's movie lists, in one JSON file (data/lists.json). The
+// watchlist and favourites aren't stored until something is added.
+
+import { randomUUID } from "crypto";
+import {
+  BUILT_IN_LISTS,
+  type BuiltInList,
+  type MovieList,
+} from "../../types/lists";
+import { createJsonDocument } from "../repositories/jsonDocument";
+import {
+  BuiltInListError,
+  ListLimitError,
+  ListNameTakenError,
+} from "./errors";
+
+type ListsFile = { lists: MovieList[] };
+
+export type ListStore = {
+  init(): Promise<void>;
+
+  // let pending saves finish
+  close(): Promise<void>;
+
+  // the built-in lists first, then custom ones oldest first
+  listsOf(userId: string): MovieList[];
+  get(userId: string, listId: string): MovieList | null;
+
+  // custom list; throws ListNameTakenError, ListLimitError
+  create(userId: string, name: string): Promise<MovieList>;
+
+  // null when there's no such list; throws BuiltInListError
+  rename(
+    userId: string,
+    listId: string,
+    name: string
+  ): Promise<MovieList | null>;
+  remove(userId: string, listId: string): Promise<boolean>;
+
+  // null when there's no such list; adding twice keeps the first addedAt
+  addItem(
+    userId: string,
+    listId: string,
+    movieId: string
+  ): Promise<{ list: MovieList; added: boolean } | null>;
+  removeItem(
+    userId: string,
+    listId: string,
+    movieId: string
+  ): Promise<{ list: MovieList; removed: boolean } | null>;
+};
+
+export type ListStoreOptions = {
+  maxListsPerUser: number;
+  maxItemsPerList: number;
+};
+
+const BUILT_IN_NAMES: Record<BuiltInList, string> = {
+  watchlist: "Watchlist",
+  favourites: "Favourites",
+};
+
+function isBuiltIn(listId: string): listId is BuiltInList {
+  return (BUILT_IN_LISTS as readonly string[]).includes(listId);
+}
+
+function emptyBuiltIn(userId: string, kind: BuiltInList): MovieList {
+  return {
+    id: kind,
+    userId,
+    kind,
+    name: BUILT_IN_NAMES[kind],
+    items: [],
+    updatedAt: null,
+  };
+}
+
+function parseListsFile(raw: unknown): ListsFile {
+  const file = raw as Partial<ListsFile> | null;
+  if (!Array.isArray(file?.lists)) throw new Error("Not a lists file");
+  return { lists: file.lists };
+}
+
+export function createListStore(
+  filePath: string,
+  options: ListStoreOptions
+): ListStore {
+  const doc = createJsonDocument<ListsFile>(filePath, {
+    empty: { lists: [] },
+    parse: parseListsFile,
+  });
+
+  function stored(lists: MovieList[], userId: string, listId: string) {
+    return lists.find((l) => l.userId === userId && l.id === listId);
+  }
+
+  function get(userId: string, listId: string): MovieList | null {
+    const list = stored(doc.get().lists, userId, listId);
+    if (list) return list;
+    return isBuiltIn(listId) ? emptyBuiltIn(userId, listId) : null;
+  }
+
+  function listsOf(userId: string): MovieList[] {
+    const own = doc.get().lists.filter((l) => l.userId === userId);
+    const builtIns = BUILT_IN_LISTS.map(
+      (kind) => own.find((l) => l.id === kind) ?? emptyBuiltIn(userId, kind)
+    );
+    return [...builtIns, ...own.filter((l) => l.kind === "custom")];
+  }
+
+  function ensureNameFree(userId: string, name: string, exceptId?: string) {
+    const wanted = name.trim().toLowerCase();
+    const clash = listsOf(userId).find(
+      (l) => l.id !== exceptId && l.name.toLowerCase() === wanted
+    );
+    if (clash) throw new ListNameTakenError(name);
+  }
+
+  /**
+   * Replace (or first store) one list of a user.
+   */
+  function withList(lists: MovieList[], list: MovieList): MovieList[] {
+    const exists = lists.some(
+      (l) => l.userId === list.userId && l.id === list.id
+    );
+    return exists
+      ? lists.map((l) =>
+          l.userId === list.userId && l.id === list.id ? list : l
+        )
+      : [...lists, list];
+  }
+
+  return {
+    init: () => doc.init(),
+
+    close: () => doc.close(),
+
+    listsOf,
+
+    get,
+
+    create(userId, name) {
+      return doc.change(async ({ lists }, save) => {
+        ensureNameFree(userId, name);
+
+        const custom = lists.filter(
+          (l) => l.userId === userId && l.kind === "custom"
+        );
+        if (custom.length >= options.maxListsPerUser) {
+          throw new ListLimitError(
+            `You can have at most ${options.maxListsPerUser} lists of your own`
+          );
+        }
+
+        const list: MovieList = {
+          id: `list_${randomUUID()}`,
+          userId,
+          kind: "custom",
+          name: name.trim(),
+          items: [],
+          updatedAt: new Date().toISOString(),
+        };
+        await save({ lists: [...lists, list] });
+        return list;
+      });
+    },
+
+    rename(userId, listId, name) {
+      return doc.change(async ({ lists }, save) => {
+        if (isBuiltIn(listId)) throw new BuiltInListError("renamed");
+
+        const list = stored(lists, userId, listId);
+        if (!list) return null;
+        ensureNameFree(userId, name, listId);
+
+        const renamed = {
+          ...list,
+          name: name.trim(),
+          updatedAt: new Date().toISOString(),
+        };
+        await save({ lists: withList(lists, renamed) });
+        return renamed;
+      });
+    },
+
+    remove(userId, listId) {
+      return doc.change(async ({ lists }, save) => {
+        if (isBuiltIn(listId)) throw new BuiltInListError("deleted");
+        if (!stored(lists, userId, listId)) return false;
+
+        await save({
+          lists: lists.filter((l) => !(l.userId === userId && l.id === listId)),
+        });
+        return true;
+      });
+    },
+
+    addItem(userId, listId, movieId) {
+      return doc.change(async ({ lists }, save) => {
+        const list = get(userId, listId);
+        if (!list) return null;
+        if (list.items.some((i) => i.movieId === movieId)) {
+          return { list, added: false };
+        }
+        if (list.items.length >= options.maxItemsPerList) {
+          throw new ListLimitError(
+            `A list can hold at most ${options.maxItemsPerList} movies`
+          );
+        }
+
+        const now = new Date().toISOString();
+        const updated = {
+          ...list,
+          items: [...list.items, { movieId, addedAt: now }],
+          updatedAt: now,
+        };
+        await save({ lists: withList(lists, updated) });
+        return { list: updated, added: true };
+      });
+    },
+
+    removeItem(userId, listId, movieId) {
+      return doc.change(async ({ lists }, save) => {
+        const list = get(userId, listId);
+        if (!list) return null;
+        if (!list.items.some((i) => i.movieId === movieId)) {
+          return { list, removed: false };
+        }
+
+        const updated = {
+          ...list,
+          items: list.items.filter((i) => i.movieId !== movieId),
+          updatedAt: new Date().toISOString(),
+        };
+        await save({ lists: withList(lists, updated) });
+        return { list: updated, removed: true };
+      });
+    },
+  };
+}
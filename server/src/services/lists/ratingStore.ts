@@ -0,0 +1,84 @@
+// server/src/services/lists/ratingStore.ts
+// Every user's movie ratings, in one JSON file (data/ratings.json).
+
+import type { MovieRating } from "../../types/lists";
+import { createJsonDocument } from "../repositories/jsonDocument";
+
+type RatingsFile = { ratings: MovieRating[] };
+
+export type RatingInput = Pick<MovieRating, "stars" | "watchedAt">;
+
+export type RatingStore = {
+  init(): Promise<void>;
+
+  // let pending saves finish
+  close(): Promise<void>;
+
+  get(userId: string, movieId: string): MovieRating | null;
+
+  // the user's ratings by movie id
+  ofUser(userId: string): Map<string, MovieRating>;
+
+  // replaces the user's rating of the movie
+  set(
+    userId: string,
+    movieId: string,
+    input: RatingInput
+  ): Promise<MovieRating>;
+
+  remove(userId: string, movieId: string): Promise<boolean>;
+};
+
+function parseRatingsFile(raw: unknown): RatingsFile {
+  const file = raw as Partial<RatingsFile> | null;
+  if (!Array.isArray(file?.ratings)) throw new Error("Not a ratings file");
+  return { ratings: file.ratings };
+}
+
+export function createRatingStore(filePath: string): RatingStore {
+  const doc = createJsonDocument<RatingsFile>(filePath, {
+    empty: { ratings: [] },
+    parse: parseRatingsFile,
+  });
+
+  const isOf = (userId: string, movieId: string) => (r: MovieRating) =>
+    r.userId === userId && r.movieId === movieId;
+
+  return {
+    init: () => doc.init(),
+
+    close: () => doc.close(),
+
+    get: (userId, movieId) =>
+      doc.get().ratings.find(isOf(userId, movieId)) ?? null,
+
+    ofUser(userId) {
+      const own = doc.get().ratings.filter((r) => r.userId === userId);
+      return new Map(own.map((r) => [r.movieId, r]));
+    },
+
+    set(userId, movieId, input) {
+      return doc.change(async ({ ratings }, save) => {
+        const rating: MovieRating = {
+          userId,
+          movieId,
+          stars: input.stars,
+          watchedAt: input.watchedAt,
+          updatedAt: new Date().toISOString(),
+        };
+        const others = ratings.filter((r) => !isOf(userId, movieId)(r));
+        await save({ ratings: [...others, rating] });
+        return rating;
+      });
+    },
+
+    remove(userId, movieId) {
+      return doc.change(async ({ ratings }, save) => {
+        if (!ratings.some(isOf(userId, movieId))) return false;
+        const others = ratings.filter((r) => !isOf(userId, movieId)(r));
+        await save({ ratings: others });
+        return true;
+      });
+    },
+  };
+}
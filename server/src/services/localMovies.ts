@@ -0,0 +1,50 @@
+// server/src/services/localMovies.ts
+// Local movies as the routes list them: searches are answered from the
+// search index, everything else by the repository.
+
+import type { LocalMoviePage, LocalMovieQuery } from "../types/repository";
+import { matchesFilters, sortMovies } from "./movieQuery";
+import { StoreUnavailableError } from "./repositories/errors";
+import { getSearchIndex } from "./search";
+import { getMovieRepository } from "./store";
+
+/**
+ * Throw StoreUnavailableError if the local store can't be read.
+ * The search index keeps local movies after the store goes bad, so
+ * answers built from the index check this first.
+ */
+export async function ensureStoreReadable() {
+  const health = await getMovieRepository().health();
+  if (health.status !== "ok") {
+    throw new StoreUnavailableError(
+      `Local movie store is unavailable: ${health.detail}`
+    );
+  }
+}
+
+/**
+ * Local movies for a list or export. A search is answered from the search
+ * index (best match first unless a sort is given); everything else is
+ * filtered and paged by the repository.
+ */
+export async function listLocalMovies(
+  query: LocalMovieQuery
+): Promise<LocalMoviePage> {
+  const { search, sort, offset, limit, ...filters } = query;
+
+  if (!search) {
+    return getMovieRepository().list({ ...filters, sort, offset, limit });
+  }
+
+  await ensureStoreReadable();
+
+  const hits = getSearchIndex().search(search, {
+    filter: (m) => m.source === "local" && matchesFilters(m, filters),
+  });
+  const movies = sortMovies(
+    hits.map((h) => h.movie),
+    sort
+  );
+
+  return { items: movies.slice(offset, offset + limit), total: movies.length };
+}
@@ -0,0 +1,119 @@
+// Schema versions of data/movies.json and how to upgrade between them.
+
+import type { Movie } from "../types/movie";
+import { inferCreatedAt } from "./repositories/localMovie";
+
+/**
+ * Version written by this build. Bump it and add a migration
+ * whenever the on-disk shape changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/**
+ * On-disk shape of data/movies.json (current version).
+ */
+export type MoviesFile = {
+  schemaVersion: number;
+  movies: Movie[];
+};
+
+type Migration = {
+  // version this migration upgrades from
+  from: number;
+  up: (data: unknown) => unknown;
+};
+
+/**
+ * Ordered list of migrations. Each one takes the file at version `from`
+ * and returns it at version `from + 1`.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // v1: a bare array of { id, title, year, source }
+    // v2: { schemaVersion, movies } so the file can say which version it is
+    from: 1,
+    up: (data) => ({ schemaVersion: 2, movies: data as Movie[] }),
+  },
+  {
+    // v3: every movie has createdAt (so lists can sort by it)
+    from: 2,
+    up: (data) => {
+      const { movies } = data as MoviesFile;
+      const now = new Date().toISOString();
+
+      return {
+        schemaVersion: 3,
+        movies: Array.isArray(movies)
+          ? movies.map((m) => ({
+              ...m,
+              createdAt: m.createdAt ?? inferCreatedAt(m.id, now),
+            }))
+          : movies,
+      };
+    },
+  },
+];
+
+/**
+ * Work out which version a parsed file is.
+ * Files written before versioning existed are bare arrays (v1).
+ */
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 1;
+
+  const version = (data as { schemaVersion?: unknown } | null)?.schemaVersion;
+  if (typeof version === "number" && Number.isInteger(version)) {
+    return version;
+  }
+
+  throw new Error("movies.json has no schemaVersion");
+}
+
+/**
+ * Upgrade a parsed movies.json to the current schema.
+ * Throws if the file is from a newer build or isn't a movies file at all.
+ */
+export function migrateMoviesFile(data: unknown): {
+  file: MoviesFile;
+  migrated: boolean;
+} {
+  let version = detectVersion(data);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `movies.json is schema v${version}, this server only knows up to v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  const startVersion = version;
+  let current = data;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration from movies.json schema v${version}`);
+    }
+
+    current = migration.up(current);
+    version += 1;
+  }
+
+  const file = current as MoviesFile;
+  if (!Array.isArray(file.movies)) {
+    throw new Error("movies.json has no movies array");
+  }
+
+  // every entry needs at least the core fields
+  const bad = file.movies.findIndex(
+    (m) =>
+      !m ||
+      typeof m.id !== "string" ||
+      typeof m.title !== "string" ||
+      typeof m.year !== "number"
+  );
+  if (bad !== -1) {
+    throw new Error(`movies.json entry ${bad} is missing id, title or year`);
+  }
+
+  return { file, migrated: version !== startVersion };
+}
@@ -0,0 +1,216 @@
+// server/src/services/mirror/catalogueMirror.ts
+// A local copy of one provider's whole catalogue, kept in memory and
+// saved to a JSON file. The sync job fills it; once a full crawl has
+// finished, lists, search and lookups can be served from it.
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { Movie } from "../../types/movie";
+import { writeFileAtomic } from "../repositories/atomicFile";
+import { createWriteQueue } from "../repositories/writeQueue";
+
+/**
+ * Counters of one sync run.
+ */
+export type SyncRunStats = {
+  startedAt: string;
+  finishedAt: string | null;
+  status: "running" | "completed" | "failed" | "stopped";
+  pages: number;
+  fetched: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  error?: string;
+};
+
+/**
+ * Where an unfinished crawl stopped, so the next run resumes there.
+ * seenIds are the movies found so far (anything not seen by the end of
+ * the crawl was removed upstream).
+ */
+export type SyncProgress = {
+  nextPage: number;
+  lastPage: number | null;
+  seenIds: string[];
+  run: SyncRunStats;
+};
+
+export type MirrorChange = "added" | "updated" | "unchanged";
+
+export type CatalogueMirrorOptions = {
+  filePath: string;
+  // told about every movie stored or dropped (e.g. for the search index)
+  onSet?: (movie: Movie) => void;
+  onRemove?: (id: string) => void;
+};
+
+export type CatalogueMirror = {
+  // read the saved mirror (call once at startup)
+  load(): Promise<void>;
+  // write everything, including progress, to disk
+  save(): Promise<void>;
+
+  get(id: string): Movie | undefined;
+  size(): number;
+  // the whole catalogue in upstream order, or null until a crawl finished
+  catalogue(): Movie[] | null;
+
+  // store a movie and say whether that changed anything
+  upsert(movie: Movie): MirrorChange;
+  // end of a crawl: drop movies not seen, adopt the crawl's order;
+  // returns how many were dropped
+  finishCrawl(seenIds: string[], finishedAt: string): number;
+
+  complete(): boolean;
+  lastSyncedAt(): string | null;
+  progress(): SyncProgress | null;
+  setProgress(progress: SyncProgress | null): void;
+  lastRun(): SyncRunStats | null;
+  setLastRun(run: SyncRunStats): void;
+};
+
+// On-disk shape
+type MirrorFile = {
+  version: 1;
+  complete: boolean;
+  lastSyncedAt: string | null;
+  progress: SyncProgress | null;
+  lastRun: SyncRunStats | null;
+  entries: { movie: Movie; hash: string }[];
+};
+
+/**
+ * Fingerprint of a movie's content, for change detection.
+ */
+function hashMovie(movie: Movie): string {
+  return createHash("sha1").update(JSON.stringify(movie)).digest("hex");
+}
+
+/**
+ * Create an empty mirror backed by `filePath`.
+ */
+export function createCatalogueMirror(
+  options: CatalogueMirrorOptions
+): CatalogueMirror {
+  const { filePath, onSet, onRemove } = options;
+
+  // id -> movie + hash, in upstream order
+  let entries = new Map<string, { movie: Movie; hash: string }>();
+  let complete = false;
+  let lastSyncedAt: string | null = null;
+  let progress: SyncProgress | null = null;
+  let lastRun: SyncRunStats | null = null;
+
+  // catalogue() result, rebuilt after a change
+  let cachedList: Movie[] | null = null;
+
+  // saves run one at a time
+  const saves = createWriteQueue();
+
+  return {
+    async load() {
+      let data: MirrorFile;
+      try {
+        data = JSON.parse(await fs.readFile(filePath, "utf-8"));
+      } catch {
+        // missing or unreadable: the next sync starts from scratch
+        return;
+      }
+
+      for (const entry of data.entries ?? []) {
+        if (typeof entry?.movie?.id !== "string") continue;
+        entries.set(entry.movie.id, entry);
+        onSet?.(entry.movie);
+      }
+
+      complete = data.complete === true;
+      lastSyncedAt = data.lastSyncedAt ?? null;
+      progress = data.progress ?? null;
+      lastRun = data.lastRun ?? null;
+      cachedList = null;
+    },
+
+    save() {
+      return saves.run(async () => {
+        const data: MirrorFile = {
+          version: 1,
+          complete,
+          lastSyncedAt,
+          progress,
+          lastRun,
+          entries: [...entries.values()],
+        };
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await writeFileAtomic(filePath, JSON.stringify(data));
+      });
+    },
+
+    get(id) {
+      return entries.get(id)?.movie;
+    },
+
+    size() {
+      return entries.size;
+    },
+
+    catalogue() {
+      if (!complete) return null;
+      cachedList ??= [...entries.values()].map((e) => e.movie);
+      return cachedList;
+    },
+
+    upsert(movie) {
+      const hash = hashMovie(movie);
+      const existing = entries.get(movie.id);
+      if (existing?.hash === hash) return "unchanged";
+
+      // an update keeps the movie's place until the crawl finishes
+      entries.set(movie.id, { movie, hash });
+      cachedList = null;
+      onSet?.(movie);
+
+      return existing ? "updated" : "added";
+    },
+
+    finishCrawl(seenIds, finishedAt) {
+      const ordered = new Map<string, { movie: Movie; hash: string }>();
+      for (const id of seenIds) {
+        const entry = entries.get(id);
+        if (entry) ordered.set(id, entry);
+      }
+
+      let removed = 0;
+      for (const id of entries.keys()) {
+        if (!ordered.has(id)) {
+          removed += 1;
+          onRemove?.(id);
+        }
+      }
+
+      entries = ordered;
+      complete = true;
+      lastSyncedAt = finishedAt;
+      cachedList = null;
+
+      return removed;
+    },
+
+    complete: () => complete,
+    lastSyncedAt: () => lastSyncedAt,
+    progress: () => progress,
+
+    setProgress(next) {
+      progress = next;
+    },
+
+    lastRun: () => lastRun,
+
+    setLastRun(run) {
+      lastRun = run;
+    },
+  };
+}
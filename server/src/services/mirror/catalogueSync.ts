@@ -0,0 +1,282 @@
+// server/src/services/mirror/catalogueSync.ts
+// Background job that crawls a provider page by page into its mirror.
+// Runs on a schedule or when triggered, waits between pages so we don't
+// hammer the upstream, saves its position regularly so a failed or
+// interrupted crawl resumes where it stopped, and counts what changed.
+
+import type { MovieProvider } from "../../types/provider";
+import { logger, newRequestId, runWithContext } from "../observability";
+import type {
+  CatalogueMirror,
+  SyncProgress,
+  SyncRunStats,
+} from "./catalogueMirror";
+
+export type CatalogueSyncOptions = {
+  // the live provider (not the mirrored one, or we'd crawl ourselves)
+  provider: MovieProvider;
+  mirror: CatalogueMirror;
+  // time between runs; 0 = only when triggered
+  intervalMs: number;
+  // wait between page requests (rate limit)
+  pageDelayMs: number;
+  // save progress every N pages
+  checkpointEvery: number;
+};
+
+export type SyncStatus = {
+  provider: string;
+  running: boolean;
+  nextRunAt: string | null;
+  mirror: {
+    size: number;
+    complete: boolean;
+    lastSyncedAt: string | null;
+  };
+  // the unfinished crawl, if any (running now or waiting to resume)
+  progress: {
+    nextPage: number;
+    lastPage: number | null;
+    run: SyncRunStats;
+  } | null;
+  lastRun: SyncRunStats | null;
+};
+
+export type CatalogueSync = {
+  // schedule runs (the first one right away if the mirror is out of date)
+  start(): void;
+  // cancel the schedule and stop a running crawl after its current page
+  stop(): Promise<void>;
+  // run now; false if a run is already going
+  trigger(): boolean;
+  status(): SyncStatus;
+};
+
+// A failed run is retried sooner than the normal interval
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+/**
+ * Create the sync job for one provider.
+ */
+export function createCatalogueSync(
+  options: CatalogueSyncOptions
+): CatalogueSync {
+  const { provider, mirror, intervalMs, pageDelayMs, checkpointEvery } =
+    options;
+
+  let running: Promise<void> | null = null;
+  let stopping = false;
+  let timer: NodeJS.Timeout | null = null;
+  let nextRunAt: number | null = null;
+  // lets stop() cut the wait between pages short
+  let wakeUp: (() => void) | null = null;
+
+  function schedule(delayMs: number) {
+    if (timer) clearTimeout(timer);
+    if (stopping || intervalMs <= 0) return;
+
+    nextRunAt = Date.now() + delayMs;
+    timer = setTimeout(() => {
+      timer = null;
+      nextRunAt = null;
+      runNow();
+    }, delayMs);
+
+    // a pending sync shouldn't keep the process alive
+    timer.unref();
+  }
+
+  function pause(ms: number) {
+    return new Promise<void>((resolve) => {
+      const t = setTimeout(resolve, ms);
+      wakeUp = () => {
+        clearTimeout(t);
+        resolve();
+      };
+    }).finally(() => {
+      wakeUp = null;
+    });
+  }
+
+  function newProgress(): SyncProgress {
+    return {
+      nextPage: 1,
+      lastPage: null,
+      seenIds: [],
+      run: {
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        status: "running",
+        pages: 0,
+        fetched: 0,
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        removed: 0,
+      },
+    };
+  }
+
+  /**
+   * Close the run with `status` and keep it as the last run.
+   */
+  function finishRun(run: SyncRunStats, status: SyncRunStats["status"]) {
+    run.status = status;
+    run.finishedAt = new Date().toISOString();
+    mirror.setLastRun({ ...run });
+  }
+
+  /**
+   * One crawl, resuming a saved one if there is one.
+   */
+  async function crawl() {
+    const progress = mirror.progress() ?? newProgress();
+    progress.run.status = "running";
+    progress.run.finishedAt = null;
+    delete progress.run.error;
+    mirror.setProgress(progress);
+
+    const seen = new Set(progress.seenIds);
+    const { run } = progress;
+    let pagesSinceSave = 0;
+
+    const checkpoint = () => {
+      progress.seenIds = [...seen];
+      return mirror.save();
+    };
+
+    try {
+      while (!stopping) {
+        const page = await provider.listPage(progress.nextPage);
+        run.pages += 1;
+
+        for (const movie of page.items) {
+          run[mirror.upsert(movie)] += 1;
+          run.fetched += 1;
+          seen.add(movie.id);
+        }
+
+        if (page.total !== null && page.perPage > 0) {
+          progress.lastPage = Math.ceil(page.total / page.perPage);
+        }
+
+        const lastPage =
+          page.items.length === 0 ||
+          page.items.length < page.perPage ||
+          (progress.lastPage !== null &&
+            progress.nextPage >= progress.lastPage);
+
+        progress.nextPage += 1;
+
+        if (lastPage) {
+          const finishedAt = new Date().toISOString();
+          run.removed = mirror.finishCrawl([...seen], finishedAt);
+          finishRun(run, "completed");
+          mirror.setProgress(null);
+          await mirror.save();
+
+          logger.info("Sync completed", {
+            provider: provider.name,
+            added: run.added,
+            updated: run.updated,
+            removed: run.removed,
+          });
+          return;
+        }
+
+        if (++pagesSinceSave >= checkpointEvery) {
+          pagesSinceSave = 0;
+          await checkpoint();
+        }
+
+        await pause(pageDelayMs);
+      }
+
+      // stopped: keep the position for the next run
+      finishRun(run, "stopped");
+      await checkpoint();
+    } catch (err) {
+      run.error = err instanceof Error ? err.message : String(err);
+      finishRun(run, "failed");
+      await checkpoint().catch(() => undefined);
+
+      logger.error("Sync failed", { provider: provider.name, err });
+      throw err;
+    }
+  }
+
+  /**
+   * Start a crawl, then schedule the next one.
+   */
+  function runNow() {
+    if (running) return;
+
+    // a correlation id of its own, even when a request triggered it
+    running = runWithContext({ requestId: newRequestId() }, crawl)
+      .then(
+        () => schedule(intervalMs),
+        () => schedule(Math.min(intervalMs, RETRY_AFTER_FAILURE_MS))
+      )
+      .finally(() => {
+        running = null;
+      });
+  }
+
+  return {
+    start() {
+      stopping = false;
+      if (intervalMs <= 0) return;
+
+      // due now if the mirror was never finished, a crawl was cut short,
+      // or the last sync is older than the interval
+      const last = mirror.lastSyncedAt();
+      const age = last ? Date.now() - Date.parse(last) : Infinity;
+      const due = !mirror.complete() || mirror.progress() !== null;
+
+      schedule(due ? 0 : Math.max(0, intervalMs - age));
+    },
+
+    async stop() {
+      stopping = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      nextRunAt = null;
+
+      wakeUp?.();
+      await running;
+    },
+
+    trigger() {
+      if (running) return false;
+
+      stopping = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      nextRunAt = null;
+
+      runNow();
+      return true;
+    },
+
+    status() {
+      const progress = mirror.progress();
+
+      return {
+        provider: provider.name,
+        running: running !== null,
+        nextRunAt: nextRunAt ? new Date(nextRunAt).toISOString() : null,
+        mirror: {
+          size: mirror.size(),
+          complete: mirror.complete(),
+          lastSyncedAt: mirror.lastSyncedAt(),
+        },
+        progress: progress && {
+          nextPage: progress.nextPage,
+          lastPage: progress.lastPage,
+          run: progress.run,
+        },
+        lastRun: mirror.lastRun(),
+      };
+    },
+  };
+}
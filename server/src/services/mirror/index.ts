@@ -0,0 +1,43 @@
+// server/src/services/mirror/index.ts
+// The catalogue sync jobs, one per mirrored provider.
+
+import type { CatalogueSync } from "./catalogueSync";
+
+export * from "./catalogueMirror";
+export * from "./catalogueSync";
+export { withMirror } from "./mirroredProvider";
+
+const syncs = new Map<string, CatalogueSync>();
+
+/**
+ * Add the sync job of a provider (one per provider name).
+ */
+export function registerSync(sync: CatalogueSync): void {
+  const { provider } = sync.status();
+  if (syncs.has(provider)) {
+    throw new Error(`Sync for "${provider}" is already registered`);
+  }
+  syncs.set(provider, sync);
+}
+
+export function listSyncs(): CatalogueSync[] {
+  return [...syncs.values()];
+}
+
+export function getSync(provider: string): CatalogueSync | null {
+  return syncs.get(provider) ?? null;
+}
+
+/**
+ * Schedule every sync (call once mirrors are loaded).
+ */
+export function startSyncs(): void {
+  for (const sync of syncs.values()) sync.start();
+}
+
+/**
+ * Stop every sync, letting running crawls save their position.
+ */
+export async function stopSyncs(): Promise<void> {
+  await Promise.all(listSyncs().map((s) => s.stop()));
+}
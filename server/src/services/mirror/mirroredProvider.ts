@@ -0,0 +1,35 @@
+// server/src/services/mirror/mirroredProvider.ts
+// Serves a provider from its mirror where possible: lookups hit the
+// mirror first, and once a full crawl has finished the whole catalogue
+// is available for lists and search. Everything else stays live.
+
+import type { MovieProvider } from "../../types/provider";
+import type { CatalogueMirror } from "./catalogueMirror";
+
+/**
+ * Wrap `provider` so it reads from `mirror` first.
+ */
+export function withMirror(
+  provider: MovieProvider,
+  mirror: CatalogueMirror
+): MovieProvider {
+  return {
+    ...provider,
+
+    async init() {
+      await provider.init?.();
+      await mirror.load();
+    },
+
+    async close() {
+      await provider.close?.();
+      await mirror.save();
+    },
+
+    async getById(id) {
+      return mirror.get(id) ?? provider.getById(id);
+    },
+
+    catalogue: mirror.catalogue,
+  };
+}
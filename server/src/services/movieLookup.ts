@@ -0,0 +1,19 @@
+// server/src/services/movieLookup.ts
+// Finding any movie by id, whether it's local or a provider's.
+
+import type { Movie } from "../types/movie";
+import { findProviderForId } from "./providers";
+import { getMovieRepository } from "./store";
+
+/**
+ * A movie by id: local movies from the store first, then the provider
+ * that owns the id prefix (its mirror or cache, fetched on a miss).
+ * null when nobody has it.
+ */
+export async function findMovie(id: string): Promise<Movie | null> {
+  const localMovie = await getMovieRepository().findById(id);
+  if (localMovie) return localMovie;
+
+  const provider = findProviderForId(id);
+  return provider ? provider.getById(id) : null;
+}
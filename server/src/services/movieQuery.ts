@@ -0,0 +1,59 @@
+// server/src/services/movieQuery.ts
+// In-memory filtering and sorting of movies. The JSON repository and the
+// provider side of GET /movies use these; SQLite does the same in SQL.
+
+import type { Movie } from "../types/movie";
+import type { MovieFilters, MovieSort } from "../types/movieQuery";
+
+/**
+ * True when the movie passes every filter that is set.
+ */
+export function matchesFilters(movie: Movie, filters: MovieFilters): boolean {
+  const { search, year, yearFrom, yearTo } = filters;
+
+  if (search && !movie.title.toLowerCase().includes(search.toLowerCase())) {
+    return false;
+  }
+  if (year !== undefined && movie.year !== year) return false;
+  if (yearFrom !== undefined && movie.year < yearFrom) return false;
+  if (yearTo !== undefined && movie.year > yearTo) return false;
+
+  return true;
+}
+
+/**
+ * The value a movie is sorted by (undefined = no value, sorts last).
+ * Titles compare case-insensitively, like the SQLite title_search column.
+ */
+function sortKey(movie: Movie, sort: MovieSort): string | number | undefined {
+  switch (sort.field) {
+    case "title":
+      return movie.title.toLowerCase();
+    case "year":
+      return movie.year;
+    case "createdAt":
+      return movie.createdAt;
+    case "source":
+      return movie.source;
+  }
+}
+
+/**
+ * Sorted copy of `movies`. The sort is stable, so ties keep their
+ * original order; movies without a value go last in either direction.
+ */
+export function sortMovies(movies: Movie[], sort: MovieSort | undefined) {
+  if (!sort) return movies;
+
+  const direction = sort.order === "desc" ? -1 : 1;
+
+  return [...movies].sort((a, b) => {
+    const ka = sortKey(a, sort);
+    const kb = sortKey(b, sort);
+
+    if (ka === kb) return 0;
+    if (ka === undefined) return 1;
+    if (kb === undefined) return -1;
+    return (ka < kb ? -1 : 1) * direction;
+  });
+}
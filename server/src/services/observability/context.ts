@@ -0,0 +1,35 @@
+// server/src/services/observability/context.ts
+// The request (or background job) the current code runs for, carried
+// through async calls, so logs and upstream calls can name it without
+// passing it around.
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export type RequestContext = {
+  // correlation id: logged with every line, sent upstream as X-Request-Id
+  requestId: string;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * A fresh correlation id.
+ */
+export function newRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Run `fn` (and everything it starts) as part of `context`.
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The correlation id of the request being handled, if any.
+ */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
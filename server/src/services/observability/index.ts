@@ -0,0 +1,6 @@
+// server/src/services/observability/index.ts
+// Structured logs, request correlation ids and Prometheus metrics.
+
+export * from "./context";
+export * from "./logger";
+export * from "./metrics";
@@ -0,0 +1,63 @@
+// server/src/services/observability/logger.ts
+// Structured logs: one JSON object per line, with the time, level,
+// message and the current request id, e.g.
+// {"time":"...","level":"warn","msg":"Circuit opened","requestId":"...",
+//  "upstream":"third_party"}
+
+import { currentRequestId } from "./context";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+// Lines below this level are dropped (see configureLogger)
+let threshold = LOG_LEVELS.indexOf("info");
+
+/**
+ * Set the lowest level that's written.
+ */
+export function configureLogger(options: { level: LogLevel }): void {
+  threshold = LOG_LEVELS.indexOf(options.level);
+}
+
+/**
+ * An Error as plain fields (JSON.stringify drops them otherwise).
+ */
+function serializeError(err: unknown): unknown {
+  if (!(err instanceof Error)) return err;
+  const { cause } = err as { cause?: unknown };
+  return {
+    name: err.name,
+    message: err.message,
+    stack: err.stack,
+    ...(cause !== undefined && { cause: serializeError(cause) }),
+  };
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}) {
+  if (LOG_LEVELS.indexOf(level) < threshold) return;
+
+  const line: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+  };
+  const requestId = currentRequestId();
+  if (requestId) line.requestId = requestId;
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) line[key] = serializeError(value);
+  }
+
+  // warnings and errors on stderr, like console.warn / console.error
+  const stream = level === "warn" || level === "error" ? "stderr" : "stdout";
+  process[stream].write(`${JSON.stringify(line)}\n`);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
@@ -0,0 +1,190 @@
+// server/src/services/observability/metrics.ts
+// Metrics in the Prometheus text format (GET /metrics). Counters and
+// histograms are updated as things happen; collected metrics are read
+// from their source (e.g. cache stats) at every scrape.
+
+export type Labels = Record<string, string>;
+
+export type Sample = { labels: Labels; value: number };
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+type MetricFamily = {
+  name: string;
+  help: string;
+  type: MetricType;
+  // the exposition lines of the family's samples
+  render(): string[];
+};
+
+// Every defined metric, by name, in definition order
+const families = new Map<string, MetricFamily>();
+
+// Latency buckets in seconds: 5ms to 10s
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function register(family: MetricFamily) {
+  if (families.has(family.name)) {
+    throw new Error(`Metric "${family.name}" is already defined`);
+  }
+  families.set(family.name, family);
+}
+
+function escapeLabel(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * `name{a="1",b="2"} value`
+ */
+function sampleLine(name: string, labels: Labels, value: number) {
+  const pairs = Object.entries(labels).map(
+    ([key, v]) => `${key}="${escapeLabel(v)}"`
+  );
+  const formatted = Number.isFinite(value)
+    ? String(value)
+    : Number.isNaN(value)
+      ? "NaN"
+      : value > 0
+        ? "+Inf"
+        : "-Inf";
+  return pairs.length
+    ? `${name}{${pairs.join(",")}} ${formatted}`
+    : `${name} ${formatted}`;
+}
+
+/**
+ * Same labels, same key, whatever order they were given in.
+ */
+function labelKey(labels: Labels) {
+  const entries = Object.entries(labels);
+  return JSON.stringify(entries.sort(([a], [b]) => (a < b ? -1 : 1)));
+}
+
+/**
+ * A count that only goes up, per label set.
+ */
+export function defineCounter(options: { name: string; help: string }) {
+  const values = new Map<string, Sample>();
+
+  register({
+    ...options,
+    type: "counter",
+    render: () =>
+      [...values.values()].map((s) =>
+        sampleLine(options.name, s.labels, s.value)
+      ),
+  });
+
+  return {
+    inc(labels: Labels = {}, by = 1) {
+      const key = labelKey(labels);
+      const sample = values.get(key) ?? { labels, value: 0 };
+      sample.value += by;
+      values.set(key, sample);
+    },
+  };
+}
+
+/**
+ * How many observations fell in each bucket, per label set (e.g. request
+ * durations in seconds).
+ */
+export function defineHistogram(options: {
+  name: string;
+  help: string;
+  buckets?: number[];
+}) {
+  const buckets = options.buckets ?? DEFAULT_BUCKETS;
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  register({
+    name: options.name,
+    help: options.help,
+    type: "histogram",
+    render() {
+      const lines: string[] = [];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((le, i) =>
+          lines.push(
+            sampleLine(
+              `${options.name}_bucket`,
+              { ...labels, le: String(le) },
+              counts[i]
+            )
+          )
+        );
+        lines.push(
+          sampleLine(
+            `${options.name}_bucket`,
+            { ...labels, le: "+Inf" },
+            count
+          ),
+          sampleLine(`${options.name}_sum`, labels, sum),
+          sampleLine(`${options.name}_count`, labels, count)
+        );
+      }
+      return lines;
+    },
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = labelKey(labels);
+      let s = series.get(key);
+      if (!s) {
+        s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, s);
+      }
+      // buckets are cumulative: every bucket at or above the value
+      buckets.forEach((le, i) => {
+        if (value <= le) s.counts[i] += 1;
+      });
+      s.sum += value;
+      s.count += 1;
+    },
+  };
+}
+
+/**
+ * A metric whose samples are read at scrape time from `collect`.
+ */
+export function defineCollected(options: {
+  name: string;
+  help: string;
+  type: "counter" | "gauge";
+  collect: () => Sample[];
+}): void {
+  register({
+    name: options.name,
+    help: options.help,
+    type: options.type,
+    render: () =>
+      options
+        .collect()
+        .map((s) => sampleLine(options.name, s.labels, s.value)),
+  });
+}
+
+/**
+ * Every metric in the Prometheus text exposition format (version 0.0.4).
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const family of families.values()) {
+    lines.push(
+      `# HELP ${family.name} ${family.help}`,
+      `# TYPE ${family.name} ${family.type}`,
+      ...family.render()
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
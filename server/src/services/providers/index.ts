@@ -0,0 +1,110 @@
+// server/src/services/providers/index.ts
+// The movie providers this server is configured with.
+
+import path from "path";
+import { getConfig } from "../../config";
+import {
+  createCatalogueMirror,
+  createCatalogueSync,
+  registerSync,
+  withMirror,
+} from "../mirror";
+import { getSearchIndex } from "../search";
+import { logger } from "../observability";
+import type { Fetcher } from "../upstream/client";
+import { createJsonFakeryProvider } from "./jsonFakery";
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  loadFixtureCatalogue,
+  type UpstreamCatalogue,
+} from "./jsonFakeryFixtures";
+import { registerProvider } from "./registry";
+
+export * from "./registry";
+
+// Upstream backoff between retries: 200ms doubling up to 2s, jittered
+const BACKOFF = { backoffBaseMs: 200, backoffMaxMs: 2000 };
+
+// Catalogue sync position is saved every 10 pages
+const SYNC_CHECKPOINT_EVERY = 10;
+
+/**
+ * How the third_party provider reaches its API (undefined: the network,
+ * as usual). live: call baseUrl; record: call it and save every answer to
+ * fixturesDir; replay: never call it, serve the saved answers instead.
+ */
+function thirdPartyTransport(): Fetcher | undefined {
+  const { baseUrl, mode, fixturesDir: dir, fixtureSeed } =
+    getConfig().thirdParty;
+
+  switch (mode) {
+    case "live":
+      return undefined;
+    case "record":
+      logger.info("Recording upstream responses", { baseUrl, dir });
+      return createRecordingFetch({ baseUrl, dir });
+    case "replay": {
+      logger.info("Replaying recorded upstream responses", { baseUrl, dir });
+      // read on first use (and again after a failed read), so a bad
+      // fixture fails requests, not startup
+      let catalogue: Promise<UpstreamCatalogue> | undefined;
+      const load = () =>
+        loadFixtureCatalogue(dir, fixtureSeed).catch((err) => {
+          catalogue = undefined;
+          throw err;
+        });
+      return createReplayFetch({
+        baseUrl,
+        catalogue: () => (catalogue ??= load()),
+      });
+    }
+  }
+}
+
+/**
+ * Register the default providers.
+ * To add another catalogue, create it here with its own name and id prefix;
+ * the routes pick it up automatically (e.g. ?source=<name>).
+ */
+export function registerDefaultProviders(): void {
+  const { dataDir, cache, thirdParty, upstream, sync } = getConfig();
+
+  const mirror = createCatalogueMirror({
+    // full copies of provider catalogues, filled by the sync jobs
+    filePath: path.join(dataDir, "mirror", "third_party.json"),
+    onSet: (movie) => getSearchIndex().add(movie),
+    onRemove: (id) => getSearchIndex().remove(id),
+  });
+
+  const live = createJsonFakeryProvider({
+    name: "third_party",
+    idPrefix: "tp_",
+    // point it at a local stand-in (npm run upstream:fake) to test
+    // timeouts and outages
+    baseUrl: thirdParty.baseUrl,
+    cache: {
+      maxEntries: cache.maxEntries,
+      ttlMs: cache.ttlMs,
+      // persisted next to the local data
+      persistPath: path.join(dataDir, "cache", "third_party.json"),
+      // every movie we've seen is searchable while it's cached (or
+      // mirrored: the mirror decides when those leave the index)
+      onSet: (_id, movie) => getSearchIndex().add(movie),
+      onRemove: (id) => {
+        if (!mirror.get(id)) getSearchIndex().remove(id);
+      },
+    },
+    upstream: { ...upstream, ...BACKOFF, fetch: thirdPartyTransport() },
+  });
+
+  registerProvider(withMirror(live, mirror));
+  registerSync(
+    createCatalogueSync({
+      provider: live,
+      mirror,
+      ...sync,
+      checkpointEvery: SYNC_CHECKPOINT_EVERY,
+    })
+  );
+}
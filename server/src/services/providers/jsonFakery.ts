@@ -0,0 +1,245 @@
+// server/src/services/providers/jsonFakery.ts
+// Movie provider backed by the JSON Fakery API (https://jsonfakery.com).
+
+import type { CastMember, Movie, MovieDetails } from "../../types/movie";
+import type { MovieProvider, ProviderPage } from "../../types/provider";
+import { createLruCache, type LruCacheOptions } from "../cache/lruCache";
+import {
+  createUpstreamClient,
+  type UpstreamOptions,
+} from "../upstream/client";
+import { UpstreamError } from "../upstream/errors";
+
+/**
+ * Third-party shape (only what we use).
+ * Everything except movie_id is optional: we never trust upstream data.
+ */
+type JsonFakeryMovie = {
+  movie_id: number;
+  original_title?: string;
+  title?: string;
+  release_date?: string; // example: "Wed, 11/19/1958"
+  overview?: string;
+  original_language?: string;
+  poster_path?: string; // absolute image URL
+  vote_average?: number | string;
+  runtime?: number | string;
+  genres?: (string | { name?: string })[];
+  casts?: { name?: string; character?: string }[];
+};
+
+/**
+ * Paginated response (Laravel-style paginator).
+ * Only `data` is guaranteed; the counters are used when present.
+ */
+type JsonFakeryPagePayload = {
+  data: JsonFakeryMovie[];
+  per_page?: number;
+  total?: number;
+};
+
+/**
+ * Pull the optional detail fields out of a JSON Fakery movie,
+ * dropping anything missing or of the wrong type.
+ */
+function normalizeDetails(raw: JsonFakeryMovie): MovieDetails {
+  const details: MovieDetails = {};
+
+  if (typeof raw.overview === "string" && raw.overview.trim()) {
+    details.overview = raw.overview.trim();
+  }
+
+  if (typeof raw.original_language === "string" && raw.original_language) {
+    details.originalLanguage = raw.original_language;
+  }
+
+  if (
+    typeof raw.poster_path === "string" &&
+    /^https?:\/\//.test(raw.poster_path)
+  ) {
+    details.posterUrl = raw.poster_path;
+  }
+
+  const voteAverage = Number(raw.vote_average);
+  if (raw.vote_average !== undefined && Number.isFinite(voteAverage)) {
+    details.voteAverage = voteAverage;
+  }
+
+  const runtime = Number(raw.runtime);
+  if (raw.runtime !== undefined && Number.isFinite(runtime) && runtime > 0) {
+    details.runtime = runtime;
+  }
+
+  if (Array.isArray(raw.genres)) {
+    const genres = raw.genres
+      .map((g) => (typeof g === "string" ? g : g?.name))
+      .filter((g): g is string => typeof g === "string" && g.length > 0);
+    if (genres.length) details.genres = genres;
+  }
+
+  if (Array.isArray(raw.casts)) {
+    const cast = raw.casts
+      .filter((c) => typeof c?.name === "string" && c.name)
+      .map((c): CastMember =>
+        typeof c.character === "string" && c.character
+          ? { name: c.name!, character: c.character }
+          : { name: c.name! }
+      );
+    if (cast.length) details.cast = cast;
+  }
+
+  return details;
+}
+
+export type JsonFakeryOptions = {
+  name: string;
+  idPrefix: string;
+  baseUrl: string;
+  // cache of every movie we've seen, used by getById
+  cache: LruCacheOptions<Movie>;
+  // timeouts, retries and circuit breaker for calls to baseUrl
+  upstream: Omit<UpstreamOptions, "name">;
+};
+
+/**
+ * Create a provider for a JSON Fakery compatible movies endpoint.
+ */
+export function createJsonFakeryProvider(
+  options: JsonFakeryOptions
+): MovieProvider {
+  const { name, idPrefix, baseUrl } = options;
+
+  // Cache so we can serve /movies/:id without another upstream call
+  // Key example: "tp_12345"
+  const cache = createLruCache<Movie>(options.cache);
+
+  // All upstream calls go through here (timeouts, retries, breaker)
+  const upstream = createUpstreamClient({ name, ...options.upstream });
+
+  /**
+   * Convert a JSON Fakery movie object into OUR normalized Movie type.
+   */
+  function normalize(raw: JsonFakeryMovie): Movie {
+    const title = raw.original_title ?? raw.title ?? "Untitled";
+
+    let year = 0;
+    if (raw.release_date) {
+      const parsed = new Date(raw.release_date);
+      year = Number.isNaN(parsed.getTime()) ? 0 : parsed.getFullYear();
+    }
+
+    const movie: Movie = {
+      id: `${idPrefix}${raw.movie_id}`,
+      title,
+      year,
+      source: "api",
+      ...normalizeDetails(raw),
+    };
+
+    // cache it so /movies/:id can find it later
+    cache.set(movie.id, movie);
+
+    return movie;
+  }
+
+  async function listPage(page: number): Promise<ProviderPage> {
+    const url = `${baseUrl}/paginated?page=${page}`;
+
+    const res = await upstream.request(url);
+    if (!res.ok) {
+      throw new UpstreamError(
+        name,
+        `Third-party fetch failed: ${res.status}`,
+        res.status
+      );
+    }
+
+    const payload = (await res.json()) as JsonFakeryPagePayload;
+    const items = payload.data.map(normalize);
+
+    const perPage = Number(payload.per_page) || items.length;
+    const total = Number.isFinite(Number(payload.total))
+      ? Number(payload.total)
+      : null;
+
+    return { items, perPage, total };
+  }
+
+  async function random(count: number): Promise<Movie[]> {
+    const url = `${baseUrl}/random/${count}`;
+
+    const res = await upstream.request(url);
+    if (!res.ok) {
+      throw new UpstreamError(
+        name,
+        `Third-party random fetch failed: ${res.status}`,
+        res.status
+      );
+    }
+
+    // Response is a plain array
+    const payload = (await res.json()) as JsonFakeryMovie[];
+
+    return payload.map(normalize);
+  }
+
+  /**
+   * Serve from the cache; on a miss, fetch the movie upstream by its
+   * movie_id (GET {baseUrl}/{movie_id}). 404 upstream means "no such movie".
+   */
+  async function getById(id: string): Promise<Movie | null> {
+    const cached = cache.get(id);
+    if (cached) return cached;
+
+    const upstreamId = id.slice(idPrefix.length);
+    if (!id.startsWith(idPrefix) || !/^\d+$/.test(upstreamId)) return null;
+
+    const res = await upstream.request(`${baseUrl}/${upstreamId}`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new UpstreamError(
+        name,
+        `Third-party lookup failed: ${res.status}`,
+        res.status
+      );
+    }
+
+    // Single movie, sometimes wrapped as { data: movie }
+    const payload = (await res.json()) as
+      | JsonFakeryMovie
+      | { data: JsonFakeryMovie };
+    const raw = "data" in payload ? payload.data : payload;
+
+    if (raw?.movie_id === undefined) return null;
+    return normalize(raw);
+  }
+
+  /**
+   * JSON Fakery has no search endpoint: best-effort filter of one page.
+   */
+  async function search(query: string, page: number): Promise<ProviderPage> {
+    const result = await listPage(page);
+    const q = query.toLowerCase();
+
+    return {
+      ...result,
+      items: result.items.filter((m) => m.title.toLowerCase().includes(q)),
+    };
+  }
+
+  return {
+    name,
+    idPrefix,
+    listPage,
+    random,
+    getById,
+    search,
+    init: cache.load,
+    close: cache.flush,
+    cacheStats: cache.stats,
+    upstreamStatus: upstream.status,
+
+    // the smallest request the API has
+    ping: () => upstream.probe(`${baseUrl}/random/1`),
+  };
+}
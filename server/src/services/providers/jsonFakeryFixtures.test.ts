@@ -0,0 +1,123 @@
+// server/src/services/providers/jsonFakeryFixtures.test.ts
+// Record a session against the fake upstream, then replay it with the
+// network unavailable: pages and movies come back as they were recorded,
+// and random picks are the same on every replay with the same seed.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { createFakeUpstream } from "../../scripts/fakeUpstream";
+import { listen, type Listening } from "../../testing/api";
+import type { MovieProvider } from "../../types/provider";
+import { configureLogger } from "../observability";
+import type { Fetcher } from "../upstream/client";
+import { createJsonFakeryProvider } from "./jsonFakery";
+import {
+  createRecordingFetch,
+  createReplayFetch,
+  loadFixtureCatalogue,
+} from "./jsonFakeryFixtures";
+
+const SEED = 7;
+
+configureLogger({ level: "error" });
+
+let upstream: Listening;
+let dir: string;
+let baseUrl: string;
+
+/**
+ * A provider reaching its API through `transport`, with an empty cache
+ * (so getById asks the transport).
+ */
+function createProvider(transport: Fetcher): MovieProvider {
+  return createJsonFakeryProvider({
+    name: "third_party",
+    idPrefix: "tp_",
+    baseUrl,
+    cache: { maxEntries: 100, ttlMs: 60_000 },
+    upstream: {
+      timeoutMs: 1000,
+      retries: 0,
+      backoffBaseMs: 1,
+      backoffMaxMs: 1,
+      breakerThreshold: 5,
+      breakerResetMs: 1000,
+      fetch: transport,
+    },
+  });
+}
+
+function replayProvider() {
+  return createProvider(
+    createReplayFetch({
+      baseUrl,
+      catalogue: () => loadFixtureCatalogue(dir, SEED),
+    })
+  );
+}
+
+/**
+ * Run `task` with every fetch() failing, as on a machine without network.
+ */
+async function offline<T>(task: () => Promise<T>): Promise<T> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async () => {
+    throw new Error("No network in this test");
+  };
+  try {
+    return await task();
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+before(async () => {
+  upstream = await listen(createFakeUpstream());
+  baseUrl = `${upstream.url}/movies`;
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "fixtures-"));
+});
+
+after(async () => {
+  upstream.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("replay answers as the recorded session did, offline", async () => {
+  const recorder = createProvider(createRecordingFetch({ baseUrl, dir }));
+  const recorded = {
+    movie: await recorder.getById("tp_42"),
+    page1: await recorder.listPage(1),
+    page2: await recorder.listPage(2),
+  };
+  await recorder.random(3);
+  assert.ok(recorded.movie);
+
+  const replayed = await offline(async () => {
+    const replay = replayProvider();
+    return {
+      movie: await replay.getById("tp_42"),
+      page1: await replay.listPage(1),
+      page2: await replay.listPage(2),
+    };
+  });
+
+  assert.deepEqual(replayed, recorded);
+});
+
+test("replay picks the same random movies for the same seed", async () => {
+  const [first, second] = await offline(() =>
+    Promise.all([replayProvider().random(3), replayProvider().random(3)])
+  );
+
+  assert.equal(first.length, 3);
+  assert.deepEqual(second, first);
+});
+
+test("replay has no answer for what wasn't recorded", async () => {
+  const movie = await offline(() => replayProvider().getById("tp_9999"));
+
+  assert.equal(movie, null);
+});
@@ -0,0 +1,250 @@
+// server/src/services/providers/jsonFakeryFixtures.ts
+// Record/replay of the JSON Fakery API, for machines without network.
+// Recording saves every answer of the real API to a fixture file;
+// replaying serves the recorded catalogue instead, with pagination as
+// recorded and random picks from a seeded generator, so a run gives the
+// same movies every time.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { writeFileAtomic } from "../repositories/atomicFile";
+import { logger } from "../observability";
+import type { Fetcher } from "../upstream/client";
+
+export const UPSTREAM_MODES = ["live", "record", "replay"] as const;
+export type UpstreamMode = (typeof UPSTREAM_MODES)[number];
+
+/**
+ * A movie as JSON Fakery sends it (fixtures keep it untouched).
+ */
+export type RawMovie = { movie_id: number; [field: string]: unknown };
+
+/**
+ * One page of GET /paginated?page=N (Laravel-style paginator).
+ */
+export type RawPage = {
+  current_page: number;
+  data: RawMovie[];
+  per_page: number;
+  total: number;
+  last_page: number;
+};
+
+/**
+ * What a JSON Fakery stand-in serves: its pages, random picks and
+ * single movies (null: no such page or movie).
+ */
+export type UpstreamCatalogue = {
+  page(page: number): RawPage | null;
+  random(count: number): RawMovie[];
+  movie(id: number): RawMovie | null;
+};
+
+/**
+ * One fixture file: a response of the real API.
+ */
+type Fixture = {
+  url: string;
+  status: number;
+  recordedAt: string;
+  body: unknown;
+};
+
+/**
+ * Deterministic random numbers in [0, 1) (mulberry32).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * `count` different movies of `pool`, picked with `rand`.
+ */
+export function pickRandom<T>(pool: T[], count: number, rand: () => number) {
+  const rest = [...pool];
+  const picked: T[] = [];
+  while (picked.length < count && rest.length) {
+    picked.push(rest.splice(Math.floor(rand() * rest.length), 1)[0]);
+  }
+  return picked;
+}
+
+/**
+ * The JSON Fakery requests we know, by their URL under the base URL:
+ * "paginated?page=2", "random/5" and "12" (a movie_id).
+ */
+type UpstreamRequest =
+  | { kind: "page"; page: number }
+  | { kind: "random"; count: number }
+  | { kind: "movie"; id: number };
+
+function parseRequest(baseUrl: string, url: string): UpstreamRequest | null {
+  if (!url.startsWith(`${baseUrl}/`)) return null;
+  const rest = url.slice(baseUrl.length + 1);
+
+  const page = rest.match(/^paginated\?page=(\d+)$/);
+  if (page) return { kind: "page", page: Number(page[1]) };
+
+  const random = rest.match(/^random\/(\d+)$/);
+  if (random) return { kind: "random", count: Number(random[1]) };
+
+  if (/^\d+$/.test(rest)) return { kind: "movie", id: Number(rest) };
+  return null;
+}
+
+/**
+ * paginated-page-2.json, random-5.json, movie-12.json
+ */
+function fixtureName(request: UpstreamRequest) {
+  switch (request.kind) {
+    case "page":
+      return `paginated-page-${request.page}.json`;
+    case "random":
+      return `random-${request.count}.json`;
+    case "movie":
+      return `movie-${request.id}.json`;
+  }
+}
+
+/**
+ * fetch() that also saves what the real API answers to `dir`. Server
+ * errors aren't recorded: they say nothing about the catalogue.
+ */
+export function createRecordingFetch(options: {
+  baseUrl: string;
+  dir: string;
+  fetch?: Fetcher;
+}): Fetcher {
+  const { baseUrl, dir, fetch: send = fetch } = options;
+
+  return async (url, init) => {
+    const res = await send(url, init);
+    const request = parseRequest(baseUrl, url);
+    if (!request || res.status >= 500) return res;
+
+    try {
+      const fixture: Fixture = {
+        url,
+        status: res.status,
+        recordedAt: new Date().toISOString(),
+        body: await res.clone().json(),
+      };
+      await fs.mkdir(dir, { recursive: true });
+      await writeFileAtomic(
+        path.join(dir, fixtureName(request)),
+        `${JSON.stringify(fixture, null, 2)}\n`
+      );
+    } catch (err) {
+      logger.warn("Could not record upstream response", { url, err });
+    }
+    return res;
+  };
+}
+
+/**
+ * The catalogue recorded in `dir`. Pages are served as recorded (pages
+ * past the last one are empty, like the real API's); random picks and
+ * single movies come from every movie found in any fixture.
+ */
+export async function loadFixtureCatalogue(
+  dir: string,
+  seed: number
+): Promise<UpstreamCatalogue> {
+  const pages = new Map<number, RawPage>();
+  const movies = new Map<number, RawMovie>();
+
+  const addMovies = (list: unknown) => {
+    if (!Array.isArray(list)) return;
+    for (const movie of list as RawMovie[]) {
+      if (!Number.isInteger(movie?.movie_id)) continue;
+      movies.set(movie.movie_id, movie);
+    }
+  };
+
+  let names: string[] = [];
+  try {
+    names = (await fs.readdir(dir)).filter((n) => n.endsWith(".json")).sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  for (const name of names) {
+    const fixture = JSON.parse(
+      await fs.readFile(path.join(dir, name), "utf8")
+    ) as Fixture;
+    if (fixture.status !== 200) continue;
+
+    const page = name.match(/^paginated-page-(\d+)\.json$/);
+    if (page) {
+      const body = fixture.body as RawPage;
+      pages.set(Number(page[1]), body);
+      addMovies(body.data);
+    } else if (name.startsWith("random-")) {
+      addMovies(fixture.body);
+    } else if (name.startsWith("movie-")) {
+      const body = fixture.body as RawMovie | { data: RawMovie };
+      addMovies(["data" in body ? body.data : body]);
+    }
+  }
+
+  if (!movies.size) {
+    logger.warn("No recorded movies; replaying an empty catalogue", { dir });
+  }
+
+  // in id order, so the same seed picks the same movies
+  const pool = [...movies.values()].sort((a, b) => a.movie_id - b.movie_id);
+  const last = [...pages.values()].sort(
+    (a, b) => b.current_page - a.current_page
+  )[0];
+  const rand = createSeededRandom(seed);
+
+  return {
+    page(page) {
+      const recorded = pages.get(page);
+      if (recorded) return recorded;
+      if (!last || page <= last.last_page) return null;
+      return { ...last, current_page: page, data: [] };
+    },
+    random: (count) => pickRandom(pool, count, rand),
+    movie: (id) => movies.get(id) ?? null,
+  };
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * fetch() that answers JSON Fakery requests from a catalogue instead of
+ * the network; anything it has no answer for is a 404.
+ */
+export function createReplayFetch(options: {
+  baseUrl: string;
+  catalogue: () => Promise<UpstreamCatalogue>;
+}): Fetcher {
+  const { baseUrl } = options;
+
+  return async (url) => {
+    const catalogue = await options.catalogue();
+    const request = parseRequest(baseUrl, url);
+
+    let body: unknown = null;
+    if (request?.kind === "page") body = catalogue.page(request.page);
+    if (request?.kind === "random") body = catalogue.random(request.count);
+    if (request?.kind === "movie") body = catalogue.movie(request.id);
+
+    return body
+      ? jsonResponse(200, body)
+      : jsonResponse(404, { message: `Nothing recorded for ${url}` });
+  };
+}
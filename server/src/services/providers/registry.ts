@@ -0,0 +1,267 @@
+// server/src/services/providers/registry.ts
+// Keeps track of the configured movie providers and pages through them.
+
+import type { Movie } from "../../types/movie";
+import type { MovieProvider } from "../../types/provider";
+import { logger } from "../observability";
+
+/**
+ * Filters and orders movies (e.g. by the request's search and sort).
+ * Mirrored catalogues go through it whole; live ones one window at a time.
+ */
+export type RefineMovies = (movies: Movie[]) => Movie[];
+
+/**
+ * A window of one or more provider catalogues, addressed by offset.
+ */
+export type ProviderRange = {
+  items: Movie[];
+  // how many offsets the range covers; more than items.length when a
+  // live window was filtered
+  span: number;
+  total: number | null;
+  hasMore: boolean;
+  // providers that failed and were left out (fetchMergedRange only)
+  warnings?: string[];
+};
+
+// Registration order is the order providers appear in source=all
+const providers = new Map<string, MovieProvider>();
+
+// Page size and catalogue size per provider, learned from responses.
+// Needed to translate our offsets into upstream page numbers.
+const pageShapes = new Map<string, { perPage: number; total: number | null }>();
+
+// Names that can't be used by a provider because ?source= already means something
+const RESERVED_NAMES = ["all", "local"];
+
+/**
+ * Add a provider. Names and id prefixes must be unique.
+ */
+export function registerProvider(provider: MovieProvider): void {
+  if (RESERVED_NAMES.includes(provider.name)) {
+    throw new Error(`Provider name "${provider.name}" is reserved`);
+  }
+  if (providers.has(provider.name)) {
+    throw new Error(`Provider "${provider.name}" is already registered`);
+  }
+  if (provider.idPrefix === "local_") {
+    throw new Error(`Provider id prefix "local_" is reserved`);
+  }
+
+  for (const other of providers.values()) {
+    if (
+      other.idPrefix.startsWith(provider.idPrefix) ||
+      provider.idPrefix.startsWith(other.idPrefix)
+    ) {
+      throw new Error(
+        `Provider "${provider.name}" id prefix clashes with "${other.name}"`
+      );
+    }
+  }
+
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Run every provider's init hook (e.g. load persisted caches).
+ */
+export async function initProviders(): Promise<void> {
+  await Promise.all(listProviders().map((p) => p.init?.()));
+}
+
+/**
+ * Run every provider's close hook (e.g. save caches to disk).
+ */
+export async function closeProviders(): Promise<void> {
+  await Promise.all(listProviders().map((p) => p.close?.()));
+}
+
+/**
+ * All registered providers, in registration order.
+ */
+export function listProviders(): MovieProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Look up a provider by name (the ?source= value).
+ */
+export function getProvider(name: string): MovieProvider | null {
+  return providers.get(name) ?? null;
+}
+
+/**
+ * Every value ?source= accepts: "all", "local" and each provider name.
+ */
+export function listSourceNames(): string[] {
+  return [...RESERVED_NAMES, ...providers.keys()];
+}
+
+/**
+ * The provider used when a route doesn't name one (first registered).
+ */
+export function getDefaultProvider(): MovieProvider {
+  const first = providers.values().next();
+  if (first.done) throw new Error("No movie providers registered");
+  return first.value;
+}
+
+/**
+ * Find the provider that owns an id, based on its prefix.
+ */
+export function findProviderForId(id: string): MovieProvider | null {
+  for (const provider of providers.values()) {
+    if (id.startsWith(provider.idPrefix)) return provider;
+  }
+  return null;
+}
+
+/**
+ * Fetch one provider page and remember its page/catalogue size.
+ */
+async function fetchPage(provider: MovieProvider, page: number) {
+  const result = await provider.listPage(page);
+
+  const known = pageShapes.get(provider.name);
+  pageShapes.set(provider.name, {
+    perPage: result.perPage || known?.perPage || 0,
+    total: result.total ?? known?.total ?? null,
+  });
+
+  return result;
+}
+
+/**
+ * Fetch `limit` movies from one provider starting at `offset`, walking as
+ * many provider pages as needed. Every provider item maps to exactly one
+ * offset, so consecutive ranges never skip or repeat a movie.
+ *
+ * With `refine`, a mirrored provider is filtered and sorted as a whole
+ * (offsets and total count matches only). A live one can only refine
+ * the fetched window, so offsets and total stay in upstream terms.
+ *
+ * With limit=0 this only reports the catalogue size (fetching page 1 the
+ * first time so we learn it).
+ */
+export async function fetchProviderRange(
+  provider: MovieProvider,
+  offset: number,
+  limit: number,
+  refine?: RefineMovies
+): Promise<ProviderRange> {
+  const catalogue = provider.catalogue?.();
+  if (catalogue) {
+    const matches = refine ? refine(catalogue) : catalogue;
+    const items = matches.slice(offset, offset + Math.max(0, limit));
+    return {
+      items,
+      span: items.length,
+      total: matches.length,
+      hasMore: offset + limit < matches.length,
+    };
+  }
+
+  if (!pageShapes.has(provider.name)) {
+    await fetchPage(provider, 1);
+  }
+
+  const { perPage, total } = pageShapes.get(provider.name)!;
+  if (limit <= 0 || perPage <= 0) {
+    return {
+      items: [],
+      span: 0,
+      total,
+      hasMore: total === null ? perPage > 0 : offset < total,
+    };
+  }
+
+  const firstPage = Math.floor(offset / perPage) + 1;
+  const lastPage = Math.floor((offset + limit - 1) / perPage) + 1;
+
+  const collected: Movie[] = [];
+  let lastPageWasFull = true;
+
+  for (let page = firstPage; page <= lastPage; page++) {
+    const result = await fetchPage(provider, page);
+    collected.push(...result.items);
+
+    lastPageWasFull = result.items.length >= result.perPage;
+    if (!lastPageWasFull) break;
+  }
+
+  const skip = offset - (firstPage - 1) * perPage;
+  const window = collected.slice(skip, skip + limit);
+  const items = refine ? refine(window) : window;
+
+  const latestTotal = pageShapes.get(provider.name)!.total;
+  const hasMore =
+    latestTotal !== null ? offset + limit < latestTotal : lastPageWasFull;
+
+  return { items, span: window.length, total: latestTotal, hasMore };
+}
+
+/**
+ * Same as fetchProviderRange, but over several providers laid end to end
+ * (in the order given). A provider that doesn't report its total ends the
+ * walk, since we can't know where the next one would start.
+ *
+ * A provider that fails is left out of this range (as if its catalogue
+ * were empty) and reported in `warnings`, so `total` only counts the
+ * providers that answered.
+ */
+export async function fetchMergedRange(
+  sources: MovieProvider[],
+  offset: number,
+  limit: number,
+  refine?: RefineMovies
+): Promise<ProviderRange> {
+  const items: Movie[] = [];
+  const warnings: string[] = [];
+  let span = 0;
+  let total: number | null = 0;
+  let hasMore = false;
+  let remainingOffset = offset;
+
+  for (const provider of sources) {
+    const wanted = limit - span;
+
+    let range: ProviderRange;
+    try {
+      const sizeOnly = await fetchProviderRange(provider, 0, 0, refine);
+      const providerTotal = sizeOnly.total;
+
+      if (providerTotal !== null && remainingOffset >= providerTotal) {
+        // this whole catalogue is before the requested window
+        remainingOffset -= providerTotal;
+        total = total === null ? null : total + providerTotal;
+        continue;
+      }
+
+      range = await fetchProviderRange(
+        provider,
+        remainingOffset,
+        wanted,
+        refine
+      );
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      logger.warn("Provider skipped", { provider: provider.name, reason });
+      warnings.push(`${provider.name}: ${reason}`);
+      continue;
+    }
+
+    items.push(...range.items);
+    span += range.span;
+    remainingOffset = 0;
+
+    if (range.total === null) {
+      return { items, span, total: null, hasMore: range.hasMore, warnings };
+    }
+
+    total = total === null ? null : total + range.total;
+    if (range.hasMore) hasMore = true;
+  }
+
+  return { items, span, total, hasMore, warnings };
+}
@@ -0,0 +1,196 @@
+// server/src/services/recommendations.ts
+// Content-based recommendations. Candidates are scored by how much they
+// resemble a seed (one given movie, or each movie in our library) on
+// genres, title words, cast and era, and explained by their best seed.
+
+import type { Movie } from "../types/movie";
+import { foldText, tokenize } from "./search/text";
+
+export type Recommendation = {
+  movie: Movie;
+  score: number;
+  // the seed it resembles most (null when there was nothing to compare to)
+  because: { id: string; title: string; year: number } | null;
+  // e.g. "Because you have “Heat” (1995): also Crime, also from the 1990s"
+  reason: string;
+};
+
+export type RecommendOptions = {
+  // what candidates are compared to; empty = fall back to the best rated
+  seeds: Movie[];
+  candidates: Movie[];
+  count: number;
+  // movies never to recommend (e.g. ones already in the library)
+  exclude?: (movie: Movie) => boolean;
+  // "have": seeds are our library; "like": a movie the user picked
+  seedKind: "have" | "like";
+};
+
+// How much each signal counts when it matches fully
+const WEIGHTS = { genres: 3, title: 2, cast: 2, era: 1 };
+
+// Years this far apart (or more) no longer count as the same era
+const ERA_SPAN_YEARS = 20;
+
+// Title words too common to say anything about a movie
+const STOP_WORDS = new Set(
+  "a an and at by for from in is of on the to with".split(" ")
+);
+
+// What a movie is compared on, folded once
+type Profile = {
+  movie: Movie;
+  titleWords: Set<string>;
+  genres: Map<string, string>;
+  cast: Map<string, string>;
+};
+
+/**
+ * Folded value -> original text, e.g. "science fiction" -> "Science Fiction".
+ */
+function foldedNames(names: string[]): Map<string, string> {
+  return new Map(names.map((name) => [foldText(name).trim(), name]));
+}
+
+function profileOf(movie: Movie): Profile {
+  return {
+    movie,
+    titleWords: new Set(
+      tokenize(movie.title).filter((w) => !STOP_WORDS.has(w))
+    ),
+    genres: foldedNames(movie.genres ?? []),
+    cast: foldedNames((movie.cast ?? []).map((c) => c.name)),
+  };
+}
+
+/**
+ * Shared keys of a and b, and their Jaccard similarity (0..1).
+ */
+function overlap<T>(a: Map<string, T> | Set<string>, b: typeof a) {
+  const shared = [...a.keys()].filter((key) => b.has(key));
+  const union = a.size + b.size - shared.length;
+  return { shared, similarity: union ? shared.length / union : 0 };
+}
+
+/**
+ * How alike `candidate` is to `seed`, and the signals that matched
+ * (as short phrases for the explanation).
+ */
+function similarity(candidate: Profile, seed: Profile) {
+  let score = 0;
+  const reasons: string[] = [];
+
+  // genres only count when both movies have them
+  if (candidate.genres.size && seed.genres.size) {
+    const { shared, similarity } = overlap(candidate.genres, seed.genres);
+    if (shared.length) {
+      score += WEIGHTS.genres * similarity;
+      const names = shared.map((g) => candidate.genres.get(g)!);
+      reasons.push(`also ${names.slice(0, 2).join(" & ")}`);
+    }
+  }
+
+  const title = overlap(candidate.titleWords, seed.titleWords);
+  if (title.shared.length) {
+    score += WEIGHTS.title * title.similarity;
+    reasons.push(`title shares “${title.shared.slice(0, 2).join(" ")}”`);
+  }
+
+  // one shared star matters, however long the cast lists are
+  const cast = overlap(candidate.cast, seed.cast);
+  if (cast.shared.length) {
+    const smaller = Math.min(candidate.cast.size, seed.cast.size);
+    score += WEIGHTS.cast * (cast.shared.length / smaller);
+    reasons.push(`also with ${candidate.cast.get(cast.shared[0])}`);
+  }
+
+  const gap = Math.abs(candidate.movie.year - seed.movie.year);
+  const era = Math.max(0, 1 - gap / ERA_SPAN_YEARS);
+  if (era > 0) {
+    score += WEIGHTS.era * era;
+    const decade = Math.floor(seed.movie.year / 10) * 10;
+    if (Math.floor(candidate.movie.year / 10) * 10 === decade) {
+      reasons.push(`also from the ${decade}s`);
+    } else if (gap <= 5) {
+      reasons.push("from around the same time");
+    }
+  }
+
+  return { score, reasons };
+}
+
+function explain(seed: Movie, kind: RecommendOptions["seedKind"]) {
+  const name = `“${seed.title}” (${seed.year})`;
+  return kind === "have" ? `Because you have ${name}` : `Like ${name}`;
+}
+
+/**
+ * Best-rated candidates, for when there's nothing to compare to.
+ */
+function bestRated(candidates: Movie[], count: number): Recommendation[] {
+  return [...candidates]
+    .sort((a, b) => (b.voteAverage ?? 0) - (a.voteAverage ?? 0))
+    .slice(0, count)
+    .map((movie) => ({
+      movie,
+      score: 0,
+      because: null,
+      reason:
+        movie.voteAverage !== undefined
+          ? `Highly rated (${movie.voteAverage.toFixed(1)} / 10)`
+          : "Popular pick",
+    }));
+}
+
+/**
+ * The `count` candidates most like any seed, best first. Seeds, excluded
+ * movies and duplicates are never recommended.
+ */
+export function recommend(options: RecommendOptions): Recommendation[] {
+  const { seeds, count, exclude, seedKind } = options;
+
+  const seedIds = new Set(seeds.map((s) => s.id));
+  const seen = new Set<string>();
+  const candidates = options.candidates.filter((movie) => {
+    if (seedIds.has(movie.id) || seen.has(movie.id)) return false;
+    seen.add(movie.id);
+    return !exclude?.(movie);
+  });
+
+  if (!seeds.length) return bestRated(candidates, count);
+
+  const seedProfiles = seeds.map(profileOf);
+  const scored: Recommendation[] = [];
+
+  for (const movie of candidates) {
+    const candidate = profileOf(movie);
+
+    let best: { seed: Movie; score: number; reasons: string[] } | null = null;
+    for (const seed of seedProfiles) {
+      const { score, reasons } = similarity(candidate, seed);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { seed: seed.movie, score, reasons };
+      }
+    }
+    if (!best) continue;
+
+    const { seed, score, reasons } = best;
+    scored.push({
+      movie,
+      score: Math.round(score * 100) / 100,
+      because: { id: seed.id, title: seed.title, year: seed.year },
+      reason: [explain(seed, seedKind), reasons.join(", ")]
+        .filter(Boolean)
+        .join(": "),
+    });
+  }
+
+  // ties go to the better rated movie
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (b.movie.voteAverage ?? 0) - (a.movie.voteAverage ?? 0)
+  );
+
+  return scored.slice(0, count);
+}
@@ -0,0 +1,56 @@
+// Crash-safe file replacement: write a temp file, fsync it, rename it over
+// the target. Readers see either the old file or the new one, never half.
+
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Atomically replace `filePath` with `data`.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string
+): Promise<void> {
+  const dir = path.dirname(filePath);
+  const tmpPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${randomUUID()}.tmp`
+  );
+
+  const handle = await fs.open(tmpPath, "w");
+  try {
+    await handle.writeFile(data, "utf-8");
+    await handle.sync();
+  } catch (err) {
+    await handle.close();
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+  await handle.close();
+
+  try {
+    await fs.rename(tmpPath, filePath);
+  } catch (err) {
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+
+  await syncDirectory(dir);
+}
+
+/**
+ * fsync the directory so the rename itself survives a crash.
+ * Not supported on every platform (e.g. Windows), so failures are ignored.
+ */
+async function syncDirectory(dir: string) {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(dir, "r");
+    await handle.sync();
+  } catch {
+    // best effort
+  } finally {
+    await handle?.close();
+  }
+}
@@ -0,0 +1,117 @@
+// server/src/services/repositories/concurrency.test.ts
+// Many writes at once, against both backends: none may be lost, and
+// what was written must still be there after reopening the store.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { MovieRepository } from "../../types/repository";
+import { configureLogger } from "../observability";
+import { createJsonFileRepository } from "./jsonFile";
+import { createSqliteRepository } from "./sqlite";
+
+const PARALLEL_CREATES = 300;
+
+configureLogger({ level: "error" });
+
+// Each backend, opened on the files in `dir`
+const BACKENDS: [string, (dir: string) => MovieRepository][] = [
+  [
+    "json",
+    (dir) =>
+      createJsonFileRepository(path.join(dir, "movies.json"), {
+        backupDir: path.join(dir, "backups"),
+        quarantineDir: path.join(dir, "quarantine"),
+        backupLimit: 5,
+      }),
+  ],
+  ["sqlite", (dir) => createSqliteRepository(path.join(dir, "movies.db"))],
+];
+
+for (const [name, open] of BACKENDS) {
+  describe(`${name} repository under concurrent writes`, () => {
+    let dir: string;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), `movies-${name}-`));
+    });
+
+    after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test(`keeps all of ${PARALLEL_CREATES} parallel creates`, async () => {
+      const repo = open(dir);
+      await repo.init();
+
+      const created = await Promise.all(
+        Array.from({ length: PARALLEL_CREATES }, (_, i) =>
+          repo.create({ title: `Movie ${i}`, year: 2000 + (i % 25) })
+        )
+      );
+      await repo.close();
+
+      const ids = new Set(created.map((m) => m.id));
+      assert.equal(ids.size, PARALLEL_CREATES, "ids must be unique");
+
+      const reopened = open(dir);
+      await reopened.init();
+      const stored = await reopened.all();
+      await reopened.close();
+
+      assert.equal(stored.length, PARALLEL_CREATES);
+      assert.deepEqual(new Set(stored.map((m) => m.id)), ids);
+    });
+
+    test("keeps every field of parallel updates to one movie", async () => {
+      const repo = open(dir);
+      await repo.init();
+      const movie = await repo.create({ title: "Shared", year: 1999 });
+
+      await Promise.all([
+        repo.update(movie.id, { genres: ["Drama"] }),
+        repo.update(movie.id, { overview: "Someone's story" }),
+        repo.update(movie.id, { runtime: 120 }),
+      ]);
+
+      const stored = await repo.findById(movie.id);
+      await repo.close();
+
+      assert.deepEqual(stored?.genres, ["Drama"]);
+      assert.equal(stored?.overview, "Someone's story");
+      assert.equal(stored?.runtime, 120);
+    });
+
+    test("adds a movie once under parallel add-if-absent writes", async () => {
+      const repo = open(dir);
+      await repo.init();
+      const input = {
+        title: "Imported",
+        year: 1984,
+        importedFrom: {
+          source: "tp",
+          id: "tp_42",
+          importedAt: new Date().toISOString(),
+        },
+      };
+
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () =>
+          repo.bulkWrite((library) => ({
+            create: library.findImport("tp_42") ? [] : [input],
+            replace: [],
+          }))
+        )
+      );
+      const stored = (await repo.all()).filter(
+        (m) => m.importedFrom?.id === "tp_42"
+      );
+      await repo.close();
+
+      assert.equal(results.filter((r) => r.created.length > 0).length, 1);
+      assert.equal(stored.length, 1);
+    });
+  });
+}
@@ -0,0 +1,54 @@
+// Errors a MovieRepository or ReviewRepository can throw that callers are
+// expected to handle.
+
+/**
+ * The store can't be used safely (e.g. its data file is corrupt).
+ * Reads and writes fail until an operator restores a snapshot.
+ */
+export class StoreUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoreUnavailableError";
+  }
+}
+
+/**
+ * A conditional write (see WriteCondition) found the movie changed since
+ * the caller read it.
+ */
+export class MovieChangedError extends Error {
+  constructor(id: string) {
+    super(`Movie "${id}" has been changed since it was read`);
+    this.name = "MovieChangedError";
+  }
+}
+
+/**
+ * The author already has a review of the movie (replies don't count).
+ */
+export class DuplicateReviewError extends Error {
+  constructor() {
+    super("You already reviewed this movie; edit your review instead");
+    this.name = "DuplicateReviewError";
+  }
+}
+
+/**
+ * No snapshot with the requested name.
+ */
+export class SnapshotNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Snapshot "${name}" not found`);
+    this.name = "SnapshotNotFoundError";
+  }
+}
+
+/**
+ * The snapshot exists but isn't a readable movies file.
+ */
+export class InvalidSnapshotError extends Error {
+  constructor(name: string, reason: string) {
+    super(`Snapshot "${name}" can't be restored: ${reason}`);
+    this.name = "InvalidSnapshotError";
+  }
+}
@@ -0,0 +1,63 @@
+// One small JSON file kept in memory (users, lists, ratings). Changes are
+// serialized through a write queue and each save replaces the file
+// atomically, like the JSON movie store.
+
+import fs from "fs/promises";
+import path from "path";
+import { writeFileAtomic } from "./atomicFile";
+import { createWriteQueue } from "./writeQueue";
+
+export type JsonDocument<T> = {
+  // read the file; a missing file is `empty`
+  init(): Promise<void>;
+
+  // current contents (don't mutate; save a new value instead)
+  get(): T;
+
+  // run `task` after earlier changes; `save` writes the new contents
+  change<R>(
+    task: (current: T, save: (next: T) => Promise<void>) => Promise<R>
+  ): Promise<R>;
+
+  // resolves once the changes queued so far are saved
+  close(): Promise<void>;
+};
+
+/**
+ * A JSON document at `filePath`. `parse` checks what was read and throws
+ * if it isn't the expected shape.
+ */
+export function createJsonDocument<T>(
+  filePath: string,
+  options: { empty: T; parse: (raw: unknown) => T }
+): JsonDocument<T> {
+  const writes = createWriteQueue();
+  let current = options.empty;
+
+  async function save(next: T) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, JSON.stringify(next, null, 2));
+    current = next;
+  }
+
+  return {
+    async init() {
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, "utf-8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+        throw err;
+      }
+      current = options.parse(JSON.parse(raw));
+    },
+
+    get: () => current,
+
+    change(task) {
+      return writes.run(() => task(current, save));
+    },
+
+    close: () => writes.idle(),
+  };
+}
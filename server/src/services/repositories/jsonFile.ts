@@ -0,0 +1,363 @@
+// server/src/services/repositories/jsonFile.ts
+// Local movies stored as one JSON file (data/movies.json).
+// Simple and human-readable; every call reads or rewrites the whole file.
+// Mutations are serialized through a write queue and each write replaces
+// the file atomically, so concurrent requests and crashes can't lose data.
+// A snapshot is taken before every write; a file that can't be parsed is
+// quarantined and the store refuses all access until a snapshot is
+// restored, across restarts too.
+
+import fs from "fs/promises";
+import type { Movie } from "../../types/movie";
+import type {
+  LocalMovieInput,
+  MovieRepository,
+  StoreHealth,
+  WriteCondition,
+} from "../../types/repository";
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateMoviesFile,
+  type MoviesFile,
+} from "../migrations";
+import { matchesFilters, sortMovies } from "../movieQuery";
+import { logger } from "../observability";
+import { writeFileAtomic } from "./atomicFile";
+import {
+  InvalidSnapshotError,
+  StoreUnavailableError,
+} from "./errors";
+import {
+  checkCondition,
+  libraryLookup,
+  newLocalId,
+  replacementInput,
+  toLocalMovie,
+} from "./localMovie";
+import { createSnapshots, type QuarantineRecord } from "./snapshots";
+import { createWriteQueue } from "./writeQueue";
+
+export type JsonFileRepositoryOptions = {
+  // where snapshots are kept
+  backupDir: string;
+  // where unreadable files are moved
+  quarantineDir: string;
+  // how many snapshots to keep
+  backupLimit: number;
+};
+
+/**
+ * Create a repository backed by the JSON file at `filePath`.
+ */
+export function createJsonFileRepository(
+  filePath: string,
+  options: JsonFileRepositoryOptions
+): MovieRepository {
+  // Every read-modify-write goes through this queue
+  const writes = createWriteQueue();
+
+  const snapshots = createSnapshots({
+    filePath,
+    backupDir: options.backupDir,
+    quarantineDir: options.quarantineDir,
+    keep: options.backupLimit,
+  });
+
+  // Set once the file is found to be unreadable (or init finds it was
+  // quarantined before a restart); cleared by a restore
+  let corruption: QuarantineRecord | null = null;
+
+  /**
+   * Parse and upgrade a movies file. Throws if it isn't one.
+   */
+  function parseMovies(raw: string) {
+    return migrateMoviesFile(JSON.parse(raw));
+  }
+
+  /**
+   * Move an unreadable file aside and stop serving until it's restored.
+   */
+  async function markCorrupt(err: unknown): Promise<never> {
+    const reason = err instanceof Error ? err.message : String(err);
+
+    // A concurrent reader may have already moved it
+    if (!corruption) {
+      corruption = {
+        reason,
+        quarantinedTo: null,
+        at: new Date().toISOString(),
+      };
+      corruption = await snapshots.quarantine(reason);
+      logger.error("Movies file unreadable; quarantined", {
+        path: filePath,
+        reason,
+        quarantinedTo: corruption.quarantinedTo,
+      });
+    }
+
+    throw unavailable();
+  }
+
+  function unavailable() {
+    return new StoreUnavailableError(
+      `Local movie store is unavailable: ${corruption?.reason}. ` +
+        "Restore a snapshot to recover."
+    );
+  }
+
+  /**
+   * Read the JSON file and return local movies.
+   * Older schema versions are upgraded in memory (see migrations.ts).
+   * A missing file means "no local movies yet"; a file that can't be
+   * parsed is quarantined and the store becomes unavailable.
+   */
+  async function readMovies(): Promise<Movie[]> {
+    if (corruption) throw unavailable();
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    try {
+      return parseMovies(raw).file.movies;
+    } catch (err) {
+      return markCorrupt(err);
+    }
+  }
+
+  /**
+   * Write the full array of local movies back to the JSON file,
+   * snapshotting the previous version first.
+   * Always writes the current schema version.
+   * Only call this from inside writes.run().
+   */
+  async function writeMovies(movies: Movie[]): Promise<void> {
+    if (corruption) throw unavailable();
+
+    await snapshots.take();
+
+    const file: MoviesFile = { schemaVersion: CURRENT_SCHEMA_VERSION, movies };
+    const json = JSON.stringify(file, null, 2); // pretty print for readability
+    await writeFileAtomic(filePath, json);
+  }
+
+  /**
+   * Shared read-modify-write for replace/update.
+   */
+  function save(
+    id: string,
+    build: (existing: Movie) => LocalMovieInput,
+    condition?: WriteCondition
+  ): Promise<Movie | null> {
+    return writes.run(async () => {
+      const movies = await readMovies();
+      const index = movies.findIndex((m) => m.id === id);
+      if (index === -1) return null;
+
+      const existing = movies[index];
+      checkCondition(existing, condition);
+      const updated = toLocalMovie(
+        existing.id,
+        build(existing),
+        existing.createdAt,
+        new Date().toISOString()
+      );
+
+      movies[index] = updated;
+      await writeMovies(movies);
+
+      return updated;
+    });
+  }
+
+  return {
+    /**
+     * Check the file is readable (quarantining it if not) and upgrade it
+     * if it was written by an older version. A corrupt file, or one
+     * quarantined before a restart, doesn't stop startup: the store just
+     * reports itself as degraded.
+     */
+    init() {
+      return writes.run(async () => {
+        corruption = await snapshots.quarantined();
+        if (corruption) {
+          logger.error("Movies file is quarantined; restore a snapshot", {
+            path: filePath,
+            reason: corruption.reason,
+            quarantinedTo: corruption.quarantinedTo,
+          });
+          return;
+        }
+
+        let raw: string;
+        try {
+          raw = await fs.readFile(filePath, "utf-8");
+        } catch {
+          // nothing to migrate yet
+          return;
+        }
+
+        let parsed: ReturnType<typeof parseMovies>;
+        try {
+          parsed = parseMovies(raw);
+        } catch (err) {
+          await markCorrupt(err).catch(() => undefined);
+          return;
+        }
+
+        if (parsed.migrated) {
+          await writeMovies(parsed.file.movies);
+          logger.info("Upgraded movies file to current schema", {
+            path: filePath,
+          });
+        }
+      });
+    },
+
+    async list({ sort, offset, limit, ...filters }) {
+      const movies = await readMovies();
+      const matches = sortMovies(
+        movies.filter((m) => matchesFilters(m, filters)),
+        sort
+      );
+
+      return {
+        items: matches.slice(offset, offset + limit),
+        total: matches.length,
+      };
+    },
+
+    all: readMovies,
+
+    async findById(id) {
+      const movies = await readMovies();
+      return movies.find((m) => m.id === id) ?? null;
+    },
+
+    async lookup(read) {
+      // the file is read whole either way
+      return read(libraryLookup(await readMovies()));
+    },
+
+    create(input) {
+      return writes.run(async () => {
+        const movies = await readMovies();
+        const movie = toLocalMovie(newLocalId(), input);
+
+        movies.push(movie);
+        await writeMovies(movies);
+
+        return movie;
+      });
+    },
+
+    async replace(id, input, condition) {
+      return save(
+        id,
+        (existing) => replacementInput(existing, input),
+        condition
+      );
+    },
+
+    async update(id, changes, condition) {
+      return save(id, (existing) => ({ ...existing, ...changes }), condition);
+    },
+
+    bulkWrite(changes) {
+      return writes.run(async () => {
+        const movies = await readMovies();
+        const { create, replace } =
+          typeof changes === "function"
+            ? changes(libraryLookup(movies))
+            : changes;
+        const positions = new Map(movies.map((m, i) => [m.id, i]));
+
+        const replaced: Movie[] = [];
+        for (const { id, input } of replace) {
+          const i = positions.get(id);
+          if (i === undefined) continue;
+
+          const existing = movies[i];
+          movies[i] = toLocalMovie(
+            id,
+            replacementInput(existing, input),
+            existing.createdAt,
+            new Date().toISOString()
+          );
+          replaced.push(movies[i]);
+        }
+
+        const created = create.map((input) =>
+          toLocalMovie(newLocalId(), input)
+        );
+        movies.push(...created);
+
+        // one snapshot and one rewrite for the whole batch
+        if (created.length || replaced.length) await writeMovies(movies);
+
+        return { created, replaced };
+      });
+    },
+
+    delete(id, condition) {
+      return writes.run(async () => {
+        const movies = await readMovies();
+        const existing = movies.find((m) => m.id === id);
+        if (!existing) return false;
+
+        checkCondition(existing, condition);
+        await writeMovies(movies.filter((m) => m !== existing));
+        return true;
+      });
+    },
+
+    async close() {
+      // let queued writes finish; nothing else is held open
+      await writes.idle();
+    },
+
+    async health(): Promise<StoreHealth> {
+      if (corruption) {
+        return {
+          status: "degraded",
+          detail: `movies file unreadable (${corruption.reason}); quarantined to ${corruption.quarantinedTo ?? "n/a"}`,
+        };
+      }
+      return { status: "ok" };
+    },
+
+    listSnapshots: snapshots.list,
+
+    /**
+     * Replace the data file with a snapshot. The current file (if readable)
+     * is snapshotted first, so a restore can itself be undone.
+     */
+    restoreSnapshot(name) {
+      return writes.run(async () => {
+        const raw = await snapshots.read(name);
+
+        let movies: Movie[];
+        try {
+          movies = parseMovies(raw).file.movies;
+        } catch (err) {
+          throw new InvalidSnapshotError(
+            name,
+            err instanceof Error ? err.message : String(err)
+          );
+        }
+
+        corruption = null;
+        await writeMovies(movies);
+        await snapshots.release();
+        logger.info("Restored movies file from snapshot", {
+          path: filePath,
+          snapshot: name,
+        });
+      });
+    },
+  };
+}
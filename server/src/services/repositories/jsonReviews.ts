@@ -0,0 +1,191 @@
+// server/src/services/repositories/jsonReviews.ts
+// Reviews of the JSON store, in one file next to movies.json
+// (data/reviews.json), kept in memory.
+
+import type {
+  Review,
+  ReviewRepository,
+  ReviewSort,
+} from "../../types/review";
+import { DuplicateReviewError } from "./errors";
+import { createJsonDocument } from "./jsonDocument";
+import { newReview, toReviewStats } from "./review";
+
+type ReviewsFile = { reviews: Review[] };
+
+function parseReviewsFile(raw: unknown): ReviewsFile {
+  const file = raw as Partial<ReviewsFile> | null;
+  if (!Array.isArray(file?.reviews)) throw new Error("Not a reviews file");
+  return { reviews: file.reviews };
+}
+
+const COMPARE: Record<ReviewSort, (a: Review, b: Review) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  helpful: (a, b) =>
+    b.helpfulBy.length - a.helpfulBy.length ||
+    b.createdAt.localeCompare(a.createdAt),
+};
+
+/**
+ * Ids of `id` and every reply below it.
+ */
+function subtree(reviews: Review[], id: string): Set<string> {
+  const ids = new Set([id]);
+  // replies are stored after what they reply to
+  for (const review of reviews) {
+    if (review.parentId && ids.has(review.parentId)) ids.add(review.id);
+  }
+  return ids;
+}
+
+export function createJsonReviewRepository(
+  filePath: string
+): ReviewRepository {
+  const doc = createJsonDocument<ReviewsFile>(filePath, {
+    empty: { reviews: [] },
+    parse: parseReviewsFile,
+  });
+
+  const find = (id: string) =>
+    doc.get().reviews.find((r) => r.id === id) ?? null;
+
+  /**
+   * Replace one review with what `build` makes of it.
+   */
+  function modify(id: string, build: (existing: Review) => Review) {
+    return doc.change(async ({ reviews }, save) => {
+      const existing = reviews.find((r) => r.id === id);
+      if (!existing) return null;
+
+      const updated = build(existing);
+      await save({
+        reviews: reviews.map((r) => (r.id === id ? updated : r)),
+      });
+      return updated;
+    });
+  }
+
+  return {
+    init: () => doc.init(),
+
+    close: () => doc.close(),
+
+    async listThreads(movieId, { sort, offset, limit, includeHidden }) {
+      const { reviews } = doc.get();
+      const threads = reviews
+        .filter(
+          (r) =>
+            r.movieId === movieId &&
+            r.parentId === null &&
+            (includeHidden || !r.hidden)
+        )
+        .sort(COMPARE[sort]);
+
+      const items = threads.slice(offset, offset + limit);
+      const threadIds = new Set(items.map((r) => r.id));
+      const replies = reviews
+        .filter((r) => r.parentId !== null && threadIds.has(r.threadId))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      return { items, replies, total: threads.length };
+    },
+
+    async stats(movieId) {
+      const visible = doc
+        .get()
+        .reviews.filter(
+          (r) => r.movieId === movieId && r.parentId === null && !r.hidden
+        );
+      const stars = visible.flatMap((r) =>
+        r.stars === undefined ? [] : [r.stars]
+      );
+      return toReviewStats(visible.length, stars);
+    },
+
+    async lastChanged(movieId) {
+      let latest: string | null = null;
+      for (const r of doc.get().reviews) {
+        if (r.movieId !== movieId || r.parentId !== null) continue;
+        for (const at of [r.updatedAt, r.moderation?.at]) {
+          if (at && (latest === null || at > latest)) latest = at;
+        }
+      }
+      return latest;
+    },
+
+    async findById(id) {
+      return find(id);
+    },
+
+    async findByAuthor(movieId, authorId) {
+      return (
+        doc
+          .get()
+          .reviews.find(
+            (r) =>
+              r.movieId === movieId &&
+              r.parentId === null &&
+              r.author.id === authorId
+          ) ?? null
+      );
+    },
+
+    create(input) {
+      return doc.change(async ({ reviews }, save) => {
+        const duplicate =
+          input.parentId === null &&
+          reviews.some(
+            (r) =>
+              r.movieId === input.movieId &&
+              r.parentId === null &&
+              r.author.id === input.author.id
+          );
+        if (duplicate) throw new DuplicateReviewError();
+
+        const parent = input.parentId
+          ? reviews.find((r) => r.id === input.parentId)
+          : undefined;
+        const review = newReview(input, parent?.threadId);
+        await save({ reviews: [...reviews, review] });
+        return review;
+      });
+    },
+
+    update(id, changes) {
+      return modify(id, (existing) => ({
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    setHidden(id, moderation) {
+      return modify(id, (existing) => {
+        const { moderation: _previous, ...rest } = existing;
+        return moderation
+          ? { ...rest, hidden: true, moderation }
+          : { ...rest, hidden: false };
+      });
+    },
+
+    setHelpful(id, userId, helpful) {
+      return modify(id, (existing) => {
+        const others = existing.helpfulBy.filter((u) => u !== userId);
+        return {
+          ...existing,
+          helpfulBy: helpful ? [...others, userId] : others,
+        };
+      });
+    },
+
+    delete(id) {
+      return doc.change(async ({ reviews }, save) => {
+        if (!reviews.some((r) => r.id === id)) return false;
+
+        const removed = subtree(reviews, id);
+        await save({ reviews: reviews.filter((r) => !removed.has(r.id)) });
+        return true;
+      });
+    },
+  };
+}
@@ -0,0 +1,106 @@
+// Helpers shared by every MovieRepository implementation.
+
+import { randomUUID } from "crypto";
+import type { Movie } from "../../types/movie";
+import type {
+  LibraryLookup,
+  LocalMovieInput,
+  WriteCondition,
+} from "../../types/repository";
+import { duplicateKey } from "../duplicates";
+import { MovieChangedError } from "./errors";
+
+/**
+ * Build a stored local movie from caller input.
+ * id, source, createdAt and updatedAt are never taken from the caller
+ * (createdAt defaults to now, updatedAt is only set once a movie is
+ * changed); core fields come first so stored records stay easy to read.
+ */
+export function toLocalMovie(
+  id: string,
+  input: LocalMovieInput,
+  createdAt: string = new Date().toISOString(),
+  updatedAt?: string
+): Movie {
+  const core = { id, title: input.title, year: input.year };
+  const movie: Movie = Object.assign(core, input, {
+    id,
+    source: "local" as const,
+    createdAt,
+  });
+
+  // input built from a stored movie may carry its old updatedAt
+  delete movie.updatedAt;
+  if (updatedAt) movie.updatedAt = updatedAt;
+  return movie;
+}
+
+/**
+ * Throw MovieChangedError unless `condition` accepts the stored movie.
+ */
+export function checkCondition(
+  existing: Movie,
+  condition: WriteCondition | undefined
+): void {
+  if (condition?.precondition && !condition.precondition(existing)) {
+    throw new MovieChangedError(existing.id);
+  }
+}
+
+/**
+ * Lookups over movies already in memory (in insertion order).
+ */
+export function libraryLookup(movies: Movie[]): LibraryLookup {
+  const byId = new Map<string, Movie>();
+  const byKey = new Map<string, Movie>();
+  const byImport = new Map<string, Movie>();
+
+  for (const movie of movies) {
+    byId.set(movie.id, movie);
+    const key = duplicateKey(movie);
+    if (!byKey.has(key)) byKey.set(key, movie);
+    const origin = movie.importedFrom?.id;
+    if (origin && !byImport.has(origin)) byImport.set(origin, movie);
+  }
+
+  return {
+    findById: (id) => byId.get(id) ?? null,
+    findDuplicate: (key) => byKey.get(key) ?? null,
+    findImport: (providerId) => byImport.get(providerId) ?? null,
+  };
+}
+
+/**
+ * Input for replacing `existing`: provenance isn't part of what callers
+ * edit, so a replace keeps importedFrom unless the input sets one, and
+ * always keeps who created the movie.
+ */
+export function replacementInput(
+  existing: Movie,
+  input: LocalMovieInput
+): LocalMovieInput {
+  const kept: Partial<LocalMovieInput> = {};
+  if (!input.importedFrom && existing.importedFrom) {
+    kept.importedFrom = existing.importedFrom;
+  }
+  if (existing.createdBy) kept.createdBy = existing.createdBy;
+
+  return { ...input, ...kept };
+}
+
+/**
+ * Best guess at when a movie without createdAt was added: early ids were
+ * "local_<Date.now()>", anything else gets `fallback`.
+ */
+export function inferCreatedAt(id: string, fallback: string): string {
+  const match = /^local_(\d{13})$/.exec(id);
+  return match ? new Date(Number(match[1])).toISOString() : fallback;
+}
+
+/**
+ * New local movie id. Random UUIDs can't collide the way timestamps
+ * did when two movies were created in the same millisecond.
+ */
+export function newLocalId(): string {
+  return `local_${randomUUID()}`;
+}
@@ -0,0 +1,76 @@
+// server/src/services/repositories/lookup.test.ts
+// Keyed lookups of the stored movies (MovieRepository.lookup), against
+// both backends: by id, by duplicateKey and by the provider id imported.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import type { MovieRepository } from "../../types/repository";
+import { duplicateKey } from "../duplicates";
+import { configureLogger } from "../observability";
+import { createJsonFileRepository } from "./jsonFile";
+import { createSqliteRepository } from "./sqlite";
+
+configureLogger({ level: "error" });
+
+// Each backend, opened on the files in `dir`
+const BACKENDS: [string, (dir: string) => MovieRepository][] = [
+  [
+    "json",
+    (dir) =>
+      createJsonFileRepository(path.join(dir, "movies.json"), {
+        backupDir: path.join(dir, "backups"),
+        quarantineDir: path.join(dir, "quarantine"),
+        backupLimit: 5,
+      }),
+  ],
+  ["sqlite", (dir) => createSqliteRepository(path.join(dir, "movies.db"))],
+];
+
+for (const [name, open] of BACKENDS) {
+  describe(`${name} repository lookups`, () => {
+    let dir: string;
+    let repo: MovieRepository;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), `lookup-${name}-`));
+      repo = open(dir);
+      await repo.init();
+    });
+
+    after(async () => {
+      await repo.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test("finds a movie by id, duplicate key and import", async () => {
+      const heat = await repo.create({
+        title: "Heat",
+        year: 1995,
+        importedFrom: {
+          source: "third_party",
+          id: "tp_7",
+          importedAt: new Date().toISOString(),
+        },
+      });
+
+      const sameFilm = duplicateKey({ title: "HEAT", year: 1995 });
+      const remake = duplicateKey({ title: "Heat", year: 1996 });
+      const found = await repo.lookup((library) => ({
+        byId: library.findById(heat.id)?.id,
+        byKey: library.findDuplicate(sameFilm)?.id,
+        byImport: library.findImport("tp_7")?.id,
+        missing: library.findDuplicate(remake),
+      }));
+
+      assert.deepEqual(found, {
+        byId: heat.id,
+        byKey: heat.id,
+        byImport: heat.id,
+        missing: null,
+      });
+    });
+  });
+}
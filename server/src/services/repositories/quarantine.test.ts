@@ -0,0 +1,69 @@
+// server/src/services/repositories/quarantine.test.ts
+// An unreadable movies.json is quarantined, and the JSON store stays
+// read-only (even after a restart) until a snapshot is restored.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+import { configureLogger } from "../observability";
+import { StoreUnavailableError } from "./errors";
+import { createJsonFileRepository } from "./jsonFile";
+
+configureLogger({ level: "error" });
+
+let dir: string;
+let filePath: string;
+
+function open() {
+  return createJsonFileRepository(filePath, {
+    backupDir: path.join(dir, "backups"),
+    quarantineDir: path.join(dir, "quarantine"),
+    backupLimit: 5,
+  });
+}
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "movies-quarantine-"));
+  filePath = path.join(dir, "movies.json");
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("stays quarantined across restarts until a restore", async () => {
+  // two writes, so there's a snapshot holding the first movie
+  let repo = open();
+  await repo.init();
+  await repo.create({ title: "Kept", year: 2001 });
+  await repo.create({ title: "Also kept", year: 2002 });
+  await repo.close();
+
+  await fs.writeFile(filePath, "{ not json");
+  repo = open();
+  await repo.init();
+  assert.equal((await repo.health()).status, "degraded");
+  await repo.close();
+
+  // movies.json is gone now: a restart must not take that as "empty"
+  repo = open();
+  await repo.init();
+  assert.equal((await repo.health()).status, "degraded");
+  await assert.rejects(repo.all(), StoreUnavailableError);
+  await assert.rejects(
+    repo.create({ title: "Lost", year: 2003 }),
+    StoreUnavailableError
+  );
+
+  const [snapshot] = await repo.listSnapshots!();
+  await repo.restoreSnapshot!(snapshot.name);
+  await repo.close();
+
+  repo = open();
+  await repo.init();
+  assert.equal((await repo.health()).status, "ok");
+  assert.deepEqual((await repo.all()).map((m) => m.title), ["Kept"]);
+  await repo.close();
+});
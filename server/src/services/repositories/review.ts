@@ -0,0 +1,42 @@
+// Helpers shared by every ReviewRepository implementation.
+
+import { randomUUID } from "crypto";
+import type { Review, ReviewInput, ReviewStats } from "../../types/review";
+
+/**
+ * Build a new review. A reply joins its parent's thread; a top-level
+ * review starts its own.
+ */
+export function newReview(input: ReviewInput, threadId?: string): Review {
+  const id = `review_${randomUUID()}`;
+  const now = new Date().toISOString();
+
+  const review: Review = {
+    id,
+    movieId: input.movieId,
+    parentId: input.parentId,
+    threadId: threadId ?? id,
+    author: input.author,
+    text: input.text,
+    hidden: false,
+    helpfulBy: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (input.stars !== undefined) review.stars = input.stars;
+  return review;
+}
+
+/**
+ * Stats of a movie from its number of reviews and the stars given.
+ */
+export function toReviewStats(reviews: number, stars: number[]): ReviewStats {
+  const sum = stars.reduce((total, n) => total + n, 0);
+  return {
+    reviews,
+    ratings: stars.length,
+    averageRating: stars.length
+      ? Math.round((sum / stars.length) * 10) / 10
+      : null,
+  };
+}
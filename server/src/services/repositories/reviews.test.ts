@@ -0,0 +1,114 @@
+// server/src/services/repositories/reviews.test.ts
+// One review per author and movie, against both backends, however many
+// of them arrive at once; replies aren't limited. When a movie's reviews
+// last changed.
+
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, describe, test } from "node:test";
+import type { ReviewInput, ReviewRepository } from "../../types/review";
+import { configureLogger } from "../observability";
+import { DuplicateReviewError } from "./errors";
+import { createJsonReviewRepository } from "./jsonReviews";
+import { createSqliteReviewRepository } from "./sqliteReviews";
+
+const PARALLEL_REVIEWS = 4;
+
+configureLogger({ level: "error" });
+
+// Each backend, opened on the files in `dir`
+const BACKENDS: [string, (dir: string) => ReviewRepository][] = [
+  [
+    "json",
+    (dir) => createJsonReviewRepository(path.join(dir, "reviews.json")),
+  ],
+  [
+    "sqlite",
+    (dir) => createSqliteReviewRepository(path.join(dir, "movies.db")),
+  ],
+];
+
+const review = (parentId: string | null = null): ReviewInput => ({
+  movieId: "local_1",
+  parentId,
+  author: { id: "user_1", username: "alice" },
+  text: "Worth a watch",
+  stars: 4,
+});
+
+for (const [name, open] of BACKENDS) {
+  describe(`${name} reviews`, () => {
+    let dir: string;
+    let reviews: ReviewRepository;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), `reviews-${name}-`));
+      reviews = open(dir);
+      await reviews.init();
+    });
+
+    after(async () => {
+      await reviews.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test("keeps one of several parallel reviews by one author", async () => {
+      const results = await Promise.allSettled(
+        Array.from({ length: PARALLEL_REVIEWS }, () =>
+          reviews.create(review())
+        )
+      );
+
+      const rejected = results.flatMap((r) =>
+        r.status === "rejected" ? [r.reason] : []
+      );
+      assert.equal(rejected.length, PARALLEL_REVIEWS - 1);
+      for (const err of rejected) {
+        assert.ok(err instanceof DuplicateReviewError);
+      }
+
+      const page = await reviews.listThreads("local_1", {
+        sort: "newest",
+        offset: 0,
+        limit: 10,
+        includeHidden: true,
+      });
+      assert.equal(page.total, 1);
+    });
+
+    test("lets an author reply as often as they like", async () => {
+      const thread = await reviews.findByAuthor("local_1", "user_1");
+      assert.ok(thread);
+
+      await reviews.create(review(thread.id));
+      await reviews.create(review(thread.id));
+
+      const page = await reviews.listThreads("local_1", {
+        sort: "newest",
+        offset: 0,
+        limit: 10,
+        includeHidden: true,
+      });
+      assert.equal(page.replies.length, 2);
+    });
+
+    test("lastChanged follows edits and moderation", async () => {
+      const thread = await reviews.findByAuthor("local_1", "user_1");
+      assert.ok(thread);
+      assert.equal(await reviews.lastChanged("local_1"), thread.updatedAt);
+      assert.equal(await reviews.lastChanged("local_2"), null);
+
+      await sleep(5);
+      const edited = await reviews.update(thread.id, { stars: 2 });
+      assert.equal(await reviews.lastChanged("local_1"), edited?.updatedAt);
+
+      await sleep(5);
+      const at = new Date().toISOString();
+      await reviews.setHidden(thread.id, { by: review().author, at });
+      assert.equal(await reviews.lastChanged("local_1"), at);
+    });
+  });
+}
@@ -0,0 +1,189 @@
+// Rotating, timestamped copies of a data file, taken before each write,
+// plus a quarantine area for files that turned out to be unreadable.
+// Quarantine is recorded on disk, so a restart can't mistake the missing
+// file for an empty store.
+
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { StoreSnapshot } from "../../types/repository";
+import { writeFileAtomic } from "./atomicFile";
+import { SnapshotNotFoundError } from "./errors";
+
+// movies-2026-01-09T23-33-15-334Z-1a2b3c4d.json
+const SNAPSHOT_NAME = /^[\w.-]+-\d{4}-\d{2}-\d{2}T[\d-]+Z-[0-9a-f]{8}\.json$/;
+
+/**
+ * Filesystem-safe timestamp, sortable as text.
+ */
+function stamp(date = new Date()) {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+export type SnapshotOptions = {
+  // file being protected, e.g. data/movies.json
+  filePath: string;
+  // where snapshots go, e.g. data/backups
+  backupDir: string;
+  // where unreadable files are moved, e.g. data/quarantine
+  quarantineDir: string;
+  // how many snapshots to keep (oldest are deleted first)
+  keep: number;
+};
+
+/**
+ * Why and where a data file was quarantined (kept until it's restored).
+ */
+export type QuarantineRecord = {
+  reason: string;
+  // null if the file was already gone
+  quarantinedTo: string | null;
+  at: string;
+};
+
+/**
+ * Snapshot helpers bound to one data file.
+ */
+export function createSnapshots(options: SnapshotOptions) {
+  const { filePath, backupDir, quarantineDir, keep } = options;
+  const base = path.basename(filePath, path.extname(filePath));
+  // e.g. data/quarantine/movies.json.quarantined.json
+  const recordPath = path.join(
+    quarantineDir,
+    `${path.basename(filePath)}.quarantined.json`
+  );
+
+  /**
+   * Resolve a snapshot name to its path, rejecting anything that isn't
+   * a plain snapshot file name (no "../" tricks).
+   */
+  function snapshotPath(name: string) {
+    if (!SNAPSHOT_NAME.test(name) || !name.startsWith(`${base}-`)) {
+      throw new SnapshotNotFoundError(name);
+    }
+    return path.join(backupDir, name);
+  }
+
+  async function list(): Promise<StoreSnapshot[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(backupDir);
+    } catch {
+      return [];
+    }
+
+    const snapshots = await Promise.all(
+      names
+        .filter((n) => SNAPSHOT_NAME.test(n) && n.startsWith(`${base}-`))
+        .map(async (name) => {
+          const stat = await fs.stat(path.join(backupDir, name));
+          return {
+            name,
+            createdAt: stat.mtime.toISOString(),
+            sizeBytes: stat.size,
+          };
+        })
+    );
+
+    // newest first (names start with a sortable timestamp)
+    return snapshots.sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  return {
+    list,
+
+    /**
+     * Copy the current file into the backup dir, then drop the oldest
+     * snapshots beyond `keep`. Does nothing if the file doesn't exist yet.
+     */
+    async take(): Promise<StoreSnapshot | null> {
+      const name = `${base}-${stamp()}-${randomUUID().slice(0, 8)}.json`;
+
+      await fs.mkdir(backupDir, { recursive: true });
+      try {
+        await fs.copyFile(filePath, path.join(backupDir, name));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+
+      const all = await list();
+      await Promise.all(
+        all
+          .slice(keep)
+          .map((s) => fs.rm(path.join(backupDir, s.name), { force: true }))
+      );
+
+      return all.find((s) => s.name === name) ?? null;
+    },
+
+    /**
+     * Raw contents of a snapshot.
+     */
+    async read(name: string): Promise<string> {
+      try {
+        return await fs.readFile(snapshotPath(name), "utf-8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new SnapshotNotFoundError(name);
+        }
+        throw err;
+      }
+    },
+
+    /**
+     * Move the current file aside so nothing overwrites it, recording
+     * why (see quarantined). The record is written first: a crash in
+     * between leaves the store quarantined, never silently empty.
+     */
+    async quarantine(reason: string): Promise<QuarantineRecord> {
+      const record: QuarantineRecord = {
+        reason,
+        quarantinedTo: path.join(
+          quarantineDir,
+          `${path.basename(filePath)}.${stamp()}.corrupt`
+        ),
+        at: new Date().toISOString(),
+      };
+
+      await fs.mkdir(quarantineDir, { recursive: true });
+      await writeFileAtomic(recordPath, JSON.stringify(record, null, 2));
+      try {
+        await fs.rename(filePath, record.quarantinedTo!);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        record.quarantinedTo = null;
+        await writeFileAtomic(recordPath, JSON.stringify(record, null, 2));
+      }
+      return record;
+    },
+
+    /**
+     * The record of the last quarantine, or null if the file isn't
+     * quarantined (never was, or has been restored since).
+     */
+    async quarantined(): Promise<QuarantineRecord | null> {
+      let raw: string;
+      try {
+        raw = await fs.readFile(recordPath, "utf-8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+
+      try {
+        return JSON.parse(raw) as QuarantineRecord;
+      } catch {
+        // still quarantined, just without the details
+        return { reason: "unknown", quarantinedTo: null, at: "" };
+      }
+    },
+
+    /**
+     * Forget the quarantine, once the file has been restored.
+     */
+    async release(): Promise<void> {
+      await fs.rm(recordPath, { force: true });
+    },
+  };
+}
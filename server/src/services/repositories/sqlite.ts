@@ -0,0 +1,407 @@
+// server/src/services/repositories/sqlite.ts
+// Local movies stored in an embedded SQLite database (better-sqlite3).
+// Filtering and paging run in SQL, so large libraries aren't loaded
+// into memory on every request.
+
+import Database from "better-sqlite3";
+import type { Movie, MovieDetails } from "../../types/movie";
+import type { MovieSortField } from "../../types/movieQuery";
+import type {
+  BulkWrite,
+  BulkWritePlan,
+  LibraryLookup,
+  LocalMovieInput,
+  MovieRepository,
+  WriteCondition,
+} from "../../types/repository";
+import { duplicateKey } from "../duplicates";
+import {
+  checkCondition,
+  inferCreatedAt,
+  newLocalId,
+  replacementInput,
+  toLocalMovie,
+} from "./localMovie";
+
+// Bump (and add a step to migrate()) when the table layout changes
+const SQLITE_SCHEMA_VERSION = 3;
+
+// Column each sort field orders by ("source" is always "local" here,
+// so it keeps insertion order)
+const SORT_COLUMNS: Record<MovieSortField, string> = {
+  title: "title_search",
+  year: "year",
+  createdAt: "created_at",
+  source: "seq",
+};
+
+/**
+ * One row of the movies table.
+ * seq keeps insertion order; title_search is the lowercased title
+ * (matching the JSON backend's case-insensitive search).
+ * details holds the optional fields (and updatedAt) as JSON;
+ * duplicate_key and imported_from are copies of what it says, indexed
+ * for the lookups of a planned bulk write.
+ */
+type MovieRow = {
+  seq: number;
+  id: string;
+  title: string;
+  title_search: string;
+  year: number;
+  created_at: string;
+  details: string | null;
+  duplicate_key: string;
+  imported_from: string | null;
+};
+
+/**
+ * Split a movie into its columns.
+ */
+function toRow(movie: Movie) {
+  const { id, title, year, source: _source, createdAt, ...details } = movie;
+  const hasDetails = Object.values(details).some((v) => v !== undefined);
+
+  return {
+    id,
+    title,
+    title_search: title.toLowerCase(),
+    year,
+    created_at: createdAt ?? new Date().toISOString(),
+    details: hasDetails ? JSON.stringify(details) : null,
+    duplicate_key: duplicateKey(movie),
+    imported_from: movie.importedFrom?.id ?? null,
+  };
+}
+
+function fromRow(row: MovieRow): Movie {
+  const { updatedAt, ...details } = row.details
+    ? (JSON.parse(row.details) as MovieDetails & { updatedAt?: string })
+    : {};
+
+  return toLocalMovie(
+    row.id,
+    { ...details, title: row.title, year: row.year },
+    row.created_at,
+    updatedAt
+  );
+}
+
+/**
+ * Escape LIKE wildcards so a search for "50%" means the literal text.
+ */
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * The SQLite repository also supports bulk import (see scripts/importToSqlite.ts).
+ */
+export type SqliteMovieRepository = MovieRepository & {
+  /**
+   * One-shot import of existing movies (e.g. from movies.json), keeping
+   * their ids. Movies whose id is already present are skipped, so running
+   * it twice is harmless.
+   */
+  importMovies(movies: Movie[]): Promise<{ imported: number; skipped: number }>;
+};
+
+/**
+ * Create a repository backed by the SQLite database at `dbPath`
+ * (created on first use).
+ */
+export function createSqliteRepository(dbPath: string): SqliteMovieRepository {
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+
+  /**
+   * Create or upgrade the schema, tracked with PRAGMA user_version.
+   */
+  function migrate() {
+    const version = db.pragma("user_version", { simple: true }) as number;
+
+    if (version < 1) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS movies (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          title TEXT NOT NULL,
+          title_search TEXT NOT NULL,
+          year INTEGER NOT NULL,
+          details TEXT
+        );
+        CREATE INDEX IF NOT EXISTS movies_title_search ON movies (title_search);
+        CREATE INDEX IF NOT EXISTS movies_year ON movies (year);
+      `);
+    }
+
+    if (version < 2) {
+      // v2: created_at, backfilled from legacy timestamp ids where possible
+      db.exec("ALTER TABLE movies ADD COLUMN created_at TEXT");
+
+      const now = new Date().toISOString();
+      const rows = db
+        .prepare<[], { id: string }>("SELECT id FROM movies")
+        .all();
+      const setCreatedAt = db.prepare<[string, string]>(
+        "UPDATE movies SET created_at = ? WHERE id = ?"
+      );
+      for (const { id } of rows) setCreatedAt.run(inferCreatedAt(id, now), id);
+
+      db.exec(
+        "CREATE INDEX IF NOT EXISTS movies_created_at ON movies (created_at)"
+      );
+    }
+
+    if (version < 3) {
+      // v3: duplicate_key and imported_from, backfilled from each movie
+      db.exec(`
+        ALTER TABLE movies ADD COLUMN duplicate_key TEXT NOT NULL DEFAULT '';
+        ALTER TABLE movies ADD COLUMN imported_from TEXT;
+      `);
+
+      const rows = db.prepare<[], MovieRow>("SELECT * FROM movies").all();
+      const setKeys = db.prepare(
+        `UPDATE movies SET duplicate_key = @duplicate_key,
+           imported_from = @imported_from
+         WHERE id = @id`
+      );
+      for (const row of rows) setKeys.run(toRow(fromRow(row)));
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS movies_duplicate_key
+          ON movies (duplicate_key);
+        CREATE INDEX IF NOT EXISTS movies_imported_from
+          ON movies (imported_from);
+      `);
+    }
+
+    db.pragma(`user_version = ${SQLITE_SCHEMA_VERSION}`);
+  }
+
+  db.transaction(migrate)();
+
+  const statements = {
+    all: db.prepare<[], MovieRow>("SELECT * FROM movies ORDER BY seq"),
+    findById: db.prepare<[string], MovieRow>(
+      "SELECT * FROM movies WHERE id = ?"
+    ),
+    findDuplicate: db.prepare<[string], MovieRow>(
+      "SELECT * FROM movies WHERE duplicate_key = ? ORDER BY seq LIMIT 1"
+    ),
+    findImport: db.prepare<[string], MovieRow>(
+      "SELECT * FROM movies WHERE imported_from = ? ORDER BY seq LIMIT 1"
+    ),
+    insert: db.prepare(
+      `INSERT INTO movies (id, title, title_search, year, created_at,
+         details, duplicate_key, imported_from)
+       VALUES (@id, @title, @title_search, @year, @created_at,
+         @details, @duplicate_key, @imported_from)`
+    ),
+    update: db.prepare(
+      `UPDATE movies
+       SET title = @title, title_search = @title_search,
+           year = @year, details = @details,
+           duplicate_key = @duplicate_key, imported_from = @imported_from
+       WHERE id = @id`
+    ),
+    delete: db.prepare<[string]>("DELETE FROM movies WHERE id = ?"),
+    importOne: db.prepare(
+      `INSERT OR IGNORE INTO movies (id, title, title_search, year,
+         created_at, details, duplicate_key, imported_from)
+       VALUES (@id, @title, @title_search, @year, @created_at,
+         @details, @duplicate_key, @imported_from)`
+    ),
+  };
+
+  /**
+   * Lookups by indexed column, for planned bulk writes.
+   */
+  const library: LibraryLookup = {
+    findById: (id) => {
+      const row = statements.findById.get(id);
+      return row ? fromRow(row) : null;
+    },
+    findDuplicate: (key) => {
+      const row = statements.findDuplicate.get(key);
+      return row ? fromRow(row) : null;
+    },
+    findImport: (providerId) => {
+      const row = statements.findImport.get(providerId);
+      return row ? fromRow(row) : null;
+    },
+  };
+
+  /**
+   * Shared read-modify-write for replace/update, in one transaction.
+   */
+  const save = db.transaction(
+    (
+      id: string,
+      build: (existing: Movie) => LocalMovieInput,
+      condition?: WriteCondition
+    ) => {
+      const row = statements.findById.get(id);
+      if (!row) return null;
+
+      const existing = fromRow(row);
+      checkCondition(existing, condition);
+      const updated = toLocalMovie(
+        existing.id,
+        build(existing),
+        existing.createdAt,
+        new Date().toISOString()
+      );
+
+      statements.update.run(toRow(updated));
+      return updated;
+    }
+  );
+
+  const remove = db.transaction((id: string, condition?: WriteCondition) => {
+    const row = statements.findById.get(id);
+    if (!row) return false;
+
+    checkCondition(fromRow(row), condition);
+    return statements.delete.run(id).changes > 0;
+  });
+
+  const bulkWrite = db.transaction((changes: BulkWritePlan) => {
+    const { create, replace }: BulkWrite =
+      typeof changes === "function" ? changes(library) : changes;
+
+    const replaced: Movie[] = [];
+    for (const { id, input } of replace) {
+      const movie = save(id, (existing) => replacementInput(existing, input));
+      if (movie) replaced.push(movie);
+    }
+
+    const created = create.map((input) => toLocalMovie(newLocalId(), input));
+    for (const movie of created) statements.insert.run(toRow(movie));
+
+    return { created, replaced };
+  });
+
+  const importAll = db.transaction((movies: Movie[]) => {
+    let imported = 0;
+    for (const movie of movies) {
+      imported += statements.importOne.run(toRow(movie)).changes;
+    }
+    return imported;
+  });
+
+  return {
+    async init() {
+      // schema is created when the repository is constructed
+    },
+
+    async list({ search, year, yearFrom, yearTo, sort, offset, limit }) {
+      const conditions: string[] = [];
+      const args: unknown[] = [];
+
+      const needle = search?.toLowerCase() ?? "";
+      if (needle) {
+        conditions.push("title_search LIKE ? ESCAPE '\\'");
+        args.push(`%${escapeLike(needle)}%`);
+      }
+      if (year !== undefined) {
+        conditions.push("year = ?");
+        args.push(year);
+      }
+      if (yearFrom !== undefined) {
+        conditions.push("year >= ?");
+        args.push(yearFrom);
+      }
+      if (yearTo !== undefined) {
+        conditions.push("year <= ?");
+        args.push(yearTo);
+      }
+
+      const where = conditions.length
+        ? `WHERE ${conditions.join(" AND ")}`
+        : "";
+
+      // ties keep insertion order, like the JSON backend
+      const direction = sort?.order === "desc" ? "DESC" : "ASC";
+      const orderBy = sort
+        ? `${SORT_COLUMNS[sort.field]} ${direction}, seq`
+        : "seq";
+
+      const { total } = db
+        .prepare<unknown[], { total: number }>(
+          `SELECT COUNT(*) AS total FROM movies ${where}`
+        )
+        .get(...args)!;
+
+      const rows = db
+        .prepare<unknown[], MovieRow>(
+          `SELECT * FROM movies ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+        )
+        .all(...args, limit, offset);
+
+      return { items: rows.map(fromRow), total };
+    },
+
+    async all() {
+      return statements.all.all().map(fromRow);
+    },
+
+    async findById(id) {
+      const row = statements.findById.get(id);
+      return row ? fromRow(row) : null;
+    },
+
+    async lookup(read) {
+      return read(library);
+    },
+
+    async create(input) {
+      const movie = toLocalMovie(newLocalId(), input);
+      statements.insert.run(toRow(movie));
+      return movie;
+    },
+
+    async replace(id, input, condition) {
+      return save(
+        id,
+        (existing) => replacementInput(existing, input),
+        condition
+      );
+    },
+
+    async update(id, changes, condition) {
+      return save(id, (existing) => ({ ...existing, ...changes }), condition);
+    },
+
+    async delete(id, condition) {
+      return remove(id, condition);
+    },
+
+    async bulkWrite(changes) {
+      // immediate: another process can't write between the plan's
+      // lookups and our writes
+      return bulkWrite.immediate(changes);
+    },
+
+    async close() {
+      db.close();
+    },
+
+    async health() {
+      try {
+        db.prepare("SELECT COUNT(*) FROM movies").get();
+        return { status: "ok" as const };
+      } catch (err) {
+        return {
+          status: "degraded" as const,
+          detail: err instanceof Error ? err.message : String(err),
+        };
+      }
+    },
+
+    async importMovies(movies) {
+      const imported = importAll(movies);
+      return { imported, skipped: movies.length - imported };
+    },
+  };
+}
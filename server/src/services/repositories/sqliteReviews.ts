@@ -0,0 +1,304 @@
+// server/src/services/repositories/sqliteReviews.ts
+// Reviews of the SQLite store, in a reviews table of the same database
+// as the movies. Threads are sorted and paged in SQL.
+
+import Database from "better-sqlite3";
+import type {
+  Review,
+  ReviewRepository,
+  ReviewSort,
+} from "../../types/review";
+import { logger } from "../observability";
+import { DuplicateReviewError } from "./errors";
+import { newReview, toReviewStats } from "./review";
+
+/**
+ * One row of the reviews table. author, moderation and helpful_by hold
+ * JSON; helpful_count mirrors helpful_by so it can be sorted on.
+ */
+type ReviewRow = {
+  id: string;
+  movie_id: string;
+  parent_id: string | null;
+  thread_id: string;
+  author: string;
+  text: string;
+  stars: number | null;
+  hidden: number;
+  moderation: string | null;
+  helpful_by: string;
+  helpful_count: number;
+  created_at: string;
+  updated_at: string;
+};
+
+const ORDER_BY: Record<ReviewSort, string> = {
+  newest: "created_at DESC",
+  helpful: "helpful_count DESC, created_at DESC",
+};
+
+function toRow(review: Review): ReviewRow {
+  return {
+    id: review.id,
+    movie_id: review.movieId,
+    parent_id: review.parentId,
+    thread_id: review.threadId,
+    author: JSON.stringify(review.author),
+    text: review.text,
+    stars: review.stars ?? null,
+    hidden: review.hidden ? 1 : 0,
+    moderation: review.moderation ? JSON.stringify(review.moderation) : null,
+    helpful_by: JSON.stringify(review.helpfulBy),
+    helpful_count: review.helpfulBy.length,
+    created_at: review.createdAt,
+    updated_at: review.updatedAt,
+  };
+}
+
+function fromRow(row: ReviewRow): Review {
+  const review: Review = {
+    id: row.id,
+    movieId: row.movie_id,
+    parentId: row.parent_id,
+    threadId: row.thread_id,
+    author: JSON.parse(row.author),
+    text: row.text,
+    hidden: row.hidden === 1,
+    helpfulBy: JSON.parse(row.helpful_by),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+  if (row.stars !== null) review.stars = row.stars;
+  if (row.moderation) review.moderation = JSON.parse(row.moderation);
+  return review;
+}
+
+/**
+ * Create the review repository of the SQLite database at `dbPath`.
+ */
+export function createSqliteReviewRepository(
+  dbPath: string
+): ReviewRepository {
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS reviews (
+      id TEXT PRIMARY KEY,
+      movie_id TEXT NOT NULL,
+      parent_id TEXT,
+      thread_id TEXT NOT NULL,
+      author TEXT NOT NULL,
+      text TEXT NOT NULL,
+      stars INTEGER,
+      hidden INTEGER NOT NULL DEFAULT 0,
+      moderation TEXT,
+      helpful_by TEXT NOT NULL DEFAULT '[]',
+      helpful_count INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS reviews_movie ON reviews (movie_id, parent_id);
+    CREATE INDEX IF NOT EXISTS reviews_thread ON reviews (thread_id);
+  `);
+
+  try {
+    // one top-level review per author and movie
+    db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS reviews_one_per_author
+        ON reviews (movie_id, json_extract(author, '$.id'))
+        WHERE parent_id IS NULL
+    `);
+  } catch (err) {
+    // reviews stored before the index existed break the rule; create()
+    // still checks it, in the same transaction as the insert
+    logger.warn("Can't add the one-review-per-author index", {
+      error: (err as Error).message,
+    });
+  }
+
+  const statements = {
+    findById: db.prepare<[string], ReviewRow>(
+      "SELECT * FROM reviews WHERE id = ?"
+    ),
+    findByAuthor: db.prepare<[string, string], ReviewRow>(
+      `SELECT * FROM reviews
+       WHERE movie_id = ? AND parent_id IS NULL
+         AND json_extract(author, '$.id') = ?`
+    ),
+    stats: db.prepare<[string], { stars: number | null }>(
+      `SELECT stars FROM reviews
+       WHERE movie_id = ? AND parent_id IS NULL AND hidden = 0`
+    ),
+    // ISO timestamps compare as text
+    lastChanged: db.prepare<[string], { at: string | null }>(
+      `SELECT MAX(MAX(updated_at,
+                      COALESCE(json_extract(moderation, '$.at'), ''))) AS at
+       FROM reviews
+       WHERE movie_id = ? AND parent_id IS NULL`
+    ),
+    insert: db.prepare<[ReviewRow]>(
+      `INSERT INTO reviews
+         (id, movie_id, parent_id, thread_id, author, text, stars, hidden,
+          moderation, helpful_by, helpful_count, created_at, updated_at)
+       VALUES
+         (@id, @movie_id, @parent_id, @thread_id, @author, @text, @stars,
+          @hidden, @moderation, @helpful_by, @helpful_count, @created_at,
+          @updated_at)`
+    ),
+    update: db.prepare<[ReviewRow]>(
+      `UPDATE reviews
+       SET text = @text, stars = @stars, hidden = @hidden,
+           moderation = @moderation, helpful_by = @helpful_by,
+           helpful_count = @helpful_count, updated_at = @updated_at
+       WHERE id = @id`
+    ),
+    deleteSubtree: db.prepare<[string]>(
+      `WITH RECURSIVE below(id) AS (
+         SELECT ?
+         UNION ALL
+         SELECT reviews.id FROM reviews
+         JOIN below ON reviews.parent_id = below.id
+       )
+       DELETE FROM reviews WHERE id IN (SELECT id FROM below)`
+    ),
+  };
+
+  /**
+   * Read-modify-write of one review, in one transaction.
+   */
+  const modify = db.transaction(
+    (id: string, build: (existing: Review) => Review) => {
+      const row = statements.findById.get(id);
+      if (!row) return null;
+
+      const updated = build(fromRow(row));
+      statements.update.run(toRow(updated));
+      return updated;
+    }
+  );
+
+  const create = db.transaction((review: Review) => {
+    if (
+      review.parentId === null &&
+      statements.findByAuthor.get(review.movieId, review.author.id)
+    ) {
+      throw new DuplicateReviewError();
+    }
+
+    const parent = review.parentId
+      ? statements.findById.get(review.parentId)
+      : undefined;
+    if (parent) review.threadId = parent.thread_id;
+
+    try {
+      statements.insert.run(toRow(review));
+    } catch (err) {
+      // another process got its review in first
+      const code = (err as { code?: string }).code;
+      if (code === "SQLITE_CONSTRAINT_UNIQUE") throw new DuplicateReviewError();
+      throw err;
+    }
+    return review;
+  });
+
+  return {
+    async init() {
+      // the table is created when the repository is constructed
+    },
+
+    async close() {
+      db.close();
+    },
+
+    async listThreads(movieId, { sort, offset, limit, includeHidden }) {
+      const where =
+        "WHERE movie_id = ? AND parent_id IS NULL" +
+        (includeHidden ? "" : " AND hidden = 0");
+
+      const { total } = db
+        .prepare<[string], { total: number }>(
+          `SELECT COUNT(*) AS total FROM reviews ${where}`
+        )
+        .get(movieId)!;
+
+      const items = db
+        .prepare<[string, number, number], ReviewRow>(
+          `SELECT * FROM reviews ${where}
+           ORDER BY ${ORDER_BY[sort]}, id LIMIT ? OFFSET ?`
+        )
+        .all(movieId, limit, offset)
+        .map(fromRow);
+
+      const threadIds = items.map((r) => r.id);
+      const replies = threadIds.length
+        ? db
+            .prepare<string[], ReviewRow>(
+              `SELECT * FROM reviews
+               WHERE parent_id IS NOT NULL
+                 AND thread_id IN (${threadIds.map(() => "?").join(", ")})
+               ORDER BY created_at`
+            )
+            .all(...threadIds)
+            .map(fromRow)
+        : [];
+
+      return { items, replies, total };
+    },
+
+    async stats(movieId) {
+      const rows = statements.stats.all(movieId);
+      const stars = rows.flatMap((r) => (r.stars === null ? [] : [r.stars]));
+      return toReviewStats(rows.length, stars);
+    },
+
+    async lastChanged(movieId) {
+      return statements.lastChanged.get(movieId)?.at ?? null;
+    },
+
+    async findById(id) {
+      const row = statements.findById.get(id);
+      return row ? fromRow(row) : null;
+    },
+
+    async findByAuthor(movieId, authorId) {
+      const row = statements.findByAuthor.get(movieId, authorId);
+      return row ? fromRow(row) : null;
+    },
+
+    async create(input) {
+      return create.immediate(newReview(input));
+    },
+
+    async update(id, changes) {
+      return modify(id, (existing) => ({
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+
+    async setHidden(id, moderation) {
+      return modify(id, (existing) => {
+        const { moderation: _previous, ...rest } = existing;
+        return moderation
+          ? { ...rest, hidden: true, moderation }
+          : { ...rest, hidden: false };
+      });
+    },
+
+    async setHelpful(id, userId, helpful) {
+      return modify(id, (existing) => {
+        const others = existing.helpfulBy.filter((u) => u !== userId);
+        return {
+          ...existing,
+          helpfulBy: helpful ? [...others, userId] : others,
+        };
+      });
+    },
+
+    async delete(id) {
+      return statements.deleteSubtree.run(id).changes > 0;
+    },
+  };
+}
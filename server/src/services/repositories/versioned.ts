@@ -0,0 +1,54 @@
+// server/src/services/repositories/versioned.ts
+// A MovieRepository that counts its writes, so a response built from
+// local movies can be validated (GET /movies' ETag) without reading
+// them again.
+
+import { randomUUID } from "crypto";
+import type { MovieRepository } from "../../types/repository";
+
+/**
+ * A repository with a version that changes after every write.
+ */
+export type VersionedMovieRepository = MovieRepository & {
+  // take it before reading: a write in between then changes it
+  version(): string;
+};
+
+/**
+ * Wrap `repo` so every write made through it changes version(). Changes
+ * made to the data some other way (e.g. editing movies.json by hand)
+ * only show up after a restart.
+ */
+export function withVersion(repo: MovieRepository): VersionedMovieRepository {
+  // new for every process, so versions from before a restart never
+  // come back with other data
+  const instance = randomUUID().slice(0, 8);
+  let writes = 0;
+
+  /**
+   * `write`, bumping the version once it's done, even if it failed
+   * halfway (a version too many only costs a cache miss).
+   */
+  function counted<Args extends unknown[], Result>(
+    write: (...args: Args) => Promise<Result>
+  ) {
+    return async (...args: Args) => {
+      try {
+        return await write(...args);
+      } finally {
+        writes += 1;
+      }
+    };
+  }
+
+  return {
+    ...repo,
+    create: counted(repo.create),
+    replace: counted(repo.replace),
+    update: counted(repo.update),
+    delete: counted(repo.delete),
+    bulkWrite: counted(repo.bulkWrite),
+    restoreSnapshot: repo.restoreSnapshot && counted(repo.restoreSnapshot),
+    version: () => `${instance}.${writes}`,
+  };
+}
@@ -0,0 +1,29 @@
+// Serializes async tasks so read-modify-write cycles can't interleave.
+
+export type WriteQueue = {
+  // run `task` after everything queued before it has settled
+  run<T>(task: () => Promise<T>): Promise<T>;
+
+  // resolves once everything queued so far has settled
+  idle(): Promise<void>;
+};
+
+/**
+ * Create a FIFO queue that runs one task at a time.
+ * A failing task rejects its own promise but doesn't block the queue.
+ */
+export function createWriteQueue(): WriteQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return {
+    run(task) {
+      const result = tail.then(task);
+      tail = result.catch(() => undefined);
+      return result;
+    },
+
+    async idle() {
+      await tail;
+    },
+  };
+}
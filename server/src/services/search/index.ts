@@ -0,0 +1,16 @@
+// server/src/services/search/index.ts
+// The one search index shared by the local store and the providers.
+
+import { createSearchIndex, type SearchIndex } from "./searchIndex";
+
+export * from "./searchIndex";
+export { withSearchIndex } from "./indexedRepository";
+
+const movieIndex = createSearchIndex();
+
+/**
+ * The index over local movies and every cached provider movie.
+ */
+export function getSearchIndex(): SearchIndex {
+  return movieIndex;
+}
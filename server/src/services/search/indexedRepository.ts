@@ -0,0 +1,72 @@
+// server/src/services/search/indexedRepository.ts
+// Keeps the search index in step with a MovieRepository by wrapping it:
+// every successful write is applied to the index as well.
+
+import type { MovieRepository } from "../../types/repository";
+import type { SearchIndex } from "./searchIndex";
+
+/**
+ * Wrap `repo` so local movies stay indexed in `index`.
+ */
+export function withSearchIndex(
+  repo: MovieRepository,
+  index: SearchIndex
+): MovieRepository {
+  /**
+   * Replace every local movie in the index with what the store holds.
+   */
+  async function reindex() {
+    index.removeWhere((m) => m.source === "local");
+    for (const movie of await repo.all()) index.add(movie);
+  }
+
+  return {
+    ...repo,
+
+    async init() {
+      await repo.init();
+
+      // a degraded store is indexed once a snapshot is restored
+      if ((await repo.health()).status === "ok") await reindex();
+    },
+
+    async create(input) {
+      const movie = await repo.create(input);
+      index.add(movie);
+      return movie;
+    },
+
+    async replace(id, input, condition) {
+      const movie = await repo.replace(id, input, condition);
+      if (movie) index.add(movie);
+      return movie;
+    },
+
+    async update(id, changes, condition) {
+      const movie = await repo.update(id, changes, condition);
+      if (movie) index.add(movie);
+      return movie;
+    },
+
+    async bulkWrite(changes) {
+      const result = await repo.bulkWrite(changes);
+      for (const movie of [...result.created, ...result.replaced]) {
+        index.add(movie);
+      }
+      return result;
+    },
+
+    async delete(id, condition) {
+      const deleted = await repo.delete(id, condition);
+      if (deleted) index.remove(id);
+      return deleted;
+    },
+
+    restoreSnapshot:
+      repo.restoreSnapshot &&
+      (async (name) => {
+        await repo.restoreSnapshot!(name);
+        await reindex();
+      }),
+  };
+}
@@ -0,0 +1,97 @@
+// server/src/services/search/searchIndex.test.ts
+// Typo and prefix matching still find every movie they should, now that
+// only terms sharing enough bigrams with a query word are compared.
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Movie } from "../../types/movie";
+import { createSearchIndex } from "./searchIndex";
+
+function movie(id: string, title: string): Movie {
+  return { id, title, year: 2000, source: "local" };
+}
+
+/**
+ * Every way to make `typos` edits of one kind to `word`, e.g. with
+ * "swap": each pair of neighbours swapped.
+ */
+function edits(word: string, kind: "swap" | "drop" | "add" | "change") {
+  const out: string[] = [];
+  for (let i = 0; i < word.length; i++) {
+    const [before, at, after] = [word.slice(0, i), word[i], word.slice(i + 1)];
+    if (kind === "drop") out.push(before + after);
+    if (kind === "add") out.push(`${before}x${at}${after}`);
+    if (kind === "change") out.push(`${before}${at === "q" ? "z" : "q"}${after}`);
+    if (kind === "swap" && after) {
+      out.push(before + after[0] + at + after.slice(1));
+    }
+  }
+  return out.filter((w) => w !== word);
+}
+
+const TITLES = [
+  "Rambo First Blood",
+  "The Terminator",
+  "Amélie",
+  "Spirited Away",
+  "Apocalypse Now",
+  "Heat",
+  "Alien",
+  "Aliens",
+];
+
+const index = createSearchIndex();
+TITLES.forEach((title, i) => index.add(movie(`m${i}`, title)));
+// plenty of other terms to be ruled out
+for (let i = 0; i < 2000; i++) {
+  index.add(movie(`filler${i}`, `Filler ${i.toString(36)}zz Story`));
+}
+
+function finds(query: string, title: string) {
+  return index.search(query).some((hit) => hit.movie.title === title);
+}
+
+test("one typo of any kind in a 4-7 letter word still matches", () => {
+  for (const [word, title] of [
+    ["rambo", "Rambo First Blood"],
+    ["amelie", "Amélie"],
+    ["alien", "Alien"],
+    ["heat", "Heat"],
+  ]) {
+    for (const kind of ["swap", "drop", "add", "change"] as const) {
+      for (const query of edits(word, kind)) {
+        // a dropped letter can make a word too short for typos
+        if (query.length < 4) continue;
+        assert.ok(finds(query, title), `"${query}" should find ${title}`);
+      }
+    }
+  }
+});
+
+test("two typos in a longer word still match", () => {
+  assert.ok(finds("termniatr", "The Terminator"));
+  assert.ok(finds("apocalpyse", "Apocalypse Now"));
+  assert.ok(finds("sprited", "Spirited Away"));
+});
+
+test("prefixes match, from two letters on", () => {
+  for (const query of ["te", "ter", "termin", "terminator"]) {
+    assert.ok(finds(query, "The Terminator"), `"${query}"`);
+  }
+  assert.ok(finds("al", "Aliens"));
+});
+
+test("words too far off don't match", () => {
+  assert.ok(!finds("hext", "Alien"));
+  assert.ok(!finds("hta", "Heat"));
+  assert.deepEqual(index.search("qwvkjp"), []);
+});
+
+test("removed movies leave no terms behind", () => {
+  const small = createSearchIndex();
+  small.add(movie("a", "Rambo"));
+  small.remove("a");
+  small.add(movie("b", "Heat"));
+  assert.deepEqual(small.search("rambo"), []);
+  assert.equal(small.search("haet")[0]?.movie.id, "b");
+});
@@ -0,0 +1,342 @@
+// server/src/services/search/searchIndex.ts
+// In-memory inverted index over movies: folded, tokenized titles, cast
+// and genres, with prefix and typo-tolerant matching and relevance
+// ranking. Documents are added and removed one at a time, so the index
+// follows the store and provider caches without rebuilds.
+
+import type { Movie } from "../../types/movie";
+import { duplicateKey } from "../duplicates";
+import { allowedTypos, editDistance, tokenize, wordSpans } from "./text";
+
+export type SearchField = "title" | "cast" | "genres";
+
+/**
+ * Where a hit matched: `ranges` are [start, end) offsets into `text`.
+ */
+export type SearchHighlight = {
+  field: SearchField;
+  text: string;
+  ranges: [number, number][];
+};
+
+export type SearchHit = {
+  movie: Movie;
+  score: number;
+  highlights: SearchHighlight[];
+};
+
+export type SearchOptions = {
+  // at most this many hits (default: all)
+  limit?: number;
+  // only consider movies this accepts
+  filter?: (movie: Movie) => boolean;
+};
+
+export type SearchIndex = {
+  // add a movie, or replace it if its id is already indexed
+  add(movie: Movie): void;
+  remove(id: string): void;
+  // remove every movie `predicate` accepts (e.g. all local movies)
+  removeWhere(predicate: (movie: Movie) => boolean): void;
+  // best matches first; every query word must match something
+  search(query: string, options?: SearchOptions): SearchHit[];
+  // other indexed copies of the same film (see services/duplicates)
+  duplicatesOf(movie: Movie): Movie[];
+  size(): number;
+};
+
+// Running score of one movie during a search, and the terms that matched
+type Match = { score: number; terms: Set<string> };
+
+// A title match counts more than a cast or genre match
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  cast: 1.5,
+  genres: 1,
+};
+
+// Extra score when the whole query is the title, or starts it
+const EXACT_TITLE_BONUS = 5;
+const TITLE_PREFIX_BONUS = 2;
+
+/**
+ * The searchable texts of a movie, per field.
+ */
+function fieldTexts(movie: Movie): [SearchField, string][] {
+  return [
+    ["title", movie.title],
+    ...(movie.cast ?? []).map((c): [SearchField, string] => ["cast", c.name]),
+    ...(movie.genres ?? []).map((g): [SearchField, string] => ["genres", g]),
+  ];
+}
+
+/**
+ * Every term of a movie with the weight of the best field it appears in.
+ */
+function termsOf(movie: Movie): Map<string, number> {
+  const terms = new Map<string, number>();
+
+  for (const [field, text] of fieldTexts(movie)) {
+    for (const term of tokenize(text)) {
+      terms.set(term, Math.max(terms.get(term) ?? 0, FIELD_WEIGHTS[field]));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * How well an indexed term matches one query word, from 0 (not at all)
+ * to 1 (exact). Prefixes score by how much of the term is typed;
+ * typos score lower the more there are.
+ */
+function matchQuality(word: string, term: string): number {
+  if (word === term) return 1;
+
+  if (word.length >= 2 && term.startsWith(word)) {
+    return 0.5 + 0.4 * (word.length / term.length);
+  }
+
+  const max = allowedTypos(word.length);
+  if (max === 0) return 0;
+
+  const distance = editDistance(word, term, max);
+  return distance <= max ? 0.7 - 0.2 * distance : 0;
+}
+
+/**
+ * The distinct bigrams of a term, with its start and end marked:
+ * "rambo" -> "^r", "ra", "am", "mb", "bo", "o$".
+ */
+function bigrams(term: string): Set<string> {
+  const padded = `^${term}$`;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 1; i++) {
+    grams.add(padded.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Bonus for the title as a whole matching the query.
+ */
+function titleBonus(movie: Movie, words: string[]): number {
+  const title = tokenize(movie.title).join(" ");
+  const query = words.join(" ");
+
+  if (title === query) return EXACT_TITLE_BONUS;
+  if (title.startsWith(query)) return TITLE_PREFIX_BONUS;
+  return 0;
+}
+
+/**
+ * Highlight every word of the movie's fields that is one of `terms`.
+ */
+function highlightsFor(movie: Movie, terms: Set<string>): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+
+  for (const [field, text] of fieldTexts(movie)) {
+    const ranges = wordSpans(text)
+      .filter((w) => terms.has(w.token))
+      .map((w): [number, number] => [w.start, w.end]);
+
+    if (ranges.length) highlights.push({ field, text, ranges });
+  }
+
+  return highlights;
+}
+
+/**
+ * Create an empty index.
+ */
+export function createSearchIndex(): SearchIndex {
+  const docs = new Map<string, { movie: Movie; terms: Map<string, number> }>();
+  // term -> ids of the movies containing it
+  const postings = new Map<string, Set<string>>();
+  // duplicate key -> ids of the copies of that film
+  const copies = new Map<string, Set<string>>();
+  // bigram -> indexed terms containing it, so a query word is only
+  // compared with terms that share enough of its bigrams
+  const termsByBigram = new Map<string, Set<string>>();
+
+  function addTerm(term: string) {
+    for (const gram of bigrams(term)) {
+      let terms = termsByBigram.get(gram);
+      if (!terms) termsByBigram.set(gram, (terms = new Set()));
+      terms.add(term);
+    }
+  }
+
+  function removeTerm(term: string) {
+    for (const gram of bigrams(term)) {
+      const terms = termsByBigram.get(gram);
+      terms?.delete(term);
+      if (terms?.size === 0) termsByBigram.delete(gram);
+    }
+  }
+
+  function remove(id: string) {
+    const doc = docs.get(id);
+    if (!doc) return;
+
+    const key = duplicateKey(doc.movie);
+    const ids = copies.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) copies.delete(key);
+
+    for (const term of doc.terms.keys()) {
+      const ids = postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        postings.delete(term);
+        removeTerm(term);
+      }
+    }
+    docs.delete(id);
+  }
+
+  // rarer terms say more about a match
+  function idf(term: string) {
+    const df = postings.get(term)?.size ?? 0;
+    return 1 + Math.log((docs.size + 1) / (df + 1));
+  }
+
+  /**
+   * Indexed terms that match a query word, with their match quality.
+   * Only terms sharing enough of the word's bigrams are compared: one
+   * that starts with the word has all but its last, and each typo
+   * changes at most three (a swap of neighbours), so a term within
+   * `typos` has all but 3 * typos of them.
+   */
+  function candidates(word: string): Map<string, number> {
+    const grams = bigrams(word);
+    const typos = allowedTypos(word.length);
+    const needed = Math.min(grams.size - 1, grams.size - 3 * typos);
+
+    let terms: Iterable<string>;
+    if (needed > 0) {
+      const shared = new Map<string, number>();
+      for (const gram of grams) {
+        for (const term of termsByBigram.get(gram) ?? []) {
+          shared.set(term, (shared.get(term) ?? 0) + 1);
+        }
+      }
+      terms = [...shared].filter(([, n]) => n >= needed).map(([t]) => t);
+    } else {
+      // too few bigrams to rule anything out
+      terms = postings.keys();
+    }
+
+    const found = new Map<string, number>();
+    for (const term of terms) {
+      const quality = matchQuality(word, term);
+      if (quality > 0) found.set(term, quality);
+    }
+    return found;
+  }
+
+  return {
+    add(movie) {
+      remove(movie.id);
+
+      const terms = termsOf(movie);
+      docs.set(movie.id, { movie, terms });
+
+      for (const term of terms.keys()) {
+        let ids = postings.get(term);
+        if (!ids) {
+          postings.set(term, (ids = new Set()));
+          addTerm(term);
+        }
+        ids.add(movie.id);
+      }
+
+      const key = duplicateKey(movie);
+      let ids = copies.get(key);
+      if (!ids) copies.set(key, (ids = new Set()));
+      ids.add(movie.id);
+    },
+
+    remove,
+
+    removeWhere(predicate) {
+      for (const { movie } of [...docs.values()]) {
+        if (predicate(movie)) remove(movie.id);
+      }
+    },
+
+    search(query, options = {}) {
+      const words = [...new Set(tokenize(query))];
+      if (!words.length) return [];
+
+      let matches: Map<string, Match> | null = null;
+
+      for (const word of words) {
+        const next = new Map<string, Match>();
+
+        for (const [term, quality] of candidates(word)) {
+          const weight = quality * idf(term);
+
+          for (const id of postings.get(term)!) {
+            // every word must match: skip movies an earlier word missed
+            const earlier = matches?.get(id);
+            if (matches && !earlier) continue;
+
+            const doc = docs.get(id)!;
+            const score = weight * doc.terms.get(term)!;
+
+            const entry = next.get(id) ?? {
+              score: 0,
+              terms: new Set(earlier?.terms),
+            };
+            entry.score = Math.max(entry.score, score);
+            entry.terms.add(term);
+            next.set(id, entry);
+          }
+        }
+
+        // add this word's best score to what the earlier words scored
+        if (matches) {
+          for (const [id, entry] of next) {
+            entry.score += matches.get(id)!.score;
+          }
+        }
+
+        matches = next;
+        if (!matches.size) return [];
+      }
+
+      const hits: SearchHit[] = [];
+      for (const [id, { score, terms }] of matches!) {
+        const { movie } = docs.get(id)!;
+        if (options.filter && !options.filter(movie)) continue;
+
+        hits.push({
+          movie,
+          score: score + titleBonus(movie, words),
+          highlights: highlightsFor(movie, terms),
+        });
+      }
+
+      hits.sort(
+        (a, b) =>
+          b.score - a.score || a.movie.title.localeCompare(b.movie.title)
+      );
+
+      return options.limit === undefined
+        ? hits
+        : hits.slice(0, options.limit);
+    },
+
+    duplicatesOf(movie) {
+      const ids = copies.get(duplicateKey(movie)) ?? [];
+      return [...ids]
+        .filter((id) => id !== movie.id)
+        .map((id) => docs.get(id)!.movie);
+    },
+
+    size() {
+      return docs.size;
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// server/src/services/search/text.ts
+// Text folding, tokenizing and typo distance used by the search index.
+
+// Letters and digits; everything else (punctuation, spaces) separates words
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercase and strip diacritics, so "Amélie" and "amelie" compare equal.
+ */
+export function foldText(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Folded words of `text`: "Rambo: First Blood" -> ["rambo", "first", "blood"].
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).match(WORD) ?? [];
+}
+
+/**
+ * Words of `text` with their position in the original (unfolded) string,
+ * for highlighting.
+ */
+export function wordSpans(
+  text: string
+): { token: string; start: number; end: number }[] {
+  return [...text.matchAll(WORD)].map((m) => ({
+    token: foldText(m[0]),
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+}
+
+/**
+ * How many typos a query word of this length may contain.
+ * Short words must match exactly or they'd match almost anything.
+ */
+export function allowedTypos(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Edit distance (insert, delete, substitute, swap neighbours) between a
+ * and b, or max + 1 as soon as it's known to be larger than max.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+
+      if (
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return Math.min(prev[b.length], max + 1);
+}
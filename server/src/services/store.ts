@@ -1,66 +1,107 @@
 // This file is the "local database" layer.
+// It picks the storage backend at startup; routes only see MovieRepository
+// (and ReviewRepository, whose reviews are kept by the same backend).
 
-import fs from "fs/promises";
 import path from "path";
-import type { Movie } from "../types/movie";
+import { getConfig } from "../config";
+import type { MovieRepository } from "../types/repository";
+import type { ReviewRepository } from "../types/review";
+import { getMovieEvents, withMovieEvents } from "./events";
+import { createJsonFileRepository } from "./repositories/jsonFile";
+import { createJsonReviewRepository } from "./repositories/jsonReviews";
+import { createSqliteRepository } from "./repositories/sqlite";
+import { createSqliteReviewRepository } from "./repositories/sqliteReviews";
+import {
+  withVersion,
+  type VersionedMovieRepository,
+} from "./repositories/versioned";
+import { getSearchIndex, withSearchIndex } from "./search";
 
-// Absolute path to data/movies.json (safe no matter where the process is run from)
-const MOVIES_PATH = path.join(process.cwd(), "data", "movies.json");
+export type { LocalMovieInput } from "../types/repository";
+
+export type StoreBackend = "json" | "sqlite";
 
 /**
- * Read the JSON file and return local movies.
- * If the file is missing or invalid, return an empty list.
+ * Where each backend keeps its data, from the configuration. The JSON
+ * backend also snapshots before each write and moves corrupt files aside.
  */
-export async function readLocalMovies(): Promise<Movie[]> {
-  try {
-    const raw = await fs.readFile(MOVIES_PATH, "utf-8");
-    const parsed = JSON.parse(raw) as Movie[];
+export function storePaths() {
+  const { dataDir, store } = getConfig();
+  return {
+    moviesJson: path.join(dataDir, "movies.json"),
+    reviewsJson: path.join(dataDir, "reviews.json"),
+    sqlite: store.sqlitePath,
+    jsonOptions: {
+      backupDir: path.join(dataDir, "backups"),
+      quarantineDir: path.join(dataDir, "quarantine"),
+      backupLimit: store.backupLimit,
+    },
+  };
+}
 
-    // Basic sanity check: ensure it's an array
-    if (!Array.isArray(parsed)) return [];
+let repository: VersionedMovieRepository | null = null;
+let reviewRepository: ReviewRepository | null = null;
 
-    return parsed;
-  } catch {
-    // If file doesn't exist or JSON is bad, treat it as "no local movies yet"
-    return [];
+/**
+ * Create the repository for the configured backend and prepare it.
+ * Backend comes from the configuration (store.backend, or MOVIE_STORE).
+ * Local movies are indexed for search as part of init, and writes are
+ * published (see withMovieEvents) and counted (see withVersion). The
+ * backend's review repository is prepared too (see getReviewRepository).
+ */
+export async function initStore(
+  backend: string = getConfig().store.backend
+): Promise<MovieRepository> {
+  if (backend !== "json" && backend !== "sqlite") {
+    throw new Error(`Unknown MOVIE_STORE "${backend}" (use json or sqlite)`);
   }
+
+  const paths = storePaths();
+  const backendRepository =
+    backend === "sqlite"
+      ? createSqliteRepository(paths.sqlite)
+      : createJsonFileRepository(paths.moviesJson, paths.jsonOptions);
+
+  repository = withVersion(
+    withMovieEvents(
+      withSearchIndex(backendRepository, getSearchIndex()),
+      getMovieEvents()
+    )
+  );
+  reviewRepository =
+    backend === "sqlite"
+      ? createSqliteReviewRepository(paths.sqlite)
+      : createJsonReviewRepository(paths.reviewsJson);
+
+  await Promise.all([repository.init(), reviewRepository.init()]);
+  return repository;
 }
 
 /**
- * Write the full array of local movies back to the JSON file.
+ * Let pending writes finish, then release the backend's files or
+ * database. The store can't be used after this.
  */
-async function writeLocalMovies(movies: Movie[]): Promise<void> {
-  const json = JSON.stringify(movies, null, 2); // pretty print for readability
-  await fs.writeFile(MOVIES_PATH, json, "utf-8");
+export async function closeStore(): Promise<void> {
+  const closing = [repository?.close(), reviewRepository?.close()];
+  repository = null;
+  reviewRepository = null;
+  await Promise.all(closing);
 }
 
 /**
- * Create and persist a new local movie.
- * We generate an id and force source="local" no matter what the caller sends.
+ * The active repository. initStore() must have run first.
  */
-export async function createLocalMovie(input: {
-  title: string;
-  year: number;
-}): Promise<Movie> {
-  const movies = await readLocalMovies();
-
-  const movie: Movie = {
-    id: `local_${Date.now()}`,
-    title: input.title,
-    year: input.year,
-    source: "local",
-  };
-
-  movies.push(movie);
-  await writeLocalMovies(movies);
-
-  return movie;
+export function getMovieRepository(): VersionedMovieRepository {
+  if (!repository) throw new Error("Store not initialised (call initStore)");
+  return repository;
 }
 
 /**
- * Find a local movie by id.
+ * The active backend's reviews. initStore() must have run first.
  */
-export async function findLocalMovieById(id: string): Promise<Movie | null> {
-  const movies = await readLocalMovies();
-  return movies.find((m) => m.id === id) ?? null;
+export function getReviewRepository(): ReviewRepository {
+  if (!reviewRepository) {
+    throw new Error("Store not initialised (call initStore)");
+  }
+  return reviewRepository;
 }
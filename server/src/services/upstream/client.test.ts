@@ -0,0 +1,107 @@
+// server/src/services/upstream/client.test.ts
+// The upstream client against the fake upstream (scripts/fakeUpstream.ts):
+// failures open the circuit, an open circuit fails fast, and a trial
+// request after breakerResetMs closes it again.
+
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { after, before, beforeEach, test } from "node:test";
+import { createFakeUpstream } from "../../scripts/fakeUpstream";
+import { listen, type Listening } from "../../testing/api";
+import { configureLogger } from "../observability";
+import { createUpstreamClient, type Fetcher } from "./client";
+import { CircuitOpenError, UpstreamError } from "./errors";
+
+configureLogger({ level: "error" });
+
+let upstream: Listening;
+// requests that actually went out
+let sent = 0;
+
+const countingFetch: Fetcher = (url, init) => {
+  sent += 1;
+  return fetch(url, init);
+};
+
+function setFaults(faults: { failureRate?: number; latencyMs?: number }) {
+  return fetch(`${upstream.url}/__faults`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(faults),
+  });
+}
+
+function createClient() {
+  return createUpstreamClient({
+    name: "fake",
+    timeoutMs: 200,
+    retries: 0,
+    backoffBaseMs: 1,
+    backoffMaxMs: 1,
+    breakerThreshold: 2,
+    breakerResetMs: 100,
+    fetch: countingFetch,
+  });
+}
+
+before(async () => {
+  upstream = await listen(createFakeUpstream());
+});
+
+after(() => upstream.close());
+
+beforeEach(async () => {
+  await setFaults({ failureRate: 0, latencyMs: 0 });
+  sent = 0;
+});
+
+test("opens after breakerThreshold failures and then fails fast", async () => {
+  const client = createClient();
+  const url = `${upstream.url}/movies/1`;
+  await setFaults({ failureRate: 1 });
+
+  await assert.rejects(client.request(url), UpstreamError);
+  assert.equal(client.status().state, "closed");
+  await assert.rejects(client.request(url), UpstreamError);
+  assert.equal(client.status().state, "open");
+
+  await assert.rejects(client.request(url), CircuitOpenError);
+  assert.equal(sent, 2, "an open circuit doesn't call the upstream");
+});
+
+test("timeouts count as failures", async () => {
+  const client = createClient();
+  await setFaults({ latencyMs: 400 });
+
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(
+      client.request(`${upstream.url}/movies/1`),
+      /timed out/
+    );
+  }
+  assert.equal(client.status().state, "open");
+});
+
+test("closes again once a trial request succeeds", async () => {
+  const client = createClient();
+  const url = `${upstream.url}/movies/1`;
+  await setFaults({ failureRate: 1 });
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(client.request(url), UpstreamError);
+  }
+
+  // a failed trial opens it again
+  await sleep(120);
+  await assert.rejects(client.request(url), UpstreamError);
+  assert.equal(client.status().state, "open");
+
+  await setFaults({ failureRate: 0 });
+  await sleep(120);
+  const res = await client.request(url);
+  assert.equal(res.status, 200);
+  await res.body?.cancel();
+
+  const status = client.status();
+  assert.equal(status.state, "closed");
+  assert.equal(status.consecutiveFailures, 0);
+});
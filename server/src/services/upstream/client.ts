@@ -0,0 +1,249 @@
+// server/src/services/upstream/client.ts
+// fetch() wrapper for third-party APIs: per-attempt timeout, retries with
+// jittered exponential backoff, and a circuit breaker so a dead upstream
+// fails fast instead of tying up every request.
+
+import {
+  currentRequestId,
+  defineCounter,
+  defineHistogram,
+  logger,
+} from "../observability";
+import { CircuitOpenError, UpstreamError } from "./errors";
+
+/**
+ * What requests go out through: fetch(), or a stand-in for it.
+ */
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type UpstreamOptions = {
+  // used in errors and status reports
+  name: string;
+  // per attempt
+  timeoutMs: number;
+  // extra attempts after the first one
+  retries: number;
+  // first retry waits up to this long; doubles each time
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // consecutive failed requests that open the circuit
+  breakerThreshold: number;
+  // how long the circuit stays open before one trial request
+  breakerResetMs: number;
+  // default: the global fetch (see providers/jsonFakeryFixtures)
+  fetch?: Fetcher;
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type UpstreamStatus = {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: string | null;
+};
+
+export type UpstreamClient = {
+  /**
+   * GET `url`. Resolves with the response when the upstream answered
+   * (including 4xx, which callers handle); rejects with UpstreamError
+   * when it didn't, or CircuitOpenError when we didn't try.
+   */
+  request(url: string): Promise<Response>;
+
+  /**
+   * One GET of `url`, to see whether the upstream answers: no retries,
+   * and the circuit breaker neither stops it nor counts it. Rejects with
+   * UpstreamError when the upstream didn't answer (or answered 429/5xx).
+   */
+  probe(url: string): Promise<void>;
+
+  status(): UpstreamStatus;
+};
+
+const upstreamDuration = defineHistogram({
+  name: "upstream_request_duration_seconds",
+  help: "Duration of requests to upstream APIs, per attempt",
+});
+
+const upstreamErrors = defineCounter({
+  name: "upstream_errors_total",
+  help: "Failed upstream attempts and calls refused by an open circuit",
+});
+
+// Attempt outcomes that count as errors (reason label of upstream_errors)
+const FAILED_OUTCOMES = ["timeout", "network", "429", "5xx"];
+
+// 429 and 5xx are worth another try; other 4xx won't change
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a client for one upstream. Breaker state is per client.
+ */
+export function createUpstreamClient(options: UpstreamOptions): UpstreamClient {
+  const { name, fetch: send = fetch } = options;
+
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let lastError: string | null = null;
+  let trialInFlight = false;
+
+  /**
+   * "Full jitter" backoff: random wait in [0, min(max, base * 2^attempt)].
+   */
+  function backoff(attempt: number) {
+    const cap = Math.min(
+      options.backoffMaxMs,
+      options.backoffBaseMs * 2 ** attempt
+    );
+    return Math.random() * cap;
+  }
+
+  /**
+   * Decide whether this request may go out. Throws when the circuit is open.
+   */
+  function admit() {
+    if (state === "open") {
+      if (Date.now() - (openedAt ?? 0) < options.breakerResetMs) {
+        throw new CircuitOpenError(name);
+      }
+      state = "half_open";
+    }
+
+    // half open: exactly one trial request at a time
+    if (state === "half_open") {
+      if (trialInFlight) throw new CircuitOpenError(name);
+      trialInFlight = true;
+    }
+  }
+
+  function recordSuccess() {
+    state = "closed";
+    consecutiveFailures = 0;
+    openedAt = null;
+    trialInFlight = false;
+  }
+
+  function recordFailure(err: Error) {
+    consecutiveFailures += 1;
+    lastError = err.message;
+    trialInFlight = false;
+
+    const tooMany = consecutiveFailures >= options.breakerThreshold;
+    if (state === "half_open" || tooMany) {
+      if (state !== "open") {
+        logger.warn("Circuit opened", { upstream: name, error: err.message });
+      }
+      state = "open";
+      openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Record one attempt's duration and outcome ("2xx", "4xx", "timeout"...).
+   */
+  function measure(startedAt: number, outcome: string) {
+    const seconds = (performance.now() - startedAt) / 1000;
+    upstreamDuration.observe({ upstream: name, outcome }, seconds);
+    if (FAILED_OUTCOMES.includes(outcome)) {
+      upstreamErrors.inc({ upstream: name, reason: outcome });
+    }
+  }
+
+  async function attempt(url: string): Promise<Response> {
+    const headers: Record<string, string> = {};
+    const requestId = currentRequestId();
+    if (requestId) headers["X-Request-Id"] = requestId;
+
+    const startedAt = performance.now();
+    let res: Response;
+    try {
+      res = await send(url, {
+        headers,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+    } catch (err) {
+      const timedOut = err instanceof Error && err.name === "TimeoutError";
+      measure(startedAt, timedOut ? "timeout" : "network");
+      throw new UpstreamError(
+        name,
+        timedOut
+          ? `${name} timed out after ${options.timeoutMs}ms`
+          : `${name} request failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+
+    measure(
+      startedAt,
+      res.status === 429 ? "429" : `${Math.floor(res.status / 100)}xx`
+    );
+
+    if (isRetryableStatus(res.status)) {
+      // free the connection; we won't read this body
+      await res.body?.cancel().catch(() => {});
+      throw new UpstreamError(
+        name,
+        `${name} responded ${res.status}`,
+        res.status
+      );
+    }
+
+    return res;
+  }
+
+  return {
+    async request(url) {
+      try {
+        admit();
+      } catch (err) {
+        upstreamErrors.inc({ upstream: name, reason: "circuit_open" });
+        throw err;
+      }
+
+      let lastFailure: UpstreamError | null = null;
+
+      for (let i = 0; i <= options.retries; i++) {
+        try {
+          const res = await attempt(url);
+          recordSuccess();
+          return res;
+        } catch (err) {
+          lastFailure = err as UpstreamError;
+          logger.warn("Upstream attempt failed", {
+            upstream: name,
+            url,
+            attempt: i + 1,
+            error: lastFailure.message,
+          });
+          if (i < options.retries) await sleep(backoff(i));
+        }
+      }
+
+      recordFailure(lastFailure!);
+      throw lastFailure!;
+    },
+
+    async probe(url) {
+      const res = await attempt(url);
+      await res.body?.cancel().catch(() => {});
+    },
+
+    status() {
+      return {
+        name,
+        state,
+        consecutiveFailures,
+        openedAt: openedAt ? new Date(openedAt).toISOString() : null,
+        lastError,
+      };
+    },
+  };
+}
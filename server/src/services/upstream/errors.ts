@@ -0,0 +1,28 @@
+// server/src/services/upstream/errors.ts
+// Errors raised when a third-party upstream can't be reached.
+
+/**
+ * The upstream failed (network error, timeout or a 5xx/429 response)
+ * after all retries. status is the last HTTP status, if there was one.
+ */
+export class UpstreamError extends Error {
+  upstream: string;
+  status?: number;
+
+  constructor(upstream: string, message: string, status?: number) {
+    super(message);
+    this.name = "UpstreamError";
+    this.upstream = upstream;
+    this.status = status;
+  }
+}
+
+/**
+ * The circuit breaker is open: we didn't even try the upstream.
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor(upstream: string) {
+    super(upstream, `${upstream} is unavailable (circuit open)`);
+    this.name = "CircuitOpenError";
+  }
+}
@@ -0,0 +1,116 @@
+// server/src/testing/api.ts
+// The API running in-process on throwaway data, for the contract check
+// and integration tests. The configuration is read once per process, so
+// start at most one API per process.
+
+import { promises as fs } from "fs";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import type { Express, Router } from "express";
+import { sessionSchema } from "../schemas/responses";
+
+export type Listening = { url: string; close(): void };
+
+// The editor the test API creates at startup (see initAuth)
+export const TEST_EDITOR = { username: "editor", password: "password123" };
+
+export type TestApi = Listening & {
+  app: Express;
+  // every router, in mount order (see app.ts)
+  routers: [string, Router][];
+  // stop the services and delete the throwaway data
+  close(): Promise<void>;
+};
+
+/**
+ * Listen on a free port; resolves to the base URL.
+ */
+export function listen(app: Express): Promise<Listening> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+/**
+ * Sign in to the API (as TEST_EDITOR unless told otherwise); resolves to
+ * the session token.
+ */
+export async function signIn(
+  api: Listening,
+  credentials: { username: string; password: string } = TEST_EDITOR
+): Promise<string> {
+  const res = await fetch(`${api.url}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentials),
+  });
+  return sessionSchema.parse(await res.json()).token;
+}
+
+/**
+ * Start the API in the test profile (no retries, no background syncs)
+ * with its data in a new temp directory. `env` adds settings, e.g.
+ * THIRD_PARTY_BASE_URL (see config.ts).
+ */
+export async function startTestApi(
+  env: Record<string, string> = {}
+): Promise<TestApi> {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "movies-api-"));
+  await fs.mkdir(path.join(dataDir, "data"));
+
+  // before the server's modules are loaded: they read it on first use
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    DATA_DIR: path.join(dataDir, "data"),
+    AUTH_SECRET: "test-secret",
+    ADMIN_USERNAME: TEST_EDITOR.username,
+    ADMIN_PASSWORD: TEST_EDITOR.password,
+    ...env,
+  });
+
+  const { createApp, ROUTERS, STREAMING_ROUTERS } = await import("../app");
+  const providers = await import("../services/providers");
+  const { stopSyncs } = await import("../services/mirror");
+  const { closeAuth, initAuth } = await import("../services/auth");
+  const { closeLists, initLists } = await import("../services/lists");
+  const { closeStore, initStore } = await import("../services/store");
+  const { getConfig } = await import("../config");
+  const { configureLogger } = await import("../services/observability");
+
+  configureLogger({ level: getConfig().logLevel });
+
+  providers.registerDefaultProviders();
+  const app = createApp();
+
+  await Promise.all([
+    initStore(),
+    providers.initProviders(),
+    initAuth(),
+    initLists(),
+  ]);
+  const server = await listen(app);
+
+  return {
+    ...server,
+    app,
+    routers: [...STREAMING_ROUTERS, ...ROUTERS],
+    async close() {
+      await stopSyncs();
+      await Promise.all([
+        providers.closeProviders(),
+        closeAuth(),
+        closeLists(),
+      ]);
+      await closeStore();
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
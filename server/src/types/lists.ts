@@ -0,0 +1,52 @@
+/**
+ * Each user's own lists of movies and ratings. Movie ids may be local or
+ * a provider's; a list keeps an id even if the movie goes away.
+ */
+
+// watchlist and favourites exist for everyone; users add custom ones
+export const BUILT_IN_LISTS = ["watchlist", "favourites"] as const;
+export type BuiltInList = (typeof BUILT_IN_LISTS)[number];
+
+export type ListKind = BuiltInList | "custom";
+
+export type ListItem = {
+  movieId: string;
+
+  // ISO timestamp
+  addedAt: string;
+};
+
+export type MovieList = {
+  // "watchlist" | "favourites" | "list_<uuid>", unique per user
+  id: string;
+
+  userId: string;
+
+  kind: ListKind;
+
+  name: string;
+
+  // oldest first
+  items: ListItem[];
+
+  // ISO timestamp; null for a built-in list never changed
+  updatedAt: string | null;
+};
+
+/**
+ * A user's rating of a movie: stars, when they watched it, or both.
+ */
+export type MovieRating = {
+  userId: string;
+
+  movieId: string;
+
+  // 1–5
+  stars?: number;
+
+  // date only, "YYYY-MM-DD"
+  watchedAt?: string;
+
+  // ISO timestamp
+  updatedAt: string;
+};
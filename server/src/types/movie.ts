@@ -1,3 +1,5 @@
+import type { UserRef } from "./user";
+
 /**
  * Represents the normalized Movie type,
  * regardless of whether the data comes from a local source
@@ -18,4 +20,60 @@ export type Movie = {
 
   // wheter movie comes from local sourse or third party
   source: "api" | "local";
+
+  // when a local movie was added (ISO timestamp); providers don't have one
+  createdAt?: string;
+
+  // when a local movie was last changed (ISO timestamp); unset until then
+  updatedAt?: string;
+
+  // ---- optional details (filled in when known) ----
+
+  // short plot summary
+  overview?: string;
+
+  // e.g. ["Drama", "Action"]
+  genres?: string[];
+
+  // length in minutes
+  runtime?: number;
+
+  // absolute URL of a poster image
+  posterUrl?: string;
+
+  // ISO 639-1 code, e.g. "en"
+  originalLanguage?: string;
+
+  // main cast, in billing order
+  cast?: CastMember[];
+
+  // average rating on a 0–10 scale
+  voteAverage?: number;
+
+  // local movies copied from a provider: where from, and when
+  importedFrom?: MovieOrigin & { importedAt: string };
+
+  // local movies: the user who added it (older movies have none)
+  createdBy?: UserRef;
+};
+
+/**
+ * Where a movie comes from: "local" or a provider name, and its id there.
+ */
+export type MovieOrigin = {
+  source: string;
+  id: string;
 };
+
+export type CastMember = {
+  name: string;
+  character?: string;
+};
+
+/**
+ * The optional descriptive fields of a Movie.
+ */
+export type MovieDetails = Omit<
+  Movie,
+  "id" | "title" | "year" | "source" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,28 @@
+/**
+ * Sorting and filtering options for movie lists, shared by the local
+ * repositories and the provider side of GET /movies.
+ */
+
+export type MovieSortField = "title" | "year" | "createdAt" | "source";
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Requested order. Ties (and movies missing the field) keep their
+ * natural order: insertion order locally, upstream order for providers.
+ */
+export type MovieSort = {
+  field: MovieSortField;
+  order: SortOrder;
+};
+
+/**
+ * Every filter must match. search is a case-insensitive "title contains";
+ * yearFrom / yearTo are inclusive.
+ */
+export type MovieFilters = {
+  search?: string;
+  year?: number;
+  yearFrom?: number;
+  yearTo?: number;
+};
@@ -0,0 +1,58 @@
+import type { Movie } from "./movie";
+import type { CacheStats } from "../services/cache/lruCache";
+import type { UpstreamStatus } from "../services/upstream/client";
+
+/**
+ * One page of normalized movies from a provider.
+ * perPage is the provider's own page size; total is null when unknown.
+ */
+export type ProviderPage = {
+  items: Movie[];
+  perPage: number;
+  total: number | null;
+};
+
+/**
+ * A catalogue of movies we don't own (e.g. jsonfakery).
+ *
+ * Every provider is registered under a unique name (used as ?source=)
+ * and a unique id prefix, so /movies/:id can tell which provider owns an id.
+ * Providers are responsible for normalizing their own payloads into Movie.
+ */
+export interface MovieProvider {
+  // value accepted by ?source=
+  name: string;
+
+  // prefix of every id this provider produces, e.g. "tp_"
+  idPrefix: string;
+
+  // fetch one upstream page (1-based)
+  listPage(page: number): Promise<ProviderPage>;
+
+  // fetch N random movies
+  random(count: number): Promise<Movie[]>;
+
+  // look up one movie by our id (prefix included); null when unknown
+  getById(id: string): Promise<Movie | null>;
+
+  // search by title; providers without a search endpoint filter a page
+  search(query: string, page: number): Promise<ProviderPage>;
+
+  // the whole catalogue in upstream order, when a complete local copy
+  // exists (see services/mirror); null or missing means "ask upstream"
+  catalogue?(): Movie[] | null;
+
+  // optional lifecycle (e.g. load / save a persistent cache)
+  init?(): Promise<void>;
+  close?(): Promise<void>;
+
+  // hit/miss/eviction counters of the provider's movie cache, if it has one
+  cacheStats?(): CacheStats;
+
+  // circuit breaker state of the provider's upstream, if it has one
+  upstreamStatus?(): UpstreamStatus;
+
+  // one cheap request to see whether the upstream answers (readiness);
+  // rejects when it doesn't
+  ping?(): Promise<void>;
+}
@@ -0,0 +1,153 @@
+import type { Movie, MovieDetails } from "./movie";
+import type { MovieFilters, MovieSort } from "./movieQuery";
+
+/**
+ * Fields a caller may set on a local movie.
+ */
+export type LocalMovieInput = {
+  title: string;
+  year: number;
+} & MovieDetails;
+
+/**
+ * Filters, order and window for listing local movies.
+ * Without sort, movies come back in insertion order.
+ */
+export type LocalMovieQuery = MovieFilters & {
+  sort?: MovieSort;
+  offset: number;
+  limit: number;
+};
+
+/**
+ * One window of local movies plus how many matched in total.
+ */
+export type LocalMoviePage = {
+  items: Movie[];
+  total: number;
+};
+
+/**
+ * Many changes applied as one write (see MovieRepository.bulkWrite).
+ */
+export type BulkWrite = {
+  create: LocalMovieInput[];
+  replace: { id: string; input: LocalMovieInput }[];
+};
+
+/**
+ * Keyed lookups of the stored movies, for deciding what to write from
+ * what is there (see MovieRepository.bulkWrite).
+ */
+export type LibraryLookup = {
+  findById(id: string): Movie | null;
+  // the first stored copy of a film, by its duplicateKey (see
+  // services/duplicates)
+  findDuplicate(key: string): Movie | null;
+  // the first local copy of a provider movie, by the provider's id
+  findImport(providerId: string): Movie | null;
+};
+
+/**
+ * Changes to write, or how to work them out from the stored movies.
+ */
+export type BulkWritePlan =
+  | BulkWrite
+  | ((library: LibraryLookup) => BulkWrite);
+
+/**
+ * What a bulk write stored. Replacements whose id no longer exists are
+ * left out.
+ */
+export type BulkWriteResult = {
+  created: Movie[];
+  replaced: Movie[];
+};
+
+/**
+ * Guard for a write to one movie: the write only happens if
+ * `precondition` accepts the stored movie, checked in the same
+ * transaction (or queued write) as the change. Otherwise it throws
+ * MovieChangedError and nothing is written.
+ */
+export type WriteCondition = {
+  precondition?: (existing: Movie) => boolean;
+};
+
+/**
+ * Whether the store can currently be used.
+ * "degraded" means reads/writes are refused (detail says why).
+ */
+export type StoreHealth = {
+  status: "ok" | "degraded";
+  detail?: string;
+};
+
+/**
+ * A point-in-time copy of the store that can be restored.
+ */
+export type StoreSnapshot = {
+  name: string;
+  createdAt: string;
+  sizeBytes: number;
+};
+
+/**
+ * Storage for local movies ("local_*" ids).
+ *
+ * Implementations decide how movies are persisted (JSON file, SQLite, ...);
+ * callers only ever go through this interface. Listing order is
+ * insertion order unless a sort is given. Ids, source="local",
+ * createdAt and updatedAt are always set by the repository.
+ */
+export interface MovieRepository {
+  // prepare storage (create tables, migrate old files, ...)
+  init(): Promise<void>;
+
+  // filtered, sorted, paged list (all done in the backend)
+  list(query: LocalMovieQuery): Promise<LocalMoviePage>;
+
+  // every local movie, in insertion order
+  all(): Promise<Movie[]>;
+
+  findById(id: string): Promise<Movie | null>;
+
+  // answer `read` from keyed lookups of the stored movies (indexed where
+  // the backend has indexes), without loading them all
+  lookup<T>(read: (library: LibraryLookup) => T): Promise<T>;
+
+  create(input: LocalMovieInput): Promise<Movie>;
+
+  // replace a movie; optional fields missing from input are removed
+  // (except importedFrom, which is kept)
+  replace(
+    id: string,
+    input: LocalMovieInput,
+    condition?: WriteCondition
+  ): Promise<Movie | null>;
+
+  // change only the given fields
+  update(
+    id: string,
+    changes: Partial<LocalMovieInput>,
+    condition?: WriteCondition
+  ): Promise<Movie | null>;
+
+  // false when no movie had that id
+  delete(id: string, condition?: WriteCondition): Promise<boolean>;
+
+  // create and replace many movies in one write: all of it or nothing.
+  // A plan function is called inside that write, so no other write can
+  // come between what it looked up and what it returns (e.g. to skip
+  // movies that are already there)
+  bulkWrite(changes: BulkWritePlan): Promise<BulkWriteResult>;
+
+  // release file handles / connections
+  close(): Promise<void>;
+
+  health(): Promise<StoreHealth>;
+
+  // only backends that keep snapshots implement these
+  listSnapshots?(): Promise<StoreSnapshot[]>;
+  restoreSnapshot?(name: string): Promise<void>;
+}
@@ -0,0 +1,129 @@
+import type { UserRef } from "./user";
+
+/**
+ * A user's text review of a movie (local or a provider's), or a reply to
+ * one. Replies form threads under a top-level review.
+ */
+export type Review = {
+  // "review_<uuid>"
+  id: string;
+
+  movieId: string;
+
+  // the review this replies to; null for a top-level review
+  parentId: string | null;
+
+  // the top-level review of the thread (its own id when top-level)
+  threadId: string;
+
+  author: UserRef;
+
+  text: string;
+
+  // 1–5; top-level reviews only, and optional there
+  stars?: number;
+
+  // hidden by a moderator, with its replies
+  hidden: boolean;
+
+  // who hid it, when and why (set while hidden)
+  moderation?: { by: UserRef; at: string; reason?: string };
+
+  // ids of the users who found it helpful
+  helpfulBy: string[];
+
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const REVIEW_SORTS = ["newest", "helpful"] as const;
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+/**
+ * Fields the author sets.
+ */
+export type ReviewInput = Pick<
+  Review,
+  "movieId" | "parentId" | "author" | "text" | "stars"
+>;
+
+/**
+ * Which threads of a movie to list: top-level reviews sorted and paged,
+ * each with all of its replies.
+ */
+export type ReviewQuery = {
+  sort: ReviewSort;
+  offset: number;
+  limit: number;
+  // list hidden top-level reviews too (for moderators)
+  includeHidden: boolean;
+};
+
+export type ReviewThreadPage = {
+  // top-level reviews of the page, in order
+  items: Review[];
+  // every reply in those threads, hidden ones included, oldest first
+  replies: Review[];
+  // top-level reviews in total
+  total: number;
+};
+
+/**
+ * Average of the stars on a movie's visible top-level reviews.
+ */
+export type ReviewStats = {
+  reviews: number;
+  ratings: number;
+  // rounded to one decimal; null without ratings
+  averageRating: number | null;
+};
+
+/**
+ * Storage of reviews. Each movie store backend has one, so reviews live
+ * next to the local movies (a JSON file, or a table in the same SQLite
+ * database).
+ */
+export interface ReviewRepository {
+  init(): Promise<void>;
+
+  // let pending writes finish, then release files / connections
+  close(): Promise<void>;
+
+  listThreads(movieId: string, query: ReviewQuery): Promise<ReviewThreadPage>;
+
+  stats(movieId: string): Promise<ReviewStats>;
+
+  // ISO time of the latest change to the movie's top-level reviews (one
+  // posted, edited or hidden; hidden ones count); null without any
+  lastChanged(movieId: string): Promise<string | null>;
+
+  findById(id: string): Promise<Review | null>;
+
+  // the author's top-level review of the movie, if any
+  findByAuthor(movieId: string, authorId: string): Promise<Review | null>;
+
+  // a second top-level review of a movie by one author throws
+  // DuplicateReviewError, checked in the same write as the insert
+  create(input: ReviewInput): Promise<Review>;
+
+  // null when there's no such review
+  update(
+    id: string,
+    changes: Partial<Pick<Review, "text" | "stars">>
+  ): Promise<Review | null>;
+
+  setHidden(
+    id: string,
+    moderation: Review["moderation"] | null
+  ): Promise<Review | null>;
+
+  setHelpful(
+    id: string,
+    userId: string,
+    helpful: boolean
+  ): Promise<Review | null>;
+
+  // removes the review and every reply below it; false when not found
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,38 @@
+/**
+ * Accounts that can sign in. Anyone may read the catalogue; signing in
+ * is what lets a user change it (see Role).
+ */
+
+// Each role may do what the ones before it may:
+// viewer: read, keep lists, rate and review movies;
+// moderator: also hide reviews; editor: also change the library
+export const ROLES = ["viewer", "moderator", "editor"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type User = {
+  id: string;
+
+  // unique, stored lowercase
+  username: string;
+
+  role: Role;
+
+  // scrypt hash (see services/auth/passwords)
+  passwordHash: string;
+
+  // ISO timestamp
+  createdAt: string;
+};
+
+/**
+ * A user as the API shows it: never with the password hash.
+ */
+export type PublicUser = Omit<User, "passwordHash">;
+
+/**
+ * Who did something, as recorded on the thing they did.
+ */
+export type UserRef = {
+  id: string;
+  username: string;
+};